@@ -0,0 +1,123 @@
+/**
+ * Attendance ingestion benchmark
+ *
+ * Generates a deterministic year-long device export (30 staff, 4 punches per
+ * working day, ~36k lines) and times `/v2/attendance/upload-attendance`
+ * against a running API. The import is rolled back afterwards so the
+ * benchmark can be repeated on the same database.
+ *
+ * Usage:
+ *   node bench/ingest-benchmark.mjs [--url http://localhost:3001] [--staff 30] [--days 365]
+ *   node bench/ingest-benchmark.mjs --write C_bench.dat   (only write the fixture)
+ *
+ * Run it once against a build of the previous per-row ingestion and once
+ * against the current one to compare; use a scratch database. Recorded
+ * timings are in the README (Ingestion Benchmark).
+ */
+import { writeFileSync } from 'fs';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : fallback;
+};
+
+const baseUrl = option('url', 'http://localhost:3001');
+const staff = parseInt(option('staff', '30'), 10);
+const days = parseInt(option('days', '365'), 10);
+const writePath = option('write', null);
+
+/**
+ * Small deterministic PRNG so every run produces the same fixture
+ */
+function createRandom(seed) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function pad(value) {
+  return String(value).padStart(2, '0');
+}
+
+function formatLine(userId, date, minutes, verifyType) {
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  const time = `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}:${pad(userId % 60)}`;
+  return `${String(userId).padStart(9)}\t${day} ${time}\t${verifyType}\t0\t1\t0`;
+}
+
+function generateFixture() {
+  const random = createRandom(42);
+  const lines = [];
+  // Finish yesterday so no punch is rejected as a future date
+  const end = new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), new Date().getUTCDate() - 1));
+
+  for (let d = days - 1; d >= 0; d--) {
+    const date = new Date(end.getTime() - d * 24 * 60 * 60 * 1000);
+    if (date.getUTCDay() === 0) continue; // Sunday off
+
+    for (let userId = 1; userId <= staff; userId++) {
+      if (random() < 0.05) continue; // Absent
+
+      const arrive = 9 * 60 + 15 + Math.floor(random() * 40);
+      const lunchOut = 13 * 60 + Math.floor(random() * 20);
+      const lunchIn = lunchOut + 30 + Math.floor(random() * 15);
+      const leave = 18 * 60 + 15 + Math.floor(random() * 60);
+      const verifyType = random() < 0.1 ? 2 : 1;
+
+      for (const minutes of [arrive, lunchOut, lunchIn, leave]) {
+        lines.push(formatLine(userId, date, minutes, verifyType));
+      }
+    }
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+async function main() {
+  const fixture = generateFixture();
+  const lineCount = fixture.split('\r\n').length - 1;
+
+  if (writePath) {
+    writeFileSync(writePath, fixture);
+    console.log(`Wrote ${lineCount} lines to ${writePath}`);
+    return;
+  }
+
+  console.log(`Fixture: ${staff} staff x ${days} days = ${lineCount} lines (${(fixture.length / 1024).toFixed(0)} KB)`);
+
+  const form = new FormData();
+  form.append('file', new Blob([fixture]), 'C_bench.dat');
+
+  const started = performance.now();
+  const response = await fetch(`${baseUrl}/v2/attendance/upload-attendance?force=true`, {
+    method: 'POST',
+    body: form,
+  });
+  const elapsed = performance.now() - started;
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error(`Upload failed (${response.status}):`, result.message);
+    process.exit(1);
+  }
+
+  console.log(`Upload: ${(elapsed / 1000).toFixed(2)}s — ${result.message}`);
+  console.log(`Throughput: ${Math.round(lineCount / (elapsed / 1000))} lines/s`);
+
+  if (result.batchId) {
+    const rollbackStarted = performance.now();
+    const rollback = await fetch(`${baseUrl}/v2/attendance/batches/${result.batchId}/rollback`, { method: 'POST' });
+    const rollbackResult = await rollback.json();
+    console.log(
+      `Rollback: ${((performance.now() - rollbackStarted) / 1000).toFixed(2)}s — ${rollbackResult.message}`,
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
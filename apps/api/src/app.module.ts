@@ -2,7 +2,23 @@ import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
 import { AttendanceModule } from "./attendance/attendance.module";
 import { V2AttendanceModule } from "./v2/v2-attendance.module";
-import { Employee, Punch, DailyAttendance } from "./v2/entities";
+import {
+  Employee,
+  Punch,
+  DailyAttendance,
+  ImportBatch,
+  ImportProfile,
+  OrganisationSettings,
+  Shift,
+  RosterEntry,
+  RosterPattern,
+  Holiday,
+  LeaveType,
+  LeaveApplication,
+  LeaveOpeningBalance,
+  OvertimeApproval,
+  AuditLog,
+} from "./v2/entities";
 
 import { ServeStaticModule } from "@nestjs/serve-static";
 import { join } from "path";
@@ -29,7 +45,23 @@ const STATIC_PATH =
       username: process.env.DB_USERNAME || "pgadmin",
       password: process.env.DB_PASSWORD || "pgadmin",
       database: process.env.DB_DATABASE || "attendence_db",
-      entities: [Employee, Punch, DailyAttendance],
+      entities: [
+        Employee,
+        Punch,
+        DailyAttendance,
+        ImportBatch,
+        ImportProfile,
+        OrganisationSettings,
+        Shift,
+        RosterEntry,
+        RosterPattern,
+        Holiday,
+        LeaveType,
+        LeaveApplication,
+        LeaveOpeningBalance,
+        OvertimeApproval,
+        AuditLog,
+      ],
       synchronize: false, // Using manual migrations per user's SQL
       // SSL: disabled by default (local dev), set DB_SSL=true for cloud databases
       ssl:
@@ -3,22 +3,29 @@ import {
   Post,
   Body,
   UseInterceptors,
+  UploadedFile,
   UploadedFiles,
   HttpStatus,
   HttpException,
   Res,
 } from "@nestjs/common";
-import { FileFieldsInterceptor } from "@nestjs/platform-express";
+import {
+  FileFieldsInterceptor,
+  FileInterceptor,
+} from "@nestjs/platform-express";
 import { ApiTags, ApiOperation, ApiConsumes, ApiBody } from "@nestjs/swagger";
 import { Response } from "express";
 import * as puppeteer from "puppeteer";
 import { AttendanceService } from "./attendance.service";
 import { ReportTemplateService } from "./report-template.service";
 import { AttendanceSettingsDto } from "./dto/attendance-settings.dto";
+import { ImportProfileService } from "../v2/import-profile.service";
+import { AttlogBinaryParser } from "./parsers/attlog-binary.parser";
 import type {
   AttendanceReport,
   UploadResponse,
   DailyAttendance,
+  ImportProfile,
 } from "@attendance/shared";
 
 interface GenerateReportDto {
@@ -29,13 +36,18 @@ interface GenerateReportDto {
     from: string;
     to: string;
   };
+  timeZone?: string;
   summary?: {
     totalHours?: string;
     avgHours?: string;
     presentDays?: number;
+    halfDays?: number;
     absentDays?: number;
     incompleteDays?: number;
     compDays?: number;
+    weeklyOffDays?: number;
+    holidayDays?: number;
+    leaveDays?: number;
     totalDays?: number;
   };
 }
@@ -51,6 +63,24 @@ interface GeneratePayoutReportDto extends GenerateReportDto {
     compEarning: number;
     totalPayout: number;
     compDayDates: string[];
+    paidHolidayDays?: number;
+    paidHolidayEarning?: number;
+    paidHolidayDates?: string[];
+    holidayWorkHours?: number;
+    holidayRate?: number;
+    holidayEarning?: number;
+    paidLeaveDays?: number;
+    paidLeaveEarning?: number;
+    paidLeaveDates?: string[];
+    penaltyDays?: number;
+    penaltyDeduction?: number;
+    lateDays?: number;
+    earlyOutDays?: number;
+    veryLateDays?: number;
+    overtimeHours?: number;
+    overtimeRate?: number;
+    overtimeEarning?: number;
+    unapprovedOvertimeHours?: number;
   };
 }
 
@@ -59,7 +89,9 @@ interface GeneratePayoutReportDto extends GenerateReportDto {
 export class AttendanceController {
   constructor(
     private readonly attendanceService: AttendanceService,
-    private readonly reportTemplateService: ReportTemplateService
+    private readonly reportTemplateService: ReportTemplateService,
+    private readonly importProfileService: ImportProfileService,
+    private readonly attlogParser: AttlogBinaryParser
   ) {}
 
   @Post("report/attendance-html")
@@ -84,9 +116,13 @@ export class AttendanceController {
             totalHours: { type: "string" },
             avgHours: { type: "string" },
             presentDays: { type: "number" },
+            halfDays: { type: "number" },
             absentDays: { type: "number" },
             incompleteDays: { type: "number" },
             compDays: { type: "number" },
+            weeklyOffDays: { type: "number" },
+            holidayDays: { type: "number" },
+            leaveDays: { type: "number" },
             totalDays: { type: "number" },
           },
         },
@@ -133,9 +169,13 @@ export class AttendanceController {
             totalHours: { type: "string" },
             avgHours: { type: "string" },
             presentDays: { type: "number" },
+            halfDays: { type: "number" },
             absentDays: { type: "number" },
             incompleteDays: { type: "number" },
             compDays: { type: "number" },
+            weeklyOffDays: { type: "number" },
+            holidayDays: { type: "number" },
+            leaveDays: { type: "number" },
             totalDays: { type: "number" },
           },
         },
@@ -150,6 +190,22 @@ export class AttendanceController {
             hoursEarning: { type: "number" },
             compEarning: { type: "number" },
             totalPayout: { type: "number" },
+            paidHolidayDays: { type: "number" },
+            paidHolidayEarning: { type: "number" },
+            holidayWorkHours: { type: "number" },
+            holidayRate: { type: "number" },
+            holidayEarning: { type: "number" },
+            paidLeaveDays: { type: "number" },
+            paidLeaveEarning: { type: "number" },
+            penaltyDays: { type: "number" },
+            penaltyDeduction: { type: "number" },
+            lateDays: { type: "number" },
+            earlyOutDays: { type: "number" },
+            veryLateDays: { type: "number" },
+            overtimeHours: { type: "number" },
+            overtimeRate: { type: "number" },
+            overtimeEarning: { type: "number" },
+            unapprovedOvertimeHours: { type: "number" },
           },
         },
       },
@@ -324,7 +380,8 @@ export class AttendanceController {
         attendanceFile: {
           type: "string",
           format: "binary",
-          description: "Attendance data file (.dat, .txt, .csv)",
+          description:
+            "Attendance data file (.dat, .txt, .csv, or .xlsx with an import profile)",
         },
         userFile: {
           type: "string",
@@ -340,6 +397,11 @@ export class AttendanceController {
             earlyOutThresholdMinutes: { type: "number", example: 15 },
           },
         },
+        profileId: {
+          type: "number",
+          description:
+            "Import profile mapping the columns of another vendor's export",
+        },
       },
       required: ["attendanceFile", "userFile"],
     },
@@ -356,7 +418,8 @@ export class AttendanceController {
       attendanceFile?: Express.Multer.File[];
       userFile?: Express.Multer.File[];
     },
-    @Body("settings") settingsJson?: string
+    @Body("settings") settingsJson?: string,
+    @Body("profileId") profileIdStr?: string
   ): Promise<UploadResponse> {
     try {
       // Validate that we have both files
@@ -390,8 +453,24 @@ export class AttendanceController {
         }
       }
 
+      // Load the column mapping for other vendors' exports
+      let profile: ImportProfile | undefined;
+      if (profileIdStr) {
+        const profileId = parseInt(profileIdStr, 10);
+        if (isNaN(profileId)) {
+          throw new HttpException("Invalid profile ID", HttpStatus.BAD_REQUEST);
+        }
+        try {
+          profile = await this.importProfileService.getProfile(profileId);
+        } catch (error) {
+          throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+        }
+      }
+
       // Validate attendance file type
-      const validExtensions = [".dat", ".txt", ".csv"];
+      const validExtensions = profile
+        ? [".csv", ".txt", ".xlsx"]
+        : [".dat", ".txt", ".csv"];
       const fileExt =
         "." + attendanceFile.originalname.split(".").pop()?.toLowerCase();
       if (!validExtensions.includes(fileExt)) {
@@ -404,7 +483,13 @@ export class AttendanceController {
       }
 
       // Validate attendance file naming convention (Must start with 'C')
-      if (!attendanceFile.originalname.toUpperCase().startsWith("C")) {
+      // Only text device exports follow it, so it does not apply to profile
+      // imports or to binary logs, which are recognised by their content
+      if (
+        !profile &&
+        !this.attlogParser.isBinary(attendanceFile.buffer) &&
+        !attendanceFile.originalname.toUpperCase().startsWith("C")
+      ) {
         throw new HttpException(
           'Attendance file name must start with "C" (e.g., C001.dat)',
           HttpStatus.BAD_REQUEST
@@ -434,7 +519,8 @@ export class AttendanceController {
         attendanceFile.buffer,
         attendanceFile.originalname,
         settings,
-        userFile.buffer
+        userFile.buffer,
+        profile
       );
 
       return {
@@ -487,4 +573,41 @@ export class AttendanceController {
       );
     }
   }
+
+  @Post("debug/user-file")
+  @ApiOperation({
+    summary:
+      "Hex dump of a user data file with the fields decoded from each record",
+  })
+  @ApiConsumes("multipart/form-data")
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        file: { type: "string", format: "binary" },
+      },
+    },
+  })
+  @UseInterceptors(FileInterceptor("file"))
+  async inspectUserFile(@UploadedFile() file: Express.Multer.File) {
+    if (!file) {
+      throw new HttpException("No file uploaded", HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const { recordSize, records } = this.attendanceService.inspectUserFile(
+        file.buffer
+      );
+      return { success: true, recordSize, records };
+    } catch (error) {
+      throw new HttpException(
+        {
+          success: false,
+          message: "Failed to decode user file",
+          error: error.message || "Unknown error",
+        },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
 }
@@ -2,12 +2,23 @@ import { Module } from '@nestjs/common';
 import { AttendanceController } from './attendance.controller';
 import { AttendanceService } from './attendance.service';
 import { DatFileParser } from './parsers/dat-file.parser';
+import { AttlogBinaryParser } from './parsers/attlog-binary.parser';
 import { UserDataParser } from './parsers/user-data.parser';
+import { ProfileFileParser } from './parsers/profile-file.parser';
 import { ReportTemplateService } from './report-template.service';
+import { V2AttendanceModule } from '../v2/v2-attendance.module';
 
 @Module({
+  imports: [V2AttendanceModule],
   controllers: [AttendanceController],
-  providers: [AttendanceService, DatFileParser, UserDataParser, ReportTemplateService],
+  providers: [
+    AttendanceService,
+    DatFileParser,
+    AttlogBinaryParser,
+    ProfileFileParser,
+    UserDataParser,
+    ReportTemplateService,
+  ],
 })
 export class AttendanceModule {}
 
@@ -1,6 +1,10 @@
 import { Injectable } from "@nestjs/common";
 import { DatFileParser } from "./parsers/dat-file.parser";
-import { UserDataParser } from "./parsers/user-data.parser";
+import {
+  UserDataParser,
+  UserRecordDump,
+  UserRecordSize,
+} from "./parsers/user-data.parser";
 import { AttendanceSettingsDto } from "./dto/attendance-settings.dto";
 import {
   RawAttendanceRecord,
@@ -8,13 +12,19 @@ import {
   UserAttendanceSummary,
   AttendanceReport,
   AttendanceSettings,
-  PunchRecord,
-  AttendanceStatus,
+  ImportProfile,
   DEFAULT_SETTINGS,
-  formatDate,
-  formatTime,
-  timeToMinutes,
+  DEFAULT_TIME_ZONE,
+  addDays,
+  getAttendanceDate,
+  isValidTimeZone,
   getVerificationLabel,
+  applyOvertimePolicy,
+  buildCompOffLedger,
+  computeDailyAttendance,
+  getWeekEnd,
+  getWeekStart,
+  summarizeAttendance,
 } from "@attendance/shared";
 
 @Injectable()
@@ -31,13 +41,18 @@ export class AttendanceService {
     buffer: Buffer,
     fileName: string,
     settingsDto?: AttendanceSettingsDto,
-    userFileBuffer?: Buffer
+    userFileBuffer?: Buffer,
+    profile?: ImportProfile
   ): Promise<AttendanceReport> {
     // Merge settings with defaults
     const settings: AttendanceSettings = {
       ...DEFAULT_SETTINGS,
       ...settingsDto,
     };
+    const timeZone = settings.timeZone ?? DEFAULT_TIME_ZONE;
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
 
     // Parse user mapping if provided
     let userMapping: Map<number, string> | undefined;
@@ -51,8 +66,13 @@ export class AttendanceService {
       }
     }
 
-    // Parse raw records from file
-    const rawRecords = await this.datParser.parse(buffer);
+    // Parse raw records from file, keeping a report of rejected lines
+    const { entries, diagnostics } = await this.datParser.parseDetailed(
+      buffer,
+      profile,
+      timeZone
+    );
+    const rawRecords = entries.map((entry) => entry.record);
 
     if (rawRecords.length === 0) {
       throw new Error("No valid attendance records found in file");
@@ -86,16 +106,27 @@ export class AttendanceService {
       fileName,
       processedAt: new Date().toISOString(),
       dateRange: {
-        from: formatDate(minDate),
-        to: formatDate(maxDate),
+        from: getAttendanceDate(minDate, timeZone, settings.dayStartTime),
+        to: getAttendanceDate(maxDate, timeZone, settings.dayStartTime),
       },
       totalRecords: rawRecords.length,
       uniqueUsers: users.length,
       users,
       settings,
+      diagnostics,
     };
   }
 
+  /**
+   * Hex dump of a user data file with the fields decoded from each record
+   */
+  inspectUserFile(buffer: Buffer): {
+    recordSize: UserRecordSize;
+    records: UserRecordDump[];
+  } {
+    return this.userDataParser.dump(buffer);
+  }
+
   /**
    * Group raw records by user ID
    */
@@ -123,118 +154,75 @@ export class AttendanceService {
     settings: AttendanceSettings
   ): UserAttendanceSummary {
     // Group by date
-    const dateRecords = this.groupByDate(records);
-
-    // Find month boundaries from the records
-    const dates = Array.from(dateRecords.keys()).map(
-      (d) => new Date(d + "T00:00:00")
-    );
-    const minDate = new Date(Math.min(...dates.map((d) => d.getTime())));
-    const maxDate = new Date(Math.max(...dates.map((d) => d.getTime())));
+    const dateRecords = this.groupByDate(records, settings);
 
-    // Get start of first month and end of last month
-    const monthStart = new Date(minDate.getFullYear(), minDate.getMonth(), 1);
-    const monthEnd = new Date(maxDate.getFullYear(), maxDate.getMonth() + 1, 0);
+    // Find month boundaries from the records (YYYY-MM-DD strings sort by date)
+    const dates = Array.from(dateRecords.keys()).sort();
+    const monthStart = `${dates[0].slice(0, 7)}-01`;
+    const lastMonthStart = `${dates[dates.length - 1].slice(0, 7)}-01`;
+    // 32 days after the 1st always falls in the following month
+    const nextMonthStart = `${addDays(lastMonthStart, 32).slice(0, 7)}-01`;
+    const monthEnd = addDays(nextMonthStart, -1);
 
-    // Generate all dates in the month range
+    // Generate all dates of the weeks covering the month range
     const allDates: string[] = [];
-    const currentDate = new Date(monthStart);
-    // Use date comparison to avoid time component issues
-    while (currentDate.getTime() <= monthEnd.getTime()) {
-      allDates.push(formatDate(currentDate));
-      currentDate.setDate(currentDate.getDate() + 1);
+    const weekEnd = getWeekEnd(monthEnd);
+    for (
+      let date = getWeekStart(monthStart);
+      date <= weekEnd;
+      date = addDays(date, 1)
+    ) {
+      allDates.push(date);
     }
 
-    // Calculate daily attendance for all dates
-    const dailyRecords: DailyAttendance[] = [];
-    let totalWorkingMinutes = 0;
-    let lateDays = 0;
-    let earlyOutDays = 0;
-    let overtimeMinutes = 0;
-    let presentDays = 0;
-    let absentDays = 0;
-    let incompleteDays = 0;
-    let compDays = 0;
-
-    for (const date of allDates) {
-      const dayRecords = dateRecords.get(date);
-
-      let daily: DailyAttendance;
-      if (dayRecords && dayRecords.length > 0) {
-        // Has punch records - calculate normally
-        daily = this.calculateDailyAttendance(date, dayRecords, settings);
-      } else {
-        // No punch records - mark as ABSENT
-        daily = {
+    // Calculate daily attendance for all dates, then the overtime policy
+    // across them (weekly overtime and caps span days, including those of a
+    // week in the month before or after), keeping the month range's days
+    const dailyRecords: DailyAttendance[] = applyOvertimePolicy(
+      allDates.map((date) =>
+        this.calculateDailyAttendance(
           userId,
           date,
-          firstIn: null,
-          lastOut: null,
-          totalHours: 0,
-          totalMinutes: 0,
-          punches: [],
-          status: "ABSENT",
-          isLate: false,
-          isEarlyOut: false,
-          overtime: 0,
-        };
-      }
-
-      dailyRecords.push(daily);
-
-      // Update statistics
-      if (daily.status === "PRESENT") {
-        totalWorkingMinutes += daily.totalHours * 60 + daily.totalMinutes;
-
-        if (daily.isLate) lateDays++;
-        if (daily.isEarlyOut) earlyOutDays++;
-        if (daily.overtime > 0) overtimeMinutes += daily.overtime;
-
-        presentDays++;
-      } else if (daily.status === "ABSENT") {
-        absentDays++;
-      } else if (daily.status === "INCOMPLETE") {
-        incompleteDays++;
-        totalWorkingMinutes += daily.totalHours * 60 + daily.totalMinutes;
-      } else if (daily.status === "COMP") {
-        compDays++;
-      }
-    }
-
-    const totalDays = dailyRecords.length;
-    const totalWorkingHours = Math.floor(totalWorkingMinutes / 60);
-    const remainingMinutes = Math.round(totalWorkingMinutes % 60);
-    // Calculate average only from complete days (present days)
-    const averageHoursPerDay =
-      presentDays > 0 ? totalWorkingMinutes / 60 / presentDays : 0;
+          dateRecords.get(date) || [],
+          settings
+        )
+      ),
+      settings
+    ).filter((daily) => daily.date >= monthStart && daily.date <= monthEnd);
+
+    // Comp-off credits earned within the uploaded months (nothing is taken
+    // as COMP in memory mode)
+    const { entries, unbackedDays, ...compOffBalance } = buildCompOffLedger(
+      userId,
+      dailyRecords,
+      settings,
+      monthEnd
+    );
 
     return {
       userId,
-      totalDays,
-      presentDays,
-      absentDays,
-      incompleteDays,
-      compDays,
-      totalWorkingHours,
-      totalWorkingMinutes: remainingMinutes,
-      averageHoursPerDay: Math.round(averageHoursPerDay * 100) / 100,
-      lateDays,
-      earlyOutDays,
-      overtimeMinutes,
+      ...summarizeAttendance(dailyRecords, settings),
+      compOffBalance,
       dailyRecords,
     };
   }
 
   /**
-   * Group records by date
+   * Group records by attendance day (punches before the day start time
+   * belong to the previous day)
    */
   private groupByDate(
-    records: RawAttendanceRecord[]
+    records: RawAttendanceRecord[],
+    settings: AttendanceSettings
   ): Map<string, RawAttendanceRecord[]> {
     const map = new Map<string, RawAttendanceRecord[]>();
 
     for (const record of records) {
-      const date = formatDate(record.timestamp);
+      const date = getAttendanceDate(
+        record.timestamp,
+        settings.timeZone ?? DEFAULT_TIME_ZONE,
+        settings.dayStartTime
+      );
       const existing = map.get(date) || [];
       existing.push(record);
       map.set(date, existing);
@@ -244,99 +232,21 @@ export class AttendanceService {
   }
 
   /**
-   * Calculate attendance for a single day
+   * Calculate attendance for a single day (days without punches are ABSENT,
+   * or WEEKLY_OFF on the user's weekly off)
    */
   private calculateDailyAttendance(
+    userId: number,
     date: string,
     records: RawAttendanceRecord[],
     settings: AttendanceSettings
   ): DailyAttendance {
-    // Sort records by time
-    const sortedRecords = [...records].sort(
-      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
-    );
-
-    const punchCount = sortedRecords.length;
-
-    // Extract punches with pair information
-    const punches: PunchRecord[] = sortedRecords.map((r, index) => {
-      const isEvenIndex = index % 2 === 0;
-      const isPaired = isEvenIndex ? index + 1 < punchCount : true;
-
-      return {
-        time: formatTime(r.timestamp),
-        type: isEvenIndex ? "IN" : "OUT",
-        verificationType: getVerificationLabel(r.verificationType),
-        isPaired,
-      };
-    });
-
-    // Get first in and last out
-    const firstIn = punches.length > 0 ? punches[0].time : null;
-    const lastOut =
-      punches.length > 1 ? punches[punches.length - 1].time : null;
-
-    // Calculate working hours using pair-based logic
-    // Sum of (punch1-punch2) + (punch3-punch4) + ...
-    let totalMinutes = 0;
-
-    for (let i = 0; i < sortedRecords.length - 1; i += 2) {
-      const inTime = formatTime(sortedRecords[i].timestamp);
-      const outTime = formatTime(sortedRecords[i + 1].timestamp);
+    const punches = records.map((r) => ({
+      timestamp: r.timestamp,
+      verificationType: getVerificationLabel(r.verificationType),
+      state: r.inOutStatus,
+    }));
 
-      const inMinutes = timeToMinutes(inTime);
-      const outMinutes = timeToMinutes(outTime);
-      const duration = Math.max(0, outMinutes - inMinutes);
-
-      totalMinutes += duration;
-    }
-
-    const totalHours = Math.floor(totalMinutes / 60);
-    const remainingMinutes = Math.round(totalMinutes % 60);
-
-    // Determine status based on punch count
-    let status: AttendanceStatus;
-    if (punchCount === 0) {
-      status = "ABSENT";
-    } else if (punchCount % 2 === 0) {
-      status = "PRESENT";
-    } else {
-      status = "INCOMPLETE";
-    }
-
-    // Check if late (only for complete days)
-    const workStartMinutes = timeToMinutes(settings.workStartTime);
-    const firstInMinutes = firstIn ? timeToMinutes(firstIn) : 0;
-    const isLate =
-      status === "PRESENT" &&
-      firstIn !== null &&
-      firstInMinutes > workStartMinutes + settings.lateThresholdMinutes;
-
-    // Check if early out (only for complete days)
-    const workEndMinutes = timeToMinutes(settings.workEndTime);
-    const lastOutMinutes = lastOut ? timeToMinutes(lastOut) : 0;
-    const isEarlyOut =
-      status === "PRESENT" &&
-      lastOut !== null &&
-      lastOutMinutes < workEndMinutes - settings.earlyOutThresholdMinutes;
-
-    // Calculate overtime (only for complete days)
-    const expectedMinutes = workEndMinutes - workStartMinutes;
-    const overtime =
-      status === "PRESENT" ? Math.max(0, totalMinutes - expectedMinutes) : 0;
-
-    return {
-      userId: records[0].userId,
-      date,
-      firstIn,
-      lastOut,
-      totalHours,
-      totalMinutes: remainingMinutes,
-      punches,
-      status,
-      isLate,
-      isEarlyOut,
-      overtime,
-    };
+    return computeDailyAttendance(userId, date, punches, settings).attendance;
   }
 }
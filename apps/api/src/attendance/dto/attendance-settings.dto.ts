@@ -1,5 +1,18 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsNumber, Min, Max } from 'class-validator';
+import {
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsString,
+  IsNumber,
+  IsIn,
+  IsInt,
+  IsObject,
+  Matches,
+  Min,
+  Max,
+} from 'class-validator';
+import type { EmployeeLeave, Holiday, OvertimeMode, PairingMode } from '@attendance/shared';
 
 export class AttendanceSettingsDto {
   @ApiPropertyOptional({ example: '09:30', description: 'Work start time (HH:MM)' })
@@ -25,4 +38,214 @@ export class AttendanceSettingsDto {
   @Min(0)
   @Max(120)
   earlyOutThresholdMinutes?: number;
+
+  @ApiPropertyOptional({
+    example: 4,
+    description: 'Minimum hours for a full day; fewer make a working day HALF_DAY',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(24)
+  fullDayHours?: number | null;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: 'Minimum hours for a half day; fewer make a working day ABSENT',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(24)
+  halfDayHours?: number | null;
+
+  @ApiPropertyOptional({
+    example: 30,
+    description: 'Unpaid lunch taken off a day of one in/out pair longer than lunchDeductionAfterHours',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  lunchDeductionMinutes?: number;
+
+  @ApiPropertyOptional({ example: 5, description: 'Deduct the lunch only from pairs longer than this many hours' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(24)
+  lunchDeductionAfterHours?: number | null;
+
+  @ApiPropertyOptional({ example: 15, description: 'Breaks between pairs counted as worked, up to this many minutes' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  maxPaidBreakMinutes?: number;
+
+  @ApiPropertyOptional({ example: 60, description: 'A single break longer than this many minutes flags the day' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  longBreakMinutes?: number | null;
+
+  @ApiPropertyOptional({ example: 60, description: 'Punches this many seconds after the last kept one are ignored' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(3600)
+  debounceSeconds?: number;
+
+  @ApiPropertyOptional({
+    enum: [0, 5, 10, 15],
+    description: 'Round in/out times to the nearest multiple of these minutes for worked time (0 for off)',
+  })
+  @IsOptional()
+  @IsIn([0, 5, 10, 15])
+  roundingMinutes?: number;
+
+  @ApiPropertyOptional({ example: 3, description: 'Every this many late marks in a month deduct markPenaltyDays' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  lateMarksPerPenalty?: number | null;
+
+  @ApiPropertyOptional({ example: 3, description: 'Every this many early exits in a month deduct markPenaltyDays' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  earlyOutMarksPerPenalty?: number | null;
+
+  @ApiPropertyOptional({ example: 0.5, description: 'Days deducted per penalty of late or early-out marks' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(31)
+  markPenaltyDays?: number;
+
+  @ApiPropertyOptional({ example: 60, description: 'Arriving more than this many minutes late deducts veryLatePenaltyDays' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  veryLateMinutes?: number | null;
+
+  @ApiPropertyOptional({ example: 0.5, description: 'Days deducted per very late day' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  veryLatePenaltyDays?: number;
+
+  @ApiPropertyOptional({
+    enum: ['DAILY', 'WEEKLY'],
+    description: 'Overtime past each day\'s expected hours, or past overtimeWeeklyHours in a week',
+  })
+  @IsOptional()
+  @IsIn(['DAILY', 'WEEKLY'])
+  overtimeMode?: OvertimeMode;
+
+  @ApiPropertyOptional({ example: 48, description: 'Weekly hours before overtime (WEEKLY mode)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(168)
+  overtimeWeeklyHours?: number;
+
+  @ApiPropertyOptional({ example: 30, description: 'Overtime shorter than this many minutes does not count' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(1440)
+  overtimeMinimumMinutes?: number;
+
+  @ApiPropertyOptional({ example: true, description: 'Whether time before the work start counts towards overtime' })
+  @IsOptional()
+  @IsBoolean()
+  overtimeCountsPreShift?: boolean;
+
+  @ApiPropertyOptional({ example: 120, description: 'Overtime counted per day at most (minutes)' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(1440)
+  overtimeDailyCapMinutes?: number | null;
+
+  @ApiPropertyOptional({ example: 600, description: 'Overtime counted per week at most (minutes)' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10080)
+  overtimeWeeklyCapMinutes?: number | null;
+
+  @ApiPropertyOptional({ example: 90, description: 'Days a comp-off credit stays usable; null = never expires' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  compOffExpiryDays?: number | null;
+
+  @ApiPropertyOptional({
+    enum: ['ALTERNATE', 'DEVICE_STATE'],
+    description: 'Label punches IN/OUT by position or by the device check state',
+  })
+  @IsOptional()
+  @IsIn(['ALTERNATE', 'DEVICE_STATE'])
+  pairingMode?: PairingMode;
+
+  @ApiPropertyOptional({
+    example: 'Asia/Kolkata',
+    description: 'IANA time zone of the device clock, used to bucket punches into days',
+  })
+  @IsOptional()
+  @IsString()
+  timeZone?: string;
+
+  @ApiPropertyOptional({
+    example: '05:00',
+    description: 'Attendance day start (HH:MM); earlier punches belong to the previous day',
+  })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'dayStartTime must be HH:MM' })
+  dayStartTime?: string;
+
+  @ApiPropertyOptional({
+    example: [0],
+    description: 'Weekly off days for everyone (0=Sun ... 6=Sat); days without punches on them are WEEKLY_OFF',
+  })
+  @IsOptional()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  weeklyOffDays?: number[];
+
+  @ApiPropertyOptional({
+    example: { '5': [2], '16': [1] },
+    description: 'Weekly off days per user ID, overriding weeklyOffDays',
+  })
+  @IsOptional()
+  @IsObject()
+  employeeWeeklyOffDays?: Record<number, number[]>;
+
+  @ApiPropertyOptional({
+    example: [{ date: '2026-01-26', name: 'Republic Day', isPaid: true, location: null }],
+    description: 'Holiday calendar; days without punches on a holiday are HOLIDAY',
+  })
+  @IsOptional()
+  @IsArray()
+  holidays?: Holiday[];
+
+  @ApiPropertyOptional({
+    example: { '5': 'Pune' },
+    description: 'Location per user ID, for holidays that apply to one location',
+  })
+  @IsOptional()
+  @IsObject()
+  employeeLocations?: Record<number, string>;
+
+  @ApiPropertyOptional({
+    example: [{ userId: 5, fromDate: '2026-03-02', toDate: '2026-03-04', name: 'Casual', isPaid: true }],
+    description: 'Approved leave; days without punches in it are LEAVE',
+  })
+  @IsOptional()
+  @IsArray()
+  leaves?: EmployeeLeave[];
 }
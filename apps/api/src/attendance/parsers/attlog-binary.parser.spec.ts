@@ -0,0 +1,103 @@
+import { HttpException } from '@nestjs/common';
+import { describe, expect, it } from 'vitest';
+import { AttendanceController } from '../attendance.controller';
+import { AttendanceService } from '../attendance.service';
+import { ReportTemplateService } from '../report-template.service';
+import { ImportProfileService } from '../../v2/import-profile.service';
+import { AttlogBinaryParser } from './attlog-binary.parser';
+import { DatFileParser } from './dat-file.parser';
+import { ProfileFileParser } from './profile-file.parser';
+import { UserDataParser } from './user-data.parser';
+
+const BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+const TEXT_EXPORT = ['5\t2025-12-01 09:47:09\t1\t0\t1\t0', '5\t2025-12-01 18:02:41\t1\t1\t1\t0', ''].join('\r\n');
+
+/**
+ * A 16-byte record: user_id(4) | time(4) | verify(1) | state(1) | reserved(2) | work_code(4)
+ */
+function binaryRecord(userId: number, year: number, month: number, day: number, hour: number, minute: number): Buffer {
+  const bytes = Buffer.alloc(16);
+  const time = (((((year - 2000) * 12 + month - 1) * 31 + day - 1) * 24 + hour) * 60 + minute) * 60;
+  bytes.writeUInt32LE(userId, 0);
+  bytes.writeUInt32LE(time, 4);
+  bytes[8] = 1;
+  return bytes;
+}
+
+describe('AttlogBinaryParser.isBinary', () => {
+  const parser = new AttlogBinaryParser();
+
+  it('reads a plain text export as text', () => {
+    expect(parser.isBinary(Buffer.from(TEXT_EXPORT))).toBe(false);
+  });
+
+  it('reads a BOM-prefixed text export as text', () => {
+    expect(parser.isBinary(Buffer.concat([BOM, Buffer.from(TEXT_EXPORT)]))).toBe(false);
+  });
+
+  it('reads non-ASCII text as text', () => {
+    expect(parser.isBinary(Buffer.from('5\t2025-12-01 09:47:09\t1\t0\t1\t0\tRamesh Kumār\n'))).toBe(false);
+  });
+
+  it('reads device records as binary', () => {
+    const log = Buffer.concat([binaryRecord(5, 2025, 12, 1, 9, 47), binaryRecord(5, 2025, 12, 1, 18, 2)]);
+    expect(parser.isBinary(log)).toBe(true);
+  });
+});
+
+describe('DatFileParser', () => {
+  const parser = new DatFileParser(new AttlogBinaryParser(), new ProfileFileParser());
+
+  it('parses a BOM-prefixed text export', async () => {
+    const { entries, diagnostics } = await parser.parseDetailed(
+      Buffer.concat([BOM, Buffer.from(TEXT_EXPORT)]),
+      null,
+      'UTC',
+    );
+
+    expect(diagnostics.issues).toEqual([]);
+    expect(entries.map((entry) => entry.record.userId)).toEqual([5, 5]);
+    expect(entries.map((entry) => entry.record.timestamp.toISOString())).toEqual([
+      '2025-12-01T09:47:09.000Z',
+      '2025-12-01T18:02:41.000Z',
+    ]);
+  });
+});
+
+describe('AttendanceController.uploadFile', () => {
+  const attlogParser = new AttlogBinaryParser();
+  const controller = new AttendanceController(
+    new AttendanceService(new DatFileParser(attlogParser, new ProfileFileParser()), new UserDataParser()),
+    new ReportTemplateService(),
+    {} as ImportProfileService,
+    attlogParser,
+  );
+
+  // One 72-byte user record: uid 1, named "Asha", enrolment number 5
+  const userFile = Buffer.alloc(72);
+  userFile.writeUInt16LE(1, 0);
+  userFile.write('Asha', 11);
+  userFile.write('5', 48);
+
+  const upload = (name: string, buffer: Buffer) =>
+    controller.uploadFile({
+      attendanceFile: [{ originalname: name, buffer } as Express.Multer.File],
+      userFile: [{ originalname: 'user.dat', buffer: userFile } as Express.Multer.File],
+    });
+
+  it('accepts a binary log whatever it is named', async () => {
+    const log = Buffer.concat([binaryRecord(5, 2025, 12, 1, 9, 47), binaryRecord(5, 2025, 12, 1, 18, 2)]);
+
+    const response = await upload('attlog.dat', log);
+
+    expect(response.success).toBe(true);
+    expect(response.report?.totalRecords).toBe(2);
+    expect(response.report?.users[0]).toMatchObject({ userId: 5, userName: 'Asha' });
+  });
+
+  it('still wants text exports named C*', async () => {
+    await expect(upload('attlog.dat', Buffer.from(TEXT_EXPORT))).rejects.toThrow(HttpException);
+    expect((await upload('C001.dat', Buffer.from(TEXT_EXPORT))).success).toBe(true);
+  });
+});
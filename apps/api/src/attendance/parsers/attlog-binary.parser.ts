@@ -0,0 +1,199 @@
+import { Injectable } from '@nestjs/common';
+import { DEFAULT_TIME_ZONE, parseZonedDateTime } from '@attendance/shared';
+import type { LineResult } from './dat-file.parser';
+
+/**
+ * Fixed-size record layouts written by ZKTeco devices on USB export
+ * 40: TFT/SSR devices (string user ID), 16: 4-byte user ID with work code,
+ * 8: legacy black & white devices (2-byte user ID)
+ */
+export type AttlogRecordSize = 40 | 16 | 8;
+
+/**
+ * A decoded binary record, with its 1-based position and hex dump
+ */
+export interface AttlogRecord {
+  index: number;
+  raw: string;
+  result: LineResult;
+}
+
+const RECORD_SIZES: AttlogRecordSize[] = [40, 16, 8];
+
+// Records sampled when guessing the layout, and the minimum share that must
+// decode cleanly for a layout to be considered
+const DETECT_SAMPLE = 50;
+const DETECT_MIN_VALID = 0.5;
+
+@Injectable()
+export class AttlogBinaryParser {
+  /**
+   * Whether the buffer looks like a binary log rather than a text export
+   */
+  isBinary(buffer: Buffer): boolean {
+    // Text exports saved by Windows tools often start with a UTF-8 BOM
+    const start = buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf ? 3 : 0;
+    const head = buffer.subarray(start, start + 512);
+    for (const byte of head) {
+      // Binary records are full of NULs and other control bytes, which text
+      // never contains beyond tabs and line breaks; high bytes may be UTF-8 names
+      if (byte === 0x09 || byte === 0x0a || byte === 0x0d) continue;
+      if (byte < 0x20) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Guess the record layout: among the sizes that divide the file evenly, the
+   * one whose sampled records most often carry plausible user IDs and timestamps
+   */
+  detectRecordSize(buffer: Buffer): AttlogRecordSize | null {
+    let best: AttlogRecordSize | null = null;
+    let bestScore = DETECT_MIN_VALID;
+
+    for (const size of RECORD_SIZES) {
+      if (buffer.length === 0 || buffer.length % size !== 0) continue;
+
+      let sampled = 0;
+      let valid = 0;
+      for (let offset = 0; offset < buffer.length && sampled < DETECT_SAMPLE; offset += size) {
+        const bytes = buffer.subarray(offset, offset + size);
+        if (bytes.every((byte) => byte === 0)) continue;
+
+        sampled++;
+        const result = this.decodeRecord(bytes, size);
+        if ('record' in result && this.isPlausibleYear(result.record.timestamp)) {
+          valid++;
+        }
+      }
+
+      const score = sampled > 0 ? valid / sampled : 0;
+      if (score > bestScore || (score === bestScore && best === null)) {
+        best = size;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Decode every record of a binary attendance log
+   * The device clock is read as local time in the given zone
+   */
+  parse(buffer: Buffer, timeZone: string = DEFAULT_TIME_ZONE): AttlogRecord[] {
+    const size = this.detectRecordSize(buffer);
+    if (!size) {
+      throw new Error(
+        `Unrecognised binary attendance log (${buffer.length} bytes is not a known ${RECORD_SIZES.join('/')}-byte record layout)`,
+      );
+    }
+
+    const records: AttlogRecord[] = [];
+    for (let offset = 0, index = 1; offset < buffer.length; offset += size, index++) {
+      const bytes = buffer.subarray(offset, offset + size);
+      // Devices pad the end of the log with zeroed records
+      if (bytes.every((byte) => byte === 0)) continue;
+
+      records.push({
+        index,
+        raw: bytes.toString('hex'),
+        result: this.decodeRecord(bytes, size, timeZone),
+      });
+    }
+    return records;
+  }
+
+  /**
+   * Decode a single record of the given layout
+   */
+  private decodeRecord(
+    bytes: Buffer,
+    size: AttlogRecordSize,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): LineResult {
+    let userId: number;
+    let verificationType: number;
+    let inOutStatus: number;
+    let workCode = 0;
+    let encodedTime: number;
+
+    if (size === 40) {
+      // uid(2) | user_id(24, ASCII) | verify(1) | time(4) | state(1) | reserved(8)
+      const userIdStr = bytes.subarray(2, 26).toString('ascii').replace(/\0.*$/s, '').trim();
+      userId = /^\d+$/.test(userIdStr) ? parseInt(userIdStr, 10) : bytes.readUInt16LE(0);
+      verificationType = bytes[26];
+      encodedTime = bytes.readUInt32LE(27);
+      inOutStatus = bytes[31];
+    } else if (size === 16) {
+      // user_id(4) | time(4) | verify(1) | state(1) | reserved(2) | work_code(4)
+      userId = bytes.readUInt32LE(0);
+      encodedTime = bytes.readUInt32LE(4);
+      verificationType = bytes[8];
+      inOutStatus = bytes[9];
+      workCode = bytes.readUInt32LE(12);
+    } else {
+      // uid(2) | verify(1) | time(4) | state(1)
+      userId = bytes.readUInt16LE(0);
+      verificationType = bytes[2];
+      encodedTime = bytes.readUInt32LE(3);
+      inOutStatus = bytes[7];
+    }
+
+    if (userId <= 0) {
+      return { reason: 'INVALID_USER_ID', message: `"${userId}" is not a valid user ID` };
+    }
+
+    const timestamp = this.decodeTime(encodedTime, timeZone);
+    if (isNaN(timestamp.getTime())) {
+      return { reason: 'INVALID_TIMESTAMP', message: `0x${encodedTime.toString(16)} is not a valid device timestamp` };
+    }
+
+    return {
+      record: {
+        userId,
+        timestamp,
+        verificationType,
+        inOutStatus,
+        workCode,
+        reserved: 0,
+      },
+    };
+  }
+
+  /**
+   * Decode the packed device clock value
+   * Layout: ((((year - 2000) * 12 + month - 1) * 31 + day - 1) * 24 + hour) * 60 + minute) * 60 + second
+   */
+  private decodeTime(value: number, timeZone: string): Date {
+    let t = value;
+    const second = t % 60;
+    t = Math.floor(t / 60);
+    const minute = t % 60;
+    t = Math.floor(t / 60);
+    const hour = t % 24;
+    t = Math.floor(t / 24);
+    const day = (t % 31) + 1;
+    t = Math.floor(t / 31);
+    const month = (t % 12) + 1;
+    const year = Math.floor(t / 12) + 2000;
+
+    // Reject impossible dates such as 31 February instead of rolling them over
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (day > daysInMonth) return new Date(NaN);
+
+    const pad = (n: number) => String(n).padStart(2, '0');
+    // Device clock is local time, same as the text export
+    return parseZonedDateTime(
+      `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}`,
+      timeZone,
+    );
+  }
+
+  /**
+   * Layout detection guard: decoded garbage tends to land far outside this range
+   */
+  private isPlausibleYear(timestamp: Date): boolean {
+    const year = timestamp.getUTCFullYear();
+    return year >= 2000 && year <= new Date().getUTCFullYear() + 1;
+  }
+}
@@ -1,101 +1,220 @@
 import { Injectable } from '@nestjs/common';
 import { Readable } from 'stream';
 import * as readline from 'readline';
-import type { RawAttendanceRecord } from '@attendance/shared';
+import { AttlogBinaryParser } from './attlog-binary.parser';
+import { ProfileFileParser } from './profile-file.parser';
+import {
+  addImportIssue,
+  createImportDiagnostics,
+  DEFAULT_TIME_ZONE,
+  parseZonedDateTime,
+} from '@attendance/shared';
+import type {
+  RawAttendanceRecord,
+  ImportDiagnostics,
+  ImportIssueReason,
+  ImportProfile,
+} from '@attendance/shared';
+
+/**
+ * A successfully parsed line, with its position in the source file
+ */
+export interface ParsedDatLine {
+  line: number;
+  raw: string;
+  record: RawAttendanceRecord;
+}
+
+/**
+ * Outcome of decoding one line (or binary record)
+ */
+export type LineResult =
+  | { record: RawAttendanceRecord }
+  | { reason: ImportIssueReason; message: string };
 
 @Injectable()
 export class DatFileParser {
+  constructor(
+    private readonly attlogParser: AttlogBinaryParser,
+    private readonly profileParser: ProfileFileParser,
+  ) {}
+
   /**
    * Parse .dat file buffer using streaming
    * Format: USER_ID\tTIMESTAMP\tVERIFY_TYPE\tIN_OUT\tWORK_CODE\tRESERVED
+   * Binary device logs (ZKTeco attlog) are detected and decoded as well
+   */
+  async parse(buffer: Buffer, timeZone: string = DEFAULT_TIME_ZONE): Promise<RawAttendanceRecord[]> {
+    const { entries } = await this.parseDetailed(buffer, null, timeZone);
+    return entries.map((entry) => entry.record);
+  }
+
+  /**
+   * Parse .dat file buffer and report every rejected line
+   * Lines repeating an earlier user/timestamp in the same file are rejected as duplicates
+   * For binary logs, "line" is the 1-based record number and "raw" its hex dump
+   * With an import profile, the file is read as a CSV/XLSX export using its column mapping
+   * Timestamps are device local time in the given zone
+   */
+  async parseDetailed(
+    buffer: Buffer,
+    profile?: ImportProfile | null,
+    timeZone: string = DEFAULT_TIME_ZONE,
+  ): Promise<{ entries: ParsedDatLine[]; diagnostics: ImportDiagnostics }> {
+    const entries: ParsedDatLine[] = [];
+    const diagnostics = createImportDiagnostics();
+    const seen = new Map<string, number>(); // "userId|epochMs" -> line
+    const now = Date.now();
+
+    const source = profile
+      ? this.profileParser.parse(buffer, profile, timeZone)
+      : this.attlogParser.isBinary(buffer)
+        ? this.readBinaryRecords(buffer, timeZone)
+        : this.readTextLines(buffer, timeZone);
+
+    for await (const { line, raw, result } of source) {
+      diagnostics.totalLines++;
+
+      if (!('record' in result)) {
+        addImportIssue(diagnostics, { line, raw, ...result });
+        continue;
+      }
+
+      const { record } = result;
+      if (record.timestamp.getTime() > now) {
+        addImportIssue(diagnostics, {
+          line,
+          raw,
+          reason: 'FUTURE_DATE',
+          message: `Timestamp ${record.timestamp.toISOString()} is in the future`,
+        });
+        continue;
+      }
+
+      const key = `${record.userId}|${record.timestamp.getTime()}`;
+      const firstLine = seen.get(key);
+      if (firstLine !== undefined) {
+        addImportIssue(diagnostics, {
+          line,
+          raw,
+          reason: 'DUPLICATE',
+          message: `Duplicate of line ${firstLine}`,
+        });
+        continue;
+      }
+      seen.set(key, line);
+
+      entries.push({ line, raw, record });
+    }
+
+    return { entries, diagnostics };
+  }
+
+  /**
+   * Stream non-empty lines of a text export
    */
-  async parse(buffer: Buffer): Promise<RawAttendanceRecord[]> {
-    const records: RawAttendanceRecord[] = [];
+  private async *readTextLines(
+    buffer: Buffer,
+    timeZone: string,
+  ): AsyncGenerator<{ line: number; raw: string; result: LineResult }> {
     const stream = Readable.from(buffer);
-    
     const rl = readline.createInterface({
       input: stream,
       crlfDelay: Infinity,
     });
 
-    for await (const line of rl) {
-      const trimmedLine = line.trim();
+    let line = 0;
+    for await (const rawLine of rl) {
+      line++;
+      const trimmedLine = rawLine.trim();
       if (!trimmedLine) continue;
 
-      const record = this.parseLine(trimmedLine);
-      if (record) {
-        records.push(record);
-      }
+      yield { line, raw: trimmedLine, result: this.parseLine(trimmedLine, timeZone) };
     }
+  }
 
-    return records;
+  /**
+   * Decode fixed-size records of a binary device log
+   */
+  private *readBinaryRecords(
+    buffer: Buffer,
+    timeZone: string,
+  ): Generator<{ line: number; raw: string; result: LineResult }> {
+    for (const { index, raw, result } of this.attlogParser.parse(buffer, timeZone)) {
+      yield { line: index, raw, result };
+    }
   }
 
   /**
    * Parse a single line from the .dat file
    */
-  private parseLine(line: string): RawAttendanceRecord | null {
-    try {
-      // Split by tab or multiple spaces
-      const parts = line.split(/\t+|\s{2,}/).filter(Boolean);
-      
-      if (parts.length < 2) {
-        return null;
-      }
+  private parseLine(line: string, timeZone: string): LineResult {
+    // Split by tab or multiple spaces
+    const parts = line.split(/\t+|\s{2,}/).filter(Boolean);
 
-      // Handle format: "userId timestamp type1 type2 type3 type4"
-      // Example: "5	2025-12-01 09:47:09	1	0	1	0"
-      
-      const userId = parseInt(parts[0].trim(), 10);
-      if (isNaN(userId)) {
-        return null;
-      }
+    // Handle format: "userId timestamp type1 type2 type3 type4"
+    // Example: "5	2025-12-01 09:47:09	1	0	1	0"
 
-      // Parse timestamp - might be split across parts[1] and parts[2]
-      let timestampStr: string;
-      let nextIndex: number;
-
-      // Check if parts[1] contains both date and time
-      if (parts[1].includes(' ') || (parts[1].includes('-') && parts[2]?.includes(':'))) {
-        // Date might be in parts[1] and time in parts[2]
-        if (parts[1].includes(':')) {
-          // Both date and time in parts[1]
-          timestampStr = parts[1];
-          nextIndex = 2;
-        } else {
-          // Date in parts[1], time in parts[2]
-          timestampStr = `${parts[1]} ${parts[2]}`;
-          nextIndex = 3;
-        }
-      } else {
+    const userIdStr = parts[0].trim();
+    const userId = parseInt(userIdStr, 10);
+    if (!/^\d+$/.test(userIdStr) || userId <= 0) {
+      return {
+        reason: 'INVALID_USER_ID',
+        message: `"${userIdStr}" is not a valid user ID`,
+      };
+    }
+
+    if (parts.length < 2) {
+      return { reason: 'INVALID_TIMESTAMP', message: 'Missing timestamp' };
+    }
+
+    // Parse timestamp - might be split across parts[1] and parts[2]
+    let timestampStr: string;
+    let nextIndex: number;
+
+    // Check if parts[1] contains both date and time
+    if (parts[1].includes(' ') || (parts[1].includes('-') && parts[2]?.includes(':'))) {
+      // Date might be in parts[1] and time in parts[2]
+      if (parts[1].includes(':')) {
+        // Both date and time in parts[1]
         timestampStr = parts[1];
         nextIndex = 2;
+      } else {
+        // Date in parts[1], time in parts[2]
+        timestampStr = `${parts[1]} ${parts[2]}`;
+        nextIndex = 3;
       }
+    } else {
+      timestampStr = parts[1];
+      nextIndex = 2;
+    }
 
-      // Parse timestamp as IST (Asia/Kolkata)
-      // Data is already in IST, so we append +05:30 to ensure correct timezone
-      const timestamp = new Date(timestampStr + '+05:30');
-      if (isNaN(timestamp.getTime())) {
-        return null;
-      }
+    // Device clock is local time in the device's zone, with no offset in the file
+    const timestamp = parseZonedDateTime(timestampStr, timeZone);
+    if (isNaN(timestamp.getTime())) {
+      return {
+        reason: 'INVALID_TIMESTAMP',
+        message: `"${timestampStr}" is not a valid timestamp`,
+      };
+    }
 
-      // Parse remaining fields with defaults
-      const verificationType = parseInt(parts[nextIndex] || '1', 10) || 1;
-      const inOutStatus = parseInt(parts[nextIndex + 1] || '0', 10) || 0;
-      const workCode = parseInt(parts[nextIndex + 2] || '1', 10) || 1;
-      const reserved = parseInt(parts[nextIndex + 3] || '0', 10) || 0;
+    // Parse remaining fields with defaults
+    const verificationType = parseInt(parts[nextIndex] || '1', 10) || 1;
+    // Exports without the state column leave it unrecorded (null)
+    const inOutStatus =
+      parts[nextIndex + 1] !== undefined ? parseInt(parts[nextIndex + 1], 10) || 0 : null;
+    const workCode = parseInt(parts[nextIndex + 2] || '1', 10) || 1;
+    const reserved = parseInt(parts[nextIndex + 3] || '0', 10) || 0;
 
-      return {
+    return {
+      record: {
         userId,
         timestamp,
         verificationType,
         inOutStatus,
         workCode,
         reserved,
-      };
-    } catch (error) {
-      console.warn(`Failed to parse line: ${line}`, error);
-      return null;
-    }
+      },
+    };
   }
 }
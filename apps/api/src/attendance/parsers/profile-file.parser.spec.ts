@@ -0,0 +1,155 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { PunchState } from '@attendance/shared';
+import type { ImportProfile } from '@attendance/shared';
+import { ProfileFileParser } from './profile-file.parser';
+import type { ProfileRow } from './profile-file.parser';
+
+const PROFILE: ImportProfile = {
+  name: 'Vendor export',
+  delimiter: null,
+  hasHeader: true,
+  columns: { employeeId: 'Emp No', date: 'Date', time: 'Time', inOut: 'Direction' },
+  dateFormat: 'DD/MM/YYYY',
+  timeFormat: 'hh:mm A',
+};
+
+/**
+ * A ZIP archive of the given files, deflated like spreadsheet apps write them
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function records(rows: ProfileRow[]) {
+  return rows.map(({ result }) =>
+    'record' in result
+      ? { userId: result.record.userId, timestamp: result.record.timestamp.toISOString(), state: result.record.inOutStatus }
+      : result.reason,
+  );
+}
+
+describe('ProfileFileParser', () => {
+  const parser = new ProfileFileParser();
+
+  it('reads a CSV export by header names, in the given time zone', () => {
+    const csv = [
+      '\uFEFFEmp No;Name;Date;Time;Direction',
+      '7;"Rao; Asha";02/03/2026;09:05 AM;Check In',
+      '7;"Rao; Asha";02/03/2026;12:30 PM;Break Out',
+      '7;"Rao; Asha";02/03/2026;06:10 PM;',
+      '',
+    ].join('\r\n');
+
+    const rows = parser.parse(Buffer.from(csv), PROFILE, 'Asia/Kolkata');
+
+    expect(rows.map((row) => row.line)).toEqual([2, 3, 4]);
+    expect(records(rows)).toEqual([
+      { userId: 7, timestamp: '2026-03-02T03:35:00.000Z', state: PunchState.CHECK_IN },
+      { userId: 7, timestamp: '2026-03-02T07:00:00.000Z', state: PunchState.BREAK_OUT },
+      { userId: 7, timestamp: '2026-03-02T12:40:00.000Z', state: null },
+    ]);
+  });
+
+  it('rejects rows with a bad user ID or a date that does not exist or fit the format', () => {
+    const csv = [
+      'Emp No,Date,Time,Direction',
+      'A7,02/03/2026,09:05 AM,IN',
+      '7,2026-03-02,09:05 AM,IN',
+      '7,31/02/2026,09:05 AM,IN',
+      '7,02/03/2026,13:05 PM,IN',
+      '7,02/03/2026,09:05 AM,IN',
+    ].join('\n');
+
+    expect(records(parser.parse(Buffer.from(csv), PROFILE, 'UTC'))).toEqual([
+      'INVALID_USER_ID',
+      'INVALID_TIMESTAMP',
+      'INVALID_TIMESTAMP',
+      'INVALID_TIMESTAMP',
+      { userId: 7, timestamp: '2026-03-02T09:05:00.000Z', state: PunchState.CHECK_IN },
+    ]);
+  });
+
+  it('reads columns by position when the file has no header', () => {
+    const profile: ImportProfile = {
+      ...PROFILE,
+      hasHeader: false,
+      columns: { employeeId: 1, date: '0' },
+      dateFormat: 'YYYY-MM-DD HH:mm:ss',
+      timeFormat: null,
+    };
+
+    expect(records(parser.parse(Buffer.from('2026-03-02 09:05:30\t12\n'), profile, 'UTC'))).toEqual([
+      { userId: 12, timestamp: '2026-03-02T09:05:30.000Z', state: null },
+    ]);
+  });
+
+  it('names a mapped column missing from the header', () => {
+    expect(() => parser.parse(Buffer.from('Emp No,Date\n7,02/03/2026\n'), PROFILE, 'UTC')).toThrow(
+      'Column "Time" of profile "Vendor export" not found in the file header',
+    );
+  });
+
+  it('reads an XLSX workbook with shared strings and Excel date serials', () => {
+    const text = (ref: string, index: number) => `<c r="${ref}" t="s"><v>${index}</v></c>`;
+    const number = (ref: string, value: number) => `<c r="${ref}"><v>${value}</v></c>`;
+    const workbook = zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Punches" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml':
+        '<sst><si><t>Emp No</t></si><si><t>Date</t></si><si><t>Time</t></si><si><t>Direction</t></si>' +
+        '<si><t>IN</t></si><si><r><t>Check </t></r><r><t>Out</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        `<row r="1">${text('A1', 0)}${text('B1', 1)}${text('C1', 2)}${text('D1', 3)}</row>` +
+        // 46083 is 2026-03-02, and the fractions are 09:30 and 18:00
+        `<row r="3">${number('A3', 7)}${number('B3', 46083)}${number('C3', 0.3958333333333333)}${text('D3', 4)}</row>` +
+        `<row r="4">${number('A4', 7)}${number('B4', 46083)}${number('C4', 0.75)}${text('D4', 5)}</row>` +
+        '</sheetData></worksheet>',
+    });
+
+    const rows = parser.parse(workbook, PROFILE, 'Asia/Kolkata');
+
+    expect(rows.map((row) => row.line)).toEqual([3, 4]);
+    expect(records(rows)).toEqual([
+      { userId: 7, timestamp: '2026-03-02T04:00:00.000Z', state: PunchState.CHECK_IN },
+      { userId: 7, timestamp: '2026-03-02T12:30:00.000Z', state: PunchState.CHECK_OUT },
+    ]);
+  });
+});
@@ -0,0 +1,426 @@
+import { Injectable } from '@nestjs/common';
+import type { LineResult } from './dat-file.parser';
+import { isXlsx, readXlsxRows } from './xlsx-reader';
+import { DEFAULT_TIME_ZONE, PunchState, parseZonedDateTime } from '@attendance/shared';
+import type { ImportColumnRef, ImportProfile } from '@attendance/shared';
+
+/**
+ * A row of a profile-mapped export, with its 1-based row number
+ */
+export interface ProfileRow {
+  line: number;
+  raw: string;
+  result: LineResult;
+}
+
+/**
+ * Date/time parts read from a cell
+ */
+interface DateTimeParts {
+  year?: number;
+  month?: number;
+  day?: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+}
+
+/**
+ * Tokens understood in date and time formats, longest first
+ */
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  MMM: '([A-Za-z]{3,})',
+  YY: '(\\d{2})',
+  MM: '(\\d{2})',
+  DD: '(\\d{2})',
+  HH: '(\\d{2})',
+  hh: '(\\d{2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+  M: '(\\d{1,2})',
+  D: '(\\d{1,2})',
+  H: '(\\d{1,2})',
+  h: '(\\d{1,2})',
+  A: '([AaPp][Mm])',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Excel stores dates as days since 1899-12-30; anything above this is not a
+// plausible date serial (it would be past the year 2173)
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const EXCEL_MAX_SERIAL = 100000;
+
+/**
+ * Split a format string into tokens and literal text
+ */
+function tokenizeFormat(format: string): string[] {
+  const tokens = Object.keys(FORMAT_TOKENS);
+  const parts: string[] = [];
+  let i = 0;
+  while (i < format.length) {
+    const token = tokens.find((t) => format.startsWith(t, i));
+    if (token) {
+      parts.push(token);
+      i += token.length;
+    } else {
+      parts.push(format[i]);
+      i++;
+    }
+  }
+  return parts;
+}
+
+/**
+ * Tokens used by a date or time format, e.g. "DD/MM/YYYY" -> [DD, MM, YYYY]
+ * Exported for profile validation
+ */
+export function getFormatTokens(format: string): string[] {
+  return tokenizeFormat(format).filter((part) => part in FORMAT_TOKENS);
+}
+
+/**
+ * Reads CSV and XLSX exports using a column-mapping import profile
+ */
+@Injectable()
+export class ProfileFileParser {
+  /**
+   * Decode every data row of the file, reading times as local time in the given zone
+   */
+  parse(buffer: Buffer, profile: ImportProfile, timeZone: string = DEFAULT_TIME_ZONE): ProfileRow[] {
+    const xlsx = isXlsx(buffer);
+    const rows = xlsx
+      ? readXlsxRows(buffer).map(({ row, cells }) => ({ line: row, raw: cells.join('\t'), cells }))
+      : this.readCsvRows(buffer, profile.delimiter);
+
+    let dataRows = rows.filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+    let header: string[] = [];
+    if (profile.hasHeader && dataRows.length > 0) {
+      header = dataRows[0].cells.map((cell) => cell.trim().toLowerCase());
+      dataRows = dataRows.slice(1);
+    }
+
+    const { columns } = profile;
+    const resolve = (ref: ImportColumnRef | null | undefined) =>
+      ref === null || ref === undefined || ref === '' ? null : this.resolveColumn(ref, header, profile);
+    const indices = {
+      employeeId: resolve(columns.employeeId)!,
+      date: resolve(columns.date)!,
+      time: resolve(columns.time),
+      verifyType: resolve(columns.verifyType),
+      inOut: resolve(columns.inOut),
+    };
+
+    return dataRows.map(({ line, raw, cells }) => ({
+      line,
+      raw,
+      result: this.decodeRow(cells, indices, profile, xlsx, timeZone),
+    }));
+  }
+
+  /**
+   * Map one row to an attendance record
+   */
+  private decodeRow(
+    cells: string[],
+    indices: {
+      employeeId: number;
+      date: number;
+      time: number | null;
+      verifyType: number | null;
+      inOut: number | null;
+    },
+    profile: ImportProfile,
+    xlsx: boolean,
+    timeZone: string,
+  ): LineResult {
+    const cell = (index: number | null) => (index === null ? '' : (cells[index] ?? '').trim());
+
+    const userIdStr = cell(indices.employeeId);
+    const userId = parseInt(userIdStr, 10);
+    if (!/^\d+$/.test(userIdStr) || userId <= 0) {
+      return { reason: 'INVALID_USER_ID', message: `"${userIdStr}" is not a valid user ID` };
+    }
+
+    const dateStr = cell(indices.date);
+    const timeStr = cell(indices.time);
+    if (!dateStr) {
+      return { reason: 'INVALID_TIMESTAMP', message: 'Missing date' };
+    }
+
+    const parts = this.readDateTime(dateStr, profile.dateFormat, xlsx);
+    if (!parts) {
+      return {
+        reason: 'INVALID_TIMESTAMP',
+        message: `"${dateStr}" does not match date format ${profile.dateFormat}`,
+      };
+    }
+
+    if (indices.time !== null) {
+      const timeFormat = profile.timeFormat || 'HH:mm:ss';
+      const timeParts = timeStr ? this.readDateTime(timeStr, timeFormat, xlsx) : null;
+      if (!timeParts) {
+        return {
+          reason: 'INVALID_TIMESTAMP',
+          message: timeStr ? `"${timeStr}" does not match time format ${timeFormat}` : 'Missing time',
+        };
+      }
+      parts.hour = timeParts.hour;
+      parts.minute = timeParts.minute;
+      parts.second = timeParts.second;
+    }
+
+    const timestamp = this.buildTimestamp(parts, timeZone);
+    if (isNaN(timestamp.getTime())) {
+      const timestampStr = [dateStr, timeStr].filter(Boolean).join(' ');
+      return { reason: 'INVALID_TIMESTAMP', message: `"${timestampStr}" is not a valid timestamp` };
+    }
+
+    return {
+      record: {
+        userId,
+        timestamp,
+        verificationType: this.readVerifyType(cell(indices.verifyType)),
+        inOutStatus: this.readInOut(cell(indices.inOut)),
+        workCode: 1,
+        reserved: 0,
+      },
+    };
+  }
+
+  /**
+   * Column index for a profile column reference
+   */
+  private resolveColumn(ref: ImportColumnRef, header: string[], profile: ImportProfile): number {
+    if (typeof ref === 'number') return ref;
+    if (/^\d+$/.test(ref)) return parseInt(ref, 10);
+
+    const index = header.indexOf(ref.trim().toLowerCase());
+    if (index < 0) {
+      throw new Error(
+        profile.hasHeader
+          ? `Column "${ref}" of profile "${profile.name}" not found in the file header`
+          : `Profile "${profile.name}" refers to column "${ref}" by name but has no header row`,
+      );
+    }
+    return index;
+  }
+
+  /**
+   * Read date/time parts from a cell, accepting Excel serials in XLSX files
+   */
+  private readDateTime(value: string, format: string, xlsx: boolean): DateTimeParts | null {
+    if (xlsx && /^\d+(\.\d+)?$/.test(value) && parseFloat(value) < EXCEL_MAX_SERIAL) {
+      return this.readExcelSerial(parseFloat(value));
+    }
+
+    const parts = tokenizeFormat(format);
+    const pattern = parts
+      .map((part) => FORMAT_TOKENS[part] ?? (/\s/.test(part) ? '\\s+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    const match = new RegExp(`^${pattern}$`).exec(value);
+    if (!match) return null;
+
+    const result: DateTimeParts = {};
+    let pm: boolean | null = null;
+    let group = 1;
+    for (const part of parts) {
+      if (!(part in FORMAT_TOKENS)) continue;
+      const text = match[group++];
+      const num = parseInt(text, 10);
+
+      switch (part) {
+        case 'YYYY':
+          result.year = num;
+          break;
+        case 'YY':
+          result.year = 2000 + num;
+          break;
+        case 'MMM': {
+          const month = MONTH_NAMES.indexOf(text.slice(0, 3).toLowerCase());
+          if (month < 0) return null;
+          result.month = month + 1;
+          break;
+        }
+        case 'MM':
+        case 'M':
+          result.month = num;
+          break;
+        case 'DD':
+        case 'D':
+          result.day = num;
+          break;
+        case 'HH':
+        case 'H':
+        case 'hh':
+        case 'h':
+          result.hour = num;
+          break;
+        case 'mm':
+          result.minute = num;
+          break;
+        case 'ss':
+          result.second = num;
+          break;
+        case 'A':
+          pm = text.toLowerCase() === 'pm';
+          break;
+      }
+    }
+
+    // 12-hour clock: 12 AM is midnight, 12 PM is noon
+    if (pm !== null && result.hour !== undefined) {
+      if (result.hour > 12) return null;
+      result.hour = (result.hour % 12) + (pm ? 12 : 0);
+    }
+    return result;
+  }
+
+  /**
+   * Excel serial: whole part is the date (absent for time-only cells),
+   * fraction is the time of day
+   */
+  private readExcelSerial(serial: number): DateTimeParts {
+    const totalSeconds = Math.round(serial * 86400);
+    const days = Math.floor(totalSeconds / 86400);
+    const seconds = totalSeconds % 86400;
+
+    const result: DateTimeParts = {
+      hour: Math.floor(seconds / 3600),
+      minute: Math.floor((seconds % 3600) / 60),
+      second: seconds % 60,
+    };
+    if (days > 0) {
+      const date = new Date(EXCEL_EPOCH_MS + days * 86400000);
+      result.year = date.getUTCFullYear();
+      result.month = date.getUTCMonth() + 1;
+      result.day = date.getUTCDate();
+    }
+    return result;
+  }
+
+  /**
+   * Build the punch time, rejecting out-of-range parts instead of rolling them over
+   */
+  private buildTimestamp(parts: DateTimeParts, timeZone: string): Date {
+    const { year, month, day, hour = 0, minute = 0, second = 0 } = parts;
+    if (year === undefined || month === undefined || day === undefined) return new Date(NaN);
+    if (month < 1 || month > 12 || day < 1 || hour > 23 || minute > 59 || second > 59) {
+      return new Date(NaN);
+    }
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (day > daysInMonth) return new Date(NaN);
+
+    const pad = (n: number) => String(n).padStart(2, '0');
+    // Exports are in device local time, same as the .dat parser
+    return parseZonedDateTime(
+      `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}`,
+      timeZone,
+    );
+  }
+
+  /**
+   * Verify codes as numbers, or the labels other vendors export
+   */
+  private readVerifyType(value: string): number {
+    if (/^\d+$/.test(value)) return parseInt(value, 10);
+
+    const text = value.toLowerCase();
+    if (text.includes('face')) return 15;
+    if (text.includes('card')) return 2;
+    if (text.includes('password') || text.includes('pin')) return 0;
+    return 1;
+  }
+
+  /**
+   * Device state as a number, or text such as "IN", "Check Out", "Break In"
+   * Empty or unrecognised values are left unrecorded
+   */
+  private readInOut(value: string): number | null {
+    if (/^\d+$/.test(value)) return parseInt(value, 10);
+
+    const text = value.toLowerCase();
+    const isOut = /out/.test(text);
+    if (!isOut && !/in\b/.test(text)) return null;
+    if (/break|lunch/.test(text)) return isOut ? PunchState.BREAK_OUT : PunchState.BREAK_IN;
+    if (/\bot\b|overtime/.test(text)) return isOut ? PunchState.OVERTIME_OUT : PunchState.OVERTIME_IN;
+    return isOut ? PunchState.CHECK_OUT : PunchState.CHECK_IN;
+  }
+
+  /**
+   * Split a delimited text file into rows, honouring double-quoted fields
+   */
+  private readCsvRows(
+    buffer: Buffer,
+    delimiter: string | null,
+  ): { line: number; raw: string; cells: string[] }[] {
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+    const separator = delimiter || this.detectDelimiter(text);
+
+    const rows: { line: number; raw: string; cells: string[] }[] = [];
+    let cells: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let rowStart = 1;
+    let rowOffset = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+      } else if (char === '"' && field.trim() === '') {
+        field = '';
+        quoted = true;
+      } else if (text.startsWith(separator, i)) {
+        cells.push(field);
+        field = '';
+        i += separator.length - 1;
+      } else if (char === '\n' || char === '\r') {
+        cells.push(field);
+        rows.push({ line: rowStart, raw: text.slice(rowOffset, i).trim(), cells });
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        rowOffset = i + 1;
+        cells = [];
+        field = '';
+        line++;
+        rowStart = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || cells.length > 0) {
+      cells.push(field);
+      rows.push({ line: rowStart, raw: text.slice(rowOffset).trim(), cells });
+    }
+    return rows;
+  }
+
+  /**
+   * Pick the separator occurring most often in the first line
+   */
+  private detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    let best = ',';
+    let bestCount = 0;
+    for (const candidate of [',', ';', '\t', '|']) {
+      const count = firstLine.split(candidate).length - 1;
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+}
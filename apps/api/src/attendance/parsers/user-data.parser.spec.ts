@@ -0,0 +1,155 @@
+import { HttpException } from '@nestjs/common';
+import { describe, expect, it } from 'vitest';
+import { AttendanceController } from '../attendance.controller';
+import { AttendanceService } from '../attendance.service';
+import { ReportTemplateService } from '../report-template.service';
+import { ImportProfileService } from '../../v2/import-profile.service';
+import { AttlogBinaryParser } from './attlog-binary.parser';
+import { DatFileParser } from './dat-file.parser';
+import { ProfileFileParser } from './profile-file.parser';
+import { UserDataParser } from './user-data.parser';
+import type { UserRecordSize } from './user-data.parser';
+
+interface UserFields {
+  uid: number;
+  privilege?: number;
+  password?: string;
+  name?: string;
+  card?: number;
+  group?: string;
+  userId?: string;
+}
+
+/**
+ * A user record of the given layout:
+ * uid(2) | privilege(1) | password(8) | name(24) | card(4) | pad(1) | group(7) | pad(1) | user_id(rest)
+ */
+function userRecord(size: UserRecordSize, fields: UserFields): Buffer {
+  const bytes = Buffer.alloc(size);
+  bytes.writeUInt16LE(fields.uid, 0);
+  bytes[2] = fields.privilege ?? 0;
+  bytes.write(fields.password ?? '', 3, 8, 'ascii');
+  bytes.write(fields.name ?? '', 11, 24, 'utf8');
+  bytes.writeUInt32LE(fields.card ?? 0, 35);
+  bytes.write(fields.group ?? '', 40, 7, 'ascii');
+  bytes.write(fields.userId ?? '', 48, size - 48, 'ascii');
+  return bytes;
+}
+
+function userFile(size: UserRecordSize, count: number): Buffer {
+  return Buffer.concat(
+    Array.from({ length: count }, (_, i) =>
+      userRecord(size, { uid: i + 1, name: `Employee ${i + 1}`, userId: String(1000 + i) }),
+    ),
+  );
+}
+
+describe('UserDataParser', () => {
+  const parser = new UserDataParser();
+
+  it.each<UserRecordSize>([72, 64, 66])('decodes %i-byte records', (size) => {
+    const file = Buffer.concat([
+      userRecord(size, {
+        uid: 1,
+        privilege: 14,
+        password: '1234',
+        name: 'Asha Rao',
+        card: 4096,
+        group: '1',
+        userId: '501',
+      }),
+      Buffer.alloc(size),
+      userRecord(size, { uid: 3, privilege: 1, name: 'Vikram' }),
+    ]);
+
+    expect(parser.countRecords(file)).toBe(3);
+    expect(parser.decode(file)).toEqual([
+      {
+        index: 1,
+        uid: 1,
+        userId: 501,
+        name: 'Asha Rao',
+        privilege: 14,
+        role: 'ADMIN',
+        enabled: true,
+        hasPassword: true,
+        cardNumber: 4096,
+        groupId: '1',
+      },
+      {
+        // No enrolment number: the slot number is the user ID
+        index: 3,
+        uid: 3,
+        userId: 3,
+        name: 'Vikram',
+        privilege: 1,
+        role: 'USER',
+        enabled: false,
+        hasPassword: false,
+        cardNumber: null,
+        groupId: null,
+      },
+    ]);
+  });
+
+  it('picks the layout whose fields line up when several sizes fit the file', () => {
+    // 32 records of 66 bytes are also 33 of 64
+    const file = userFile(66, 32);
+
+    expect(file.length % 64).toBe(0);
+    expect(parser.dump(file).recordSize).toBe(66);
+    expect(parser.decode(file).map((record) => record.userId)).toEqual(
+      Array.from({ length: 32 }, (_, i) => 1000 + i),
+    );
+  });
+
+  it('maps user IDs to names, leaving out users without one', async () => {
+    const file = Buffer.concat([userFile(66, 2), userRecord(66, { uid: 3, userId: '1002' })]);
+
+    expect(await parser.parse(file)).toEqual(
+      new Map([
+        [1000, 'Employee 1'],
+        [1001, 'Employee 2'],
+      ]),
+    );
+  });
+
+  it('rejects a file that fits no layout', () => {
+    expect(() => parser.decode(Buffer.alloc(100))).toThrow(
+      'Unrecognised user data file (100 bytes is not a multiple of 72, 64, 66-byte records)',
+    );
+  });
+});
+
+describe('AttendanceController.inspectUserFile', () => {
+  const controller = new AttendanceController(
+    new AttendanceService(new DatFileParser(new AttlogBinaryParser(), new ProfileFileParser()), new UserDataParser()),
+    new ReportTemplateService(),
+    {} as ImportProfileService,
+    new AttlogBinaryParser(),
+  );
+
+  it('dumps every record with its decoded fields', async () => {
+    const file = Buffer.concat([userRecord(66, { uid: 1, name: 'Asha', userId: '7' }), Buffer.alloc(66)]);
+
+    const result = await controller.inspectUserFile({ buffer: file } as Express.Multer.File);
+
+    expect(result.success).toBe(true);
+    expect(result.recordSize).toBe(66);
+    expect(result.records).toHaveLength(2);
+    expect(result.records[0]).toMatchObject({
+      index: 1,
+      offset: 0,
+      ascii: `${'.'.repeat(11)}Asha${'.'.repeat(33)}7${'.'.repeat(17)}`,
+      record: { uid: 1, userId: 7, name: 'Asha' },
+    });
+    expect(result.records[0].hex.startsWith('01 00 00 00')).toBe(true);
+    expect(result.records[1]).toMatchObject({ index: 2, offset: 66, record: null });
+  });
+
+  it('answers a file that fits no layout with a bad request', async () => {
+    await expect(controller.inspectUserFile({ buffer: Buffer.alloc(100) } as Express.Multer.File)).rejects.toThrow(
+      HttpException,
+    );
+  });
+});
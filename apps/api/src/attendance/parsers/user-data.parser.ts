@@ -1,49 +1,84 @@
 import { Injectable } from '@nestjs/common';
 
-export interface UserMapping {
-  userId: number;
-  userName: string;
+/**
+ * Fixed-size user record layouts written by ZKTeco devices on USB export
+ * 72: TFT/SSR devices, 64: older TFT firmware with a shorter user ID field,
+ * 66: firmware between them with two more bytes of user ID
+ */
+export type UserRecordSize = 72 | 64 | 66;
+
+/**
+ * Role encoded in bits 1-3 of the privilege byte
+ */
+export type ZkUserRole = 'USER' | 'ENROLLER' | 'MANAGER' | 'ADMIN' | 'UNKNOWN';
+
+/**
+ * A decoded user record, with its 1-based position in the file
+ */
+export interface ZkUserRecord {
+  index: number;
+  uid: number; // Internal device slot
+  userId: number; // Enrolment number printed in attendance logs
+  name: string; // Empty when no name was entered on the device
+  privilege: number; // Raw privilege byte; bit 0 set = disabled
+  role: ZkUserRole;
+  enabled: boolean;
+  hasPassword: boolean;
+  cardNumber: number | null;
+  groupId: string | null;
+}
+
+/**
+ * A record's raw bytes alongside its decoded fields, for troubleshooting
+ */
+export interface UserRecordDump {
+  index: number;
+  offset: number;
+  hex: string;
+  ascii: string;
+  record: ZkUserRecord | null;
 }
 
+/**
+ * Field offsets shared by all layouts:
+ * uid(2) | privilege(1) | password(8) | name(24) | card(4) | pad(1) | group(7) | pad(1) | user_id(rest)
+ */
+const FIELD = {
+  uid: 0,
+  privilege: 2,
+  password: 3,
+  name: 11,
+  card: 35,
+  group: 40,
+  userId: 48,
+};
+const PASSWORD_LENGTH = 8;
+const NAME_LENGTH = 24;
+const GROUP_LENGTH = 7;
+
+// In order of preference when several fit a file equally well
+const RECORD_SIZES: UserRecordSize[] = [72, 64, 66];
+
+// Privilege bytes 0/2/6/14 on the device
+const ROLES: Record<number, ZkUserRole> = {
+  0: 'USER',
+  1: 'ENROLLER',
+  3: 'MANAGER',
+  7: 'ADMIN',
+};
+
 @Injectable()
 export class UserDataParser {
   /**
-   * Parse binary user data file
-   * Format: Fixed 64-byte records containing user ID and name mappings
-   * 
-   * Based on hexdump analysis:
-   * - Byte 0: Record sequential number (01, 02, 03...)
-   * - Bytes 2-3: Field separator (00 0e or similar patterns)
-   * - Bytes 11-43: User name (ASCII, null-padded, max ~32 chars)
-   * - User ID: ASCII string embedded in record
+   * Parse binary user data file into a user ID -> name map
+   * Users without a name are left out
    */
   async parse(buffer: Buffer): Promise<Map<number, string>> {
     const userMapping = new Map<number, string>();
-    let recordSize = 64; // Default fixed record size
-    
-    // Auto-detect record size based on file length alignment
-    // ZKTeco devices often use 72 bytes or 66 bytes
-    if (buffer.length % 72 === 0) {
-      console.log(`Detected 72-byte record alignment for user data file (${buffer.length} bytes)`);
-      recordSize = 72;
-    } else if (buffer.length % 64 !== 0 && buffer.length % 66 === 0) {
-      console.log(`Detected 66-byte record alignment for user data file (${buffer.length} bytes)`);
-      recordSize = 66;
-    }
-
-    if (buffer.length % recordSize !== 0) {
-      console.warn(`User data file size (${buffer.length}) is not a multiple of ${recordSize} (aligned to default 64 or detected 66)`);
-    }
-
-    const recordCount = Math.floor(buffer.length / recordSize);
 
-    for (let i = 0; i < recordCount; i++) {
-      const offset = i * recordSize;
-      const record = buffer.slice(offset, offset + recordSize);
-      
-      const parsedRecord = this.parseRecord(record, i);
-      if (parsedRecord) {
-        userMapping.set(parsedRecord.userId, parsedRecord.userName);
+    for (const record of this.decode(buffer)) {
+      if (record.name) {
+        userMapping.set(record.userId, record.name);
       }
     }
 
@@ -55,86 +90,128 @@ export class UserDataParser {
   }
 
   /**
-   * Parse a single 64-byte user record
+   * Decode every non-empty record of a user.dat file
    */
-  private parseRecord(record: Buffer, index: number): UserMapping | null {
-    try {
-      // Extract user name from bytes 11-43 (approximate based on hexdump)
-      // User names appear to start around byte 11
-      let userName = '';
-      let nameStartIndex = -1;
-      
-      // Scan for the start of ASCII text (user name)
-      for (let i = 10; i < 50; i++) {
-        const byte = record[i];
-        // Check if this is a printable ASCII character (A-Z, a-z, space, etc.)
-        if (byte >= 0x20 && byte <= 0x7E) {
-          nameStartIndex = i;
-          break;
-        }
-      }
+  decode(buffer: Buffer): ZkUserRecord[] {
+    const size = this.getRecordSize(buffer);
+    const records: ZkUserRecord[] = [];
 
-      if (nameStartIndex === -1) {
-        return null;
-      }
+    for (let offset = 0, index = 1; offset < buffer.length; offset += size, index++) {
+      const record = this.decodeRecord(buffer.subarray(offset, offset + size), index);
+      if (record) records.push(record);
+    }
+    return records;
+  }
 
-      // Extract name until we hit null bytes or non-ASCII
-      for (let i = nameStartIndex; i < record.length; i++) {
-        const byte = record[i];
-        if (byte === 0x00) break; // Null terminator
-        if (byte < 0x20 || byte > 0x7E) break; // Non-printable
-        userName += String.fromCharCode(byte);
-      }
+  /**
+   * Hex and ASCII dump of every record with its decoded fields
+   */
+  dump(buffer: Buffer): { recordSize: UserRecordSize; records: UserRecordDump[] } {
+    const size = this.getRecordSize(buffer);
+    const records: UserRecordDump[] = [];
 
-      userName = userName.trim();
-      if (!userName) {
-        return null;
-      }
+    for (let offset = 0, index = 1; offset < buffer.length; offset += size, index++) {
+      const bytes = buffer.subarray(offset, offset + size);
+      records.push({
+        index,
+        offset,
+        hex: bytes.toString('hex').match(/.{1,2}/g)?.join(' ') ?? '',
+        ascii: bytes.toString('latin1').replace(/[^\x20-\x7E]/g, '.'),
+        record: this.decodeRecord(bytes, index),
+      });
+    }
+    return { recordSize: size, records };
+  }
 
-      // Extract user ID - it appears to be stored as ASCII digits later in the record
-      // Scan through the rest of the record for digit sequences
-      let userId: number | null = null;
-      let currentNumber = '';
-      
-      for (let i = nameStartIndex + userName.length; i < record.length; i++) {
-        const byte = record[i];
-        const char = String.fromCharCode(byte);
-        
-        if (byte >= 0x30 && byte <= 0x39) { // ASCII digits 0-9
-          currentNumber += char;
-        } else if (currentNumber.length > 0) {
-          // We found a complete number
-          const num = parseInt(currentNumber, 10);
-          if (!isNaN(num) && num > 0) {
-            userId = num;
-            break;
-          }
-          currentNumber = '';
-        }
-      }
+  /**
+   * Number of record slots in the file, including empty ones
+   */
+  countRecords(buffer: Buffer): number {
+    return buffer.length / this.getRecordSize(buffer);
+  }
 
-      // If we didn't find a user ID in the record, try using the record index + 1
-      if (userId === null) {
-        userId = index + 1;
-        console.warn(`User ID not found in record ${index}, using index-based ID: ${userId}`);
-      }
+  /**
+   * Record layout from the file length; when several sizes divide it evenly,
+   * the one whose records carry clean name and user ID fields (72, then 64
+   * on a tie)
+   */
+  private getRecordSize(buffer: Buffer): UserRecordSize {
+    const candidates = RECORD_SIZES.filter((s) => buffer.length > 0 && buffer.length % s === 0);
+    if (candidates.length === 0) {
+      throw new Error(
+        `Unrecognised user data file (${buffer.length} bytes is not a multiple of ${RECORD_SIZES.join(', ')}-byte records)`,
+      );
+    }
+    if (candidates.length === 1) return candidates[0];
 
-      return {
-        userId,
-        userName,
-      };
-    } catch (error) {
-      console.warn(`Failed to parse user record at index ${index}:`, error);
-      return null;
+    let best = candidates[0];
+    let bestScore = -1;
+    for (const size of candidates) {
+      let score = 0;
+      for (let offset = 0; offset < buffer.length; offset += size) {
+        const bytes = buffer.subarray(offset, offset + size);
+        if (this.isCleanRecord(bytes)) score++;
+      }
+      if (score > bestScore) {
+        best = size;
+        bestScore = score;
+      }
     }
+    return best;
+  }
+
+  /**
+   * Layout detection guard: text fields of a correctly aligned record are
+   * printable up to their NUL terminator, and the user ID is numeric
+   */
+  private isCleanRecord(bytes: Buffer): boolean {
+    const isPrintable = (start: number, length: number) => {
+      const field = bytes.subarray(start, start + length);
+      const end = field.indexOf(0);
+      return field.subarray(0, end < 0 ? field.length : end).every((byte) => byte >= 0x20);
+    };
+    const userIdStr = this.readString(bytes, FIELD.userId, bytes.length - FIELD.userId);
+    return isPrintable(FIELD.name, NAME_LENGTH) && /^\d*$/.test(userIdStr);
+  }
+
+  /**
+   * Decode a single record; empty slots (uid 0 or all zero) yield null
+   */
+  private decodeRecord(bytes: Buffer, index: number): ZkUserRecord | null {
+    const uid = bytes.readUInt16LE(FIELD.uid);
+    if (uid === 0 || bytes.every((byte) => byte === 0)) return null;
+
+    const privilege = bytes[FIELD.privilege];
+    const userIdStr = this.readString(bytes, FIELD.userId, bytes.length - FIELD.userId);
+    const card = bytes.readUInt32LE(FIELD.card);
+
+    return {
+      index,
+      uid,
+      // The enrolment number is the ID used in attendance logs; old firmware
+      // leaves it blank, in which case it equals the slot number
+      userId: /^\d+$/.test(userIdStr) && parseInt(userIdStr, 10) > 0 ? parseInt(userIdStr, 10) : uid,
+      name: this.readString(bytes, FIELD.name, NAME_LENGTH),
+      privilege,
+      role: ROLES[(privilege >> 1) & 0x07] ?? 'UNKNOWN',
+      enabled: (privilege & 0x01) === 0,
+      hasPassword: bytes
+        .subarray(FIELD.password, FIELD.password + PASSWORD_LENGTH)
+        .some((byte) => byte !== 0),
+      cardNumber: card > 0 ? card : null,
+      groupId: this.readString(bytes, FIELD.group, GROUP_LENGTH) || null,
+    };
   }
 
   /**
-   * Debug helper to dump record contents
+   * NUL-terminated string field
    */
-  private debugRecord(record: Buffer, index: number): void {
-    console.log(`\n=== Record ${index} ===`);
-    console.log('Hex:', record.toString('hex').match(/.{1,2}/g)?.join(' '));
-    console.log('ASCII:', record.toString('ascii').replace(/[^\x20-\x7E]/g, '.'));
+  private readString(bytes: Buffer, start: number, length: number): string {
+    const field = bytes.subarray(start, start + length);
+    const end = field.indexOf(0);
+    return field
+      .subarray(0, end < 0 ? field.length : end)
+      .toString('utf8')
+      .trim();
   }
 }
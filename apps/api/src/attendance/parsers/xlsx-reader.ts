@@ -0,0 +1,210 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * A worksheet row: 1-based row number and cell values by 0-based column
+ */
+export interface XlsxRow {
+  row: number;
+  cells: string[];
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+/**
+ * Whether the buffer is a ZIP container (XLSX files are ZIP archives)
+ */
+export function isXlsx(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER;
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook as text cells
+ * Numbers (including dates, which Excel stores as day serials) are returned
+ * as their raw stored value
+ */
+export function readXlsxRows(buffer: Buffer): XlsxRow[] {
+  const files = readZipEntries(buffer);
+
+  const sheetPath = findFirstSheetPath(files);
+  if (!sheetPath) {
+    throw new Error('No worksheet found in XLSX file');
+  }
+
+  const sharedStrings = files.has('xl/sharedStrings.xml')
+    ? parseSharedStrings(files.get('xl/sharedStrings.xml')!)
+    : [];
+
+  const rows: XlsxRow[] = [];
+  const sheetXml = files.get(sheetPath)!;
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+
+  let rowMatch: RegExpExecArray | null;
+  let rowIndex = 0;
+  while ((rowMatch = rowPattern.exec(sheetXml))) {
+    rowIndex = parseInt(getAttribute(rowMatch[1], 'r') || '', 10) || rowIndex + 1;
+    const cells: string[] = [];
+
+    let cellMatch: RegExpExecArray | null;
+    let columnIndex = 0;
+    while ((cellMatch = cellPattern.exec(rowMatch[2] || ''))) {
+      const ref = getAttribute(cellMatch[1], 'r');
+      if (ref) columnIndex = columnToIndex(ref);
+
+      cells[columnIndex] = readCellValue(cellMatch[1], cellMatch[2] || '', sharedStrings);
+      columnIndex++;
+    }
+
+    for (let i = 0; i < cells.length; i++) {
+      if (cells[i] === undefined) cells[i] = '';
+    }
+    rows.push({ row: rowIndex, cells });
+  }
+
+  return rows;
+}
+
+/**
+ * Extract every file of a ZIP archive (stored or deflated) as UTF-8 text
+ */
+function readZipEntries(buffer: Buffer): Map<string, string> {
+  let endOffset = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Invalid XLSX file: ZIP directory not found');
+  }
+
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const files = new Map<string, string>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Invalid XLSX file: corrupt ZIP directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+
+    const localNameLength = buffer.readUInt16LE(localOffset + 26);
+    const localExtraLength = buffer.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, data.toString('utf8'));
+    } else if (method === 8) {
+      files.set(name, inflateRawSync(data).toString('utf8'));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Path of the first sheet listed in the workbook
+ */
+function findFirstSheetPath(files: Map<string, string>): string | null {
+  const workbook = files.get('xl/workbook.xml');
+  const rels = files.get('xl/_rels/workbook.xml.rels');
+
+  if (workbook && rels) {
+    const sheet = /<sheet\b([^>]*)\/?>/.exec(workbook);
+    const relId = sheet && getAttribute(sheet[1], 'r:id');
+    if (relId) {
+      const relPattern = /<Relationship\b([^>]*)\/?>/g;
+      let rel: RegExpExecArray | null;
+      while ((rel = relPattern.exec(rels))) {
+        if (getAttribute(rel[1], 'Id') !== relId) continue;
+        const target = getAttribute(rel[1], 'Target') || '';
+        const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+        if (files.has(path)) return path;
+      }
+    }
+  }
+
+  const sheets = [...files.keys()]
+    .filter((name) => /^xl\/worksheets\/[^/]+\.xml$/.test(name))
+    .sort();
+  return sheets[0] || null;
+}
+
+function parseSharedStrings(xml: string): string[] {
+  const strings: string[] = [];
+  const itemPattern = /<si>([\s\S]*?)<\/si>/g;
+  let item: RegExpExecArray | null;
+  while ((item = itemPattern.exec(xml))) {
+    strings.push(readText(item[1]));
+  }
+  return strings;
+}
+
+function readCellValue(attributes: string, body: string, sharedStrings: string[]): string {
+  const type = getAttribute(attributes, 't');
+
+  if (type === 'inlineStr') return readText(body);
+
+  const value = /<v>([\s\S]*?)<\/v>/.exec(body);
+  if (!value) return '';
+  const text = decodeXml(value[1]);
+
+  if (type === 's') return sharedStrings[parseInt(text, 10)] ?? '';
+  if (type === 'b') return text === '1' ? 'TRUE' : 'FALSE';
+  return text;
+}
+
+/**
+ * Concatenate all <t> runs (rich text is split into several)
+ */
+function readText(xml: string): string {
+  let text = '';
+  const runPattern = /<t\b[^>]*>([\s\S]*?)<\/t>/g;
+  let run: RegExpExecArray | null;
+  while ((run = runPattern.exec(xml))) {
+    text += decodeXml(run[1]);
+  }
+  return text;
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXml(match[1]) : null;
+}
+
+/**
+ * "C12" -> 2
+ */
+function columnToIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] || 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -1,4 +1,5 @@
 import { Injectable, Logger } from "@nestjs/common";
+import { DEFAULT_TIME_ZONE } from "@attendance/shared";
 import type { DailyAttendance, PunchRecord } from "@attendance/shared";
 import * as fs from "fs";
 import * as path from "path";
@@ -11,13 +12,18 @@ interface ReportData {
     from: string;
     to: string;
   };
+  timeZone?: string; // Zone the "Generated" time is shown in
   summary?: {
     totalHours?: string;
     avgHours?: string;
     presentDays?: number;
+    halfDays?: number;
     absentDays?: number;
     incompleteDays?: number;
     compDays?: number;
+    weeklyOffDays?: number;
+    holidayDays?: number;
+    leaveDays?: number;
     totalDays?: number;
   };
 }
@@ -38,6 +44,24 @@ interface PayoutReportData extends ReportData {
     compEarning: number;
     totalPayout: number;
     compDayDates: string[];
+    paidHolidayDays?: number;
+    paidHolidayEarning?: number;
+    paidHolidayDates?: string[];
+    holidayWorkHours?: number;
+    holidayRate?: number; // Multiple of the hourly salary for holiday work
+    holidayEarning?: number; // Premium on top of the hours earning
+    paidLeaveDays?: number;
+    paidLeaveEarning?: number;
+    paidLeaveDates?: string[];
+    penaltyDays?: number; // Days deducted by the late / early-out penalty rules
+    penaltyDeduction?: number; // Penalty days at the day salary
+    lateDays?: number;
+    earlyOutDays?: number;
+    veryLateDays?: number;
+    overtimeHours?: number; // Approved overtime
+    overtimeRate?: number; // Multiple of the hourly salary for overtime
+    overtimeEarning?: number; // Premium on top of the hours earning
+    unapprovedOvertimeHours?: number; // Pending or rejected, left out of the hours
   };
 }
 
@@ -45,22 +69,22 @@ interface PayoutReportData extends ReportData {
 export class ReportTemplateService {
   private readonly logger = new Logger(ReportTemplateService.name);
 
-  private calculateInOutDuration(punches: PunchRecord[]): DurationResult {
+  private calculateInOutDuration(allPunches: PunchRecord[]): DurationResult {
+    // Ignored double taps are shown but never paired
+    const punches = allPunches.filter((punch) => !punch.isIgnored);
     if (punches.length < 2) {
       return { inDuration: 0, outDuration: 0 };
     }
 
-    const sortedPunches = [...punches].sort((a, b) =>
-      a.time.localeCompare(b.time),
-    );
-
     let inDuration = 0;
     let outDuration = 0;
 
-    for (let i = 0; i < sortedPunches.length - 1; i++) {
-      const currentTime = this.timeToMinutes(sortedPunches[i].time);
-      const nextTime = this.timeToMinutes(sortedPunches[i + 1].time);
-      const duration = nextTime - currentTime;
+    // Punches arrive in time order; a later punch with an earlier clock time
+    // is past midnight on an overnight shift
+    for (let i = 0; i < punches.length - 1; i++) {
+      const currentTime = this.timeToMinutes(punches[i].time);
+      const nextTime = this.timeToMinutes(punches[i + 1].time);
+      const duration = (nextTime - currentTime + 1440) % 1440;
 
       if (i % 2 === 0) {
         inDuration += duration;
@@ -87,14 +111,15 @@ export class ReportTemplateService {
   private formatPunchRecords(punches: PunchRecord[]): string {
     if (punches.length === 0) return "";
 
-    const sortedPunches = [...punches].sort((a, b) =>
-      a.time.localeCompare(b.time),
-    );
-
-    return sortedPunches
-      .map((punch, idx) => {
-        const inOut = idx % 2 === 0 ? "in" : "out";
+    // Kept in time order so punches after midnight follow the evening ones
+    let idx = 0;
+    return punches
+      .map((punch) => {
         const time = punch.time.substring(0, 5); // HH:MM
+        if (punch.isIgnored) {
+          return `<span class="punch-tag ignored" title="Double tap, ignored">${time} <span class="type">(IGN)</span></span>`;
+        }
+        const inOut = idx++ % 2 === 0 ? "in" : "out";
         const editedClass = punch.isEdited ? " edited" : "";
         const titleAttr = punch.isEdited ? ' title="Manual Entry"' : "";
         return `<span class="punch-tag ${inOut}${editedClass}"${titleAttr}>${time} <span class="type">(${inOut.toUpperCase()})</span></span>`;
@@ -102,14 +127,36 @@ export class ReportTemplateService {
       .join("");
   }
 
+  // Break policy notes for the punch log: the unpaid lunch taken off, the
+  // part of the breaks paid, and a break over the long-break limit
+  private formatBreakPills(record: DailyAttendance): string {
+    let pills = "";
+    if (record.lunchDeductionMinutes) {
+      pills += ` <span class="status-pill break-mini">Lunch −${record.lunchDeductionMinutes}m</span>`;
+    }
+    if (record.paidBreakMinutes) {
+      pills += ` <span class="status-pill break-mini">Paid Break ${record.paidBreakMinutes}m</span>`;
+    }
+    if (record.isLongBreak) {
+      pills += ` <span class="status-pill long-break-mini">Long Break ${this.formatDurationHHMM(record.breakMinutes ?? 0)}</span>`;
+    }
+    return pills;
+  }
+
+  // YYYY-MM-DD strings parse as UTC midnight, so calendar dates are
+  // formatted in UTC to stay on the same day whatever the server zone
   private formatDateForDisplay(dateStr: string): string {
     const date = new Date(dateStr);
     const dayDate = date.toLocaleDateString("en-GB", {
       day: "2-digit",
       month: "short",
       year: "numeric",
+      timeZone: "UTC",
+    });
+    const weekday = date.toLocaleDateString("en-GB", {
+      weekday: "short",
+      timeZone: "UTC",
     });
-    const weekday = date.toLocaleDateString("en-GB", { weekday: "short" });
     return `${dayDate} <span class="weekday">(${weekday})</span>`;
   }
 
@@ -121,23 +168,26 @@ export class ReportTemplateService {
         month: "short",
         day: "2-digit",
         year: "numeric",
+        timeZone: "UTC",
       });
     return `${formatPart(fromDate)} - ${formatPart(toDate)}`;
   }
 
-  private getCurrentTimestamp(): string {
+  private getCurrentTimestamp(timeZone: string = DEFAULT_TIME_ZONE): string {
     const now = new Date();
     return (
       now.toLocaleDateString("en-US", {
         month: "short",
         day: "2-digit",
         year: "numeric",
+        timeZone,
       }) +
       " " +
       now.toLocaleTimeString("en-US", {
         hour: "2-digit",
         minute: "2-digit",
         hour12: true,
+        timeZone,
       })
     );
   }
@@ -170,26 +220,42 @@ export class ReportTemplateService {
   generateHtmlReport(data: ReportData): { html: string; filename: string } {
     const { userId, userName, dailyRecords, dateRange, summary } = data;
 
-    const sortedRecords = [...dailyRecords].sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
-    );
+    // Punches deleted by hand are kept in the app for restoring, not reported
+    const sortedRecords = [...dailyRecords]
+      .map((record) => ({
+        ...record,
+        punches: record.punches.filter((punch) => !punch.isDeleted),
+      }))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
     // Calculate metrics locally (fallback)
     let totalMinutes = 0;
     let localPresentDays = 0;
+    let localHalfDays = 0;
     let localAbsentDays = 0;
     let localIncompleteDays = 0;
     let localCompDays = 0;
+    let localWeeklyOffDays = 0;
+    let localHolidayDays = 0;
+    let localLeaveDays = 0;
 
     sortedRecords.forEach((record) => {
       const { punches } = record;
-      const { inDuration } = this.calculateInOutDuration(punches);
 
-      totalMinutes += inDuration;
+      // Worked minutes after the break policy, not the raw time in
+      totalMinutes += record.totalHours * 60 + record.totalMinutes;
 
       if (record.status === "COMP") {
         localCompDays++;
-      } else if (punches.length === 0) {
+      } else if (record.status === "WEEKLY_OFF") {
+        localWeeklyOffDays++;
+      } else if (record.status === "HOLIDAY") {
+        localHolidayDays++;
+      } else if (record.status === "LEAVE") {
+        localLeaveDays++;
+      } else if (record.status === "HALF_DAY") {
+        localHalfDays++;
+      } else if (record.status === "ABSENT" || punches.length === 0) {
         localAbsentDays++;
       } else if (punches.length % 2 !== 0) {
         localIncompleteDays++;
@@ -208,10 +274,15 @@ export class ReportTemplateService {
     // Use summary if provided, else use local calculations
     const displayTotalDays = summary?.totalDays ?? sortedRecords.length;
     const displayPresentDays = summary?.presentDays ?? localPresentDays;
+    const displayHalfDays = summary?.halfDays ?? localHalfDays;
     const displayAbsentDays = summary?.absentDays ?? localAbsentDays;
     const displayIncompleteDays =
       summary?.incompleteDays ?? localIncompleteDays;
     const displayCompDays = summary?.compDays ?? localCompDays;
+    const displayWeeklyOffDays =
+      summary?.weeklyOffDays ?? localWeeklyOffDays;
+    const displayHolidayDays = summary?.holidayDays ?? localHolidayDays;
+    const displayLeaveDays = summary?.leaveDays ?? localLeaveDays;
 
     // Default to calculated strings - Use new formatting logic
     // Total Hours
@@ -267,17 +338,29 @@ export class ReportTemplateService {
       const isAbsent =
         record.status === "ABSENT" ||
         (!record.status && record.punches.length === 0);
+      // Punches too short for a half day still show, marked absent
+      const isShortDay = isAbsent && record.punches.length > 0;
+      const isHalfDay = record.status === "HALF_DAY";
       const isIncomplete =
         record.status === "INCOMPLETE" ||
         (!record.status &&
           record.punches.length > 0 &&
           record.punches.length % 2 !== 0);
       const isComp = record.status === "COMP";
+      const isWeeklyOff = record.status === "WEEKLY_OFF";
+      const isHoliday = record.status === "HOLIDAY";
+      const holidayName = record.holiday?.name ?? "Holiday";
+      const isLeave = record.status === "LEAVE";
+      const leaveName = record.leave ? `${record.leave.name} Leave` : "Leave";
 
       let statusClass = "";
       if (isAbsent) statusClass = "row-absent";
+      if (isHalfDay) statusClass = "row-half";
       if (isIncomplete) statusClass = "row-incomplete";
       if (isComp) statusClass = "row-comp";
+      if (isWeeklyOff) statusClass = "row-off";
+      if (isHoliday) statusClass = "row-holiday";
+      if (isLeave) statusClass = "row-leave";
 
       const creativeAbsent = `
         <div class="status-pill absent">
@@ -300,14 +383,48 @@ export class ReportTemplateService {
         </div>
       `;
 
+      const creativeWeeklyOff = `
+        <div class="status-pill off">
+          <span class="icon">○</span>
+          <span>Weekly Off</span>
+        </div>
+      `;
+
+      const creativeHoliday = `
+        <div class="status-pill holiday">
+          <span class="icon">◆</span>
+          <span>${holidayName}</span>
+        </div>
+      `;
+
+      const creativeLeave = `
+        <div class="status-pill leave">
+          <span class="icon">✈</span>
+          <span>${leaveName}</span>
+        </div>
+      `;
+
       let punchContent = punchRecords;
-      if (isAbsent) punchContent = creativeAbsent;
+      if (isAbsent && !isShortDay) punchContent = creativeAbsent;
       if (isComp) punchContent = creativeComp;
+      if (isWeeklyOff) punchContent = creativeWeeklyOff;
+      if (isHoliday) punchContent = creativeHoliday;
+      if (isLeave) punchContent = creativeLeave;
       if (isIncomplete && !punchRecords) punchContent = creativeIncomplete;
 
       if (isIncomplete && punchContent !== creativeIncomplete) {
         punchContent += ` <span class="status-pill incomplete-mini">Missing Out</span>`;
       }
+      punchContent += this.formatBreakPills(record);
+      if (isHalfDay) {
+        punchContent += ` <span class="status-pill half-mini">Half Day</span>`;
+      }
+      if (isShortDay) {
+        punchContent += ` <span class="status-pill absent-mini">Absent: Short Hours</span>`;
+      }
+      if (record.holiday && !isHoliday && record.punches.length > 0) {
+        punchContent += ` <span class="status-pill holiday-mini">Worked: ${holidayName}</span>`;
+      }
 
       tableRows += `
         <tr class="${statusClass}">
@@ -333,9 +450,9 @@ export class ReportTemplateService {
     // Construct Filename: employeeId.Name-mmmYY-report.pdf
     const fromDate = new Date(dateRange.from);
     const monthShort = fromDate
-      .toLocaleDateString("en-US", { month: "short" })
+      .toLocaleDateString("en-US", { month: "short", timeZone: "UTC" })
       .toLowerCase();
-    const yearShort = String(fromDate.getFullYear()).slice(-2);
+    const yearShort = String(fromDate.getUTCFullYear()).slice(-2);
     // Remove spaces from name for filename safety but keep basic structure
     const safeName = userName.replace(/[^a-zA-Z0-9]/g, "");
     const filename = `${userId}.${safeName}-${monthShort}${yearShort}-report.html`;
@@ -467,7 +584,7 @@ export class ReportTemplateService {
 
     .stats-grid-days {
       display: grid;
-      grid-template-columns: repeat(5, 1fr);
+      grid-template-columns: repeat(9, 1fr);
       gap: 15px;
       margin-bottom: 15px;
     }
@@ -493,9 +610,13 @@ export class ReportTemplateService {
     .mini-stat .value { font-size: 18px; font-weight: 700; color: var(--primary); }
     
     .mini-stat.present .value { color: var(--success); }
+    .mini-stat.half .value { color: #65a30d; }
     .mini-stat.absent .value { color: var(--danger); }
     .mini-stat.incomplete .value { color: #60a5fa; }
     .mini-stat.comp .value { color: #fbbf24; }
+    .mini-stat.off .value { color: #94a3b8; }
+    .mini-stat.holiday .value { color: #8b5cf6; }
+    .mini-stat.leave .value { color: #0ea5e9; }
 
     .hour-stat {
       display: flex;
@@ -528,8 +649,12 @@ export class ReportTemplateService {
     
     /* Status Styling */
     .row-absent td { background-color: #fef2f2; color: var(--secondary); }
+    .row-half td { background-color: #f7fee7; }
     .row-incomplete td { background-color: #fff7ed; }
     .row-comp td { background-color: #fefce8; }
+    .row-off td { background-color: #f8fafc; color: var(--secondary); }
+    .row-holiday td { background-color: #f5f3ff; color: var(--secondary); }
+    .row-leave td { background-color: #f0f9ff; color: var(--secondary); }
 
     /* Punch Tags */
     .punch-list { display: flex; flex-wrap: wrap; gap: 6px; align-items: center; }
@@ -549,6 +674,7 @@ export class ReportTemplateService {
 
     .punch-tag.out { border-left: 2px solid var(--danger); }
     .punch-tag.edited { background-color: #fefce8; border-color: #fca5a5; border-style: dashed; }
+    .punch-tag.ignored { color: var(--secondary); text-decoration: line-through; opacity: 0.7; }
 
     /* Status Pills */
     .status-pill {
@@ -562,6 +688,14 @@ export class ReportTemplateService {
       text-transform: uppercase;
     }
     .status-pill.absent { background: #f1f5f9; color: #64748b; border: 1px dashed #cbd5e1; }
+    .status-pill.absent-mini { padding: 1px 6px; font-size: 9px; background: #f1f5f9; color: #64748b; border: 1px dashed #cbd5e1; }
+    .status-pill.break-mini { padding: 1px 6px; font-size: 9px; background: #f8fafc; color: #475569; border: 1px solid #e2e8f0; }
+    .status-pill.long-break-mini { padding: 1px 6px; font-size: 9px; background: #fef2f2; color: #b91c1c; border: 1px solid #fecaca; }
+    .status-pill.half-mini { padding: 1px 6px; font-size: 9px; background: #f7fee7; color: #4d7c0f; border: 1px solid #d9f99d; }
+    .status-pill.off { background: #f8fafc; color: #94a3b8; border: 1px solid #e2e8f0; }
+    .status-pill.holiday { background: #f5f3ff; color: #6d28d9; border: 1px solid #ddd6fe; }
+    .status-pill.holiday-mini { padding: 1px 6px; font-size: 9px; background: #f5f3ff; color: #7c3aed; border: 1px solid #ddd6fe; }
+    .status-pill.leave { background: #f0f9ff; color: #0369a1; border: 1px solid #bae6fd; }
     .status-pill.incomplete { background: #fff7ed; color: #9a3412; border: 1px solid #ffedd5; }
     .status-pill.incomplete-mini { padding: 1px 6px; font-size: 9px; background: #fff7ed; color: #ea580c; border: 1px solid #ffedd5; }
     
@@ -604,7 +738,7 @@ export class ReportTemplateService {
             dateRange.from,
             dateRange.to,
           )}</div>
-          <div class="meta-generated">Generated: ${this.getCurrentTimestamp()}</div>
+          <div class="meta-generated">Generated: ${this.getCurrentTimestamp(data.timeZone)}</div>
         </div>
       </div>
     </header>
@@ -626,6 +760,10 @@ export class ReportTemplateService {
           <div class="label">Present</div>
           <div class="value">${displayPresentDays}</div>
         </div>
+        <div class="mini-stat half">
+          <div class="label">Half Day</div>
+          <div class="value">${displayHalfDays}</div>
+        </div>
         <div class="mini-stat absent">
           <div class="label">Absent</div>
           <div class="value">${displayAbsentDays}</div>
@@ -638,6 +776,18 @@ export class ReportTemplateService {
           <div class="label">Comp Off</div>
           <div class="value">${displayCompDays}</div>
         </div>
+        <div class="mini-stat off">
+          <div class="label">Weekly Off</div>
+          <div class="value">${displayWeeklyOffDays}</div>
+        </div>
+        <div class="mini-stat holiday">
+          <div class="label">Holidays</div>
+          <div class="value">${displayHolidayDays}</div>
+        </div>
+        <div class="mini-stat leave">
+          <div class="label">Leave</div>
+          <div class="value">${displayLeaveDays}</div>
+        </div>
       </div>
 
       <div class="stats-grid-hours">
@@ -681,25 +831,41 @@ export class ReportTemplateService {
   } {
     const { userId, userName, dailyRecords, dateRange, summary, payout } = data;
 
-    const sortedRecords = [...dailyRecords].sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
-    );
+    // Punches deleted by hand are kept in the app for restoring, not reported
+    const sortedRecords = [...dailyRecords]
+      .map((record) => ({
+        ...record,
+        punches: record.punches.filter((punch) => !punch.isDeleted),
+      }))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
     // Calculate metrics locally (fallback)
     let totalMinutes = 0;
     let localPresentDays = 0;
+    let localHalfDays = 0;
     let localAbsentDays = 0;
     let localIncompleteDays = 0;
     let localCompDays = 0;
+    let localWeeklyOffDays = 0;
+    let localHolidayDays = 0;
+    let localLeaveDays = 0;
 
     sortedRecords.forEach((record) => {
       const { punches } = record;
-      const { inDuration } = this.calculateInOutDuration(punches);
-      totalMinutes += inDuration;
+      // Worked minutes after the break policy, not the raw time in
+      totalMinutes += record.totalHours * 60 + record.totalMinutes;
 
       if (record.status === "COMP") {
         localCompDays++;
-      } else if (punches.length === 0) {
+      } else if (record.status === "WEEKLY_OFF") {
+        localWeeklyOffDays++;
+      } else if (record.status === "HOLIDAY") {
+        localHolidayDays++;
+      } else if (record.status === "LEAVE") {
+        localLeaveDays++;
+      } else if (record.status === "HALF_DAY") {
+        localHalfDays++;
+      } else if (record.status === "ABSENT" || punches.length === 0) {
         localAbsentDays++;
       } else if (punches.length % 2 !== 0) {
         localIncompleteDays++;
@@ -718,10 +884,15 @@ export class ReportTemplateService {
     // Use summary if provided
     const displayTotalDays = summary?.totalDays ?? sortedRecords.length;
     const displayPresentDays = summary?.presentDays ?? localPresentDays;
+    const displayHalfDays = summary?.halfDays ?? localHalfDays;
     const displayAbsentDays = summary?.absentDays ?? localAbsentDays;
     const displayIncompleteDays =
       summary?.incompleteDays ?? localIncompleteDays;
     const displayCompDays = summary?.compDays ?? localCompDays;
+    const displayWeeklyOffDays =
+      summary?.weeklyOffDays ?? localWeeklyOffDays;
+    const displayHolidayDays = summary?.holidayDays ?? localHolidayDays;
+    const displayLeaveDays = summary?.leaveDays ?? localLeaveDays;
 
     let totalHoursVal = localTotalHours;
     let totalMinsVal = localTotalMins;
@@ -771,29 +942,57 @@ export class ReportTemplateService {
       const isAbsent =
         record.status === "ABSENT" ||
         (!record.status && record.punches.length === 0);
+      // Punches too short for a half day still show, marked absent
+      const isShortDay = isAbsent && record.punches.length > 0;
+      const isHalfDay = record.status === "HALF_DAY";
       const isIncomplete =
         record.status === "INCOMPLETE" ||
         (!record.status &&
           record.punches.length > 0 &&
           record.punches.length % 2 !== 0);
       const isComp = record.status === "COMP";
+      const isWeeklyOff = record.status === "WEEKLY_OFF";
+      const isHoliday = record.status === "HOLIDAY";
+      const holidayName = record.holiday?.name ?? "Holiday";
+      const isLeave = record.status === "LEAVE";
+      const leaveName = record.leave ? `${record.leave.name} Leave` : "Leave";
 
       let statusClass = "";
       if (isAbsent) statusClass = "row-absent";
+      if (isHalfDay) statusClass = "row-half";
       if (isIncomplete) statusClass = "row-incomplete";
       if (isComp) statusClass = "row-comp";
+      if (isWeeklyOff) statusClass = "row-off";
+      if (isHoliday) statusClass = "row-holiday";
+      if (isLeave) statusClass = "row-leave";
 
       const creativeAbsent = `<div class="status-pill absent"><span class="icon">●</span><span>Absent</span></div>`;
       const creativeIncomplete = `<div class="status-pill incomplete"><span class="icon">!</span><span>Incomplete Punch</span></div>`;
       const creativeComp = `<div class="status-pill comp"><span class="icon">★</span><span>Comp Off</span></div>`;
+      const creativeWeeklyOff = `<div class="status-pill off"><span class="icon">○</span><span>Weekly Off</span></div>`;
+      const creativeHoliday = `<div class="status-pill holiday"><span class="icon">◆</span><span>${holidayName}</span></div>`;
+      const creativeLeave = `<div class="status-pill leave"><span class="icon">✈</span><span>${leaveName}</span></div>`;
 
       let punchContent = punchRecords;
-      if (isAbsent) punchContent = creativeAbsent;
+      if (isAbsent && !isShortDay) punchContent = creativeAbsent;
       if (isComp) punchContent = creativeComp;
+      if (isWeeklyOff) punchContent = creativeWeeklyOff;
+      if (isHoliday) punchContent = creativeHoliday;
+      if (isLeave) punchContent = creativeLeave;
       if (isIncomplete && !punchRecords) punchContent = creativeIncomplete;
       if (isIncomplete && punchContent !== creativeIncomplete) {
         punchContent += ` <span class="status-pill incomplete-mini">Missing Out</span>`;
       }
+      punchContent += this.formatBreakPills(record);
+      if (isHalfDay) {
+        punchContent += ` <span class="status-pill half-mini">Half Day</span>`;
+      }
+      if (isShortDay) {
+        punchContent += ` <span class="status-pill absent-mini">Absent: Short Hours</span>`;
+      }
+      if (record.holiday && !isHoliday && record.punches.length > 0) {
+        punchContent += ` <span class="status-pill holiday-mini">Worked: ${holidayName}</span>`;
+      }
 
       tableRows += `
         <tr class="${statusClass}">
@@ -833,14 +1032,23 @@ export class ReportTemplateService {
     // Filename
     const fromDate = new Date(dateRange.from);
     const monthShort = fromDate
-      .toLocaleDateString("en-US", { month: "short" })
+      .toLocaleDateString("en-US", { month: "short", timeZone: "UTC" })
       .toLowerCase();
-    const yearShort = String(fromDate.getFullYear()).slice(-2);
+    const yearShort = String(fromDate.getUTCFullYear()).slice(-2);
     const safeName = userName.replace(/[^a-zA-Z0-9]/g, "");
     const filename = `${userId}.${safeName}-${monthShort}${yearShort}-payout.html`;
 
     const logoBase64 = this.getLogoBase64();
 
+    // The late / early-out counts behind a penalty deduction
+    const penaltyReasons = [
+      payout.lateDays ? `${payout.lateDays} late` : "",
+      payout.veryLateDays ? `${payout.veryLateDays} very late` : "",
+      payout.earlyOutDays ? `${payout.earlyOutDays} early exits` : "",
+    ]
+      .filter(Boolean)
+      .join(", ");
+
     const html = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -899,7 +1107,7 @@ export class ReportTemplateService {
     .user-details h2 { font-size: 18px; font-weight: 700; color: var(--primary); }
     .user-details p { font-size: 12px; color: var(--secondary); margin-top: 4px; }
 
-    .stats-grid-days { display: grid; grid-template-columns: repeat(5, 1fr); gap: 15px; margin-bottom: 15px; }
+    .stats-grid-days { display: grid; grid-template-columns: repeat(9, 1fr); gap: 15px; margin-bottom: 15px; }
     .stats-grid-hours { display: grid; grid-template-columns: 1fr; gap: 15px; background: white; padding: 15px; border-radius: 8px; border: 1px solid var(--border); }
 
     .mini-stat { background: white; padding: 12px; border-radius: 8px; border: 1px solid var(--border); text-align: center; }
@@ -907,9 +1115,13 @@ export class ReportTemplateService {
     .mini-stat .label-mr { font-size: 10px; color: #6b7280; font-weight: 500; margin-bottom: 4px; }
     .mini-stat .value { font-size: 18px; font-weight: 700; color: var(--primary); }
     .mini-stat.present .value { color: var(--success); }
+    .mini-stat.half .value { color: #65a30d; }
     .mini-stat.absent .value { color: var(--danger); }
     .mini-stat.incomplete .value { color: #60a5fa; }
     .mini-stat.comp .value { color: #fbbf24; }
+    .mini-stat.off .value { color: #94a3b8; }
+    .mini-stat.holiday .value { color: #8b5cf6; }
+    .mini-stat.leave .value { color: #0ea5e9; }
 
     .hour-stat { display: flex; flex-direction: column; align-items: center; }
     .hour-stat .label { font-size: 11px; text-transform: uppercase; color: var(--secondary); font-weight: 600; margin-bottom: 0; }
@@ -952,8 +1164,12 @@ export class ReportTemplateService {
     .weekday { color: var(--secondary); font-size: 10px; margin-left: 4px; }
 
     .row-absent td { background-color: #fef2f2; color: var(--secondary); }
+    .row-half td { background-color: #f7fee7; }
     .row-incomplete td { background-color: #fff7ed; }
     .row-comp td { background-color: #fefce8; }
+    .row-off td { background-color: #f8fafc; color: var(--secondary); }
+    .row-holiday td { background-color: #f5f3ff; color: var(--secondary); }
+    .row-leave td { background-color: #f0f9ff; color: var(--secondary); }
 
     .punch-list { display: flex; flex-wrap: wrap; gap: 6px; align-items: center; }
     .punch-tag { background: white; border: 1px solid var(--border); border-radius: 4px; padding: 2px 6px; font-family: 'JetBrains Mono', monospace; font-size: 10px; font-weight: 500; }
@@ -961,12 +1177,21 @@ export class ReportTemplateService {
     .punch-tag.in { border-left: 2px solid var(--success); }
     .punch-tag.out { border-left: 2px solid var(--danger); }
     .punch-tag.edited { background-color: #fefce8; border-color: #fca5a5; border-style: dashed; }
+    .punch-tag.ignored { color: var(--secondary); text-decoration: line-through; opacity: 0.7; }
 
     .status-pill { display: inline-flex; align-items: center; gap: 6px; padding: 4px 10px; border-radius: 20px; font-size: 10px; font-weight: 600; text-transform: uppercase; }
     .status-pill.absent { background: #f1f5f9; color: #64748b; border: 1px dashed #cbd5e1; }
+    .status-pill.absent-mini { padding: 1px 6px; font-size: 9px; background: #f1f5f9; color: #64748b; border: 1px dashed #cbd5e1; }
+    .status-pill.break-mini { padding: 1px 6px; font-size: 9px; background: #f8fafc; color: #475569; border: 1px solid #e2e8f0; }
+    .status-pill.long-break-mini { padding: 1px 6px; font-size: 9px; background: #fef2f2; color: #b91c1c; border: 1px solid #fecaca; }
+    .status-pill.half-mini { padding: 1px 6px; font-size: 9px; background: #f7fee7; color: #4d7c0f; border: 1px solid #d9f99d; }
     .status-pill.incomplete { background: #fff7ed; color: #9a3412; border: 1px solid #ffedd5; }
     .status-pill.incomplete-mini { padding: 1px 6px; font-size: 9px; background: #fff7ed; color: #ea580c; border: 1px solid #ffedd5; }
     .status-pill.comp { background: #fefce8; color: #a16207; border: 1px solid #fef08a; }
+    .status-pill.off { background: #f8fafc; color: #94a3b8; border: 1px solid #e2e8f0; }
+    .status-pill.holiday { background: #f5f3ff; color: #6d28d9; border: 1px solid #ddd6fe; }
+    .status-pill.holiday-mini { padding: 1px 6px; font-size: 9px; background: #f5f3ff; color: #7c3aed; border: 1px solid #ddd6fe; }
+    .status-pill.leave { background: #f0f9ff; color: #0369a1; border: 1px solid #bae6fd; }
 
     .footer { margin-top: 30px; padding-top: 15px; border-top: 1px solid var(--border); font-size: 10px; color: var(--secondary); display: flex; justify-content: space-between; }
 
@@ -1000,7 +1225,7 @@ export class ReportTemplateService {
             dateRange.from,
             dateRange.to,
           )}</div>
-          <div class="meta-generated">Generated: ${this.getCurrentTimestamp()}</div>
+          <div class="meta-generated">Generated: ${this.getCurrentTimestamp(data.timeZone)}</div>
         </div>
       </div>
     </header>
@@ -1024,6 +1249,11 @@ export class ReportTemplateService {
           <div class="label-mr">हजर</div>
           <div class="value">${displayPresentDays}</div>
         </div>
+        <div class="mini-stat half">
+          <div class="label">Half Day</div>
+          <div class="label-mr">अर्धा दिवस</div>
+          <div class="value">${displayHalfDays}</div>
+        </div>
         <div class="mini-stat absent">
           <div class="label">Absent</div>
           <div class="label-mr">अनुपस्थित</div>
@@ -1039,6 +1269,21 @@ export class ReportTemplateService {
           <div class="label-mr">पगारी सुट्टी</div>
           <div class="value">${displayCompDays}</div>
         </div>
+        <div class="mini-stat off">
+          <div class="label">Weekly Off</div>
+          <div class="label-mr">साप्ताहिक सुट्टी</div>
+          <div class="value">${displayWeeklyOffDays}</div>
+        </div>
+        <div class="mini-stat holiday">
+          <div class="label">Holidays</div>
+          <div class="label-mr">सार्वजनिक सुट्टी</div>
+          <div class="value">${displayHolidayDays}</div>
+        </div>
+        <div class="mini-stat leave">
+          <div class="label">Leave</div>
+          <div class="label-mr">रजा</div>
+          <div class="value">${displayLeaveDays}</div>
+        </div>
       </div>
 
       <div class="stats-grid-hours">
@@ -1061,9 +1306,18 @@ export class ReportTemplateService {
 
       <div class="payout-breakdown">
         <div class="breakdown-row addition">
-          <span class="calc">${payout.totalHoursDecimal.toFixed(
-            2,
-          )} hrs × ${formatCurrencySpaced(payout.hourlySalary)}</span>
+          <div class="calc">
+            <div>${payout.totalHoursDecimal.toFixed(
+              2,
+            )} hrs × ${formatCurrencySpaced(payout.hourlySalary)}</div>
+            ${
+              payout.unapprovedOvertimeHours
+                ? `<div class="sub-dates">Excludes ${payout.unapprovedOvertimeHours.toFixed(
+                    2,
+                  )} hrs of unapproved overtime</div>`
+                : ""
+            }
+          </div>
           <span class="amount">+ ${formatCurrency(payout.hoursEarning)}</span>
         </div>
         ${
@@ -1081,6 +1335,70 @@ export class ReportTemplateService {
         `
             : ""
         }
+        ${
+          payout.paidHolidayEarning
+            ? `
+        <div class="breakdown-row addition">
+          <div class="calc">
+            <div>${payout.paidHolidayDays} paid holidays × ${formatCurrency(
+              payout.compDaySalary,
+            )}</div>
+            <div class="sub-dates">(${(payout.paidHolidayDates ?? []).join(", ")})</div>
+          </div>
+          <span class="amount">+ ${formatCurrency(payout.paidHolidayEarning)}</span>
+        </div>
+        `
+            : ""
+        }
+        ${
+          payout.paidLeaveEarning
+            ? `
+        <div class="breakdown-row addition">
+          <div class="calc">
+            <div>${payout.paidLeaveDays} paid leave days × ${formatCurrency(
+              payout.compDaySalary,
+            )}</div>
+            <div class="sub-dates">(${(payout.paidLeaveDates ?? []).join(", ")})</div>
+          </div>
+          <span class="amount">+ ${formatCurrency(payout.paidLeaveEarning)}</span>
+        </div>
+        `
+            : ""
+        }
+        ${
+          payout.holidayEarning
+            ? `
+        <div class="breakdown-row addition">
+          <div class="calc">
+            <div>${(payout.holidayWorkHours ?? 0).toFixed(
+              2,
+            )} holiday hrs × ${formatCurrencySpaced(
+              payout.hourlySalary * ((payout.holidayRate ?? 1) - 1),
+            )}</div>
+            <div class="sub-dates">Holiday work premium (${payout.holidayRate}× rate)</div>
+          </div>
+          <span class="amount">+ ${formatCurrency(payout.holidayEarning)}</span>
+        </div>
+        `
+            : ""
+        }
+        ${
+          payout.overtimeEarning
+            ? `
+        <div class="breakdown-row addition">
+          <div class="calc">
+            <div>${(payout.overtimeHours ?? 0).toFixed(
+              2,
+            )} overtime hrs × ${formatCurrencySpaced(
+              payout.hourlySalary * ((payout.overtimeRate ?? 1) - 1),
+            )}</div>
+            <div class="sub-dates">Overtime premium (${payout.overtimeRate}× rate)</div>
+          </div>
+          <span class="amount">+ ${formatCurrency(payout.overtimeEarning)}</span>
+        </div>
+        `
+            : ""
+        }
         ${
           payout.bonus > 0
             ? `
@@ -1107,6 +1425,21 @@ export class ReportTemplateService {
         `
             : ""
         }
+        ${
+          payout.penaltyDeduction
+            ? `
+        <div class="breakdown-row deduction">
+          <div class="calc">
+            <div>${payout.penaltyDays} penalty days × ${formatCurrency(
+              payout.compDaySalary,
+            )}</div>
+            <div class="sub-dates">Late / early penalty (${penaltyReasons})</div>
+          </div>
+          <span class="amount">- ${formatCurrency(payout.penaltyDeduction)}</span>
+        </div>
+        `
+            : ""
+        }
       </div>
 
       <div class="payout-total">
@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiParam, ApiQuery } from "@nestjs/swagger";
+import { AuditLogService } from "./audit-log.service";
+
+@ApiTags("V2 Audit Log")
+@Controller("v2/audit-log")
+export class AuditLogController {
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  @Get(":userId")
+  @ApiOperation({
+    summary:
+      "Manual changes to an employee's days in a month: who, when, why, and the day before and after",
+  })
+  @ApiParam({ name: "userId", type: Number })
+  @ApiQuery({ name: "month", description: "0-11", example: 2 })
+  @ApiQuery({ name: "year", example: 2026 })
+  async getEntries(
+    @Param("userId") userId: string,
+    @Query("month") month: string,
+    @Query("year") year: string
+  ) {
+    const biometricId = this.parseId(userId, "user");
+    if (!month || !year) {
+      throw new HttpException(
+        "month and year are required",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    try {
+      const entries = await this.auditLogService.getEntries(
+        biometricId,
+        Number(month),
+        Number(year)
+      );
+      return { success: true, entries };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get audit log",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  private parseId(id: string, label: string): number {
+    const parsed = parseInt(id, 10);
+    if (isNaN(parsed)) {
+      throw new HttpException(`Invalid ${label} ID`, HttpStatus.BAD_REQUEST);
+    }
+    return parsed;
+  }
+}
@@ -0,0 +1,171 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, EntityManager, Between } from "typeorm";
+import {
+  AuditActionEnum,
+  AuditLog,
+  DailyAttendance,
+  Employee,
+  Punch,
+} from "./entities";
+import { PunchIngestionService } from "./punch-ingestion.service";
+import {
+  addDays,
+  formatTime,
+  parseAttendanceDateTime,
+} from "@attendance/shared";
+import type {
+  AttendanceStatus,
+  AuditDaySnapshot,
+  AuditEntry,
+  ManualEdit,
+  OverrideStatus,
+} from "@attendance/shared";
+
+/**
+ * Audit trail of manual attendance changes
+ *
+ * Every punch added or deleted by hand and every status set or cleared is
+ * recorded with who made it, why, and the stored day before and after, in
+ * the same transaction as the change itself.
+ */
+@Injectable()
+export class AuditLogService {
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly punchIngestion: PunchIngestionService
+  ) {}
+
+  /**
+   * Changes to an employee's days within a month (0-based, as in reports),
+   * newest first
+   */
+  async getEntries(
+    userId: number,
+    month: number,
+    year: number
+  ): Promise<AuditEntry[]> {
+    if (!Number.isInteger(month) || month < 0 || month > 11) {
+      throw new Error("month must be 0-11");
+    }
+    if (!Number.isInteger(year)) {
+      throw new Error("year must be a whole number");
+    }
+
+    const employee = await this.dataSource.manager.findOne(Employee, {
+      where: { biometric_id: userId },
+    });
+    if (!employee) {
+      throw new Error(`Employee with ID ${userId} not found`);
+    }
+
+    const from = `${year}-${String(month + 1).padStart(2, "0")}-01`;
+    const to = addDays(
+      month === 11
+        ? `${year + 1}-01-01`
+        : `${year}-${String(month + 2).padStart(2, "0")}-01`,
+      -1
+    );
+    const entries = await this.dataSource.manager.find(AuditLog, {
+      where: { employee_id: employee.id, date: Between(from, to) },
+      order: { id: "DESC" },
+    });
+    return entries.map((entry) => ({
+      id: entry.id,
+      userId,
+      date: entry.date,
+      action: entry.action,
+      actor: entry.actor,
+      reason: entry.reason,
+      before: entry.before,
+      after: entry.after,
+      createdAt: entry.created_at.toISOString(),
+    }));
+  }
+
+  /**
+   * Run a manual change to an employee-day and record it; the change is
+   * refused without an actor and a reason
+   */
+  async recordChange(
+    manager: EntityManager,
+    employee: Employee,
+    date: string,
+    action: AuditActionEnum,
+    edit: ManualEdit,
+    change: () => Promise<void>
+  ): Promise<void> {
+    const actor = edit?.actor?.trim();
+    const reason = edit?.reason?.trim();
+    if (!actor) {
+      throw new Error("Who is making the change (actor) is required");
+    }
+    if (actor.length > 100) {
+      throw new Error("actor must be at most 100 characters");
+    }
+    if (!reason) {
+      throw new Error("A reason is required for manual changes");
+    }
+
+    const before = await this.snapshotDay(manager, employee.id, date);
+    await change();
+    const after = await this.snapshotDay(manager, employee.id, date);
+
+    await manager.insert(AuditLog, {
+      employee_id: employee.id,
+      date,
+      action,
+      actor,
+      reason,
+      before,
+      after,
+    });
+  }
+
+  /**
+   * The stored day with its punch times, or null if it is not stored
+   */
+  private async snapshotDay(
+    manager: EntityManager,
+    employeeId: number,
+    date: string
+  ): Promise<AuditDaySnapshot | null> {
+    const day = await manager.findOne(DailyAttendance, {
+      where: { employee_id: employeeId, date },
+    });
+    if (!day) return null;
+
+    const { timeZone, dayStartTime } =
+      await this.punchIngestion.loadSettings(manager);
+    const punches = await manager.find(Punch, {
+      where: {
+        employee_id: employeeId,
+        punch_time: Between(
+          parseAttendanceDateTime(date, dayStartTime!, timeZone, dayStartTime),
+          new Date(
+            parseAttendanceDateTime(
+              addDays(date, 1),
+              dayStartTime!,
+              timeZone,
+              dayStartTime
+            ).getTime() - 1
+          )
+        ),
+      },
+      order: { punch_time: "ASC" },
+    });
+
+    return {
+      status: day.status as AttendanceStatus,
+      firstIn: day.first_in,
+      lastOut: day.last_out,
+      totalMinutes: day.total_minutes,
+      punches: punches.map((punch) => formatTime(punch.punch_time, timeZone)),
+      override: day.override_status
+        ? {
+            status: day.override_status as OverrideStatus,
+            reason: day.override_reason ?? "",
+          }
+        : null,
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiParam, ApiQuery } from "@nestjs/swagger";
+import { CompOffService } from "./comp-off.service";
+
+@ApiTags("V2 Comp Off")
+@Controller("v2/comp-off")
+export class CompOffController {
+  constructor(private readonly compOffService: CompOffService) {}
+
+  @Get(":userId")
+  @ApiOperation({
+    summary:
+      "Comp-off ledger of an employee: credits earned on weekly offs and holidays, used and expired",
+  })
+  @ApiParam({ name: "userId", type: Number })
+  @ApiQuery({ name: "asOf", required: false, example: "2026-03-31" })
+  async getLedger(
+    @Param("userId") userId: string,
+    @Query("asOf") asOf?: string
+  ) {
+    const biometricId = this.parseId(userId, "user");
+
+    try {
+      const ledger = await this.compOffService.getLedger(biometricId, asOf);
+      return { success: true, ledger };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get comp-off ledger",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  private parseId(id: string, label: string): number {
+    const parsed = parseInt(id, 10);
+    if (isNaN(parsed)) {
+      throw new HttpException(`Invalid ${label} ID`, HttpStatus.BAD_REQUEST);
+    }
+    return parsed;
+  }
+}
@@ -0,0 +1,193 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, EntityManager, In, LessThanOrEqual } from "typeorm";
+import {
+  AttendanceStatusEnum,
+  DailyAttendance,
+  Employee,
+  OrganisationSettings,
+} from "./entities";
+import { PunchIngestionService } from "./punch-ingestion.service";
+import { buildCompOffLedger, formatDate } from "@attendance/shared";
+import type {
+  AttendanceStatus,
+  CompOffBalance,
+  CompOffLedger,
+  DailyAttendance as DailyAttendanceRecord,
+} from "@attendance/shared";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Stored statuses that earn or use comp-off credits
+const LEDGER_STATUSES = [
+  AttendanceStatusEnum.PRESENT,
+  AttendanceStatusEnum.COMP,
+];
+
+/**
+ * Comp-off ledgers
+ *
+ * Like leave balances they are derived rather than stored: working a weekly
+ * off or a holiday earns a credit, a COMP day uses the oldest credit still
+ * usable, and credits expire after the organisation's expiry period.
+ */
+@Injectable()
+export class CompOffService {
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly punchIngestion: PunchIngestionService
+  ) {}
+
+  /**
+   * Ledger of an employee up to a date (by default today)
+   */
+  async getLedger(userId: number, asOf?: string): Promise<CompOffLedger> {
+    const manager = this.dataSource.manager;
+    const employee = await this.findEmployee(manager, userId);
+    const date = asOf ?? (await this.today(manager));
+    if (!DATE_PATTERN.test(date)) {
+      throw new Error("Dates must be in YYYY-MM-DD format");
+    }
+    const ledgers = await this.buildLedgers(manager, [employee], date);
+    return ledgers.get(employee.id)!;
+  }
+
+  /**
+   * Balances of every employee up to a date, keyed by biometric ID
+   */
+  async getBalances(asOf: string): Promise<Map<number, CompOffBalance>> {
+    const manager = this.dataSource.manager;
+    const employees = await manager.find(Employee, {
+      select: { id: true, biometric_id: true },
+    });
+    const ledgers = await this.buildLedgers(manager, employees, asOf);
+    return new Map(
+      employees.map((employee) => {
+        const { entries, unbackedDays, ...balance } = ledgers.get(
+          employee.id
+        )!;
+        return [employee.biometric_id, balance];
+      })
+    );
+  }
+
+  /**
+   * Refuse a COMP day on a date unless a credit is left for it (counting
+   * COMP days already taken after it)
+   */
+  async assertCanTake(
+    manager: EntityManager,
+    employee: Employee,
+    date: string
+  ): Promise<void> {
+    const days = await this.loadDays(manager, [employee.id]);
+    const settings = await this.loadSettings(manager, [employee.id]);
+    const lastDate = days.reduce(
+      (last, day) => (day.date > last ? day.date : last),
+      date
+    );
+    const current = buildCompOffLedger(employee.id, days, settings, lastDate);
+    const withDay = buildCompOffLedger(
+      employee.id,
+      [
+        ...days.filter((day) => day.date !== date),
+        { date, status: "COMP", totalHours: 0, totalMinutes: 0 },
+      ],
+      settings,
+      lastDate
+    );
+    if (withDay.unbackedDays > current.unbackedDays) {
+      throw new Error(
+        `No comp-off balance for ${date}: ${current.earnedDays} earned, ${current.usedDays} used, ${current.expiredDays} expired`
+      );
+    }
+  }
+
+  private async buildLedgers(
+    manager: EntityManager,
+    employees: Employee[],
+    asOf: string
+  ): Promise<Map<number, CompOffLedger>> {
+    const employeeIds = employees.map((employee) => employee.id);
+    const [days, settings] = await Promise.all([
+      this.loadDays(manager, employeeIds, asOf),
+      this.loadSettings(manager, employeeIds),
+    ]);
+    return new Map(
+      employeeIds.map((employeeId) => [
+        employeeId,
+        buildCompOffLedger(
+          employeeId,
+          days.filter((day) => day.userId === employeeId),
+          settings,
+          asOf
+        ),
+      ])
+    );
+  }
+
+  /**
+   * Stored days that earn or use credits, keyed by employee ID (as the
+   * calendar settings are)
+   */
+  private async loadDays(
+    manager: EntityManager,
+    employeeIds: number[],
+    asOf?: string
+  ): Promise<
+    Pick<
+      DailyAttendanceRecord,
+      "userId" | "date" | "status" | "totalHours" | "totalMinutes"
+    >[]
+  > {
+    if (employeeIds.length === 0) return [];
+    const rows = await manager.find(DailyAttendance, {
+      select: {
+        employee_id: true,
+        date: true,
+        status: true,
+        total_minutes: true,
+      },
+      where: {
+        employee_id: In(employeeIds),
+        status: In(LEDGER_STATUSES),
+        ...(asOf ? { date: LessThanOrEqual(asOf) } : {}),
+      },
+    });
+    return rows.map((row) => ({
+      userId: row.employee_id,
+      date: row.date,
+      status: row.status as AttendanceStatus,
+      totalHours: Math.floor(row.total_minutes / 60),
+      totalMinutes: row.total_minutes % 60,
+    }));
+  }
+
+  private async loadSettings(manager: EntityManager, employeeIds: number[]) {
+    const [settings, organisation] = await Promise.all([
+      this.punchIngestion.loadSettingsFor(manager, employeeIds),
+      manager.findOne(OrganisationSettings, { where: { id: 1 } }),
+    ]);
+    return {
+      ...settings,
+      compOffExpiryDays: organisation?.comp_off_expiry_days ?? null,
+    };
+  }
+
+  private async today(manager: EntityManager): Promise<string> {
+    const { timeZone } = await this.punchIngestion.loadSettings(manager);
+    return formatDate(new Date(), timeZone);
+  }
+
+  private async findEmployee(
+    manager: EntityManager,
+    userId: number
+  ): Promise<Employee> {
+    const employee = await manager.findOne(Employee, {
+      where: { biometric_id: userId },
+    });
+    if (!employee) {
+      throw new Error(`Employee with ID ${userId} not found`);
+    }
+    return employee;
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { Employee } from "./employee.entity";
+import type { AuditDaySnapshot } from "@attendance/shared";
+
+/**
+ * Manual attendance change recorded in the audit log
+ */
+export enum AuditActionEnum {
+  ADD_PUNCH = "ADD_PUNCH",
+  DELETE_PUNCH = "DELETE_PUNCH",
+  RESTORE_PUNCH = "RESTORE_PUNCH",
+  MARK_COMP_OFF = "MARK_COMP_OFF",
+  SET_STATUS = "SET_STATUS",
+  CLEAR_STATUS = "CLEAR_STATUS",
+}
+
+/**
+ * Who changed an employee-day by hand, when and why, with the day as it
+ * stood before and after; entries are only ever added
+ */
+@Entity("audit_log")
+@Index("idx_audit_log_employee_date", ["employee_id", "date"])
+export class AuditLog {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  employee_id: number;
+
+  @ManyToOne("Employee")
+  @JoinColumn({ name: "employee_id" })
+  employee: Employee;
+
+  @Column({ type: "date" })
+  date: string;
+
+  @Column({ type: "varchar", length: 20 })
+  action: AuditActionEnum;
+
+  @Column({ type: "varchar", length: 100 })
+  actor: string;
+
+  @Column({ type: "text" })
+  reason: string;
+
+  @Column({ type: "jsonb", nullable: true })
+  before: AuditDaySnapshot | null;
+
+  @Column({ type: "jsonb", nullable: true })
+  after: AuditDaySnapshot | null;
+
+  @CreateDateColumn({ type: "timestamp" })
+  created_at: Date;
+}
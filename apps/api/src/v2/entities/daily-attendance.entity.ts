@@ -14,8 +14,12 @@ import { Employee } from "./employee.entity";
 export enum AttendanceStatusEnum {
   ABSENT = "ABSENT",
   PRESENT = "PRESENT",
+  HALF_DAY = "HALF_DAY",
   INCOMPLETE = "INCOMPLETE",
   COMP = "COMP",
+  WEEKLY_OFF = "WEEKLY_OFF",
+  HOLIDAY = "HOLIDAY",
+  LEAVE = "LEAVE",
 }
 
 @Entity("daily_attendance")
@@ -55,4 +59,24 @@ export class DailyAttendance {
 
   @Column({ type: "int", default: 0 })
   punch_count: number;
+
+  // Time out between pairs, and how the break policy counted it
+  @Column({ type: "int", default: 0 })
+  break_minutes: number;
+
+  @Column({ type: "int", default: 0 })
+  paid_break_minutes: number;
+
+  @Column({ type: "int", default: 0 })
+  lunch_deduction_minutes: number;
+
+  @Column({ type: "boolean", default: false })
+  is_long_break: boolean;
+
+  // Status set by hand; recalculation keeps it in `status` until cleared
+  @Column({ type: "varchar", length: 20, nullable: true })
+  override_status: AttendanceStatusEnum | null;
+
+  @Column({ type: "text", nullable: true })
+  override_reason: string | null;
 }
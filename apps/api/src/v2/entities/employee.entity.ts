@@ -11,6 +11,14 @@ export class Employee {
   @Column({ type: "varchar", length: 255, nullable: true })
   name: string | null;
 
+  // Weekdays (0 = Sunday) off for this employee; null uses the organisation's
+  @Column({ type: "int", array: true, nullable: true })
+  weekly_off_days: number[] | null;
+
+  // Site the employee works at, for location-specific holidays
+  @Column({ type: "varchar", length: 100, nullable: true, default: null })
+  location: string | null;
+
   @OneToMany("Punch", "employee")
   punches: unknown[];
 }
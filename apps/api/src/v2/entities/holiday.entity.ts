@@ -0,0 +1,35 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from "typeorm";
+
+/**
+ * A date in the holiday calendar
+ */
+@Entity("holidays")
+export class Holiday {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "date" })
+  date: string;
+
+  @Column({ type: "varchar", length: 100 })
+  name: string;
+
+  @Column({ type: "boolean", default: true })
+  is_paid: boolean;
+
+  // Only employees at this location; null = everyone
+  @Column({ type: "varchar", length: 100, nullable: true, default: null })
+  location: string | null;
+
+  @CreateDateColumn({ type: "timestamp" })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: "timestamp" })
+  updated_at: Date;
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * Kind of file an import batch came from
+ */
+export enum ImportBatchKindEnum {
+  ATTENDANCE = "ATTENDANCE",
+  USERS = "USERS",
+}
+
+@Entity("import_batches")
+export class ImportBatch {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "varchar", length: 20 })
+  kind: ImportBatchKindEnum;
+
+  @Column({ type: "varchar", length: 255 })
+  file_name: string;
+
+  @Index("idx_import_batch_file_hash")
+  @Column({ type: "varchar", length: 64 })
+  file_hash: string; // SHA-256 of the uploaded file, hex encoded
+
+  @CreateDateColumn({ type: "timestamp" })
+  uploaded_at: Date;
+
+  // Punch time range covered by the file (attendance files only)
+  @Column({ type: "timestamptz", nullable: true, default: null })
+  first_punch_at: Date | null;
+
+  @Column({ type: "timestamptz", nullable: true, default: null })
+  last_punch_at: Date | null;
+
+  // IANA zone the device clock was read in (attendance files only)
+  @Column({ type: "varchar", length: 64, nullable: true, default: null })
+  time_zone: string | null;
+
+  @Column({ type: "int", default: 0 })
+  total_lines: number; // Lines (attendance) or records (users) read from the file
+
+  @Column({ type: "int", default: 0 })
+  inserted_count: number; // Punches inserted / employees created
+
+  @Column({ type: "int", default: 0 })
+  updated_count: number; // Employees renamed (users files only)
+
+  @Column({ type: "int", default: 0 })
+  skipped_count: number;
+
+  @Column({ type: "timestamp", nullable: true, default: null })
+  rolled_back_at: Date | null;
+}
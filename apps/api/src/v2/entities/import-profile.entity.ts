@@ -0,0 +1,41 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from "typeorm";
+import type { ImportProfileColumns } from "@attendance/shared";
+
+/**
+ * Column mapping for attendance exports that are not in ZKTeco layout
+ */
+@Entity("import_profiles")
+export class ImportProfile {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "varchar", length: 100, unique: true })
+  name: string;
+
+  @Column({ type: "varchar", length: 5, nullable: true, default: null })
+  delimiter: string | null; // null = detect
+
+  @Column({ type: "boolean", default: true })
+  has_header: boolean;
+
+  @Column({ type: "jsonb" })
+  columns: ImportProfileColumns;
+
+  @Column({ type: "varchar", length: 40 })
+  date_format: string;
+
+  @Column({ type: "varchar", length: 40, nullable: true, default: null })
+  time_format: string | null;
+
+  @CreateDateColumn({ type: "timestamp" })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: "timestamp" })
+  updated_at: Date;
+}
@@ -1,3 +1,15 @@
 export * from "./employee.entity";
 export * from "./punch.entity";
 export * from "./daily-attendance.entity";
+export * from "./import-batch.entity";
+export * from "./import-profile.entity";
+export * from "./organisation-settings.entity";
+export * from "./shift.entity";
+export * from "./roster-entry.entity";
+export * from "./roster-pattern.entity";
+export * from "./holiday.entity";
+export * from "./leave-type.entity";
+export * from "./leave-application.entity";
+export * from "./leave-opening-balance.entity";
+export * from "./overtime-approval.entity";
+export * from "./audit-log.entity";
@@ -0,0 +1,80 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { Employee } from "./employee.entity";
+import { LeaveType } from "./leave-type.entity";
+
+/**
+ * Leave application status
+ */
+export enum LeaveApplicationStatusEnum {
+  PENDING = "PENDING",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+  CANCELLED = "CANCELLED",
+}
+
+/**
+ * A request for leave over a date range within one year; approved leave
+ * marks the days without punches in it as LEAVE
+ */
+@Entity("leave_applications")
+@Index("idx_leave_application_employee_dates", ["employee_id", "from_date"])
+export class LeaveApplication {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  employee_id: number;
+
+  @ManyToOne("Employee")
+  @JoinColumn({ name: "employee_id" })
+  employee: Employee;
+
+  @Column()
+  leave_type_id: number;
+
+  @ManyToOne("LeaveType")
+  @JoinColumn({ name: "leave_type_id" })
+  leave_type: LeaveType;
+
+  @Column({ type: "date" })
+  from_date: string;
+
+  // Inclusive
+  @Column({ type: "date" })
+  to_date: string;
+
+  // Days taken: the range less weekly offs and holidays when applied for
+  @Column({ type: "int" })
+  days: number;
+
+  @Column({ type: "text", nullable: true, default: null })
+  reason: string | null;
+
+  @Column({
+    type: "varchar",
+    length: 10,
+    default: LeaveApplicationStatusEnum.PENDING,
+  })
+  status: LeaveApplicationStatusEnum;
+
+  @Column({ type: "text", nullable: true, default: null })
+  decision_note: string | null;
+
+  @Column({ type: "timestamp", nullable: true, default: null })
+  decided_at: Date | null;
+
+  @CreateDateColumn({ type: "timestamp" })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: "timestamp" })
+  updated_at: Date;
+}
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { Employee } from "./employee.entity";
+
+/**
+ * Opening leave balance of an employee for a year, set by hand (e.g. when
+ * moving from another system); years without one open with the days carried
+ * forward from the year before
+ */
+@Entity("leave_opening_balances")
+@Index(
+  "idx_leave_opening_employee_type_year",
+  ["employee_id", "leave_type_id", "year"],
+  { unique: true }
+)
+export class LeaveOpeningBalance {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  employee_id: number;
+
+  @ManyToOne("Employee")
+  @JoinColumn({ name: "employee_id" })
+  employee: Employee;
+
+  @Column()
+  leave_type_id: number;
+
+  @Column({ type: "int" })
+  year: number;
+
+  @Column({ type: "double precision" })
+  opening_days: number;
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from "typeorm";
+
+/**
+ * How a leave type's yearly quota is credited
+ */
+export enum LeaveAccrualEnum {
+  YEARLY = "YEARLY", // All on 1 January
+  MONTHLY = "MONTHLY", // A twelfth at the start of each month
+}
+
+/**
+ * A kind of leave (casual, sick, earned, unpaid, ...)
+ */
+@Entity("leave_types")
+export class LeaveType {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "varchar", length: 50, unique: true })
+  name: string;
+
+  @Column({ type: "boolean", default: true })
+  is_paid: boolean;
+
+  // Days per year; null = no limit
+  @Column({ type: "int", nullable: true, default: null })
+  yearly_quota: number | null;
+
+  @Column({ type: "varchar", length: 10, default: LeaveAccrualEnum.YEARLY })
+  accrual: LeaveAccrualEnum;
+
+  // Most unused days taken into the next year
+  @Column({ type: "int", default: 0 })
+  carry_forward_limit: number;
+
+  @CreateDateColumn({ type: "timestamp" })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: "timestamp" })
+  updated_at: Date;
+}
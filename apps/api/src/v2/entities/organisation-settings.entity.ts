@@ -0,0 +1,109 @@
+import { Entity, Column, PrimaryColumn, UpdateDateColumn } from "typeorm";
+import type { OvertimeMode, PairingMode } from "@attendance/shared";
+
+/**
+ * Organisation-wide attendance settings (a single row, id 1)
+ */
+@Entity("organisation_settings")
+export class OrganisationSettings {
+  @PrimaryColumn({ type: "int", default: 1 })
+  id: number;
+
+  @Column({ type: "varchar", length: 20, default: "ALTERNATE" })
+  pairing_mode: PairingMode;
+
+  @Column({ type: "varchar", length: 64, default: "Asia/Kolkata" })
+  time_zone: string;
+
+  // HH:MM; punches before it belong to the previous day (overnight shifts)
+  @Column({ type: "varchar", length: 5, default: "00:00" })
+  day_start_time: string;
+
+  // Weekdays (0 = Sunday) that are off for employees without their own
+  @Column({ type: "int", array: true, default: () => "'{}'" })
+  weekly_off_days: number[];
+
+  // Fewer worked hours make a working day HALF_DAY; null for no rule
+  @Column({ type: "double precision", nullable: true })
+  full_day_hours: number | null;
+
+  // Fewer worked hours make a working day ABSENT; null for no rule
+  @Column({ type: "double precision", nullable: true })
+  half_day_hours: number | null;
+
+  // Unpaid lunch taken off a day of one in/out pair longer than the hours
+  @Column({ type: "int", default: 0 })
+  lunch_deduction_minutes: number;
+
+  @Column({ type: "double precision", nullable: true })
+  lunch_deduction_after_hours: number | null;
+
+  // Breaks between pairs counted as worked, up to this
+  @Column({ type: "int", default: 0 })
+  max_paid_break_minutes: number;
+
+  // A longer single break flags the day; null for no flag
+  @Column({ type: "int", nullable: true })
+  long_break_minutes: number | null;
+
+  // Punches this many seconds after the last kept one are ignored; 0 for off
+  @Column({ type: "int", default: 0 })
+  debounce_seconds: number;
+
+  // Worked time from in/out times rounded to 5, 10 or 15 minutes; 0 for off
+  @Column({ type: "int", default: 0 })
+  rounding_minutes: number;
+
+  // Every this many late marks (or early exits) in a month deduct the mark
+  // penalty days; null for no rule
+  @Column({ type: "int", nullable: true })
+  late_marks_per_penalty: number | null;
+
+  @Column({ type: "int", nullable: true })
+  early_out_marks_per_penalty: number | null;
+
+  @Column({ type: "double precision", default: 0.5 })
+  mark_penalty_days: number;
+
+  // Arriving more than this late deducts the very-late penalty days; null
+  // for no rule
+  @Column({ type: "int", nullable: true })
+  very_late_minutes: number | null;
+
+  @Column({ type: "double precision", default: 0.5 })
+  very_late_penalty_days: number;
+
+  // Overtime past each day's expected hours (DAILY) or the weekly hours
+  // (WEEKLY)
+  @Column({ type: "varchar", length: 10, default: "DAILY" })
+  overtime_mode: OvertimeMode;
+
+  @Column({ type: "double precision", default: 48 })
+  overtime_weekly_hours: number;
+
+  // Shorter overtime does not count
+  @Column({ type: "int", default: 0 })
+  overtime_minimum_minutes: number;
+
+  // Whether arriving before the work start counts towards overtime
+  @Column({ type: "boolean", default: true })
+  overtime_counts_pre_shift: boolean;
+
+  // Overtime counted per day and per week at most; null for no cap
+  @Column({ type: "int", nullable: true })
+  overtime_daily_cap_minutes: number | null;
+
+  @Column({ type: "int", nullable: true })
+  overtime_weekly_cap_minutes: number | null;
+
+  // Overtime reaches payout only once approved
+  @Column({ type: "boolean", default: false })
+  overtime_requires_approval: boolean;
+
+  // Days a comp-off credit stays usable; null for no expiry
+  @Column({ type: "int", nullable: true })
+  comp_off_expiry_days: number | null;
+
+  @UpdateDateColumn({ type: "timestamp" })
+  updated_at: Date;
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { Employee } from "./employee.entity";
+
+/**
+ * Overtime decision status (days without a decision are pending)
+ */
+export enum OvertimeApprovalStatusEnum {
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+}
+
+/**
+ * A decision on an employee's overtime for a day; it holds for the minutes
+ * decided on, so a day whose overtime changes later is pending again
+ */
+@Entity("overtime_approvals")
+@Index("idx_overtime_approval_employee_date", ["employee_id", "date"], {
+  unique: true,
+})
+export class OvertimeApproval {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  employee_id: number;
+
+  @ManyToOne("Employee")
+  @JoinColumn({ name: "employee_id" })
+  employee: Employee;
+
+  @Column({ type: "date" })
+  date: string;
+
+  @Column({ type: "int" })
+  minutes: number;
+
+  @Column({ type: "varchar", length: 10 })
+  status: OvertimeApprovalStatusEnum;
+
+  @Column({ type: "text", nullable: true, default: null })
+  note: string | null;
+
+  @Column({ type: "timestamp" })
+  decided_at: Date;
+
+  @CreateDateColumn({ type: "timestamp" })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: "timestamp" })
+  updated_at: Date;
+}
@@ -1,6 +1,7 @@
 import {
   Entity,
   Column,
+  DeleteDateColumn,
   PrimaryGeneratedColumn,
   ManyToOne,
   JoinColumn,
@@ -23,12 +24,17 @@ export class Punch {
   @JoinColumn({ name: "employee_id" })
   employee: Employee;
 
-  @Column({ type: "timestamp" })
+  @Column({ type: "timestamptz" })
   punch_time: Date;
 
   @Column({ type: "varchar", length: 20, default: "Fingerprint" })
   verification_type: string;
 
+  // Device check state (0=check-in, 1=check-out, 2=break-out, 3=break-in,
+  // 4=OT-in, 5=OT-out); null for manual punches and exports without it
+  @Column({ type: "smallint", nullable: true, default: null })
+  punch_state: number | null;
+
   @Column({ type: "varchar", length: 10, nullable: true, default: null })
   punch_type: string | null;
 
@@ -37,4 +43,24 @@ export class Punch {
 
   @Column({ type: "boolean", default: false })
   is_edited: boolean;
+
+  // Double tap within the debounce window, left out of pairing
+  @Column({ type: "boolean", default: false })
+  is_ignored: boolean;
+
+  // Import batch that inserted this punch (null for manual punches)
+  @Column({ type: "int", nullable: true, default: null })
+  batch_id: number | null;
+
+  // Deleted by hand: finds leave it out (so it is never paired) unless
+  // withDeleted, and it is kept for restoring. It still holds its
+  // (employee_id, punch_time) slot, so re-uploads do not bring it back.
+  @DeleteDateColumn({ type: "timestamptz", nullable: true })
+  deleted_at: Date | null;
+
+  @Column({ type: "varchar", length: 100, nullable: true, default: null })
+  deleted_by: string | null;
+
+  @Column({ type: "text", nullable: true, default: null })
+  delete_reason: string | null;
 }
@@ -0,0 +1,39 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { Employee } from "./employee.entity";
+import { Shift } from "./shift.entity";
+
+/**
+ * Shift for one employee on one date; overrides weekly roster patterns
+ */
+@Entity("roster_entries")
+@Index("idx_roster_entry_employee_date", ["employee_id", "date"], {
+  unique: true,
+})
+export class RosterEntry {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  employee_id: number;
+
+  @ManyToOne("Employee")
+  @JoinColumn({ name: "employee_id" })
+  employee: Employee;
+
+  @Column({ type: "date" })
+  date: string;
+
+  @Column()
+  shift_id: number;
+
+  @ManyToOne("Shift")
+  @JoinColumn({ name: "shift_id" })
+  shift: Shift;
+}
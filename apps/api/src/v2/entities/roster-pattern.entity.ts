@@ -0,0 +1,37 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { Employee } from "./employee.entity";
+
+/**
+ * Weekly roster for an employee: each week from start_date takes the next
+ * shift of shift_ids in turn, so [A, B] alternates A and B weekly
+ */
+@Entity("roster_patterns")
+@Index("idx_roster_pattern_employee", ["employee_id"])
+export class RosterPattern {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  employee_id: number;
+
+  @ManyToOne("Employee")
+  @JoinColumn({ name: "employee_id" })
+  employee: Employee;
+
+  @Column({ type: "date" })
+  start_date: string;
+
+  // Inclusive; null = open-ended
+  @Column({ type: "date", nullable: true, default: null })
+  end_date: string | null;
+
+  @Column({ type: "int", array: true })
+  shift_ids: number[];
+}
@@ -0,0 +1,42 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from "typeorm";
+
+/**
+ * A named working shift that employees are rostered on
+ */
+@Entity("shifts")
+export class Shift {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "varchar", length: 100, unique: true })
+  name: string;
+
+  // HH:MM; an end time before the start time ends the next day
+  @Column({ type: "varchar", length: 5 })
+  start_time: string;
+
+  @Column({ type: "varchar", length: 5 })
+  end_time: string;
+
+  @Column({ type: "int", default: 15 })
+  late_threshold_minutes: number;
+
+  @Column({ type: "int", default: 15 })
+  early_out_threshold_minutes: number;
+
+  // Unpaid break, left out of the expected hours
+  @Column({ type: "int", default: 0 })
+  break_minutes: number;
+
+  @CreateDateColumn({ type: "timestamp" })
+  created_at: Date;
+
+  @UpdateDateColumn({ type: "timestamp" })
+  updated_at: Date;
+}
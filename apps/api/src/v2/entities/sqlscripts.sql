@@ -31,4 +31,250 @@ CREATE TABLE IF NOT EXISTS "daily_attendance" (
     CONSTRAINT "fk_daily_attendance_employee" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE NO ACTION ON UPDATE NO ACTION
 );
 -- Create unique index on daily_attendance
-CREATE UNIQUE INDEX IF NOT EXISTS "idx_employee_date" ON "daily_attendance" ("employee_id", "date");
\ No newline at end of file
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_employee_date" ON "daily_attendance" ("employee_id", "date");
+-- Create import_batches table
+CREATE TABLE IF NOT EXISTS "import_batches" (
+    "id" SERIAL PRIMARY KEY,
+    "kind" VARCHAR(20) NOT NULL,
+    "file_name" VARCHAR(255) NOT NULL,
+    "file_hash" VARCHAR(64) NOT NULL,
+    "uploaded_at" TIMESTAMP NOT NULL DEFAULT now(),
+    "total_lines" INTEGER NOT NULL DEFAULT 0,
+    "inserted_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_count" INTEGER NOT NULL DEFAULT 0,
+    "skipped_count" INTEGER NOT NULL DEFAULT 0,
+    "rolled_back_at" TIMESTAMP
+);
+-- Create index on import_batches file hash
+CREATE INDEX IF NOT EXISTS "idx_import_batch_file_hash" ON "import_batches" ("file_hash");
+-- Stamp punches with the import batch that inserted them
+ALTER TABLE "punches" ADD COLUMN IF NOT EXISTS "batch_id" INTEGER;
+ALTER TABLE "punches" DROP CONSTRAINT IF EXISTS "fk_punches_import_batch";
+ALTER TABLE "punches" ADD CONSTRAINT "fk_punches_import_batch" FOREIGN KEY ("batch_id") REFERENCES "import_batches"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+CREATE INDEX IF NOT EXISTS "idx_punches_batch_id" ON "punches" ("batch_id");
+-- Record the punch time range covered by each import batch
+ALTER TABLE "import_batches" ADD COLUMN IF NOT EXISTS "first_punch_at" TIMESTAMP;
+ALTER TABLE "import_batches" ADD COLUMN IF NOT EXISTS "last_punch_at" TIMESTAMP;
+-- Create import_profiles table (column mappings for other vendors' exports)
+CREATE TABLE IF NOT EXISTS "import_profiles" (
+    "id" SERIAL PRIMARY KEY,
+    "name" VARCHAR(100) NOT NULL UNIQUE,
+    "delimiter" VARCHAR(5),
+    "has_header" BOOLEAN NOT NULL DEFAULT true,
+    "columns" JSONB NOT NULL,
+    "date_format" VARCHAR(40) NOT NULL,
+    "time_format" VARCHAR(40),
+    "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT now()
+);
+-- Store the device check state of each punch
+ALTER TABLE "punches" ADD COLUMN IF NOT EXISTS "punch_state" SMALLINT;
+-- Create organisation_settings table (single row)
+CREATE TABLE IF NOT EXISTS "organisation_settings" (
+    "id" INTEGER PRIMARY KEY DEFAULT 1,
+    "pairing_mode" VARCHAR(20) NOT NULL DEFAULT 'ALTERNATE',
+    "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT "chk_organisation_settings_single_row" CHECK ("id" = 1)
+);
+INSERT INTO "organisation_settings" ("id") VALUES (1) ON CONFLICT ("id") DO NOTHING;
+-- Organisation time zone (IANA name) that punches are bucketed into days in
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "time_zone" VARCHAR(64) NOT NULL DEFAULT 'Asia/Kolkata';
+-- Device clock time zone each attendance batch was parsed in
+ALTER TABLE "import_batches" ADD COLUMN IF NOT EXISTS "time_zone" VARCHAR(64);
+-- Store punch instants with their offset. Existing values are the API
+-- server's local wall time; replace 'UTC' below if the API ran with another TZ.
+-- Each conversion only runs while the column is still without a time zone, so
+-- running the script again does not shift stored instants
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'punches' AND column_name = 'punch_time'
+          AND data_type = 'timestamp without time zone'
+    ) THEN
+        ALTER TABLE "punches" ALTER COLUMN "punch_time" TYPE TIMESTAMPTZ USING "punch_time" AT TIME ZONE 'UTC';
+    END IF;
+END $$;
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'import_batches' AND column_name = 'first_punch_at'
+          AND data_type = 'timestamp without time zone'
+    ) THEN
+        ALTER TABLE "import_batches" ALTER COLUMN "first_punch_at" TYPE TIMESTAMPTZ USING "first_punch_at" AT TIME ZONE 'UTC';
+    END IF;
+END $$;
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'import_batches' AND column_name = 'last_punch_at'
+          AND data_type = 'timestamp without time zone'
+    ) THEN
+        ALTER TABLE "import_batches" ALTER COLUMN "last_punch_at" TYPE TIMESTAMPTZ USING "last_punch_at" AT TIME ZONE 'UTC';
+    END IF;
+END $$;
+-- Attendance day start (HH:MM) for overnight shifts
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "day_start_time" VARCHAR(5) NOT NULL DEFAULT '00:00';
+-- Create shifts table
+CREATE TABLE IF NOT EXISTS "shifts" (
+    "id" SERIAL PRIMARY KEY,
+    "name" VARCHAR(100) NOT NULL UNIQUE,
+    "start_time" VARCHAR(5) NOT NULL,
+    "end_time" VARCHAR(5) NOT NULL,
+    "late_threshold_minutes" INTEGER NOT NULL DEFAULT 15,
+    "early_out_threshold_minutes" INTEGER NOT NULL DEFAULT 15,
+    "break_minutes" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT now()
+);
+-- Create roster_entries table (shift for an employee on a date)
+CREATE TABLE IF NOT EXISTS "roster_entries" (
+    "id" SERIAL PRIMARY KEY,
+    "employee_id" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "shift_id" INTEGER NOT NULL,
+    CONSTRAINT "fk_roster_entries_employee" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+    CONSTRAINT "fk_roster_entries_shift" FOREIGN KEY ("shift_id") REFERENCES "shifts"("id") ON DELETE NO ACTION ON UPDATE NO ACTION
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_roster_entry_employee_date" ON "roster_entries" ("employee_id", "date");
+-- Create roster_patterns table (weekly rotation of shifts for an employee)
+CREATE TABLE IF NOT EXISTS "roster_patterns" (
+    "id" SERIAL PRIMARY KEY,
+    "employee_id" INTEGER NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE,
+    "shift_ids" INTEGER[] NOT NULL,
+    CONSTRAINT "fk_roster_patterns_employee" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+CREATE INDEX IF NOT EXISTS "idx_roster_pattern_employee" ON "roster_patterns" ("employee_id");
+-- Weekly off days (0 = Sunday); an employee's own list overrides the organisation's
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "weekly_off_days" INTEGER[] NOT NULL DEFAULT '{}';
+ALTER TABLE "employees" ADD COLUMN IF NOT EXISTS "weekly_off_days" INTEGER[];
+-- Create holidays table (holiday calendar; null location = everyone)
+CREATE TABLE IF NOT EXISTS "holidays" (
+    "id" SERIAL PRIMARY KEY,
+    "date" DATE NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "is_paid" BOOLEAN NOT NULL DEFAULT true,
+    "location" VARCHAR(100),
+    "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_holiday_date_location" ON "holidays" ("date", COALESCE("location", ''));
+-- Employee location, for location-specific holidays
+ALTER TABLE "employees" ADD COLUMN IF NOT EXISTS "location" VARCHAR(100);
+-- Create leave_types table
+CREATE TABLE IF NOT EXISTS "leave_types" (
+    "id" SERIAL PRIMARY KEY,
+    "name" VARCHAR(50) NOT NULL UNIQUE,
+    "is_paid" BOOLEAN NOT NULL DEFAULT true,
+    "yearly_quota" INTEGER,
+    "accrual" VARCHAR(10) NOT NULL DEFAULT 'YEARLY',
+    "carry_forward_limit" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT now()
+);
+INSERT INTO "leave_types" ("name", "is_paid", "yearly_quota", "accrual", "carry_forward_limit") VALUES
+    ('Casual', true, 12, 'YEARLY', 0),
+    ('Sick', true, 12, 'YEARLY', 0),
+    ('Earned', true, 15, 'MONTHLY', 30),
+    ('Unpaid', false, NULL, 'YEARLY', 0)
+ON CONFLICT ("name") DO NOTHING;
+-- Create leave_applications table (date ranges within one year)
+CREATE TABLE IF NOT EXISTS "leave_applications" (
+    "id" SERIAL PRIMARY KEY,
+    "employee_id" INTEGER NOT NULL,
+    "leave_type_id" INTEGER NOT NULL,
+    "from_date" DATE NOT NULL,
+    "to_date" DATE NOT NULL,
+    "days" INTEGER NOT NULL,
+    "reason" TEXT,
+    "status" VARCHAR(10) NOT NULL DEFAULT 'PENDING',
+    "decision_note" TEXT,
+    "decided_at" TIMESTAMP,
+    "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT "fk_leave_applications_employee" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+    CONSTRAINT "fk_leave_applications_type" FOREIGN KEY ("leave_type_id") REFERENCES "leave_types"("id") ON DELETE NO ACTION ON UPDATE NO ACTION
+);
+CREATE INDEX IF NOT EXISTS "idx_leave_application_employee_dates" ON "leave_applications" ("employee_id", "from_date");
+-- Create leave_opening_balances table (hand-set opening balance per year)
+CREATE TABLE IF NOT EXISTS "leave_opening_balances" (
+    "id" SERIAL PRIMARY KEY,
+    "employee_id" INTEGER NOT NULL,
+    "leave_type_id" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "opening_days" DOUBLE PRECISION NOT NULL,
+    CONSTRAINT "fk_leave_opening_balances_employee" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+    CONSTRAINT "fk_leave_opening_balances_type" FOREIGN KEY ("leave_type_id") REFERENCES "leave_types"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_leave_opening_employee_type_year" ON "leave_opening_balances" ("employee_id", "leave_type_id", "year");
+-- Minimum worked hours for a full day (else HALF_DAY) and a half day (else ABSENT); NULL turns a rule off
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "full_day_hours" DOUBLE PRECISION;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "half_day_hours" DOUBLE PRECISION;
+-- Break policy: automatic unpaid lunch, maximum paid break and long-break flag
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "lunch_deduction_minutes" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "lunch_deduction_after_hours" DOUBLE PRECISION;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "max_paid_break_minutes" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "long_break_minutes" INTEGER;
+ALTER TABLE "daily_attendance" ADD COLUMN IF NOT EXISTS "break_minutes" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "daily_attendance" ADD COLUMN IF NOT EXISTS "paid_break_minutes" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "daily_attendance" ADD COLUMN IF NOT EXISTS "lunch_deduction_minutes" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "daily_attendance" ADD COLUMN IF NOT EXISTS "is_long_break" BOOLEAN NOT NULL DEFAULT false;
+-- Double-tap debounce and payroll rounding of in/out times; 0 turns each off
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "debounce_seconds" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "rounding_minutes" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "punches" ADD COLUMN IF NOT EXISTS "is_ignored" BOOLEAN NOT NULL DEFAULT false;
+-- Late / early-out penalty rules (report-time deductions; NULL turns a rule off)
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "late_marks_per_penalty" INTEGER;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "early_out_marks_per_penalty" INTEGER;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "mark_penalty_days" DOUBLE PRECISION NOT NULL DEFAULT 0.5;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "very_late_minutes" INTEGER;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "very_late_penalty_days" DOUBLE PRECISION NOT NULL DEFAULT 0.5;
+-- Overtime policy (report-time; NULL caps turn a cap off)
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "overtime_mode" VARCHAR(10) NOT NULL DEFAULT 'DAILY';
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "overtime_weekly_hours" DOUBLE PRECISION NOT NULL DEFAULT 48;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "overtime_minimum_minutes" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "overtime_counts_pre_shift" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "overtime_daily_cap_minutes" INTEGER;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "overtime_weekly_cap_minutes" INTEGER;
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "overtime_requires_approval" BOOLEAN NOT NULL DEFAULT false;
+-- Create overtime_approvals table (one decision per employee-day)
+CREATE TABLE IF NOT EXISTS "overtime_approvals" (
+    "id" SERIAL PRIMARY KEY,
+    "employee_id" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "status" VARCHAR(10) NOT NULL,
+    "note" TEXT,
+    "decided_at" TIMESTAMP NOT NULL,
+    "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT "fk_overtime_approvals_employee" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_overtime_approval_employee_date" ON "overtime_approvals" ("employee_id", "date");
+-- Comp-off credits expire this many days after they are earned; NULL for never
+ALTER TABLE "organisation_settings" ADD COLUMN IF NOT EXISTS "comp_off_expiry_days" INTEGER;
+-- Day statuses set by hand; recalculation keeps them until cleared
+ALTER TABLE "daily_attendance" ADD COLUMN IF NOT EXISTS "override_status" VARCHAR(20);
+ALTER TABLE "daily_attendance" ADD COLUMN IF NOT EXISTS "override_reason" TEXT;
+-- Create audit_log table (manual attendance changes, append-only)
+CREATE TABLE IF NOT EXISTS "audit_log" (
+    "id" SERIAL PRIMARY KEY,
+    "employee_id" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "action" VARCHAR(20) NOT NULL,
+    "actor" VARCHAR(100) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+    CONSTRAINT "fk_audit_log_employee" FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+CREATE INDEX IF NOT EXISTS "idx_audit_log_employee_date" ON "audit_log" ("employee_id", "date");
+-- Punches deleted by hand are kept (soft delete) so they can be restored
+ALTER TABLE "punches" ADD COLUMN IF NOT EXISTS "deleted_at" TIMESTAMPTZ;
+ALTER TABLE "punches" ADD COLUMN IF NOT EXISTS "deleted_by" VARCHAR(100);
+ALTER TABLE "punches" ADD COLUMN IF NOT EXISTS "delete_reason" TEXT;
@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+} from "@nestjs/swagger";
+import { HolidayService } from "./holiday.service";
+import type { Holiday } from "@attendance/shared";
+
+const HOLIDAY_SCHEMA = {
+  type: "object",
+  properties: {
+    date: { type: "string", example: "2026-01-26" },
+    name: { type: "string", example: "Republic Day" },
+    isPaid: { type: "boolean", example: true },
+    location: {
+      type: "string",
+      nullable: true,
+      example: null,
+      description: "Only employees at this location; null for everyone",
+    },
+  },
+};
+
+@ApiTags("V2 Holidays")
+@Controller("v2/holidays")
+export class HolidayController {
+  constructor(private readonly holidayService: HolidayService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List holidays" })
+  @ApiQuery({ name: "from", required: false, example: "2026-01-01" })
+  @ApiQuery({ name: "to", required: false, example: "2026-12-31" })
+  async getHolidays(@Query("from") from?: string, @Query("to") to?: string) {
+    try {
+      const holidays = await this.holidayService.getHolidays(from, to);
+      return { success: true, holidays };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get holidays",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: "Add a holiday (recalculates stored days without punches on it)",
+  })
+  @ApiBody({ schema: HOLIDAY_SCHEMA })
+  async createHoliday(@Body() body: Holiday) {
+    try {
+      const result = await this.holidayService.createHoliday(body);
+      return { success: true, ...result };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to create holiday",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Put(":id")
+  @ApiOperation({ summary: "Update a holiday" })
+  @ApiParam({ name: "id", type: Number })
+  @ApiBody({ schema: HOLIDAY_SCHEMA })
+  async updateHoliday(@Param("id") id: string, @Body() body: Holiday) {
+    const holidayId = this.parseId(id);
+
+    try {
+      const result = await this.holidayService.updateHoliday(holidayId, body);
+      return { success: true, ...result };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to update holiday",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Delete(":id")
+  @ApiOperation({ summary: "Delete a holiday" })
+  @ApiParam({ name: "id", type: Number })
+  async deleteHoliday(@Param("id") id: string) {
+    const holidayId = this.parseId(id);
+
+    try {
+      const result = await this.holidayService.deleteHoliday(holidayId);
+      return { success: true, message: "Holiday deleted", ...result };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to delete holiday",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  private parseId(id: string): number {
+    const holidayId = parseInt(id, 10);
+    if (isNaN(holidayId)) {
+      throw new HttpException("Invalid holiday ID", HttpStatus.BAD_REQUEST);
+    }
+    return holidayId;
+  }
+}
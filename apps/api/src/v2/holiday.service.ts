@@ -0,0 +1,162 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, EntityManager, Between, In, IsNull } from "typeorm";
+import { Holiday } from "./entities";
+import { PunchIngestionService } from "./punch-ingestion.service";
+import type { Holiday as HolidayConfig } from "@attendance/shared";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The holiday calendar; days without punches on a holiday are stored as
+ * HOLIDAY
+ */
+@Injectable()
+export class HolidayService {
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly punchIngestion: PunchIngestionService
+  ) {}
+
+  /**
+   * Holidays, limited to the date range when one is given
+   */
+  async getHolidays(from?: string, to?: string): Promise<HolidayConfig[]> {
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      throw new Error("Dates must be in YYYY-MM-DD format");
+    }
+
+    const holidays = await this.dataSource.manager.find(Holiday, {
+      where: from && to ? { date: Between(from, to) } : {},
+      order: { date: "ASC" },
+    });
+    return holidays.map((holiday) => this.toConfig(holiday));
+  }
+
+  async createHoliday(
+    config: HolidayConfig
+  ): Promise<{ holiday: HolidayConfig; recalculatedDays: number }> {
+    this.validate(config);
+
+    return this.dataSource.transaction(async (manager) => {
+      await this.assertDateAvailable(manager, config);
+
+      const holiday = await manager.save(
+        manager.create(Holiday, this.toColumns(config))
+      );
+      const recalculatedDays = await this.recalculateDates(manager, [
+        holiday.date,
+      ]);
+      return { holiday: this.toConfig(holiday), recalculatedDays };
+    });
+  }
+
+  async updateHoliday(
+    id: number,
+    config: HolidayConfig
+  ): Promise<{ holiday: HolidayConfig; recalculatedDays: number }> {
+    this.validate(config);
+
+    return this.dataSource.transaction(async (manager) => {
+      const holiday = await manager.findOne(Holiday, { where: { id } });
+      if (!holiday) {
+        throw new Error(`Holiday ${id} not found`);
+      }
+      await this.assertDateAvailable(manager, config, id);
+
+      const previousDate = holiday.date;
+      Object.assign(holiday, this.toColumns(config));
+      await manager.save(holiday);
+
+      const recalculatedDays = await this.recalculateDates(manager, [
+        previousDate,
+        holiday.date,
+      ]);
+      return { holiday: this.toConfig(holiday), recalculatedDays };
+    });
+  }
+
+  async deleteHoliday(id: number): Promise<{ recalculatedDays: number }> {
+    return this.dataSource.transaction(async (manager) => {
+      const holiday = await manager.findOne(Holiday, { where: { id } });
+      if (!holiday) {
+        throw new Error(`Holiday ${id} not found`);
+      }
+
+      await manager.remove(holiday);
+      const recalculatedDays = await this.recalculateDates(manager, [
+        holiday.date,
+      ]);
+      return { recalculatedDays };
+    });
+  }
+
+  private validate(config: HolidayConfig): void {
+    if (!DATE_PATTERN.test(config.date ?? "")) {
+      throw new Error("Date must be in YYYY-MM-DD format");
+    }
+    if (!config.name?.trim()) {
+      throw new Error("Holiday name is required");
+    }
+    if (typeof config.isPaid !== "boolean") {
+      throw new Error("Holiday must be marked paid or unpaid");
+    }
+  }
+
+  /**
+   * One holiday per date and location (or per date for everyone)
+   */
+  private async assertDateAvailable(
+    manager: EntityManager,
+    config: HolidayConfig,
+    id?: number
+  ): Promise<void> {
+    const location = config.location?.trim() || null;
+    const existing = await manager.findOne(Holiday, {
+      where: {
+        date: config.date,
+        location: location ?? IsNull(),
+      },
+    });
+    if (existing && existing.id !== id) {
+      throw new Error(
+        `${config.date} is already a holiday (${existing.name})${
+          location ? ` at ${location}` : ""
+        }`
+      );
+    }
+  }
+
+  /**
+   * Stored days on the dates, for every employee: days without punches turn
+   * into or out of holidays, and worked ones are re-evaluated as holiday work
+   */
+  private recalculateDates(
+    manager: EntityManager,
+    dates: string[]
+  ): Promise<number> {
+    return this.punchIngestion.recalculateStoredDays(manager, {
+      date: In([...new Set(dates)]),
+    });
+  }
+
+  private toColumns(
+    config: HolidayConfig
+  ): Pick<Holiday, "date" | "name" | "is_paid" | "location"> {
+    return {
+      date: config.date,
+      name: config.name.trim(),
+      is_paid: config.isPaid,
+      location: config.location?.trim() || null,
+    };
+  }
+
+  private toConfig(holiday: Holiday): HolidayConfig {
+    return {
+      id: holiday.id,
+      date: holiday.date,
+      name: holiday.name,
+      isPaid: holiday.is_paid,
+      location: holiday.location,
+    };
+  }
+}
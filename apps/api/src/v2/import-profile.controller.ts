@@ -0,0 +1,113 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiBody, ApiParam } from "@nestjs/swagger";
+import { ImportProfileService } from "./import-profile.service";
+import type { ImportProfile } from "@attendance/shared";
+
+const PROFILE_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string", example: "eSSL X990" },
+    delimiter: { type: "string", nullable: true, example: "," },
+    hasHeader: { type: "boolean", default: true },
+    columns: {
+      type: "object",
+      example: {
+        employeeId: "Emp Code",
+        date: "Date",
+        time: "Time",
+        verifyType: "Mode",
+        inOut: "Status",
+      },
+    },
+    dateFormat: { type: "string", example: "DD/MM/YYYY" },
+    timeFormat: { type: "string", nullable: true, example: "HH:mm" },
+  },
+};
+
+@ApiTags("V2 Import Profiles")
+@Controller("v2/import-profiles")
+export class ImportProfileController {
+  constructor(private readonly profileService: ImportProfileService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List column-mapping import profiles" })
+  async getProfiles() {
+    try {
+      const profiles = await this.profileService.getProfiles();
+      return { success: true, profiles };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get import profiles",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post()
+  @ApiOperation({ summary: "Create an import profile" })
+  @ApiBody({ schema: PROFILE_SCHEMA })
+  async createProfile(@Body() body: ImportProfile) {
+    try {
+      const profile = await this.profileService.createProfile(body);
+      return { success: true, profile };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to create import profile",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Put(":id")
+  @ApiOperation({ summary: "Update an import profile" })
+  @ApiParam({ name: "id", type: Number })
+  @ApiBody({ schema: PROFILE_SCHEMA })
+  async updateProfile(@Param("id") id: string, @Body() body: ImportProfile) {
+    const profileId = this.parseId(id);
+
+    try {
+      const profile = await this.profileService.updateProfile(profileId, body);
+      return { success: true, profile };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to update import profile",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Delete(":id")
+  @ApiOperation({ summary: "Delete an import profile" })
+  @ApiParam({ name: "id", type: Number })
+  async deleteProfile(@Param("id") id: string) {
+    const profileId = this.parseId(id);
+
+    try {
+      await this.profileService.deleteProfile(profileId);
+      return { success: true, message: "Import profile deleted" };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to delete import profile",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  private parseId(id: string): number {
+    const profileId = parseInt(id, 10);
+    if (isNaN(profileId)) {
+      throw new HttpException("Invalid profile ID", HttpStatus.BAD_REQUEST);
+    }
+    return profileId;
+  }
+}
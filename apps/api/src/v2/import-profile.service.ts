@@ -0,0 +1,144 @@
+import { Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+import { ImportProfile } from "./entities";
+import { getFormatTokens } from "../attendance/parsers/profile-file.parser";
+import type {
+  ImportColumnRef,
+  ImportProfile as ImportProfileConfig,
+} from "@attendance/shared";
+
+/**
+ * Stored column-mapping profiles for CSV/XLSX exports of other vendors
+ */
+@Injectable()
+export class ImportProfileService {
+  constructor(
+    @InjectRepository(ImportProfile)
+    private readonly profileRepo: Repository<ImportProfile>
+  ) {}
+
+  async getProfiles(): Promise<ImportProfileConfig[]> {
+    const profiles = await this.profileRepo.find({ order: { name: "ASC" } });
+    return profiles.map((profile) => this.toConfig(profile));
+  }
+
+  async getProfile(id: number): Promise<ImportProfileConfig> {
+    const profile = await this.profileRepo.findOne({ where: { id } });
+    if (!profile) {
+      throw new Error(`Import profile ${id} not found`);
+    }
+    return this.toConfig(profile);
+  }
+
+  async createProfile(
+    config: ImportProfileConfig
+  ): Promise<ImportProfileConfig> {
+    this.validate(config);
+    await this.assertNameAvailable(config.name);
+
+    const profile = this.profileRepo.create(this.toColumns(config));
+    return this.toConfig(await this.profileRepo.save(profile));
+  }
+
+  async updateProfile(
+    id: number,
+    config: ImportProfileConfig
+  ): Promise<ImportProfileConfig> {
+    this.validate(config);
+
+    const profile = await this.profileRepo.findOne({ where: { id } });
+    if (!profile) {
+      throw new Error(`Import profile ${id} not found`);
+    }
+    if (profile.name !== config.name.trim()) {
+      await this.assertNameAvailable(config.name);
+    }
+
+    Object.assign(profile, this.toColumns(config));
+    return this.toConfig(await this.profileRepo.save(profile));
+  }
+
+  async deleteProfile(id: number): Promise<void> {
+    const result = await this.profileRepo.delete(id);
+    if (!result.affected) {
+      throw new Error(`Import profile ${id} not found`);
+    }
+  }
+
+  /**
+   * Reject profiles that could never produce a timestamp
+   */
+  private validate(config: ImportProfileConfig): void {
+    if (!config.name?.trim()) {
+      throw new Error("Profile name is required");
+    }
+
+    const columns = config.columns || ({} as ImportProfileConfig["columns"]);
+    const isSet = (ref: ImportColumnRef | null | undefined) =>
+      ref !== null && ref !== undefined && String(ref).trim() !== "";
+    if (!isSet(columns.employeeId) || !isSet(columns.date)) {
+      throw new Error("Employee ID and date columns are required");
+    }
+    for (const ref of Object.values(columns)) {
+      if (typeof ref === "number" && (!Number.isInteger(ref) || ref < 0)) {
+        throw new Error(`Invalid column index: ${ref}`);
+      }
+    }
+
+    const dateTokens = getFormatTokens(config.dateFormat || "");
+    const hasDay = dateTokens.some((t) => t === "DD" || t === "D");
+    const hasMonth = dateTokens.some((t) => t.startsWith("M"));
+    const hasYear = dateTokens.some((t) => t.startsWith("Y"));
+    if (!hasDay || !hasMonth || !hasYear) {
+      throw new Error(
+        `Date format "${config.dateFormat}" must contain day, month and year tokens`
+      );
+    }
+
+    if (isSet(columns.time)) {
+      const timeTokens = getFormatTokens(config.timeFormat || "HH:mm:ss");
+      if (!timeTokens.some((t) => t.toUpperCase().startsWith("H"))) {
+        throw new Error(`Time format "${config.timeFormat}" has no hour token`);
+      }
+    } else if (!dateTokens.some((t) => t.toUpperCase().startsWith("H"))) {
+      throw new Error(
+        "Map a time column or include the time in the date format"
+      );
+    }
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const existing = await this.profileRepo.findOne({
+      where: { name: name.trim() },
+    });
+    if (existing) {
+      throw new Error(`An import profile named "${name.trim()}" already exists`);
+    }
+  }
+
+  private toColumns(
+    config: ImportProfileConfig
+  ): Omit<ImportProfile, "id" | "created_at" | "updated_at"> {
+    return {
+      name: config.name.trim(),
+      delimiter: config.delimiter || null,
+      has_header: config.hasHeader !== false,
+      columns: config.columns,
+      date_format: config.dateFormat.trim(),
+      time_format: config.timeFormat?.trim() || null,
+    };
+  }
+
+  private toConfig(profile: ImportProfile): ImportProfileConfig {
+    return {
+      id: profile.id,
+      name: profile.name,
+      delimiter: profile.delimiter,
+      hasHeader: profile.has_header,
+      columns: profile.columns,
+      dateFormat: profile.date_format,
+      timeFormat: profile.time_format,
+    };
+  }
+}
@@ -0,0 +1,327 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+} from "@nestjs/swagger";
+import { LeaveService } from "./leave.service";
+import type {
+  LeaveApplication,
+  LeaveApplicationStatus,
+  LeaveType,
+} from "@attendance/shared";
+
+const LEAVE_TYPE_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string", example: "Casual" },
+    isPaid: { type: "boolean", example: true },
+    yearlyQuota: {
+      type: "number",
+      nullable: true,
+      example: 12,
+      description: "Days per year; null for no limit",
+    },
+    accrual: { type: "string", enum: ["YEARLY", "MONTHLY"], example: "YEARLY" },
+    carryForwardLimit: { type: "number", example: 0 },
+  },
+};
+
+const DECISION_SCHEMA = {
+  type: "object",
+  properties: {
+    note: { type: "string", nullable: true, example: "Enjoy the break" },
+  },
+};
+
+@ApiTags("V2 Leave")
+@Controller("v2/leave")
+export class LeaveController {
+  constructor(private readonly leaveService: LeaveService) {}
+
+  @Get("types")
+  @ApiOperation({ summary: "List leave types" })
+  async getLeaveTypes() {
+    try {
+      const types = await this.leaveService.getLeaveTypes();
+      return { success: true, types };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get leave types",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post("types")
+  @ApiOperation({ summary: "Create a leave type" })
+  @ApiBody({ schema: LEAVE_TYPE_SCHEMA })
+  async createLeaveType(@Body() body: LeaveType) {
+    try {
+      const type = await this.leaveService.createLeaveType(body);
+      return { success: true, type };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to create leave type",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Put("types/:id")
+  @ApiOperation({ summary: "Update a leave type" })
+  @ApiParam({ name: "id", type: Number })
+  @ApiBody({ schema: LEAVE_TYPE_SCHEMA })
+  async updateLeaveType(@Param("id") id: string, @Body() body: LeaveType) {
+    const typeId = this.parseId(id, "leave type");
+
+    try {
+      const type = await this.leaveService.updateLeaveType(typeId, body);
+      return { success: true, type };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to update leave type",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Delete("types/:id")
+  @ApiOperation({ summary: "Delete a leave type no application uses" })
+  @ApiParam({ name: "id", type: Number })
+  async deleteLeaveType(@Param("id") id: string) {
+    const typeId = this.parseId(id, "leave type");
+
+    try {
+      await this.leaveService.deleteLeaveType(typeId);
+      return { success: true, message: "Leave type deleted" };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to delete leave type",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Get("applications")
+  @ApiOperation({ summary: "List leave applications" })
+  @ApiQuery({ name: "userId", required: false, example: 5 })
+  @ApiQuery({
+    name: "status",
+    required: false,
+    enum: ["PENDING", "APPROVED", "REJECTED", "CANCELLED"],
+  })
+  @ApiQuery({ name: "from", required: false, example: "2026-01-01" })
+  @ApiQuery({ name: "to", required: false, example: "2026-12-31" })
+  async getApplications(
+    @Query("userId") userId?: string,
+    @Query("status") status?: LeaveApplicationStatus,
+    @Query("from") from?: string,
+    @Query("to") to?: string
+  ) {
+    const biometricId = userId ? this.parseId(userId, "user") : undefined;
+
+    try {
+      const applications = await this.leaveService.getApplications({
+        userId: biometricId,
+        status,
+        from,
+        to,
+      });
+      return { success: true, applications };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get leave applications",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post("applications")
+  @ApiOperation({
+    summary: "Apply for leave (within one year; waits for approval)",
+  })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        userId: { type: "number", example: 5 },
+        leaveTypeId: { type: "number", example: 1 },
+        fromDate: { type: "string", example: "2026-03-02" },
+        toDate: { type: "string", example: "2026-03-04" },
+        reason: { type: "string", nullable: true, example: "Family function" },
+      },
+    },
+  })
+  async applyForLeave(@Body() body: LeaveApplication) {
+    try {
+      const application = await this.leaveService.applyForLeave(body);
+      return { success: true, application };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to apply for leave",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Post("applications/:id/approve")
+  @ApiOperation({
+    summary: "Approve a pending application (marks its days as LEAVE)",
+  })
+  @ApiParam({ name: "id", type: Number })
+  @ApiBody({ schema: DECISION_SCHEMA })
+  async approveApplication(
+    @Param("id") id: string,
+    @Body() body: { note?: string | null }
+  ) {
+    const applicationId = this.parseId(id, "leave application");
+
+    try {
+      const result = await this.leaveService.approveApplication(
+        applicationId,
+        body?.note
+      );
+      return { success: true, ...result };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to approve leave",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Post("applications/:id/reject")
+  @ApiOperation({ summary: "Reject a pending application" })
+  @ApiParam({ name: "id", type: Number })
+  @ApiBody({ schema: DECISION_SCHEMA })
+  async rejectApplication(
+    @Param("id") id: string,
+    @Body() body: { note?: string | null }
+  ) {
+    const applicationId = this.parseId(id, "leave application");
+
+    try {
+      const result = await this.leaveService.rejectApplication(
+        applicationId,
+        body?.note
+      );
+      return { success: true, ...result };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to reject leave",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Post("applications/:id/cancel")
+  @ApiOperation({
+    summary: "Cancel a pending or approved application",
+  })
+  @ApiParam({ name: "id", type: Number })
+  @ApiBody({ schema: DECISION_SCHEMA })
+  async cancelApplication(
+    @Param("id") id: string,
+    @Body() body: { note?: string | null }
+  ) {
+    const applicationId = this.parseId(id, "leave application");
+
+    try {
+      const result = await this.leaveService.cancelApplication(
+        applicationId,
+        body?.note
+      );
+      return { success: true, ...result };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to cancel leave",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Get("balances/:userId")
+  @ApiOperation({ summary: "Leave balances of an employee for a year" })
+  @ApiParam({ name: "userId", type: Number })
+  @ApiQuery({ name: "year", required: false, example: 2026 })
+  async getBalances(
+    @Param("userId") userId: string,
+    @Query("year") year?: string
+  ) {
+    const biometricId = this.parseId(userId, "user");
+
+    try {
+      const balances = await this.leaveService.getBalances(
+        biometricId,
+        year ? parseInt(year, 10) : new Date().getFullYear()
+      );
+      return { success: true, balances };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get leave balances",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Put("balances/:userId")
+  @ApiOperation({
+    summary:
+      "Set an opening balance for a year (null returns to the carried-forward days)",
+  })
+  @ApiParam({ name: "userId", type: Number })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        leaveTypeId: { type: "number", example: 3 },
+        year: { type: "number", example: 2026 },
+        openingDays: { type: "number", nullable: true, example: 8 },
+      },
+    },
+  })
+  async setOpeningBalance(
+    @Param("userId") userId: string,
+    @Body()
+    body: { leaveTypeId: number; year: number; openingDays: number | null }
+  ) {
+    const biometricId = this.parseId(userId, "user");
+
+    try {
+      const balance = await this.leaveService.setOpeningBalance(
+        biometricId,
+        body.leaveTypeId,
+        body.year,
+        body.openingDays ?? null
+      );
+      return { success: true, balance };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to set opening balance",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  private parseId(id: string, label: string): number {
+    const parsed = parseInt(id, 10);
+    if (isNaN(parsed)) {
+      throw new HttpException(`Invalid ${label} ID`, HttpStatus.BAD_REQUEST);
+    }
+    return parsed;
+  }
+}
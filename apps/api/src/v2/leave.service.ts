@@ -0,0 +1,671 @@
+import { Injectable } from "@nestjs/common";
+import {
+  DataSource,
+  EntityManager,
+  Between,
+  FindOptionsWhere,
+  In,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+} from "typeorm";
+import {
+  Employee,
+  LeaveAccrualEnum,
+  LeaveApplication,
+  LeaveApplicationStatusEnum,
+  LeaveOpeningBalance,
+  LeaveType,
+} from "./entities";
+import { PunchIngestionService } from "./punch-ingestion.service";
+import { countLeaveDays, formatDate } from "@attendance/shared";
+import type {
+  EmployeeLeave,
+  LeaveApplication as LeaveApplicationConfig,
+  LeaveApplicationStatus,
+  LeaveBalance,
+  LeaveType as LeaveTypeConfig,
+} from "@attendance/shared";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Applications that hold days: awaiting a decision or approved
+const OPEN_STATUSES = [
+  LeaveApplicationStatusEnum.PENDING,
+  LeaveApplicationStatusEnum.APPROVED,
+];
+
+/**
+ * Leave types, applications and their approval, and yearly balances
+ *
+ * Balances are derived rather than stored: a year opens with a hand-set
+ * opening balance when there is one, else with the unused days of the year
+ * before up to the type's carry-forward limit, then accrues the quota.
+ * Approved leave marks the days without punches in its range as LEAVE.
+ */
+@Injectable()
+export class LeaveService {
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly punchIngestion: PunchIngestionService
+  ) {}
+
+  async getLeaveTypes(): Promise<LeaveTypeConfig[]> {
+    const types = await this.dataSource.manager.find(LeaveType, {
+      order: { name: "ASC" },
+    });
+    return types.map((type) => this.toTypeConfig(type));
+  }
+
+  async createLeaveType(config: LeaveTypeConfig): Promise<LeaveTypeConfig> {
+    this.validateType(config);
+    await this.assertTypeNameAvailable(config.name);
+
+    const manager = this.dataSource.manager;
+    const type = await manager.save(
+      manager.create(LeaveType, this.toTypeColumns(config))
+    );
+    return this.toTypeConfig(type);
+  }
+
+  async updateLeaveType(
+    id: number,
+    config: LeaveTypeConfig
+  ): Promise<LeaveTypeConfig> {
+    this.validateType(config);
+
+    const manager = this.dataSource.manager;
+    const type = await manager.findOne(LeaveType, { where: { id } });
+    if (!type) {
+      throw new Error(`Leave type ${id} not found`);
+    }
+    if (type.name !== config.name.trim()) {
+      await this.assertTypeNameAvailable(config.name);
+    }
+
+    Object.assign(type, this.toTypeColumns(config));
+    return this.toTypeConfig(await manager.save(type));
+  }
+
+  /**
+   * Delete a leave type no application uses
+   */
+  async deleteLeaveType(id: number): Promise<void> {
+    const manager = this.dataSource.manager;
+    const applications = await manager.count(LeaveApplication, {
+      where: { leave_type_id: id },
+    });
+    if (applications > 0) {
+      throw new Error(
+        `Leave type ${id} is used by ${applications} applications and cannot be deleted`
+      );
+    }
+
+    const result = await manager.delete(LeaveType, id);
+    if (!result.affected) {
+      throw new Error(`Leave type ${id} not found`);
+    }
+  }
+
+  /**
+   * Applications, newest first, optionally for one employee, in one status
+   * or overlapping a date range
+   */
+  async getApplications(filter: {
+    userId?: number;
+    status?: LeaveApplicationStatus;
+    from?: string;
+    to?: string;
+  }): Promise<LeaveApplicationConfig[]> {
+    const where: FindOptionsWhere<LeaveApplication> = {};
+    if (filter.userId !== undefined) {
+      where.employee = { biometric_id: filter.userId };
+    }
+    if (filter.status) {
+      const status = filter.status as LeaveApplicationStatusEnum;
+      if (!Object.values(LeaveApplicationStatusEnum).includes(status)) {
+        throw new Error(`Unknown leave application status "${status}"`);
+      }
+      where.status = status;
+    }
+    if (filter.from && filter.to) {
+      if (!DATE_PATTERN.test(filter.from) || !DATE_PATTERN.test(filter.to)) {
+        throw new Error("Dates must be in YYYY-MM-DD format");
+      }
+      where.from_date = LessThanOrEqual(filter.to);
+      where.to_date = MoreThanOrEqual(filter.from);
+    }
+
+    const manager = this.dataSource.manager;
+    const applications = await manager.find(LeaveApplication, {
+      where,
+      relations: { employee: true },
+      order: { from_date: "DESC", id: "DESC" },
+    });
+    return applications.map((application) =>
+      this.toApplicationConfig(application)
+    );
+  }
+
+  /**
+   * Apply for leave; the application waits for approval
+   */
+  async applyForLeave(
+    config: LeaveApplicationConfig
+  ): Promise<LeaveApplicationConfig> {
+    this.validateApplication(config);
+
+    return this.dataSource.transaction(async (manager) => {
+      const employee = await this.findEmployee(manager, config.userId);
+      const type = await manager.findOne(LeaveType, {
+        where: { id: config.leaveTypeId },
+      });
+      if (!type) {
+        throw new Error(`Leave type ${config.leaveTypeId} not found`);
+      }
+
+      const overlapping = await manager.findOne(LeaveApplication, {
+        where: {
+          employee_id: employee.id,
+          status: In(OPEN_STATUSES),
+          from_date: LessThanOrEqual(config.toDate),
+          to_date: MoreThanOrEqual(config.fromDate),
+        },
+      });
+      if (overlapping) {
+        throw new Error(
+          `Overlaps leave application ${overlapping.id} (${overlapping.from_date} to ${overlapping.to_date})`
+        );
+      }
+
+      const settings = await this.punchIngestion.loadSettingsFor(manager, [
+        employee.id,
+      ]);
+      const days = countLeaveDays(
+        employee.id,
+        config.fromDate,
+        config.toDate,
+        settings
+      );
+      if (days === 0) {
+        throw new Error("The dates are all weekly offs or holidays");
+      }
+
+      const year = Number(config.fromDate.slice(0, 4));
+      const balance = await this.computeBalance(manager, employee, type, year);
+      if (balance.availableDays !== null && days > balance.availableDays) {
+        throw new Error(
+          `Only ${balance.availableDays} days of ${type.name} leave are available in ${year}; ${days} requested`
+        );
+      }
+
+      const application = await manager.save(
+        manager.create(LeaveApplication, {
+          employee_id: employee.id,
+          leave_type_id: type.id,
+          from_date: config.fromDate,
+          to_date: config.toDate,
+          days,
+          reason: config.reason?.trim() || null,
+          status: LeaveApplicationStatusEnum.PENDING,
+        })
+      );
+      application.employee = employee;
+      return this.toApplicationConfig(application);
+    });
+  }
+
+  /**
+   * Approve a pending application and mark its days without punches as LEAVE
+   */
+  async approveApplication(
+    id: number,
+    note?: string | null
+  ): Promise<{
+    application: LeaveApplicationConfig;
+    recalculatedDays: number;
+  }> {
+    return this.dataSource.transaction(async (manager) => {
+      const application = await this.findApplication(manager, id);
+      if (application.status !== LeaveApplicationStatusEnum.PENDING) {
+        throw new Error(
+          `Leave application ${id} is ${application.status.toLowerCase()}, not pending`
+        );
+      }
+
+      // The application is already counted as pending, so the balance
+      // only falls short if the quota or other leave changed since
+      const balance = await this.computeBalance(
+        manager,
+        application.employee,
+        application.leave_type,
+        Number(application.from_date.slice(0, 4))
+      );
+      if (balance.availableDays !== null && balance.availableDays < 0) {
+        throw new Error(
+          `Not enough ${application.leave_type.name} leave left to approve application ${id}`
+        );
+      }
+
+      const recalculatedDays = await this.decide(
+        manager,
+        application,
+        LeaveApplicationStatusEnum.APPROVED,
+        note
+      );
+      return {
+        application: this.toApplicationConfig(application),
+        recalculatedDays,
+      };
+    });
+  }
+
+  async rejectApplication(
+    id: number,
+    note?: string | null
+  ): Promise<{ application: LeaveApplicationConfig }> {
+    return this.dataSource.transaction(async (manager) => {
+      const application = await this.findApplication(manager, id);
+      if (application.status !== LeaveApplicationStatusEnum.PENDING) {
+        throw new Error(
+          `Leave application ${id} is ${application.status.toLowerCase()}, not pending`
+        );
+      }
+
+      await this.decide(
+        manager,
+        application,
+        LeaveApplicationStatusEnum.REJECTED,
+        note
+      );
+      return { application: this.toApplicationConfig(application) };
+    });
+  }
+
+  /**
+   * Withdraw a pending or approved application; days of approved leave
+   * without punches go back to absent
+   */
+  async cancelApplication(
+    id: number,
+    note?: string | null
+  ): Promise<{
+    application: LeaveApplicationConfig;
+    recalculatedDays: number;
+  }> {
+    return this.dataSource.transaction(async (manager) => {
+      const application = await this.findApplication(manager, id);
+      if (!OPEN_STATUSES.includes(application.status)) {
+        throw new Error(
+          `Leave application ${id} is already ${application.status.toLowerCase()}`
+        );
+      }
+
+      const recalculatedDays = await this.decide(
+        manager,
+        application,
+        LeaveApplicationStatusEnum.CANCELLED,
+        note
+      );
+      return {
+        application: this.toApplicationConfig(application),
+        recalculatedDays,
+      };
+    });
+  }
+
+  /**
+   * Balance of every leave type for an employee in a year
+   */
+  async getBalances(userId: number, year: number): Promise<LeaveBalance[]> {
+    this.validateYear(year);
+
+    const manager = this.dataSource.manager;
+    const employee = await this.findEmployee(manager, userId);
+    const types = await manager.find(LeaveType, { order: { name: "ASC" } });
+
+    const balances: LeaveBalance[] = [];
+    for (const type of types) {
+      balances.push(await this.computeBalance(manager, employee, type, year));
+    }
+    return balances;
+  }
+
+  /**
+   * Set (or with null, clear) the opening balance of a leave type for a year
+   */
+  async setOpeningBalance(
+    userId: number,
+    leaveTypeId: number,
+    year: number,
+    openingDays: number | null
+  ): Promise<LeaveBalance> {
+    this.validateYear(year);
+    if (
+      openingDays !== null &&
+      (typeof openingDays !== "number" || !(openingDays >= 0))
+    ) {
+      throw new Error("Opening balance must be zero or more days");
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const employee = await this.findEmployee(manager, userId);
+      const type = await manager.findOne(LeaveType, {
+        where: { id: leaveTypeId },
+      });
+      if (!type) {
+        throw new Error(`Leave type ${leaveTypeId} not found`);
+      }
+
+      const where = {
+        employee_id: employee.id,
+        leave_type_id: type.id,
+        year,
+      };
+      if (openingDays === null) {
+        await manager.delete(LeaveOpeningBalance, where);
+      } else {
+        await manager.upsert(
+          LeaveOpeningBalance,
+          { ...where, opening_days: openingDays },
+          ["employee_id", "leave_type_id", "year"]
+        );
+      }
+      return this.computeBalance(manager, employee, type, year);
+    });
+  }
+
+  /**
+   * Approved leave overlapping a date range, keyed by biometric ID
+   */
+  async getApprovedLeaves(from: string, to: string): Promise<EmployeeLeave[]> {
+    const manager = this.dataSource.manager;
+    const applications = await manager.find(LeaveApplication, {
+      where: {
+        status: LeaveApplicationStatusEnum.APPROVED,
+        from_date: LessThanOrEqual(to),
+        to_date: MoreThanOrEqual(from),
+      },
+      relations: { employee: true, leave_type: true },
+    });
+    return applications.map((application) => ({
+      userId: application.employee.biometric_id,
+      fromDate: application.from_date,
+      toDate: application.to_date,
+      name: application.leave_type.name,
+      isPaid: application.leave_type.is_paid,
+    }));
+  }
+
+  /**
+   * Record a decision and recalculate the application's days when approved
+   * leave starts or stops applying to them
+   */
+  private async decide(
+    manager: EntityManager,
+    application: LeaveApplication,
+    status: LeaveApplicationStatusEnum,
+    note?: string | null
+  ): Promise<number> {
+    const wasApproved =
+      application.status === LeaveApplicationStatusEnum.APPROVED;
+
+    application.status = status;
+    application.decision_note = note?.trim() || null;
+    application.decided_at = new Date();
+    await manager.save(application);
+
+    if (!wasApproved && status !== LeaveApplicationStatusEnum.APPROVED) {
+      return 0;
+    }
+    return this.punchIngestion.recalculateDaysWithoutPunches(manager, {
+      employee_id: application.employee_id,
+      date: Between(application.from_date, application.to_date),
+    });
+  }
+
+  /**
+   * Balance of one leave type for an employee, walking forward from the
+   * first year with attendance, leave or an opening balance so unused days
+   * carry over year to year
+   */
+  private async computeBalance(
+    manager: EntityManager,
+    employee: Employee,
+    type: LeaveType,
+    year: number
+  ): Promise<LeaveBalance> {
+    const applications = await manager.find(LeaveApplication, {
+      select: { from_date: true, days: true, status: true },
+      where: {
+        employee_id: employee.id,
+        leave_type_id: type.id,
+        status: In(OPEN_STATUSES),
+      },
+    });
+    let pendingDays = 0;
+    const usedByYear = new Map<number, number>();
+    for (const application of applications) {
+      const applicationYear = Number(application.from_date.slice(0, 4));
+      if (application.status === LeaveApplicationStatusEnum.APPROVED) {
+        usedByYear.set(
+          applicationYear,
+          (usedByYear.get(applicationYear) ?? 0) + application.days
+        );
+      } else if (applicationYear === year) {
+        pendingDays += application.days;
+      }
+    }
+    const usedDays = usedByYear.get(year) ?? 0;
+
+    if (type.yearly_quota === null) {
+      return {
+        leaveTypeId: type.id,
+        leaveType: type.name,
+        year,
+        openingDays: 0,
+        accruedDays: 0,
+        usedDays,
+        pendingDays,
+        availableDays: null,
+      };
+    }
+
+    const openings = await manager.find(LeaveOpeningBalance, {
+      where: { employee_id: employee.id, leave_type_id: type.id },
+    });
+    const openingByYear = new Map(
+      openings.map((opening) => [opening.year, opening.opening_days])
+    );
+
+    const [{ first_date: firstDate }] = await manager.query(
+      `SELECT MIN(date)::text AS first_date FROM daily_attendance WHERE employee_id = $1`,
+      [employee.id]
+    );
+    let startYear = Math.min(
+      year,
+      ...openingByYear.keys(),
+      ...usedByYear.keys()
+    );
+    if (firstDate) {
+      startYear = Math.min(startYear, Number(firstDate.slice(0, 4)));
+    }
+
+    const { timeZone } = await this.punchIngestion.loadSettings(manager);
+    const today = formatDate(new Date(), timeZone);
+
+    let openingDays = 0;
+    for (let y = startYear; y < year; y++) {
+      const opening = openingByYear.get(y) ?? openingDays;
+      const unused = opening + type.yearly_quota - (usedByYear.get(y) ?? 0);
+      openingDays = Math.min(type.carry_forward_limit, Math.max(0, unused));
+    }
+    openingDays = openingByYear.get(year) ?? openingDays;
+
+    const accruedDays = this.accruedDays(type, year, today);
+    return {
+      leaveTypeId: type.id,
+      leaveType: type.name,
+      year,
+      openingDays: this.round(openingDays),
+      accruedDays,
+      usedDays,
+      pendingDays,
+      availableDays: this.round(
+        openingDays + accruedDays - usedDays - pendingDays
+      ),
+    };
+  }
+
+  /**
+   * Quota credited by a date: the whole year's for past years, and for
+   * future ones what is credited at their start (so leave for next year can
+   * be requested ahead, e.g. in December)
+   */
+  private accruedDays(type: LeaveType, year: number, today: string): number {
+    const currentYear = Number(today.slice(0, 4));
+    if (year < currentYear) return type.yearly_quota ?? 0;
+    if (type.accrual === LeaveAccrualEnum.MONTHLY) {
+      const months = year > currentYear ? 1 : Number(today.slice(5, 7));
+      return this.round(((type.yearly_quota ?? 0) * months) / 12);
+    }
+    return type.yearly_quota ?? 0;
+  }
+
+  private round(days: number): number {
+    return Math.round(days * 100) / 100;
+  }
+
+  private validateType(config: LeaveTypeConfig): void {
+    if (!config.name?.trim()) {
+      throw new Error("Leave type name is required");
+    }
+    if (typeof config.isPaid !== "boolean") {
+      throw new Error("Leave type must be marked paid or unpaid");
+    }
+    if (
+      config.yearlyQuota !== null &&
+      (!Number.isInteger(config.yearlyQuota) || config.yearlyQuota < 0)
+    ) {
+      throw new Error(
+        "Yearly quota must be a whole number of days, or null for no limit"
+      );
+    }
+    const accrual = config.accrual as LeaveAccrualEnum;
+    if (!Object.values(LeaveAccrualEnum).includes(accrual)) {
+      throw new Error(
+        `Unknown accrual "${accrual}" (expected YEARLY or MONTHLY)`
+      );
+    }
+    if (
+      !Number.isInteger(config.carryForwardLimit) ||
+      config.carryForwardLimit < 0
+    ) {
+      throw new Error("Carry-forward limit must be a whole number of days");
+    }
+  }
+
+  private validateApplication(config: LeaveApplicationConfig): void {
+    if (!Number.isInteger(config.userId)) {
+      throw new Error("Employee ID is required");
+    }
+    if (!Number.isInteger(config.leaveTypeId)) {
+      throw new Error("Leave type is required");
+    }
+    if (
+      !DATE_PATTERN.test(config.fromDate ?? "") ||
+      !DATE_PATTERN.test(config.toDate ?? "")
+    ) {
+      throw new Error("Dates must be in YYYY-MM-DD format");
+    }
+    if (config.toDate < config.fromDate) {
+      throw new Error("Leave cannot end before it starts");
+    }
+    if (config.fromDate.slice(0, 4) !== config.toDate.slice(0, 4)) {
+      throw new Error(
+        "Leave cannot span two years; apply for each year separately"
+      );
+    }
+  }
+
+  private validateYear(year: number): void {
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+      throw new Error(`Invalid year ${year}`);
+    }
+  }
+
+  private async assertTypeNameAvailable(name: string): Promise<void> {
+    const existing = await this.dataSource.manager.findOne(LeaveType, {
+      where: { name: name.trim() },
+    });
+    if (existing) {
+      throw new Error(`A leave type named "${name.trim()}" already exists`);
+    }
+  }
+
+  private async findEmployee(
+    manager: EntityManager,
+    userId: number
+  ): Promise<Employee> {
+    const employee = await manager.findOne(Employee, {
+      where: { biometric_id: userId },
+    });
+    if (!employee) {
+      throw new Error(`Employee with ID ${userId} not found`);
+    }
+    return employee;
+  }
+
+  private async findApplication(
+    manager: EntityManager,
+    id: number
+  ): Promise<LeaveApplication> {
+    const application = await manager.findOne(LeaveApplication, {
+      where: { id },
+      relations: { employee: true, leave_type: true },
+    });
+    if (!application) {
+      throw new Error(`Leave application ${id} not found`);
+    }
+    return application;
+  }
+
+  private toTypeColumns(
+    config: LeaveTypeConfig
+  ): Omit<LeaveType, "id" | "created_at" | "updated_at"> {
+    return {
+      name: config.name.trim(),
+      is_paid: config.isPaid,
+      yearly_quota: config.yearlyQuota,
+      accrual: config.accrual as LeaveAccrualEnum,
+      carry_forward_limit: config.carryForwardLimit,
+    };
+  }
+
+  private toTypeConfig(type: LeaveType): LeaveTypeConfig {
+    return {
+      id: type.id,
+      name: type.name,
+      isPaid: type.is_paid,
+      yearlyQuota: type.yearly_quota,
+      accrual: type.accrual,
+      carryForwardLimit: type.carry_forward_limit,
+    };
+  }
+
+  private toApplicationConfig(
+    application: LeaveApplication
+  ): LeaveApplicationConfig {
+    return {
+      id: application.id,
+      userId: application.employee.biometric_id,
+      leaveTypeId: application.leave_type_id,
+      fromDate: application.from_date,
+      toDate: application.to_date,
+      days: application.days,
+      reason: application.reason,
+      status: application.status,
+      decisionNote: application.decision_note,
+      decidedAt: application.decided_at?.toISOString() ?? null,
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiBody } from "@nestjs/swagger";
+import { OrganisationSettingsService } from "./organisation-settings.service";
+import type { OrganisationSettings } from "@attendance/shared";
+
+@ApiTags("V2 Organisation Settings")
+@Controller("v2/organisation-settings")
+export class OrganisationSettingsController {
+  constructor(private readonly settingsService: OrganisationSettingsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get organisation-wide attendance settings" })
+  async getSettings() {
+    try {
+      const settings = await this.settingsService.getSettings();
+      return { success: true, settings };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get organisation settings",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Put()
+  @ApiOperation({
+    summary:
+      "Update organisation settings (changing the pairing mode, time zone, day start, weekly offs, minimum hours, break policy, debounce or rounding recalculates all stored days)",
+  })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        pairingMode: { type: "string", enum: ["ALTERNATE", "DEVICE_STATE"] },
+        timeZone: { type: "string", example: "Asia/Kolkata" },
+        dayStartTime: { type: "string", example: "05:00" },
+        weeklyOffDays: {
+          type: "array",
+          items: { type: "number", minimum: 0, maximum: 6 },
+          example: [0],
+          description: "Weekdays off (0 = Sunday)",
+        },
+        fullDayHours: {
+          type: "number",
+          nullable: true,
+          example: 4,
+          description: "Fewer worked hours make a working day HALF_DAY",
+        },
+        halfDayHours: {
+          type: "number",
+          nullable: true,
+          example: 2,
+          description: "Fewer worked hours make a working day ABSENT",
+        },
+        lunchDeductionMinutes: {
+          type: "number",
+          example: 30,
+          description: "Unpaid lunch taken off a day of one in/out pair",
+        },
+        lunchDeductionAfterHours: {
+          type: "number",
+          nullable: true,
+          example: 5,
+          description: "Deduct the lunch only from pairs longer than this",
+        },
+        maxPaidBreakMinutes: {
+          type: "number",
+          example: 15,
+          description: "Breaks between pairs counted as worked, up to this",
+        },
+        longBreakMinutes: {
+          type: "number",
+          nullable: true,
+          example: 60,
+          description: "A longer single break flags the day",
+        },
+        debounceSeconds: {
+          type: "number",
+          example: 60,
+          description: "Punches this soon after the last kept one are ignored",
+        },
+        roundingMinutes: {
+          type: "number",
+          enum: [0, 5, 10, 15],
+          description: "Round in/out times for worked time (0 for off)",
+        },
+        lateMarksPerPenalty: {
+          type: "number",
+          nullable: true,
+          example: 3,
+          description: "Every this many late marks in a month deduct a penalty",
+        },
+        earlyOutMarksPerPenalty: {
+          type: "number",
+          nullable: true,
+          example: 3,
+          description: "Every this many early exits in a month deduct a penalty",
+        },
+        markPenaltyDays: {
+          type: "number",
+          example: 0.5,
+          description: "Days deducted per penalty of marks",
+        },
+        veryLateMinutes: {
+          type: "number",
+          nullable: true,
+          example: 60,
+          description: "Arriving more than this late deducts a penalty",
+        },
+        veryLatePenaltyDays: {
+          type: "number",
+          example: 0.5,
+          description: "Days deducted per very late day",
+        },
+        overtimeMode: {
+          type: "string",
+          enum: ["DAILY", "WEEKLY"],
+          example: "DAILY",
+          description:
+            "Overtime past each day's expected hours, or past the weekly hours",
+        },
+        overtimeWeeklyHours: { type: "number", example: 48 },
+        overtimeMinimumMinutes: {
+          type: "number",
+          example: 30,
+          description: "Shorter overtime does not count",
+        },
+        overtimeCountsPreShift: {
+          type: "boolean",
+          example: true,
+          description: "Whether arriving before the work start counts",
+        },
+        overtimeDailyCapMinutes: { type: "number", nullable: true, example: 120 },
+        overtimeWeeklyCapMinutes: {
+          type: "number",
+          nullable: true,
+          example: 600,
+        },
+        overtimeRequiresApproval: {
+          type: "boolean",
+          example: false,
+          description: "Overtime reaches payout only once approved",
+        },
+        compOffExpiryDays: {
+          type: "number",
+          nullable: true,
+          example: 90,
+          description: "Days a comp-off credit stays usable; null = never",
+        },
+      },
+    },
+  })
+  async updateSettings(@Body() body: Partial<OrganisationSettings>) {
+    try {
+      const result = await this.settingsService.updateSettings(body);
+      return {
+        success: true,
+        message: result.recalculatedDays
+          ? `Settings saved: ${result.recalculatedDays} days recalculated`
+          : "Settings saved",
+        ...result,
+      };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to update organisation settings",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+}
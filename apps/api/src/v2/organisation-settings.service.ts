@@ -0,0 +1,475 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { DataSource, EntityManager, In, MoreThan } from "typeorm";
+import {
+  AttendanceStatusEnum,
+  DailyAttendance,
+  OrganisationSettings as OrganisationSettingsEntity,
+  Punch,
+} from "./entities";
+import { PunchIngestionService } from "./punch-ingestion.service";
+import {
+  DEFAULT_SETTINGS,
+  DEFAULT_TIME_ZONE,
+  getAttendanceDate,
+  isValidWeeklyOffDays,
+  isValidTimeZone,
+  OrganisationSettings,
+  OvertimeMode,
+  PairingMode,
+} from "@attendance/shared";
+
+const PAIRING_MODES: PairingMode[] = ["ALTERNATE", "DEVICE_STATE"];
+const DAY_START_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const ROUNDING_MINUTES = [0, 5, 10, 15];
+const OVERTIME_MODES: OvertimeMode[] = ["DAILY", "WEEKLY"];
+
+/**
+ * Organisation-wide settings that affect how stored punches are computed
+ */
+@Injectable()
+export class OrganisationSettingsService {
+  private readonly logger = new Logger(OrganisationSettingsService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly punchIngestion: PunchIngestionService
+  ) {}
+
+  async getSettings(): Promise<OrganisationSettings> {
+    const row = await this.dataSource.manager.findOne(
+      OrganisationSettingsEntity,
+      { where: { id: 1 } }
+    );
+    return {
+      pairingMode: row?.pairing_mode ?? DEFAULT_SETTINGS.pairingMode!,
+      timeZone: row?.time_zone ?? DEFAULT_TIME_ZONE,
+      dayStartTime: row?.day_start_time ?? DEFAULT_SETTINGS.dayStartTime!,
+      weeklyOffDays: row?.weekly_off_days ?? [],
+      fullDayHours: row?.full_day_hours ?? null,
+      halfDayHours: row?.half_day_hours ?? null,
+      lunchDeductionMinutes: row?.lunch_deduction_minutes ?? 0,
+      lunchDeductionAfterHours: row?.lunch_deduction_after_hours ?? null,
+      maxPaidBreakMinutes: row?.max_paid_break_minutes ?? 0,
+      longBreakMinutes: row?.long_break_minutes ?? null,
+      debounceSeconds: row?.debounce_seconds ?? 0,
+      roundingMinutes: row?.rounding_minutes ?? 0,
+      lateMarksPerPenalty: row?.late_marks_per_penalty ?? null,
+      earlyOutMarksPerPenalty: row?.early_out_marks_per_penalty ?? null,
+      markPenaltyDays: row?.mark_penalty_days ?? 0.5,
+      veryLateMinutes: row?.very_late_minutes ?? null,
+      veryLatePenaltyDays: row?.very_late_penalty_days ?? 0.5,
+      overtimeMode: row?.overtime_mode ?? "DAILY",
+      overtimeWeeklyHours: row?.overtime_weekly_hours ?? 48,
+      overtimeMinimumMinutes: row?.overtime_minimum_minutes ?? 0,
+      overtimeCountsPreShift: row?.overtime_counts_pre_shift ?? true,
+      overtimeDailyCapMinutes: row?.overtime_daily_cap_minutes ?? null,
+      overtimeWeeklyCapMinutes: row?.overtime_weekly_cap_minutes ?? null,
+      overtimeRequiresApproval: row?.overtime_requires_approval ?? false,
+      compOffExpiryDays: row?.comp_off_expiry_days ?? null,
+    };
+  }
+
+  /**
+   * Save the settings; a new pairing mode, time zone, day start, weekly
+   * offs, minimum hours, break policy, debounce or rounding recalculates
+   * every stored day (time zone and day start also move punches across day
+   * boundaries); penalty rules, the overtime policy and comp-off expiry
+   * only apply to reports and ledgers
+   */
+  async updateSettings(
+    settings: Partial<OrganisationSettings>
+  ): Promise<{ settings: OrganisationSettings; recalculatedDays: number }> {
+    if (
+      settings.pairingMode !== undefined &&
+      !PAIRING_MODES.includes(settings.pairingMode)
+    ) {
+      throw new Error(
+        `Invalid pairing mode "${settings.pairingMode}" (expected ${PAIRING_MODES.join(" or ")})`
+      );
+    }
+    if (
+      settings.timeZone !== undefined &&
+      !isValidTimeZone(settings.timeZone)
+    ) {
+      throw new Error(`Unknown time zone "${settings.timeZone}"`);
+    }
+    if (
+      settings.dayStartTime !== undefined &&
+      !DAY_START_PATTERN.test(settings.dayStartTime)
+    ) {
+      throw new Error(
+        `Invalid day start time "${settings.dayStartTime}" (expected HH:MM)`
+      );
+    }
+    if (
+      settings.weeklyOffDays !== undefined &&
+      !isValidWeeklyOffDays(settings.weeklyOffDays)
+    ) {
+      throw new Error(
+        "Weekly off days must be distinct weekdays from 0 (Sunday) to 6"
+      );
+    }
+    for (const [label, hours] of [
+      ["Full day hours", settings.fullDayHours],
+      ["Half day hours", settings.halfDayHours],
+      ["Lunch deduction hours", settings.lunchDeductionAfterHours],
+    ] as const) {
+      if (
+        hours !== undefined &&
+        hours !== null &&
+        (typeof hours !== "number" || !(hours > 0) || hours > 24)
+      ) {
+        throw new Error(`${label} must be more than 0 and at most 24`);
+      }
+    }
+    for (const [label, minutes] of [
+      ["Lunch deduction", settings.lunchDeductionMinutes],
+      ["Maximum paid break", settings.maxPaidBreakMinutes],
+      ["Long break", settings.longBreakMinutes],
+    ] as const) {
+      if (
+        minutes !== undefined &&
+        minutes !== null &&
+        (!Number.isInteger(minutes) || minutes < 0 || minutes > 24 * 60)
+      ) {
+        throw new Error(`${label} must be a whole number of minutes`);
+      }
+    }
+    if (
+      settings.debounceSeconds !== undefined &&
+      (!Number.isInteger(settings.debounceSeconds) ||
+        settings.debounceSeconds < 0 ||
+        settings.debounceSeconds > 3600)
+    ) {
+      throw new Error("Debounce must be a whole number of seconds up to 3600");
+    }
+    if (
+      settings.roundingMinutes !== undefined &&
+      !ROUNDING_MINUTES.includes(settings.roundingMinutes)
+    ) {
+      throw new Error(
+        `Invalid rounding "${settings.roundingMinutes}" (expected 0, 5, 10 or 15 minutes)`
+      );
+    }
+    for (const [label, count] of [
+      ["Late marks per penalty", settings.lateMarksPerPenalty],
+      ["Early exits per penalty", settings.earlyOutMarksPerPenalty],
+      ["Very late minutes", settings.veryLateMinutes],
+    ] as const) {
+      if (
+        count !== undefined &&
+        count !== null &&
+        (!Number.isInteger(count) || count < 1)
+      ) {
+        throw new Error(`${label} must be a whole number of at least 1`);
+      }
+    }
+    for (const [label, days] of [
+      ["Mark penalty days", settings.markPenaltyDays],
+      ["Very late penalty days", settings.veryLatePenaltyDays],
+    ] as const) {
+      if (
+        days !== undefined &&
+        (typeof days !== "number" || !(days >= 0) || days > 31)
+      ) {
+        throw new Error(`${label} must be from 0 to 31`);
+      }
+    }
+    if (
+      settings.overtimeMode !== undefined &&
+      !OVERTIME_MODES.includes(settings.overtimeMode)
+    ) {
+      throw new Error(
+        `Invalid overtime mode "${settings.overtimeMode}" (expected ${OVERTIME_MODES.join(" or ")})`
+      );
+    }
+    if (
+      settings.overtimeWeeklyHours !== undefined &&
+      (typeof settings.overtimeWeeklyHours !== "number" ||
+        !(settings.overtimeWeeklyHours > 0) ||
+        settings.overtimeWeeklyHours > 7 * 24)
+    ) {
+      throw new Error("Overtime weekly hours must be more than 0 and at most 168");
+    }
+    for (const [label, minutes, max] of [
+      ["Overtime minimum", settings.overtimeMinimumMinutes, 24 * 60],
+      ["Overtime daily cap", settings.overtimeDailyCapMinutes, 24 * 60],
+      ["Overtime weekly cap", settings.overtimeWeeklyCapMinutes, 7 * 24 * 60],
+    ] as const) {
+      if (
+        minutes !== undefined &&
+        minutes !== null &&
+        (!Number.isInteger(minutes) || minutes < 0 || minutes > max)
+      ) {
+        throw new Error(`${label} must be a whole number of minutes`);
+      }
+    }
+    for (const [label, flag] of [
+      ["Overtime counts pre-shift", settings.overtimeCountsPreShift],
+      ["Overtime requires approval", settings.overtimeRequiresApproval],
+    ] as const) {
+      if (flag !== undefined && typeof flag !== "boolean") {
+        throw new Error(`${label} must be true or false`);
+      }
+    }
+    if (
+      settings.compOffExpiryDays !== undefined &&
+      settings.compOffExpiryDays !== null &&
+      (!Number.isInteger(settings.compOffExpiryDays) ||
+        settings.compOffExpiryDays < 1 ||
+        settings.compOffExpiryDays > 3660)
+    ) {
+      throw new Error("Comp-off expiry must be a whole number of days");
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const repo = manager.getRepository(OrganisationSettingsEntity);
+      const row =
+        (await repo.findOne({ where: { id: 1 } })) ??
+        repo.create({
+          id: 1,
+          pairing_mode: DEFAULT_SETTINGS.pairingMode,
+          time_zone: DEFAULT_TIME_ZONE,
+          day_start_time: DEFAULT_SETTINGS.dayStartTime,
+          weekly_off_days: [],
+          full_day_hours: null,
+          half_day_hours: null,
+          lunch_deduction_minutes: 0,
+          lunch_deduction_after_hours: null,
+          max_paid_break_minutes: 0,
+          long_break_minutes: null,
+          debounce_seconds: 0,
+          rounding_minutes: 0,
+          late_marks_per_penalty: null,
+          early_out_marks_per_penalty: null,
+          mark_penalty_days: 0.5,
+          very_late_minutes: null,
+          very_late_penalty_days: 0.5,
+          overtime_mode: "DAILY",
+          overtime_weekly_hours: 48,
+          overtime_minimum_minutes: 0,
+          overtime_counts_pre_shift: true,
+          overtime_daily_cap_minutes: null,
+          overtime_weekly_cap_minutes: null,
+          overtime_requires_approval: false,
+          comp_off_expiry_days: null,
+        });
+
+      const pairingChanged =
+        settings.pairingMode !== undefined &&
+        settings.pairingMode !== row.pairing_mode;
+      const timeZoneChanged =
+        settings.timeZone !== undefined && settings.timeZone !== row.time_zone;
+      const dayStartChanged =
+        settings.dayStartTime !== undefined &&
+        settings.dayStartTime !== row.day_start_time;
+      const weeklyOffChanged =
+        settings.weeklyOffDays !== undefined &&
+        [...settings.weeklyOffDays].sort().join() !==
+          [...row.weekly_off_days].sort().join();
+      const minimumHoursChanged =
+        (settings.fullDayHours !== undefined &&
+          settings.fullDayHours !== row.full_day_hours) ||
+        (settings.halfDayHours !== undefined &&
+          settings.halfDayHours !== row.half_day_hours);
+      const breakPolicyChanged =
+        (settings.lunchDeductionMinutes !== undefined &&
+          settings.lunchDeductionMinutes !== row.lunch_deduction_minutes) ||
+        (settings.lunchDeductionAfterHours !== undefined &&
+          settings.lunchDeductionAfterHours !==
+            row.lunch_deduction_after_hours) ||
+        (settings.maxPaidBreakMinutes !== undefined &&
+          settings.maxPaidBreakMinutes !== row.max_paid_break_minutes) ||
+        (settings.longBreakMinutes !== undefined &&
+          settings.longBreakMinutes !== row.long_break_minutes);
+      const punchRulesChanged =
+        (settings.debounceSeconds !== undefined &&
+          settings.debounceSeconds !== row.debounce_seconds) ||
+        (settings.roundingMinutes !== undefined &&
+          settings.roundingMinutes !== row.rounding_minutes);
+      if (settings.pairingMode !== undefined) {
+        row.pairing_mode = settings.pairingMode;
+      }
+      if (settings.timeZone !== undefined) {
+        row.time_zone = settings.timeZone;
+      }
+      if (settings.dayStartTime !== undefined) {
+        row.day_start_time = settings.dayStartTime;
+      }
+      if (settings.weeklyOffDays !== undefined) {
+        row.weekly_off_days = [...settings.weeklyOffDays].sort();
+      }
+      if (settings.fullDayHours !== undefined) {
+        row.full_day_hours = settings.fullDayHours;
+      }
+      if (settings.halfDayHours !== undefined) {
+        row.half_day_hours = settings.halfDayHours;
+      }
+      if (settings.lunchDeductionMinutes !== undefined) {
+        row.lunch_deduction_minutes = settings.lunchDeductionMinutes;
+      }
+      if (settings.lunchDeductionAfterHours !== undefined) {
+        row.lunch_deduction_after_hours = settings.lunchDeductionAfterHours;
+      }
+      if (settings.maxPaidBreakMinutes !== undefined) {
+        row.max_paid_break_minutes = settings.maxPaidBreakMinutes;
+      }
+      if (settings.longBreakMinutes !== undefined) {
+        row.long_break_minutes = settings.longBreakMinutes;
+      }
+      if (settings.debounceSeconds !== undefined) {
+        row.debounce_seconds = settings.debounceSeconds;
+      }
+      if (settings.roundingMinutes !== undefined) {
+        row.rounding_minutes = settings.roundingMinutes;
+      }
+      if (settings.lateMarksPerPenalty !== undefined) {
+        row.late_marks_per_penalty = settings.lateMarksPerPenalty;
+      }
+      if (settings.earlyOutMarksPerPenalty !== undefined) {
+        row.early_out_marks_per_penalty = settings.earlyOutMarksPerPenalty;
+      }
+      if (settings.markPenaltyDays !== undefined) {
+        row.mark_penalty_days = settings.markPenaltyDays;
+      }
+      if (settings.veryLateMinutes !== undefined) {
+        row.very_late_minutes = settings.veryLateMinutes;
+      }
+      if (settings.veryLatePenaltyDays !== undefined) {
+        row.very_late_penalty_days = settings.veryLatePenaltyDays;
+      }
+      if (settings.overtimeMode !== undefined) {
+        row.overtime_mode = settings.overtimeMode;
+      }
+      if (settings.overtimeWeeklyHours !== undefined) {
+        row.overtime_weekly_hours = settings.overtimeWeeklyHours;
+      }
+      if (settings.overtimeMinimumMinutes !== undefined) {
+        row.overtime_minimum_minutes = settings.overtimeMinimumMinutes;
+      }
+      if (settings.overtimeCountsPreShift !== undefined) {
+        row.overtime_counts_pre_shift = settings.overtimeCountsPreShift;
+      }
+      if (settings.overtimeDailyCapMinutes !== undefined) {
+        row.overtime_daily_cap_minutes = settings.overtimeDailyCapMinutes;
+      }
+      if (settings.overtimeWeeklyCapMinutes !== undefined) {
+        row.overtime_weekly_cap_minutes = settings.overtimeWeeklyCapMinutes;
+      }
+      if (settings.overtimeRequiresApproval !== undefined) {
+        row.overtime_requires_approval = settings.overtimeRequiresApproval;
+      }
+      if (settings.compOffExpiryDays !== undefined) {
+        row.comp_off_expiry_days = settings.compOffExpiryDays;
+      }
+      if (
+        row.full_day_hours !== null &&
+        row.half_day_hours !== null &&
+        row.half_day_hours > row.full_day_hours
+      ) {
+        throw new Error("Half day hours cannot be more than full day hours");
+      }
+      await repo.save(row);
+
+      const recalculatedDays =
+        pairingChanged ||
+        timeZoneChanged ||
+        dayStartChanged ||
+        weeklyOffChanged ||
+        minimumHoursChanged ||
+        breakPolicyChanged ||
+        punchRulesChanged
+          ? await this.recalculateAllDays(
+              manager,
+              row.time_zone,
+              row.day_start_time
+            )
+          : 0;
+      if (recalculatedDays > 0) {
+        this.logger.log(
+          `Settings changed (pairing ${row.pairing_mode}, time zone ${row.time_zone}, day start ${row.day_start_time}, weekly off [${row.weekly_off_days.join(", ")}], full day ${row.full_day_hours ?? "-"}h, half day ${row.half_day_hours ?? "-"}h, lunch ${row.lunch_deduction_minutes}m after ${row.lunch_deduction_after_hours ?? "-"}h, paid break ${row.max_paid_break_minutes}m, long break ${row.long_break_minutes ?? "-"}m, debounce ${row.debounce_seconds}s, rounding ${row.rounding_minutes}m): ${recalculatedDays} days recalculated`
+        );
+      }
+
+      return {
+        settings: {
+          pairingMode: row.pairing_mode,
+          timeZone: row.time_zone,
+          dayStartTime: row.day_start_time,
+          weeklyOffDays: row.weekly_off_days,
+          fullDayHours: row.full_day_hours,
+          halfDayHours: row.half_day_hours,
+          lunchDeductionMinutes: row.lunch_deduction_minutes,
+          lunchDeductionAfterHours: row.lunch_deduction_after_hours,
+          maxPaidBreakMinutes: row.max_paid_break_minutes,
+          longBreakMinutes: row.long_break_minutes,
+          debounceSeconds: row.debounce_seconds,
+          roundingMinutes: row.rounding_minutes,
+          lateMarksPerPenalty: row.late_marks_per_penalty,
+          earlyOutMarksPerPenalty: row.early_out_marks_per_penalty,
+          markPenaltyDays: row.mark_penalty_days,
+          veryLateMinutes: row.very_late_minutes,
+          veryLatePenaltyDays: row.very_late_penalty_days,
+          overtimeMode: row.overtime_mode,
+          overtimeWeeklyHours: row.overtime_weekly_hours,
+          overtimeMinimumMinutes: row.overtime_minimum_minutes,
+          overtimeCountsPreShift: row.overtime_counts_pre_shift,
+          overtimeDailyCapMinutes: row.overtime_daily_cap_minutes,
+          overtimeWeeklyCapMinutes: row.overtime_weekly_cap_minutes,
+          overtimeRequiresApproval: row.overtime_requires_approval,
+          compOffExpiryDays: row.comp_off_expiry_days,
+        },
+        recalculatedDays,
+      };
+    });
+  }
+
+  /**
+   * Recalculate every employee-day that has punches, plus stored days that
+   * had punches before (they may have moved to a neighbouring day) and
+   * stored absent, weekly off or holiday days (COMP days are left alone)
+   */
+  private async recalculateAllDays(
+    manager: EntityManager,
+    timeZone: string,
+    dayStartTime: string
+  ): Promise<number> {
+    const affectedUserDates = new Map<number, Set<string>>();
+    const add = (employeeId: number, date: string) => {
+      if (!affectedUserDates.has(employeeId)) {
+        affectedUserDates.set(employeeId, new Set());
+      }
+      affectedUserDates.get(employeeId)!.add(date);
+    };
+
+    const punches = await manager.find(Punch, {
+      select: { employee_id: true, punch_time: true },
+    });
+    for (const punch of punches) {
+      add(
+        punch.employee_id,
+        getAttendanceDate(punch.punch_time, timeZone, dayStartTime)
+      );
+    }
+
+    const storedDays = await manager.find(DailyAttendance, {
+      select: { employee_id: true, date: true },
+      where: [
+        { punch_count: MoreThan(0) },
+        {
+          status: In([
+            AttendanceStatusEnum.ABSENT,
+            AttendanceStatusEnum.WEEKLY_OFF,
+            AttendanceStatusEnum.HOLIDAY,
+            AttendanceStatusEnum.LEAVE,
+          ]),
+        },
+      ],
+    });
+    for (const day of storedDays) {
+      add(day.employee_id, day.date);
+    }
+
+    return this.punchIngestion.recalculateDays(manager, affectedUserDates);
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+} from "@nestjs/swagger";
+import { OvertimeService } from "./overtime.service";
+import type { OvertimeDecision } from "@attendance/shared";
+
+@ApiTags("V2 Overtime")
+@Controller("v2/overtime")
+export class OvertimeController {
+  constructor(private readonly overtimeService: OvertimeService) {}
+
+  @Get("decisions")
+  @ApiOperation({ summary: "List overtime decisions in a date range" })
+  @ApiQuery({ name: "from", required: true, example: "2026-03-01" })
+  @ApiQuery({ name: "to", required: true, example: "2026-03-31" })
+  async getDecisions(@Query("from") from: string, @Query("to") to: string) {
+    try {
+      const decisions = await this.overtimeService.getDecisions(from, to);
+      return { success: true, decisions };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get overtime decisions",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post("decisions")
+  @ApiOperation({
+    summary:
+      "Approve or reject a day's overtime (holds while the overtime stays at these minutes)",
+  })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        userId: { type: "number", example: 5 },
+        date: { type: "string", example: "2026-03-02" },
+        minutes: { type: "number", example: 90 },
+        status: { type: "string", enum: ["APPROVED", "REJECTED"] },
+        note: { type: "string", nullable: true, example: "Month-end close" },
+      },
+    },
+  })
+  async decide(@Body() body: OvertimeDecision) {
+    try {
+      const decision = await this.overtimeService.decide(
+        body.userId,
+        body.date,
+        body.status,
+        body.minutes,
+        body.note
+      );
+      return { success: true, decision };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to record overtime decision",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Delete("decisions/:userId/:date")
+  @ApiOperation({ summary: "Clear a decision (the overtime is pending again)" })
+  @ApiParam({ name: "userId", type: Number })
+  @ApiParam({ name: "date", type: String, example: "2026-03-02" })
+  async clearDecision(
+    @Param("userId") userId: string,
+    @Param("date") date: string
+  ) {
+    const biometricId = this.parseId(userId, "user");
+
+    try {
+      await this.overtimeService.clearDecision(biometricId, date);
+      return { success: true, message: "Overtime decision cleared" };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to clear overtime decision",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  private parseId(id: string, label: string): number {
+    const parsed = parseInt(id, 10);
+    if (isNaN(parsed)) {
+      throw new HttpException(`Invalid ${label} ID`, HttpStatus.BAD_REQUEST);
+    }
+    return parsed;
+  }
+}
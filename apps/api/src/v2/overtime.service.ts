@@ -0,0 +1,124 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, Between } from "typeorm";
+import {
+  Employee,
+  OvertimeApproval,
+  OvertimeApprovalStatusEnum,
+} from "./entities";
+import type { OvertimeDecision } from "@attendance/shared";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Approval of overtime before it reaches payout
+ *
+ * Overtime is worked out at report time, so a decision records the minutes
+ * it was made on; the engine treats the day as pending again when its
+ * overtime no longer matches (e.g. after a correction or a policy change).
+ */
+@Injectable()
+export class OvertimeService {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Decisions on days within a date range, keyed by biometric ID
+   */
+  async getDecisions(from: string, to: string): Promise<OvertimeDecision[]> {
+    this.validateDates(from, to);
+    const approvals = await this.dataSource.manager.find(OvertimeApproval, {
+      where: { date: Between(from, to) },
+      relations: { employee: true },
+      order: { date: "ASC", id: "ASC" },
+    });
+    return approvals.map((approval) => this.toDecision(approval));
+  }
+
+  /**
+   * Approve or reject the overtime of an employee-day, replacing an earlier
+   * decision on it
+   */
+  async decide(
+    userId: number,
+    date: string,
+    status: OvertimeDecision["status"],
+    minutes: number,
+    note?: string | null
+  ): Promise<OvertimeDecision> {
+    this.validateDates(date);
+    if (
+      !Object.values(OvertimeApprovalStatusEnum).includes(
+        status as OvertimeApprovalStatusEnum
+      )
+    ) {
+      throw new Error(
+        `Unknown overtime decision "${status}" (expected APPROVED or REJECTED)`
+      );
+    }
+    if (!Number.isInteger(minutes) || minutes < 1) {
+      throw new Error("Overtime minutes must be a whole number of at least 1");
+    }
+
+    const employee = await this.findEmployee(userId);
+    return this.dataSource.transaction(async (manager) => {
+      await manager.upsert(
+        OvertimeApproval,
+        {
+          employee_id: employee.id,
+          date,
+          minutes,
+          status: status as OvertimeApprovalStatusEnum,
+          note: note?.trim() || null,
+          decided_at: new Date(),
+        },
+        ["employee_id", "date"]
+      );
+      const approval = await manager.findOneOrFail(OvertimeApproval, {
+        where: { employee_id: employee.id, date },
+        relations: { employee: true },
+      });
+      return this.toDecision(approval);
+    });
+  }
+
+  /**
+   * Remove the decision on an employee-day so its overtime is pending again
+   */
+  async clearDecision(userId: number, date: string): Promise<void> {
+    this.validateDates(date);
+    const employee = await this.findEmployee(userId);
+    const result = await this.dataSource.manager.delete(OvertimeApproval, {
+      employee_id: employee.id,
+      date,
+    });
+    if (!result.affected) {
+      throw new Error(`No overtime decision for user ${userId} on ${date}`);
+    }
+  }
+
+  private async findEmployee(userId: number): Promise<Employee> {
+    const employee = await this.dataSource.manager.findOne(Employee, {
+      where: { biometric_id: userId },
+    });
+    if (!employee) {
+      throw new Error(`Employee with ID ${userId} not found`);
+    }
+    return employee;
+  }
+
+  private toDecision(approval: OvertimeApproval): OvertimeDecision {
+    return {
+      userId: approval.employee.biometric_id,
+      date: approval.date,
+      minutes: approval.minutes,
+      status: approval.status,
+      note: approval.note,
+      decidedAt: approval.decided_at.toISOString(),
+    };
+  }
+
+  private validateDates(...dates: string[]): void {
+    if (dates.some((date) => !DATE_PATTERN.test(date ?? ""))) {
+      throw new Error("Dates must be in YYYY-MM-DD format");
+    }
+  }
+}
@@ -0,0 +1,489 @@
+import { Injectable } from "@nestjs/common";
+import { EntityManager, Between, FindOptionsWhere, In, Not } from "typeorm";
+import {
+  AttendanceStatusEnum,
+  DailyAttendance,
+  Employee,
+  Holiday,
+  LeaveApplication,
+  LeaveApplicationStatusEnum,
+  Punch,
+  OrganisationSettings,
+} from "./entities";
+import {
+  DEFAULT_SETTINGS,
+  DEFAULT_TIME_ZONE,
+  addDays,
+  computeDailyAttendance,
+  getAttendanceDate,
+  getDayCode,
+  parseAttendanceDateTime,
+} from "@attendance/shared";
+import type { AttendanceSettings } from "@attendance/shared";
+
+/**
+ * A punch ready to be staged for insertion
+ */
+export interface StagedPunch {
+  line: number;
+  biometricId: number;
+  punchTime: Date;
+  verificationType: string;
+  state: number | null;
+}
+
+// Rows per multi-row statement; keeps every statement well under the
+// 65535 bind parameter limit of Postgres
+const CHUNK_SIZE = 1000;
+
+/**
+ * Set-based punch ingestion and daily attendance recalculation
+ *
+ * Punches are bulk loaded into a transaction-scoped staging table and moved
+ * into `punches` with a single INSERT ... SELECT. Recalculation loads all
+ * punches of the affected employee-days in one query, runs them through the
+ * shared attendance engine, and writes punch types and `daily_attendance`
+ * back with multi-row statements, so the rules stay identical to memory mode.
+ */
+@Injectable()
+export class PunchIngestionService {
+  /**
+   * Insert punches (creating unknown employees), skipping ones already stored
+   * Returns the file lines that were duplicates of stored punches and the
+   * dates touched per employee id
+   */
+  async insertPunches(
+    manager: EntityManager,
+    punches: StagedPunch[],
+    batchId: number | null
+  ): Promise<{
+    inserted: number;
+    duplicateLines: Set<number>;
+    affectedUserDates: Map<number, Set<string>>;
+  }> {
+    const affectedUserDates = new Map<number, Set<string>>();
+    if (punches.length === 0) {
+      return { inserted: 0, duplicateLines: new Set(), affectedUserDates };
+    }
+
+    await manager.query(`
+      CREATE TEMP TABLE IF NOT EXISTS punch_staging (
+        line INTEGER NOT NULL,
+        biometric_id INTEGER NOT NULL,
+        punch_time TIMESTAMPTZ NOT NULL,
+        verification_type VARCHAR(20) NOT NULL,
+        punch_state SMALLINT
+      ) ON COMMIT DROP
+    `);
+    await manager.query("TRUNCATE punch_staging");
+
+    for (let i = 0; i < punches.length; i += CHUNK_SIZE) {
+      const chunk = punches.slice(i, i + CHUNK_SIZE);
+      const params: unknown[] = [];
+      const rows = chunk.map((punch) => {
+        params.push(
+          punch.line,
+          punch.biometricId,
+          punch.punchTime,
+          punch.verificationType,
+          punch.state
+        );
+        const n = params.length;
+        return `($${n - 4}, $${n - 3}, $${n - 2}, $${n - 1}, $${n})`;
+      });
+      await manager.query(
+        `INSERT INTO punch_staging (line, biometric_id, punch_time, verification_type, punch_state) VALUES ${rows.join(
+          ", "
+        )}`,
+        params
+      );
+    }
+
+    await manager.query(`
+      INSERT INTO employees (biometric_id)
+      SELECT DISTINCT biometric_id FROM punch_staging
+      ON CONFLICT (biometric_id) DO NOTHING
+    `);
+
+    const duplicates: { line: number }[] = await manager.query(`
+      SELECT s.line
+      FROM punch_staging s
+      JOIN employees e ON e.biometric_id = s.biometric_id
+      JOIN punches p ON p.employee_id = e.id AND p.punch_time = s.punch_time
+    `);
+
+    const insertedRows: { id: number }[] = await manager.query(
+      `
+      INSERT INTO punches (employee_id, punch_time, verification_type, punch_state, punch_type, is_paired, is_edited, batch_id)
+      SELECT e.id, s.punch_time, s.verification_type, s.punch_state, NULL, false, false, $1
+      FROM punch_staging s
+      JOIN employees e ON e.biometric_id = s.biometric_id
+      ON CONFLICT (employee_id, punch_time) DO NOTHING
+      RETURNING id
+      `,
+      [batchId]
+    );
+
+    const employees: { id: number; biometric_id: number }[] =
+      await manager.query(
+        `SELECT id, biometric_id FROM employees WHERE biometric_id = ANY($1)`,
+        [[...new Set(punches.map((punch) => punch.biometricId))]]
+      );
+    const employeeIds = new Map(
+      employees.map((emp) => [emp.biometric_id, emp.id])
+    );
+    const { timeZone, dayStartTime } = await this.loadSettings(manager);
+
+    for (const punch of punches) {
+      const employeeId = employeeIds.get(punch.biometricId)!;
+      if (!affectedUserDates.has(employeeId)) {
+        affectedUserDates.set(employeeId, new Set());
+      }
+      affectedUserDates
+        .get(employeeId)!
+        .add(getAttendanceDate(punch.punchTime, timeZone, dayStartTime));
+    }
+
+    return {
+      inserted: insertedRows.length,
+      duplicateLines: new Set(duplicates.map((row) => row.line)),
+      affectedUserDates,
+    };
+  }
+
+  /**
+   * Recalculate punch types and daily attendance for the given user-days
+   * Returns the number of user-days written
+   */
+  async recalculateDays(
+    manager: EntityManager,
+    affectedUserDates: Map<number, Set<string>>
+  ): Promise<number> {
+    const punchUpdates: {
+      id: number;
+      type: string;
+      isPaired: boolean;
+      isIgnored: boolean;
+    }[] = [];
+    const dailyRows: unknown[][] = [];
+
+    const settings = await this.loadSettingsFor(
+      manager,
+      [...affectedUserDates.keys()]
+    );
+    const { timeZone, dayStartTime } = settings;
+
+    const storedPunches = await this.findPunches(
+      manager,
+      affectedUserDates,
+      settings
+    );
+
+    for (const [employeeId, dates] of affectedUserDates.entries()) {
+      if (dates.size === 0) continue;
+
+      const sortedDates = [...dates].sort();
+      const punchesByDate = new Map<string, Punch[]>();
+      for (const punch of storedPunches.get(employeeId) ?? []) {
+        const dateStr = getAttendanceDate(
+          punch.punch_time,
+          timeZone,
+          dayStartTime
+        );
+        if (!dates.has(dateStr)) continue;
+        if (!punchesByDate.has(dateStr)) punchesByDate.set(dateStr, []);
+        punchesByDate.get(dateStr)!.push(punch);
+      }
+
+      for (const dateStr of sortedDates) {
+        const dayPunches = punchesByDate.get(dateStr) || [];
+
+        const { attendance, punches } = computeDailyAttendance(
+          employeeId,
+          dateStr,
+          dayPunches.map((punch) => ({
+            timestamp: punch.punch_time,
+            verificationType: punch.verification_type,
+            isEdited: punch.is_edited,
+            state: punch.punch_state,
+            punch,
+          })),
+          settings
+        );
+
+        for (const { source, type, isPaired, isIgnored = false } of punches) {
+          if (
+            source.punch.punch_type !== type ||
+            source.punch.is_paired !== isPaired ||
+            source.punch.is_ignored !== isIgnored
+          ) {
+            punchUpdates.push({
+              id: source.punch.id,
+              type,
+              isPaired,
+              isIgnored,
+            });
+          }
+        }
+
+        dailyRows.push([
+          employeeId,
+          dateStr,
+          getDayCode(dateStr),
+          attendance.status,
+          attendance.firstIn,
+          attendance.lastOut,
+          attendance.totalHours * 60 + attendance.totalMinutes,
+          dayPunches.length,
+          attendance.breakMinutes ?? 0,
+          attendance.paidBreakMinutes ?? 0,
+          attendance.lunchDeductionMinutes ?? 0,
+          attendance.isLongBreak ?? false,
+        ]);
+      }
+    }
+
+    for (let i = 0; i < punchUpdates.length; i += CHUNK_SIZE) {
+      const chunk = punchUpdates.slice(i, i + CHUNK_SIZE);
+      const params: unknown[] = [];
+      const rows = chunk.map((update) => {
+        params.push(
+          update.id,
+          update.type,
+          update.isPaired,
+          update.isIgnored
+        );
+        const n = params.length;
+        return `($${n - 3}::int, $${n - 2}::varchar, $${n - 1}::boolean, $${n}::boolean)`;
+      });
+      await manager.query(
+        `UPDATE punches AS p
+         SET punch_type = v.punch_type, is_paired = v.is_paired, is_ignored = v.is_ignored
+         FROM (VALUES ${rows.join(", ")}) AS v(id, punch_type, is_paired, is_ignored)
+         WHERE p.id = v.id`,
+        params
+      );
+    }
+
+    for (let i = 0; i < dailyRows.length; i += CHUNK_SIZE) {
+      const chunk = dailyRows.slice(i, i + CHUNK_SIZE);
+      const params: unknown[] = [];
+      const rows = chunk.map((row) => {
+        const start = params.length;
+        params.push(...row);
+        return `(${row.map((_, j) => `$${start + j + 1}`).join(", ")})`;
+      });
+      // Recalculation overwrites the stored status (including COMP marked
+      // before overrides existed) unless it was overridden by hand
+      await manager.query(
+        `INSERT INTO daily_attendance (employee_id, date, day_code, status, first_in, last_out, total_minutes, punch_count, break_minutes, paid_break_minutes, lunch_deduction_minutes, is_long_break)
+         VALUES ${rows.join(", ")}
+         ON CONFLICT (employee_id, date) DO UPDATE SET
+           day_code = EXCLUDED.day_code,
+           status = COALESCE(daily_attendance.override_status, EXCLUDED.status),
+           first_in = EXCLUDED.first_in,
+           last_out = EXCLUDED.last_out,
+           total_minutes = EXCLUDED.total_minutes,
+           punch_count = EXCLUDED.punch_count,
+           break_minutes = EXCLUDED.break_minutes,
+           paid_break_minutes = EXCLUDED.paid_break_minutes,
+           lunch_deduction_minutes = EXCLUDED.lunch_deduction_minutes,
+           is_long_break = EXCLUDED.is_long_break`,
+        params
+      );
+    }
+
+    return dailyRows.length;
+  }
+
+  /**
+   * Punches of each employee from the start of their first affected day to
+   * the end of their last, oldest first; one query per chunk of employees
+   * rather than one per employee
+   */
+  private async findPunches(
+    manager: EntityManager,
+    affectedUserDates: Map<number, Set<string>>,
+    settings: AttendanceSettings
+  ): Promise<Map<number, Punch[]>> {
+    const { timeZone, dayStartTime } = settings;
+    const ranges: FindOptionsWhere<Punch>[] = [];
+    for (const [employeeId, dates] of affectedUserDates.entries()) {
+      if (dates.size === 0) continue;
+
+      const sortedDates = [...dates].sort();
+      ranges.push({
+        employee_id: employeeId,
+        punch_time: Between(
+          parseAttendanceDateTime(
+            sortedDates[0],
+            dayStartTime!,
+            timeZone,
+            dayStartTime
+          ),
+          new Date(
+            parseAttendanceDateTime(
+              addDays(sortedDates[sortedDates.length - 1], 1),
+              dayStartTime!,
+              timeZone,
+              dayStartTime
+            ).getTime() - 1
+          )
+        ),
+      });
+    }
+
+    const punchesByEmployee = new Map<number, Punch[]>();
+    for (let i = 0; i < ranges.length; i += CHUNK_SIZE) {
+      const punches = await manager.find(Punch, {
+        where: ranges.slice(i, i + CHUNK_SIZE),
+        order: { punch_time: "ASC" },
+      });
+      for (const punch of punches) {
+        if (!punchesByEmployee.has(punch.employee_id)) {
+          punchesByEmployee.set(punch.employee_id, []);
+        }
+        punchesByEmployee.get(punch.employee_id)!.push(punch);
+      }
+    }
+    return punchesByEmployee;
+  }
+
+  /**
+   * Recalculate stored days without punches (absent, weekly off, holiday or
+   * leave) matching the filter, after a change to what such a day counts as.
+   * COMP days are left alone.
+   */
+  async recalculateDaysWithoutPunches(
+    manager: EntityManager,
+    where: FindOptionsWhere<DailyAttendance>
+  ): Promise<number> {
+    return this.recalculateMatching(manager, {
+      ...where,
+      punch_count: 0,
+      status: In([
+        AttendanceStatusEnum.ABSENT,
+        AttendanceStatusEnum.WEEKLY_OFF,
+        AttendanceStatusEnum.HOLIDAY,
+        AttendanceStatusEnum.LEAVE,
+      ]),
+    });
+  }
+
+  /**
+   * Recalculate every stored day matching the filter, punched or not, after
+   * a change to what its date counts as (e.g. it became a holiday, so work
+   * on it is no longer held to the minimum hours). COMP days are left alone.
+   */
+  async recalculateStoredDays(
+    manager: EntityManager,
+    where: FindOptionsWhere<DailyAttendance>
+  ): Promise<number> {
+    return this.recalculateMatching(manager, {
+      ...where,
+      status: Not(AttendanceStatusEnum.COMP),
+    });
+  }
+
+  private async recalculateMatching(
+    manager: EntityManager,
+    where: FindOptionsWhere<DailyAttendance>
+  ): Promise<number> {
+    const days = await manager.find(DailyAttendance, {
+      select: { employee_id: true, date: true },
+      where,
+    });
+
+    const affectedUserDates = new Map<number, Set<string>>();
+    for (const day of days) {
+      if (!affectedUserDates.has(day.employee_id)) {
+        affectedUserDates.set(day.employee_id, new Set());
+      }
+      affectedUserDates.get(day.employee_id)!.add(day.date);
+    }
+    return this.recalculateDays(manager, affectedUserDates);
+  }
+
+  /**
+   * Settings that stored days are computed with: the organisation's pairing
+   * mode, time zone, day start, weekly offs, minimum hours, break policy,
+   * debounce and rounding.
+   * Late/early/overtime depend on report-time settings and are not stored.
+   */
+  async loadSettings(manager: EntityManager): Promise<AttendanceSettings> {
+    const organisation = await manager.findOne(OrganisationSettings, {
+      where: { id: 1 },
+    });
+    return {
+      ...DEFAULT_SETTINGS,
+      pairingMode: organisation?.pairing_mode ?? DEFAULT_SETTINGS.pairingMode,
+      timeZone: organisation?.time_zone ?? DEFAULT_TIME_ZONE,
+      dayStartTime:
+        organisation?.day_start_time ?? DEFAULT_SETTINGS.dayStartTime,
+      weeklyOffDays: organisation?.weekly_off_days ?? [],
+      fullDayHours: organisation?.full_day_hours ?? null,
+      halfDayHours: organisation?.half_day_hours ?? null,
+      lunchDeductionMinutes: organisation?.lunch_deduction_minutes ?? 0,
+      lunchDeductionAfterHours:
+        organisation?.lunch_deduction_after_hours ?? null,
+      maxPaidBreakMinutes: organisation?.max_paid_break_minutes ?? 0,
+      longBreakMinutes: organisation?.long_break_minutes ?? null,
+      debounceSeconds: organisation?.debounce_seconds ?? 0,
+      roundingMinutes: organisation?.rounding_minutes ?? 0,
+    };
+  }
+
+  /**
+   * Stored-day settings plus the holiday calendar, and the weekly offs,
+   * locations and approved leave of the given employees (keyed by employee
+   * ID, the user ID of stored days)
+   */
+  async loadSettingsFor(
+    manager: EntityManager,
+    employeeIds: number[]
+  ): Promise<AttendanceSettings> {
+    const settings = await this.loadSettings(manager);
+    if (employeeIds.length === 0) return settings;
+
+    const holidays = await manager.find(Holiday);
+    const employees = await manager.find(Employee, {
+      where: { id: In(employeeIds) },
+      select: { id: true, weekly_off_days: true, location: true },
+    });
+    const leaves = await manager.find(LeaveApplication, {
+      where: {
+        employee_id: In(employeeIds),
+        status: LeaveApplicationStatusEnum.APPROVED,
+      },
+      relations: { leave_type: true },
+    });
+    const employeeWeeklyOffDays: Record<number, number[]> = {};
+    const employeeLocations: Record<number, string> = {};
+    for (const employee of employees) {
+      if (employee.weekly_off_days) {
+        employeeWeeklyOffDays[employee.id] = employee.weekly_off_days;
+      }
+      if (employee.location) {
+        employeeLocations[employee.id] = employee.location;
+      }
+    }
+    return {
+      ...settings,
+      employeeWeeklyOffDays,
+      employeeLocations,
+      holidays: holidays.map((holiday) => ({
+        date: holiday.date,
+        name: holiday.name,
+        isPaid: holiday.is_paid,
+        location: holiday.location,
+      })),
+      leaves: leaves.map((leave) => ({
+        userId: leave.employee_id,
+        fromDate: leave.from_date,
+        toDate: leave.to_date,
+        name: leave.leave_type.name,
+        isPaid: leave.leave_type.is_paid,
+      })),
+    };
+  }
+}
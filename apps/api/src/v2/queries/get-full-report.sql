@@ -1,16 +1,21 @@
 -- Complete Attendance Report Query
--- Returns full report data with JSON aggregation in a single query
+-- Returns per-employee daily records with punches in a single query
 -- Optimized to use pre-filled daily_attendance table
+-- Late/early-out/overtime flags and user summaries are evaluated by the
+-- shared attendance engine after the query, so they match memory mode
+-- Punches deleted by hand are listed (flagged) but not counted
 -- Parameters:
 --   $1: start_date (DATE)
 --   $2: end_date (DATE)
---   $3: work_start_minutes (INT)
---   $4: work_end_minutes (INT)
---   $5: late_threshold_minutes (INT)
---   $6: early_out_threshold_minutes (INT)
+--   $3: time_zone (IANA name) that punches are bucketed into days in
+--   $4: day_start_time (HH:MM); earlier punches belong to the previous day
+--   $5: week_start_date (DATE), Monday of the week of start_date
+--   $6: week_end_date (DATE), Sunday of the week of end_date
+-- Days from $5 to $6 are returned so weekly overtime can count whole weeks;
+-- punches are only listed for days from $1 to $2
 
 WITH daily_data AS (
-  -- Get daily attendance with computed fields directly from table
+  -- Get stored daily attendance directly from table
   SELECT 
     e.id as employee_id,
     e.biometric_id,
@@ -22,47 +27,43 @@ WITH daily_data AS (
     da.last_out,
     da.total_minutes,
     da.punch_count,
-    -- Compute isLate
-    CASE 
-      WHEN da.status = 'PRESENT' 
-        AND da.first_in IS NOT NULL 
-        AND (EXTRACT(HOUR FROM da.first_in::time) * 60 + EXTRACT(MINUTE FROM da.first_in::time)) > ($3::int + $5::int)
-      THEN true ELSE false 
-    END as is_late,
-    -- Compute isEarlyOut
-    CASE 
-      WHEN da.status = 'PRESENT' 
-        AND da.last_out IS NOT NULL 
-        AND (EXTRACT(HOUR FROM da.last_out::time) * 60 + EXTRACT(MINUTE FROM da.last_out::time)) < ($4::int - $6::int)
-      THEN true ELSE false 
-    END as is_early_out,
-    -- Compute overtime
-    CASE 
-      WHEN da.status = 'PRESENT' 
-      THEN GREATEST(0, da.total_minutes - ($4::int - $3::int))
-      ELSE 0 
-    END as overtime
+    da.break_minutes,
+    da.paid_break_minutes,
+    da.lunch_deduction_minutes,
+    da.is_long_break,
+    da.override_status,
+    da.override_reason
   FROM daily_attendance da
   JOIN employees e ON da.employee_id = e.id
-  WHERE da.date >= $1::date AND da.date <= $2::date
+  WHERE da.date >= $5::date AND da.date <= $6::date
+    AND EXISTS (
+      SELECT 1 FROM daily_attendance month_da
+      WHERE month_da.employee_id = da.employee_id
+        AND month_da.date >= $1::date AND month_da.date <= $2::date
+    )
 ),
 punches_agg AS (
   -- Aggregate punches by employee and date
   SELECT 
     p.employee_id,
-    p.punch_time::date as date,
+    ((p.punch_time AT TIME ZONE $3::text) - $4::interval)::date as date,
     json_agg(
       json_build_object(
-        'time', TO_CHAR(p.punch_time AT TIME ZONE 'Asia/Kolkata', 'HH24:MI:SS'),
+        'time', TO_CHAR(p.punch_time AT TIME ZONE $3::text, 'HH24:MI:SS'),
         'type', COALESCE(p.punch_type, 'UNKNOWN'),
         'verificationType', p.verification_type,
         'isPaired', p.is_paired,
-        'isEdited', COALESCE(p.is_edited, false)
+        'isEdited', COALESCE(p.is_edited, false),
+        'isIgnored', COALESCE(p.is_ignored, false),
+        'isDeleted', p.deleted_at IS NOT NULL,
+        'deletion', CASE WHEN p.deleted_at IS NULL THEN NULL
+          ELSE json_build_object('by', p.deleted_by, 'reason', p.delete_reason, 'at', p.deleted_at) END
       ) ORDER BY p.punch_time
     ) as punches
   FROM punches p
-  WHERE p.punch_time >= $1::timestamp AND p.punch_time < ($2::date + 1)::timestamp
-  GROUP BY p.employee_id, p.punch_time::date
+  WHERE p.punch_time >= (($1::date + $4::interval) AT TIME ZONE $3::text)
+    AND p.punch_time < ((($2::date + 1) + $4::interval) AT TIME ZONE $3::text)
+  GROUP BY p.employee_id, ((p.punch_time AT TIME ZONE $3::text) - $4::interval)::date
 ),
 daily_with_punches AS (
   -- Join daily records with punches
@@ -72,21 +73,11 @@ daily_with_punches AS (
   FROM daily_data dd
   LEFT JOIN punches_agg pa ON dd.employee_id = pa.employee_id AND dd.date = pa.date
 ),
-user_summary AS (
-  -- Calculate user-level summary stats
+user_records AS (
+  -- Aggregate daily records per user as JSON
   SELECT 
     biometric_id,
     name,
-    COUNT(*) as total_days,
-    COUNT(*) FILTER (WHERE status = 'PRESENT') as present_days,
-    COUNT(*) FILTER (WHERE status = 'ABSENT') as absent_days,
-    COUNT(*) FILTER (WHERE status = 'INCOMPLETE') as incomplete_days,
-    COUNT(*) FILTER (WHERE status = 'COMP') as comp_days,
-    COALESCE(SUM(total_minutes) FILTER (WHERE status IN ('PRESENT', 'INCOMPLETE')), 0) as total_working_minutes,
-    COUNT(*) FILTER (WHERE is_late) as late_days,
-    COUNT(*) FILTER (WHERE is_early_out) as early_out_days,
-    COALESCE(SUM(overtime) FILTER (WHERE status = 'PRESENT'), 0) as overtime_minutes,
-    -- Aggregate daily records as JSON
     json_agg(
       json_build_object(
         'userId', biometric_id,
@@ -96,35 +87,27 @@ user_summary AS (
         'lastOut', last_out,
         'totalHours', FLOOR(total_minutes / 60),
         'totalMinutes', total_minutes % 60,
+        'breakMinutes', break_minutes,
+        'paidBreakMinutes', paid_break_minutes,
+        'lunchDeductionMinutes', lunch_deduction_minutes,
+        'isLongBreak', is_long_break,
         'punches', punches,
         'status', status,
-        'isLate', is_late,
-        'isEarlyOut', is_early_out,
-        'overtime', overtime
+        'override', CASE WHEN override_status IS NULL THEN NULL
+          ELSE json_build_object('status', override_status, 'reason', override_reason) END
       ) ORDER BY date
     ) as daily_records
   FROM daily_with_punches
   GROUP BY biometric_id, name
 )
--- Final output: array of user summaries
+-- Final output: array of users with their daily records
 SELECT json_agg(
   json_build_object(
     'userId', biometric_id,
     'userName', COALESCE(name, 'Employee ' || biometric_id),
-    'totalDays', total_days,
-    'presentDays', present_days,
-    'absentDays', absent_days,
-    'incompleteDays', incomplete_days,
-    'compDays', comp_days,
-    'totalWorkingHours', FLOOR(total_working_minutes / 60),
-    'totalWorkingMinutes', total_working_minutes % 60,
-    'averageHoursPerDay', CASE WHEN present_days > 0 THEN ROUND((total_working_minutes::numeric / 60 / present_days), 2) ELSE 0 END,
-    'lateDays', late_days,
-    'earlyOutDays', early_out_days,
-    'overtimeMinutes', overtime_minutes,
     'dailyRecords', daily_records
   ) ORDER BY biometric_id
 ) as users,
-(SELECT COUNT(*) FROM punches WHERE punch_time >= $1::timestamp AND punch_time < ($2::date + 1)::timestamp) as total_records,
+(SELECT COUNT(*) FROM punches WHERE deleted_at IS NULL AND punch_time >= (($1::date + $4::interval) AT TIME ZONE $3::text) AND punch_time < ((($2::date + 1) + $4::interval) AT TIME ZONE $3::text)) as total_records,
 (SELECT COUNT(DISTINCT employee_id) FROM daily_attendance WHERE date >= $1::date AND date <= $2::date) as unique_users
-FROM user_summary;
+FROM user_records;
@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+} from "@nestjs/swagger";
+import { RosterService } from "./roster.service";
+import type { RosterEntry, RosterPattern } from "@attendance/shared";
+
+const ENTRY_SCHEMA = {
+  type: "object",
+  properties: {
+    userId: { type: "number", example: 5 },
+    date: { type: "string", example: "2025-12-25" },
+    shiftId: { type: "number", example: 1 },
+  },
+};
+
+const PATTERN_SCHEMA = {
+  type: "object",
+  properties: {
+    userId: { type: "number", example: 5 },
+    startDate: { type: "string", example: "2025-12-01" },
+    endDate: { type: "string", nullable: true, example: null },
+    shiftIds: {
+      type: "array",
+      items: { type: "number" },
+      example: [1, 2],
+      description: "One shift per week in turn, starting with the week of startDate",
+    },
+  },
+};
+
+@ApiTags("V2 Roster")
+@Controller("v2/roster")
+export class RosterController {
+  constructor(private readonly rosterService: RosterService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get roster entries and weekly patterns" })
+  @ApiQuery({ name: "from", required: false, example: "2025-12-01" })
+  @ApiQuery({ name: "to", required: false, example: "2025-12-31" })
+  async getRoster(@Query("from") from?: string, @Query("to") to?: string) {
+    try {
+      const roster = await this.rosterService.getRoster(from, to);
+      return { success: true, ...roster };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get roster",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Put("entries")
+  @ApiOperation({
+    summary: "Put an employee on a shift for one date (overrides patterns)",
+  })
+  @ApiBody({ schema: ENTRY_SCHEMA })
+  async setEntry(@Body() body: RosterEntry) {
+    try {
+      const entry = await this.rosterService.setEntry(body);
+      return { success: true, entry };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to save roster entry",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Delete("entries/:id")
+  @ApiOperation({ summary: "Delete a roster entry" })
+  @ApiParam({ name: "id", type: Number })
+  async deleteEntry(@Param("id") id: string) {
+    const entryId = this.parseId(id);
+
+    try {
+      await this.rosterService.deleteEntry(entryId);
+      return { success: true, message: "Roster entry deleted" };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to delete roster entry",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Post("patterns")
+  @ApiOperation({ summary: "Create a weekly roster pattern" })
+  @ApiBody({ schema: PATTERN_SCHEMA })
+  async createPattern(@Body() body: RosterPattern) {
+    try {
+      const pattern = await this.rosterService.createPattern(body);
+      return { success: true, pattern };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to create roster pattern",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Put("patterns/:id")
+  @ApiOperation({ summary: "Update a weekly roster pattern" })
+  @ApiParam({ name: "id", type: Number })
+  @ApiBody({ schema: PATTERN_SCHEMA })
+  async updatePattern(@Param("id") id: string, @Body() body: RosterPattern) {
+    const patternId = this.parseId(id);
+
+    try {
+      const pattern = await this.rosterService.updatePattern(patternId, body);
+      return { success: true, pattern };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to update roster pattern",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Delete("patterns/:id")
+  @ApiOperation({ summary: "Delete a weekly roster pattern" })
+  @ApiParam({ name: "id", type: Number })
+  async deletePattern(@Param("id") id: string) {
+    const patternId = this.parseId(id);
+
+    try {
+      await this.rosterService.deletePattern(patternId);
+      return { success: true, message: "Roster pattern deleted" };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to delete roster pattern",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  private parseId(id: string): number {
+    const rosterId = parseInt(id, 10);
+    if (isNaN(rosterId)) {
+      throw new HttpException("Invalid roster ID", HttpStatus.BAD_REQUEST);
+    }
+    return rosterId;
+  }
+}
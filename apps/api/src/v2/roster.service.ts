@@ -0,0 +1,263 @@
+import { Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import {
+  Between,
+  FindOptionsWhere,
+  In,
+  IsNull,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from "typeorm";
+import { Employee, RosterEntry, RosterPattern, Shift } from "./entities";
+import { ShiftService } from "./shift.service";
+import {
+  resolveScheduledShift,
+  RosterEntry as RosterEntryConfig,
+  RosterPattern as RosterPatternConfig,
+  Shift as ShiftConfig,
+} from "@attendance/shared";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Shift for an employee (by biometric ID) on a date, or null for the
+ * organisation work hours
+ */
+export type ScheduleResolver = (
+  userId: number,
+  date: string
+) => ShiftConfig | null;
+
+/**
+ * Which shift each employee works: dated entries and weekly patterns
+ */
+@Injectable()
+export class RosterService {
+  constructor(
+    @InjectRepository(RosterEntry)
+    private readonly entryRepo: Repository<RosterEntry>,
+    @InjectRepository(RosterPattern)
+    private readonly patternRepo: Repository<RosterPattern>,
+    @InjectRepository(Shift)
+    private readonly shiftRepo: Repository<Shift>,
+    @InjectRepository(Employee)
+    private readonly employeeRepo: Repository<Employee>,
+    private readonly shiftService: ShiftService
+  ) {}
+
+  /**
+   * Roster entries and patterns, limited to those touching the date range
+   * when one is given
+   */
+  async getRoster(
+    from?: string,
+    to?: string
+  ): Promise<{ entries: RosterEntryConfig[]; patterns: RosterPatternConfig[] }> {
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      throw new Error("Dates must be in YYYY-MM-DD format");
+    }
+
+    const [entries, patterns] = await Promise.all([
+      this.entryRepo.find({
+        where: from && to ? { date: Between(from, to) } : {},
+        relations: { employee: true },
+        order: { date: "ASC" },
+      }),
+      this.patternRepo.find({
+        where: this.patternsOverlapping(from, to),
+        relations: { employee: true },
+        order: { start_date: "ASC" },
+      }),
+    ]);
+
+    return {
+      entries: entries.map((entry) => this.toEntryConfig(entry)),
+      patterns: patterns.map((pattern) => this.toPatternConfig(pattern)),
+    };
+  }
+
+  /**
+   * Put an employee on a shift for one date, replacing any earlier entry
+   */
+  async setEntry(config: RosterEntryConfig): Promise<RosterEntryConfig> {
+    if (!DATE_PATTERN.test(config.date ?? "")) {
+      throw new Error("Date must be in YYYY-MM-DD format");
+    }
+    const employee = await this.findEmployee(config.userId);
+    await this.assertShiftsExist([config.shiftId]);
+
+    const entry =
+      (await this.entryRepo.findOne({
+        where: { employee_id: employee.id, date: config.date },
+      })) ??
+      this.entryRepo.create({ employee_id: employee.id, date: config.date });
+    entry.shift_id = config.shiftId;
+    await this.entryRepo.save(entry);
+
+    return this.toEntryConfig({ ...entry, employee });
+  }
+
+  async deleteEntry(id: number): Promise<void> {
+    const result = await this.entryRepo.delete(id);
+    if (!result.affected) {
+      throw new Error(`Roster entry ${id} not found`);
+    }
+  }
+
+  async createPattern(
+    config: RosterPatternConfig
+  ): Promise<RosterPatternConfig> {
+    const employee = await this.validatePattern(config);
+
+    const pattern = this.patternRepo.create({
+      employee_id: employee.id,
+      start_date: config.startDate,
+      end_date: config.endDate || null,
+      shift_ids: config.shiftIds,
+    });
+    await this.patternRepo.save(pattern);
+
+    return this.toPatternConfig({ ...pattern, employee });
+  }
+
+  async updatePattern(
+    id: number,
+    config: RosterPatternConfig
+  ): Promise<RosterPatternConfig> {
+    const employee = await this.validatePattern(config);
+
+    const pattern = await this.patternRepo.findOne({ where: { id } });
+    if (!pattern) {
+      throw new Error(`Roster pattern ${id} not found`);
+    }
+    Object.assign(pattern, {
+      employee_id: employee.id,
+      start_date: config.startDate,
+      end_date: config.endDate || null,
+      shift_ids: config.shiftIds,
+    });
+    await this.patternRepo.save(pattern);
+
+    return this.toPatternConfig({ ...pattern, employee });
+  }
+
+  async deletePattern(id: number): Promise<void> {
+    const result = await this.patternRepo.delete(id);
+    if (!result.affected) {
+      throw new Error(`Roster pattern ${id} not found`);
+    }
+  }
+
+  /**
+   * Load the roster for a date range once and resolve each employee-day
+   * from memory
+   */
+  async getScheduleResolver(
+    startDate: string,
+    endDate: string
+  ): Promise<ScheduleResolver> {
+    const { entries, patterns } = await this.getRoster(startDate, endDate);
+    if (entries.length === 0 && patterns.length === 0) {
+      return () => null;
+    }
+
+    const shifts = new Map(
+      (await this.shiftService.getShifts()).map((shift) => [shift.id!, shift])
+    );
+    const entriesByUser = this.groupByUser(entries);
+    const patternsByUser = this.groupByUser(patterns);
+
+    return (userId, date) =>
+      resolveScheduledShift(
+        date,
+        entriesByUser.get(userId) ?? [],
+        patternsByUser.get(userId) ?? [],
+        shifts
+      );
+  }
+
+  private async validatePattern(
+    config: RosterPatternConfig
+  ): Promise<Employee> {
+    if (!DATE_PATTERN.test(config.startDate ?? "")) {
+      throw new Error("Start date must be in YYYY-MM-DD format");
+    }
+    if (config.endDate) {
+      if (!DATE_PATTERN.test(config.endDate)) {
+        throw new Error("End date must be in YYYY-MM-DD format");
+      }
+      if (config.endDate < config.startDate) {
+        throw new Error("End date is before the start date");
+      }
+    }
+    if (!Array.isArray(config.shiftIds) || config.shiftIds.length === 0) {
+      throw new Error("A roster pattern needs at least one shift");
+    }
+
+    const employee = await this.findEmployee(config.userId);
+    await this.assertShiftsExist(config.shiftIds);
+    return employee;
+  }
+
+  private async findEmployee(userId: number): Promise<Employee> {
+    const employee = await this.employeeRepo.findOne({
+      where: { biometric_id: userId },
+    });
+    if (!employee) {
+      throw new Error(`Employee with ID ${userId} not found`);
+    }
+    return employee;
+  }
+
+  private async assertShiftsExist(shiftIds: number[]): Promise<void> {
+    const unique = [...new Set(shiftIds)];
+    const found = await this.shiftRepo.count({ where: { id: In(unique) } });
+    if (found !== unique.length) {
+      throw new Error("Unknown shift in roster");
+    }
+  }
+
+  /**
+   * Patterns that cover at least one day of the range (all without a range)
+   */
+  private patternsOverlapping(
+    from?: string,
+    to?: string
+  ): FindOptionsWhere<RosterPattern>[] | undefined {
+    if (!from || !to) return undefined;
+    return [
+      { start_date: LessThanOrEqual(to), end_date: IsNull() },
+      { start_date: LessThanOrEqual(to), end_date: MoreThanOrEqual(from) },
+    ];
+  }
+
+  private groupByUser<T extends { userId: number }>(items: T[]): Map<number, T[]> {
+    const map = new Map<number, T[]>();
+    for (const item of items) {
+      const existing = map.get(item.userId) || [];
+      existing.push(item);
+      map.set(item.userId, existing);
+    }
+    return map;
+  }
+
+  private toEntryConfig(entry: RosterEntry): RosterEntryConfig {
+    return {
+      id: entry.id,
+      userId: entry.employee.biometric_id,
+      date: entry.date,
+      shiftId: entry.shift_id,
+    };
+  }
+
+  private toPatternConfig(pattern: RosterPattern): RosterPatternConfig {
+    return {
+      id: pattern.id,
+      userId: pattern.employee.biometric_id,
+      startDate: pattern.start_date,
+      endDate: pattern.end_date,
+      shiftIds: pattern.shift_ids,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiBody, ApiParam } from "@nestjs/swagger";
+import { ShiftService } from "./shift.service";
+import type { Shift } from "@attendance/shared";
+
+const SHIFT_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string", example: "Kitchen morning" },
+    startTime: { type: "string", example: "06:00" },
+    endTime: { type: "string", example: "14:30" },
+    lateThresholdMinutes: { type: "number", example: 10 },
+    earlyOutThresholdMinutes: { type: "number", example: 10 },
+    breakMinutes: { type: "number", example: 30 },
+  },
+};
+
+@ApiTags("V2 Shifts")
+@Controller("v2/shifts")
+export class ShiftController {
+  constructor(private readonly shiftService: ShiftService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List shifts" })
+  async getShifts() {
+    try {
+      const shifts = await this.shiftService.getShifts();
+      return { success: true, shifts };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get shifts",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post()
+  @ApiOperation({ summary: "Create a shift" })
+  @ApiBody({ schema: SHIFT_SCHEMA })
+  async createShift(@Body() body: Shift) {
+    try {
+      const shift = await this.shiftService.createShift(body);
+      return { success: true, shift };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to create shift",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Put(":id")
+  @ApiOperation({ summary: "Update a shift" })
+  @ApiParam({ name: "id", type: Number })
+  @ApiBody({ schema: SHIFT_SCHEMA })
+  async updateShift(@Param("id") id: string, @Body() body: Shift) {
+    const shiftId = this.parseId(id);
+
+    try {
+      const shift = await this.shiftService.updateShift(shiftId, body);
+      return { success: true, shift };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to update shift",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Delete(":id")
+  @ApiOperation({ summary: "Delete a shift that is not on the roster" })
+  @ApiParam({ name: "id", type: Number })
+  async deleteShift(@Param("id") id: string) {
+    const shiftId = this.parseId(id);
+
+    try {
+      await this.shiftService.deleteShift(shiftId);
+      return { success: true, message: "Shift deleted" };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to delete shift",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  private parseId(id: string): number {
+    const shiftId = parseInt(id, 10);
+    if (isNaN(shiftId)) {
+      throw new HttpException("Invalid shift ID", HttpStatus.BAD_REQUEST);
+    }
+    return shiftId;
+  }
+}
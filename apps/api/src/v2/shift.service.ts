@@ -0,0 +1,128 @@
+import { Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+import { RosterEntry, RosterPattern, Shift } from "./entities";
+import type { Shift as ShiftConfig } from "@attendance/shared";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Named shifts that employees are rostered on
+ */
+@Injectable()
+export class ShiftService {
+  constructor(
+    @InjectRepository(Shift)
+    private readonly shiftRepo: Repository<Shift>,
+    @InjectRepository(RosterEntry)
+    private readonly entryRepo: Repository<RosterEntry>,
+    @InjectRepository(RosterPattern)
+    private readonly patternRepo: Repository<RosterPattern>
+  ) {}
+
+  async getShifts(): Promise<ShiftConfig[]> {
+    const shifts = await this.shiftRepo.find({ order: { start_time: "ASC" } });
+    return shifts.map((shift) => this.toConfig(shift));
+  }
+
+  async createShift(config: ShiftConfig): Promise<ShiftConfig> {
+    this.validate(config);
+    await this.assertNameAvailable(config.name);
+
+    const shift = this.shiftRepo.create(this.toColumns(config));
+    return this.toConfig(await this.shiftRepo.save(shift));
+  }
+
+  async updateShift(id: number, config: ShiftConfig): Promise<ShiftConfig> {
+    this.validate(config);
+
+    const shift = await this.shiftRepo.findOne({ where: { id } });
+    if (!shift) {
+      throw new Error(`Shift ${id} not found`);
+    }
+    if (shift.name !== config.name.trim()) {
+      await this.assertNameAvailable(config.name);
+    }
+
+    Object.assign(shift, this.toColumns(config));
+    return this.toConfig(await this.shiftRepo.save(shift));
+  }
+
+  /**
+   * Delete a shift that no roster entry or pattern uses
+   */
+  async deleteShift(id: number): Promise<void> {
+    const entries = await this.entryRepo.count({ where: { shift_id: id } });
+    const patterns = await this.patternRepo
+      .createQueryBuilder("pattern")
+      .where(":id = ANY(pattern.shift_ids)", { id })
+      .getCount();
+    if (entries + patterns > 0) {
+      throw new Error(
+        `Shift ${id} is used by ${entries} roster entries and ${patterns} patterns; remove them first`
+      );
+    }
+
+    const result = await this.shiftRepo.delete(id);
+    if (!result.affected) {
+      throw new Error(`Shift ${id} not found`);
+    }
+  }
+
+  private validate(config: ShiftConfig): void {
+    if (!config.name?.trim()) {
+      throw new Error("Shift name is required");
+    }
+    for (const time of [config.startTime, config.endTime]) {
+      if (!TIME_PATTERN.test(time ?? "")) {
+        throw new Error(`Invalid shift time "${time}" (expected HH:MM)`);
+      }
+    }
+    if (config.startTime === config.endTime) {
+      throw new Error("Shift start and end times must differ");
+    }
+    for (const [label, minutes] of [
+      ["Late threshold", config.lateThresholdMinutes],
+      ["Early out threshold", config.earlyOutThresholdMinutes],
+      ["Break", config.breakMinutes],
+    ] as const) {
+      if (!Number.isInteger(minutes) || minutes < 0) {
+        throw new Error(`${label} must be a whole number of minutes`);
+      }
+    }
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const existing = await this.shiftRepo.findOne({
+      where: { name: name.trim() },
+    });
+    if (existing) {
+      throw new Error(`A shift named "${name.trim()}" already exists`);
+    }
+  }
+
+  private toColumns(
+    config: ShiftConfig
+  ): Omit<Shift, "id" | "created_at" | "updated_at"> {
+    return {
+      name: config.name.trim(),
+      start_time: config.startTime,
+      end_time: config.endTime,
+      late_threshold_minutes: config.lateThresholdMinutes,
+      early_out_threshold_minutes: config.earlyOutThresholdMinutes,
+      break_minutes: config.breakMinutes,
+    };
+  }
+
+  private toConfig(shift: Shift): ShiftConfig {
+    return {
+      id: shift.id,
+      name: shift.name,
+      startTime: shift.start_time,
+      endTime: shift.end_time,
+      lateThresholdMinutes: shift.late_threshold_minutes,
+      earlyOutThresholdMinutes: shift.early_out_threshold_minutes,
+      breakMinutes: shift.break_minutes,
+    };
+  }
+}
@@ -1,10 +1,12 @@
 import {
   Controller,
   Post,
+  Put,
   Body,
   Get,
   Delete,
   Query,
+  Param,
   UseInterceptors,
   UploadedFile,
   HttpException,
@@ -18,15 +20,27 @@ import {
   ApiConsumes,
   ApiBody,
   ApiQuery,
+  ApiParam,
 } from "@nestjs/swagger";
 import { V2AttendanceService } from "./v2-attendance.service";
+import { ImportProfileService } from "./import-profile.service";
+import { AttlogBinaryParser } from "../attendance/parsers/attlog-binary.parser";
+import type {
+  ImportProfile,
+  ManualEdit,
+  OverrideStatus,
+} from "@attendance/shared";
 
 @ApiTags("V2 Attendance")
 @Controller("v2/attendance")
 export class V2AttendanceController {
   private readonly logger = new Logger(V2AttendanceController.name);
 
-  constructor(private readonly v2Service: V2AttendanceService) {}
+  constructor(
+    private readonly v2Service: V2AttendanceService,
+    private readonly importProfileService: ImportProfileService,
+    private readonly attlogParser: AttlogBinaryParser
+  ) {}
 
   @Get("report")
   @ApiOperation({ summary: "Get attendance report from database" })
@@ -92,6 +106,84 @@ export class V2AttendanceController {
     }
   }
 
+  @Put("employees/:userId/weekly-off")
+  @ApiOperation({
+    summary:
+      "Set an employee's weekly off days (null follows the organisation's)",
+  })
+  @ApiParam({ name: "userId", type: Number })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        weeklyOffDays: {
+          type: "array",
+          nullable: true,
+          items: { type: "number", minimum: 0, maximum: 6 },
+          example: [0, 6],
+        },
+      },
+    },
+  })
+  async updateEmployeeWeeklyOff(
+    @Param("userId") userId: string,
+    @Body() body: { weeklyOffDays: number[] | null }
+  ) {
+    const biometricId = parseInt(userId, 10);
+    if (isNaN(biometricId)) {
+      throw new HttpException("Invalid employee ID", HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const employee = await this.v2Service.updateEmployeeWeeklyOff(
+        biometricId,
+        body.weeklyOffDays ?? null
+      );
+      return { success: true, employee };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to update weekly off days",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Put("employees/:userId/location")
+  @ApiOperation({
+    summary: "Set the location an employee works at, for location holidays",
+  })
+  @ApiParam({ name: "userId", type: Number })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        location: { type: "string", nullable: true, example: "Pune" },
+      },
+    },
+  })
+  async updateEmployeeLocation(
+    @Param("userId") userId: string,
+    @Body() body: { location: string | null }
+  ) {
+    const biometricId = parseInt(userId, 10);
+    if (isNaN(biometricId)) {
+      throw new HttpException("Invalid employee ID", HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const employee = await this.v2Service.updateEmployeeLocation(
+        biometricId,
+        body.location ?? null
+      );
+      return { success: true, employee };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to update employee location",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
   @Post("upload-users")
   @ApiOperation({ summary: "Upload user data file to database" })
   @ApiConsumes("multipart/form-data")
@@ -127,7 +219,10 @@ export class V2AttendanceController {
     }
 
     try {
-      const result = await this.v2Service.uploadUsers(file.buffer);
+      const result = await this.v2Service.uploadUsers(
+        file.buffer,
+        file.originalname
+      );
       return {
         success: true,
         message: `Users uploaded: ${result.created} created, ${result.updated} updated`,
@@ -141,8 +236,10 @@ export class V2AttendanceController {
     }
   }
 
-  @Post("upload-attendance")
-  @ApiOperation({ summary: "Upload attendance .dat file to database" })
+  @Post("preview-attendance")
+  @ApiOperation({
+    summary: "Dry-run an attendance .dat upload without writing anything",
+  })
   @ApiConsumes("multipart/form-data")
   @ApiBody({
     schema: {
@@ -152,37 +249,95 @@ export class V2AttendanceController {
       },
     },
   })
+  @ApiQuery({
+    name: "profileId",
+    required: false,
+    type: Number,
+    description: "Import profile mapping the columns of another vendor's export",
+  })
+  @ApiQuery({
+    name: "timeZone",
+    required: false,
+    description:
+      "IANA time zone of the device clock (defaults to the organisation's)",
+  })
   @UseInterceptors(FileInterceptor("file"))
-  async uploadAttendance(@UploadedFile() file: Express.Multer.File) {
-    if (!file) {
-      throw new HttpException("No file uploaded", HttpStatus.BAD_REQUEST);
-    }
-    // Validate attendance file type
-    const fileExt = "." + file.originalname.split(".").pop()?.toLowerCase();
-    const validExtensions = [".dat", ".txt", ".csv"];
-    if (!validExtensions.includes(fileExt)) {
-      throw new HttpException(
-        `Invalid attendance file type. Supported: ${validExtensions.join(
-          ", "
-        )}`,
-        HttpStatus.BAD_REQUEST
-      );
-    }
+  async previewAttendance(
+    @UploadedFile() file: Express.Multer.File,
+    @Query("profileId") profileId?: string,
+    @Query("timeZone") timeZone?: string
+  ) {
+    const profile = await this.loadProfile(profileId);
+    this.validateAttendanceFile(file, profile);
 
-    // Validate attendance file naming convention (Must start with 'C')
-    // The user's file is "CGKK231063174_attlog-2.dat", so we check for 'C' or 'c'
-    if (!file.originalname.toUpperCase().startsWith("C")) {
+    try {
+      const preview = await this.v2Service.previewAttendance(
+        file.buffer,
+        profile,
+        timeZone
+      );
+      return { success: true, ...preview };
+    } catch (error: any) {
+      this.logger.error(
+        `Attendance preview failed: ${error.message}`,
+        error.stack
+      );
       throw new HttpException(
-        'Attendance file name must start with "C" (e.g., C001.dat)',
-        HttpStatus.BAD_REQUEST
+        error.message || "Failed to preview attendance",
+        HttpStatus.INTERNAL_SERVER_ERROR
       );
     }
+  }
+
+  @Post("upload-attendance")
+  @ApiOperation({ summary: "Upload attendance .dat file to database" })
+  @ApiConsumes("multipart/form-data")
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        file: { type: "string", format: "binary" },
+      },
+    },
+  })
+  @ApiQuery({
+    name: "force",
+    required: false,
+    description: "Import even if this exact file was imported before",
+  })
+  @ApiQuery({
+    name: "profileId",
+    required: false,
+    type: Number,
+    description: "Import profile mapping the columns of another vendor's export",
+  })
+  @ApiQuery({
+    name: "timeZone",
+    required: false,
+    description:
+      "IANA time zone of the device clock (defaults to the organisation's)",
+  })
+  @UseInterceptors(FileInterceptor("file"))
+  async uploadAttendance(
+    @UploadedFile() file: Express.Multer.File,
+    @Query("force") force?: string,
+    @Query("profileId") profileId?: string,
+    @Query("timeZone") timeZone?: string
+  ) {
+    const profile = await this.loadProfile(profileId);
+    this.validateAttendanceFile(file, profile);
 
     try {
       this.logger.log(
         `Starting attendance upload for file: ${file.originalname}`
       );
-      const result = await this.v2Service.uploadAttendance(file.buffer);
+      const result = await this.v2Service.uploadAttendance(
+        file.buffer,
+        file.originalname,
+        force === "true",
+        profile,
+        timeZone
+      );
       this.logger.log(`Attendance upload completed: ${JSON.stringify(result)}`);
 
       return {
@@ -191,6 +346,10 @@ export class V2AttendanceController {
         ...result,
       };
     } catch (error: any) {
+      // Re-upload conflicts already carry their status and warnings
+      if (error instanceof HttpException) {
+        throw error;
+      }
       this.logger.error(
         `Attendance upload failed: ${error.message}`,
         error.stack
@@ -210,10 +369,14 @@ export class V2AttendanceController {
       properties: {
         userId: { type: "number" },
         date: { type: "string", example: "2026-01-01" },
+        actor: { type: "string", description: "Who makes the change" },
+        reason: { type: "string" },
       },
     },
   })
-  async markCompOff(@Body() body: { userId: number; date: string }) {
+  async markCompOff(
+    @Body() body: { userId: number; date: string } & ManualEdit
+  ) {
     try {
       if (!body.userId || !body.date) {
         throw new HttpException(
@@ -221,7 +384,10 @@ export class V2AttendanceController {
           HttpStatus.BAD_REQUEST
         );
       }
-      await this.v2Service.markCompOff(body.userId, body.date);
+      await this.v2Service.markCompOff(body.userId, body.date, {
+        actor: body.actor,
+        reason: body.reason,
+      });
       return { success: true, message: "Marked as COMP off" };
     } catch (error: any) {
       throw new HttpException(
@@ -230,6 +396,95 @@ export class V2AttendanceController {
       );
     }
   }
+
+  @Post("day-status")
+  @ApiOperation({
+    summary:
+      "Set a day's status by hand; it holds through recalculation until cleared",
+  })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        userId: { type: "number" },
+        date: { type: "string", example: "2026-01-01" },
+        status: {
+          type: "string",
+          enum: ["COMP", "ABSENT", "LEAVE", "HOLIDAY"],
+        },
+        actor: { type: "string", description: "Who makes the change" },
+        reason: { type: "string" },
+      },
+    },
+  })
+  async setDayStatus(
+    @Body()
+    body: {
+      userId: number;
+      date: string;
+      status: OverrideStatus;
+    } & ManualEdit
+  ) {
+    try {
+      if (!body.userId || !body.date || !body.status) {
+        throw new HttpException(
+          "userId, date and status are required",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+      await this.v2Service.setDayStatus(
+        body.userId,
+        body.date,
+        body.status,
+        { actor: body.actor, reason: body.reason }
+      );
+      return { success: true, message: `Status set to ${body.status}` };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to set day status",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Delete("day-status/:userId/:date")
+  @ApiOperation({
+    summary: "Clear a day's status override, going back to the computed status",
+  })
+  @ApiParam({ name: "userId", type: Number })
+  @ApiParam({ name: "date", type: String, example: "2026-01-01" })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        actor: { type: "string", description: "Who makes the change" },
+        reason: { type: "string" },
+      },
+    },
+  })
+  async clearDayStatus(
+    @Param("userId") userId: string,
+    @Param("date") date: string,
+    @Body() body: ManualEdit
+  ) {
+    const biometricId = parseInt(userId, 10);
+    if (isNaN(biometricId)) {
+      throw new HttpException("Invalid employee ID", HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      await this.v2Service.clearDayStatus(biometricId, date, {
+        actor: body?.actor,
+        reason: body?.reason,
+      });
+      return { success: true, message: "Status override cleared" };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to clear day status",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
   @Post("add-punch")
   @ApiOperation({ summary: "Add a manual punch for a user" })
   @ApiBody({
@@ -240,6 +495,8 @@ export class V2AttendanceController {
         date: { type: "string", example: "2026-01-01" },
         time: { type: "string", example: "09:30" },
         isManual: { type: "boolean", default: true },
+        actor: { type: "string", description: "Who makes the change" },
+        reason: { type: "string" },
       },
     },
   })
@@ -250,7 +507,7 @@ export class V2AttendanceController {
       date: string;
       time: string;
       isManual?: boolean;
-    }
+    } & ManualEdit
   ) {
     try {
       if (!body.userId || !body.date || !body.time) {
@@ -265,6 +522,7 @@ export class V2AttendanceController {
         body.userId,
         body.date,
         body.time,
+        { actor: body.actor, reason: body.reason },
         isManual
       );
       return { success: true, message: "Punch added successfully" };
@@ -276,17 +534,23 @@ export class V2AttendanceController {
     }
   }
   @Delete("delete-punch")
-  @ApiOperation({ summary: "Delete a specific punch" })
+  @ApiOperation({
+    summary: "Delete a specific punch (kept, so it can be restored)",
+  })
   @ApiBody({
     schema: {
       type: "object",
       properties: {
         userId: { type: "number" },
         punchTime: { type: "string", example: "2026-01-01T09:30:00.000Z" },
+        actor: { type: "string", description: "Who makes the change" },
+        reason: { type: "string" },
       },
     },
   })
-  async deletePunch(@Body() body: { userId: number; punchTime: string }) {
+  async deletePunch(
+    @Body() body: { userId: number; punchTime: string } & ManualEdit
+  ) {
     try {
       if (!body.userId || !body.punchTime) {
         throw new HttpException(
@@ -294,7 +558,10 @@ export class V2AttendanceController {
           HttpStatus.BAD_REQUEST
         );
       }
-      await this.v2Service.deletePunch(body.userId, body.punchTime);
+      await this.v2Service.deletePunch(body.userId, body.punchTime, {
+        actor: body.actor,
+        reason: body.reason,
+      });
       return { success: true, message: "Punch deleted successfully" };
     } catch (error: any) {
       throw new HttpException(
@@ -303,4 +570,140 @@ export class V2AttendanceController {
       );
     }
   }
+
+  @Post("restore-punch")
+  @ApiOperation({ summary: "Restore a deleted punch and recalculate its day" })
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        userId: { type: "number" },
+        punchTime: { type: "string", example: "2026-01-01T09:30:00" },
+        actor: { type: "string", description: "Who makes the change" },
+        reason: { type: "string" },
+      },
+    },
+  })
+  async restorePunch(
+    @Body() body: { userId: number; punchTime: string } & ManualEdit
+  ) {
+    try {
+      if (!body.userId || !body.punchTime) {
+        throw new HttpException(
+          "userId and punchTime are required",
+          HttpStatus.BAD_REQUEST
+        );
+      }
+      await this.v2Service.restorePunch(body.userId, body.punchTime, {
+        actor: body.actor,
+        reason: body.reason,
+      });
+      return { success: true, message: "Punch restored successfully" };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to restore punch",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  @Get("batches")
+  @ApiOperation({ summary: "List import batches, newest first" })
+  async getImportBatches() {
+    try {
+      const batches = await this.v2Service.getImportBatches();
+      return { success: true, batches };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to get import batches",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post("batches/:id/rollback")
+  @ApiOperation({
+    summary: "Roll back an attendance import batch and recalculate its days",
+  })
+  @ApiParam({ name: "id", type: Number })
+  async rollbackImportBatch(@Param("id") id: string) {
+    const batchId = parseInt(id, 10);
+    if (isNaN(batchId)) {
+      throw new HttpException("Invalid batch ID", HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const result = await this.v2Service.rollbackImportBatch(batchId);
+      return {
+        success: true,
+        message: `Batch rolled back: ${result.deleted} punches deleted`,
+        ...result,
+      };
+    } catch (error: any) {
+      throw new HttpException(
+        error.message || "Failed to roll back import batch",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
+
+  /**
+   * Load the import profile selected for an upload, if any
+   */
+  private async loadProfile(
+    profileId?: string
+  ): Promise<ImportProfile | undefined> {
+    if (!profileId) return undefined;
+
+    const id = parseInt(profileId, 10);
+    if (isNaN(id)) {
+      throw new HttpException("Invalid profile ID", HttpStatus.BAD_REQUEST);
+    }
+    try {
+      return await this.importProfileService.getProfile(id);
+    } catch (error: any) {
+      throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  /**
+   * Reject missing files, unsupported extensions and, for text device
+   * exports, names not starting with "C"
+   */
+  private validateAttendanceFile(
+    file: Express.Multer.File,
+    profile?: ImportProfile
+  ): void {
+    if (!file) {
+      throw new HttpException("No file uploaded", HttpStatus.BAD_REQUEST);
+    }
+    // Validate attendance file type
+    const fileExt = "." + file.originalname.split(".").pop()?.toLowerCase();
+    const validExtensions = profile
+      ? [".csv", ".txt", ".xlsx"]
+      : [".dat", ".txt", ".csv"];
+    if (!validExtensions.includes(fileExt)) {
+      throw new HttpException(
+        `Invalid attendance file type. Supported: ${validExtensions.join(
+          ", "
+        )}`,
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    // Validate attendance file naming convention (Must start with 'C')
+    // The user's file is "CGKK231063174_attlog-2.dat", so we check for 'C' or 'c'
+    // Profile imports come from other vendors and spreadsheets, and binary
+    // logs are recognised by their content, so it does not apply to either
+    if (
+      !profile &&
+      !this.attlogParser.isBinary(file.buffer) &&
+      !file.originalname.toUpperCase().startsWith("C")
+    ) {
+      throw new HttpException(
+        'Attendance file name must start with "C" (e.g., C001.dat)',
+        HttpStatus.BAD_REQUEST
+      );
+    }
+  }
 }
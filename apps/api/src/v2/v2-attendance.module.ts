@@ -1,13 +1,97 @@
 import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
-import { Employee, Punch, DailyAttendance } from "./entities";
+import {
+  Employee,
+  Punch,
+  DailyAttendance,
+  ImportBatch,
+  ImportProfile,
+  OrganisationSettings,
+  Shift,
+  RosterEntry,
+  RosterPattern,
+  Holiday,
+  LeaveType,
+  LeaveApplication,
+  LeaveOpeningBalance,
+  OvertimeApproval,
+  AuditLog,
+} from "./entities";
 import { V2AttendanceService } from "./v2-attendance.service";
 import { V2AttendanceController } from "./v2-attendance.controller";
+import { PunchIngestionService } from "./punch-ingestion.service";
+import { ImportProfileService } from "./import-profile.service";
+import { ImportProfileController } from "./import-profile.controller";
+import { OrganisationSettingsService } from "./organisation-settings.service";
+import { OrganisationSettingsController } from "./organisation-settings.controller";
+import { ShiftService } from "./shift.service";
+import { ShiftController } from "./shift.controller";
+import { RosterService } from "./roster.service";
+import { RosterController } from "./roster.controller";
+import { HolidayService } from "./holiday.service";
+import { HolidayController } from "./holiday.controller";
+import { LeaveService } from "./leave.service";
+import { LeaveController } from "./leave.controller";
+import { OvertimeService } from "./overtime.service";
+import { OvertimeController } from "./overtime.controller";
+import { CompOffService } from "./comp-off.service";
+import { CompOffController } from "./comp-off.controller";
+import { AuditLogService } from "./audit-log.service";
+import { AuditLogController } from "./audit-log.controller";
+import { DatFileParser } from "../attendance/parsers/dat-file.parser";
+import { AttlogBinaryParser } from "../attendance/parsers/attlog-binary.parser";
+import { ProfileFileParser } from "../attendance/parsers/profile-file.parser";
+import { UserDataParser } from "../attendance/parsers/user-data.parser";
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Employee, Punch, DailyAttendance])],
-  controllers: [V2AttendanceController],
-  providers: [V2AttendanceService],
-  exports: [V2AttendanceService],
+  imports: [
+    TypeOrmModule.forFeature([
+      Employee,
+      Punch,
+      DailyAttendance,
+      ImportBatch,
+      ImportProfile,
+      OrganisationSettings,
+      Shift,
+      RosterEntry,
+      RosterPattern,
+      Holiday,
+      LeaveType,
+      LeaveApplication,
+      LeaveOpeningBalance,
+      OvertimeApproval,
+      AuditLog,
+    ]),
+  ],
+  controllers: [
+    V2AttendanceController,
+    ImportProfileController,
+    OrganisationSettingsController,
+    ShiftController,
+    RosterController,
+    HolidayController,
+    LeaveController,
+    OvertimeController,
+    CompOffController,
+    AuditLogController,
+  ],
+  providers: [
+    V2AttendanceService,
+    DatFileParser,
+    AttlogBinaryParser,
+    ProfileFileParser,
+    UserDataParser,
+    PunchIngestionService,
+    ImportProfileService,
+    OrganisationSettingsService,
+    ShiftService,
+    RosterService,
+    HolidayService,
+    LeaveService,
+    OvertimeService,
+    CompOffService,
+    AuditLogService,
+  ],
+  exports: [V2AttendanceService, ImportProfileService],
 })
 export class V2AttendanceModule {}
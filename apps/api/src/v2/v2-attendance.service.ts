@@ -1,16 +1,76 @@
-import { Injectable, Logger } from "@nestjs/common";
+import { Injectable, Logger, ConflictException } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
-import { Repository, DataSource, EntityManager, Between } from "typeorm";
+import {
+  Repository,
+  DataSource,
+  EntityManager,
+  Between,
+  In,
+  IsNull,
+  LessThanOrEqual,
+  Not,
+  MoreThanOrEqual,
+} from "typeorm";
+import { createHash } from "crypto";
 import {
   Employee,
   Punch,
   DailyAttendance,
   AttendanceStatusEnum,
+  ImportBatch,
+  ImportBatchKindEnum,
+  AuditActionEnum,
 } from "./entities";
-import { Readable } from "stream";
-import * as readline from "readline";
-import { time } from "console";
-import { async } from "rxjs";
+import {
+  DatFileParser,
+  ParsedDatLine,
+} from "../attendance/parsers/dat-file.parser";
+import { UserDataParser } from "../attendance/parsers/user-data.parser";
+import { PunchIngestionService } from "./punch-ingestion.service";
+import { RosterService } from "./roster.service";
+import { HolidayService } from "./holiday.service";
+import { LeaveService } from "./leave.service";
+import { OrganisationSettingsService } from "./organisation-settings.service";
+import { OvertimeService } from "./overtime.service";
+import { CompOffService } from "./comp-off.service";
+import { AuditLogService } from "./audit-log.service";
+import {
+  AttendanceReport,
+  ImportDiagnostics,
+  ImportPreview,
+  ImportProfile as ImportProfileConfig,
+  ImportStatusChange,
+  ImportWarning,
+  addImportIssue,
+  AttendanceSettings,
+  DailyAttendance as DailyAttendanceRecord,
+  UserAttendanceSummary,
+  applyOvertimePolicy,
+  applyShift,
+  evaluateDayRules,
+  findHoliday,
+  findLeave,
+  summarizeAttendance,
+  formatDate,
+  formatTime,
+  getAttendanceDate,
+  getWeekEnd,
+  getWeekStart,
+  isValidTimeZone,
+  isValidWeeklyOffDays,
+  parseAttendanceDateTime,
+} from "@attendance/shared";
+import type { ManualEdit, OverrideStatus } from "@attendance/shared";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Statuses a day can be set to by hand
+const OVERRIDE_STATUSES: OverrideStatus[] = [
+  "COMP",
+  "ABSENT",
+  "LEAVE",
+  "HOLIDAY",
+];
 
 @Injectable()
 export class V2AttendanceService {
@@ -23,67 +83,73 @@ export class V2AttendanceService {
     private readonly punchRepo: Repository<Punch>,
     @InjectRepository(DailyAttendance)
     private readonly dailyAttendanceRepo: Repository<DailyAttendance>,
-    private readonly dataSource: DataSource
+    @InjectRepository(ImportBatch)
+    private readonly importBatchRepo: Repository<ImportBatch>,
+    private readonly dataSource: DataSource,
+    private readonly datParser: DatFileParser,
+    private readonly userDataParser: UserDataParser,
+    private readonly punchIngestion: PunchIngestionService,
+    private readonly rosterService: RosterService,
+    private readonly holidayService: HolidayService,
+    private readonly leaveService: LeaveService,
+    private readonly organisationSettings: OrganisationSettingsService,
+    private readonly overtimeService: OvertimeService,
+    private readonly compOffService: CompOffService,
+    private readonly auditLog: AuditLogService
   ) {}
 
-  // IST offset: 5 hours 30 minutes in milliseconds
-  private static readonly IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+  // Diagnostics message for punches rejected by the (employee_id, punch_time) constraint
+  private static readonly STORED_DUPLICATE_MESSAGE =
+    "Punch already exists in the database";
 
   /**
-   * Format time to HH:MM:SS in IST timezone (works correctly on any server timezone)
+   * Organisation time zone that punches are bucketed into days in
    */
-  private formatTimeIST(date: Date): string {
-    const istDate = new Date(
-      date.getTime() + V2AttendanceService.IST_OFFSET_MS
-    );
-    const h = istDate.getUTCHours().toString().padStart(2, "0");
-    const m = istDate.getUTCMinutes().toString().padStart(2, "0");
-    const s = istDate.getUTCSeconds().toString().padStart(2, "0");
-    return `${h}:${m}:${s}`;
+  private async getTimeZone(
+    manager: EntityManager = this.dataSource.manager
+  ): Promise<string> {
+    const { timeZone } = await this.punchIngestion.loadSettings(manager);
+    return timeZone!;
   }
 
   /**
-   * Get date string YYYY-MM-DD in IST timezone (works correctly on any server timezone)
+   * Zone a device file's clock is read in: the one given for the upload,
+   * otherwise the organisation's
    */
-  private getDateStringIST(date: Date): string {
-    const istDate = new Date(
-      date.getTime() + V2AttendanceService.IST_OFFSET_MS
-    );
-    const year = istDate.getUTCFullYear();
-    const month = String(istDate.getUTCMonth() + 1).padStart(2, "0");
-    const day = String(istDate.getUTCDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
+  private async resolveDeviceTimeZone(
+    deviceTimeZone?: string | null
+  ): Promise<string> {
+    if (!deviceTimeZone) return this.getTimeZone();
+    if (!isValidTimeZone(deviceTimeZone)) {
+      throw new Error(`Unknown time zone "${deviceTimeZone}"`);
+    }
+    return deviceTimeZone;
   }
 
   /**
    * Upload user data file and upsert employees
-   * Format: Fixed-size binary records (64/66/72 bytes) from ZKTeco devices
+   * Format: Fixed-size binary records (64/72 bytes) from ZKTeco devices
    */
   async uploadUsers(
-    buffer: Buffer
-  ): Promise<{ created: number; updated: number }> {
-    let created = 0;
-    let updated = 0;
-
-    // Auto-detect record size based on file length alignment
-    let recordSize = 64;
-    if (buffer.length % 72 === 0) {
-      this.logger.log(
-        `Detected 72-byte record alignment (${buffer.length} bytes)`
-      );
-      recordSize = 72;
-    } else if (buffer.length % 64 !== 0 && buffer.length % 66 === 0) {
-      this.logger.log(
-        `Detected 66-byte record alignment (${buffer.length} bytes)`
-      );
-      recordSize = 66;
-    }
-
-    const recordCount = Math.floor(buffer.length / recordSize);
+    buffer: Buffer,
+    fileName: string
+  ): Promise<{
+    created: number;
+    updated: number;
+    skipped: number;
+    batchId: number;
+  }> {
+    const recordCount = this.userDataParser.countRecords(buffer);
+    const records = this.userDataParser.decode(buffer);
     this.logger.log(
-      `Processing ${recordCount} user records (${recordSize}-byte each)`
+      `Processing ${records.length} user records (${recordCount} slots)`
     );
 
+    let created = 0;
+    let updated = 0;
+    // Empty slots are not decoded
+    let skipped = recordCount - records.length;
+
     // Optimization: Fetch all existing employees once to avoid N+1 queries
     const allEmployees = await this.employeeRepo.find();
     const employeeMap = new Map<number, Employee>();
@@ -92,243 +158,130 @@ export class V2AttendanceService {
     }
 
     // Process records
-    for (let i = 0; i < recordCount; i++) {
-      const offset = i * recordSize;
-      const record = buffer.slice(offset, offset + recordSize);
-
-      const parsed = this.parseUserRecord(record, i);
-      if (!parsed) continue;
+    for (const record of records) {
+      // Users enrolled without a name carry nothing to import
+      if (!record.name) {
+        skipped++;
+        continue;
+      }
 
-      const existing = employeeMap.get(parsed.userId);
+      const existing = employeeMap.get(record.userId);
 
       if (existing) {
-        if (existing.name !== parsed.userName) {
-          existing.name = parsed.userName;
+        if (existing.name !== record.name) {
+          existing.name = record.name;
           await this.employeeRepo.save(existing);
           updated++;
         }
       } else {
         const employee = this.employeeRepo.create({
-          biometric_id: parsed.userId,
-          name: parsed.userName,
+          biometric_id: record.userId,
+          name: record.name,
         });
         await this.employeeRepo.save(employee);
         // Add to map for subsequent records in same file
-        employeeMap.set(parsed.userId, employee);
+        employeeMap.set(record.userId, employee);
         created++;
       }
     }
 
-    this.logger.log(`Users uploaded: ${created} created, ${updated} updated`);
-    return { created, updated };
-  }
-
-  /**
-   * Parse a single binary user record (matching UserDataParser logic)
-   */
-  private parseUserRecord(
-    record: Buffer,
-    index: number
-  ): { userId: number; userName: string } | null {
-    try {
-      // Extract user name - scan for printable ASCII starting around byte 10
-      let userName = "";
-      let nameStartIndex = -1;
-
-      for (let i = 10; i < 50; i++) {
-        const byte = record[i];
-        if (byte >= 0x20 && byte <= 0x7e) {
-          nameStartIndex = i;
-          break;
-        }
-      }
-
-      if (nameStartIndex === -1) return null;
-
-      // Extract name until null or non-printable
-      for (let i = nameStartIndex; i < record.length; i++) {
-        const byte = record[i];
-        if (byte === 0x00) break;
-        if (byte < 0x20 || byte > 0x7e) break;
-        userName += String.fromCharCode(byte);
-      }
-
-      userName = userName.trim();
-      if (!userName) return null;
-
-      // Extract user ID - scan for digit sequences after name
-      let userId: number | null = null;
-      let currentNumber = "";
-
-      for (let i = nameStartIndex + userName.length; i < record.length; i++) {
-        const byte = record[i];
-        if (byte >= 0x30 && byte <= 0x39) {
-          currentNumber += String.fromCharCode(byte);
-        } else if (currentNumber.length > 0) {
-          const num = parseInt(currentNumber, 10);
-          if (!isNaN(num) && num > 0) {
-            userId = num;
-            break;
-          }
-          currentNumber = "";
-        }
-      }
-
-      // Fallback to index-based ID
-      if (userId === null) {
-        userId = index + 1;
-        this.logger.warn(
-          `User ID not found in record ${index}, using index: ${userId}`
-        );
-      }
+    const batch = await this.importBatchRepo.save(
+      this.importBatchRepo.create({
+        kind: ImportBatchKindEnum.USERS,
+        file_name: fileName,
+        file_hash: this.hashFile(buffer),
+        total_lines: recordCount,
+        inserted_count: created,
+        updated_count: updated,
+        skipped_count: skipped,
+      })
+    );
 
-      return { userId, userName };
-    } catch {
-      return null;
-    }
+    this.logger.log(
+      `Users uploaded (batch ${batch.id}): ${created} created, ${updated} updated`
+    );
+    return { created, updated, skipped, batchId: batch.id };
   }
 
   /**
    * Upload attendance .dat file and insert punches
    * Format: USER_ID \t TIMESTAMP \t VERIFY_TYPE \t IN_OUT \t WORK_CODE \t RESERVED
+   * Every line that is not inserted is reported in the returned diagnostics
+   * A file identical to an earlier batch is refused unless force is set
+   * With an import profile, the file is read as a mapped CSV/XLSX export
+   * Timestamps are read in the device's time zone (the organisation's by default)
    */
   async uploadAttendance(
-    buffer: Buffer
-  ): Promise<{ inserted: number; skipped: number }> {
+    buffer: Buffer,
+    fileName: string,
+    force = false,
+    profile?: ImportProfileConfig,
+    deviceTimeZone?: string
+  ): Promise<{
+    inserted: number;
+    skipped: number;
+    batchId: number;
+    warnings: ImportWarning[];
+    diagnostics: ImportDiagnostics;
+  }> {
     try {
-      return this.dataSource.transaction(async (manager) => {
-        let inserted = 0;
-        let skipped = 0;
-
-        const employeeRepo = manager.getRepository(Employee);
-        const punchRepo = manager.getRepository(Punch);
-
-        // Optimization: Fetch all employees once
-        const allEmployees = await employeeRepo.find();
-        const employeeMap = new Map<number, Employee>();
-        for (const emp of allEmployees) {
-          employeeMap.set(emp.biometric_id, emp);
-        }
-
-        // Track affected dates per employee for targeted recalculation
-        // Map<EmployeeID, Set<DateString>>
-        const affectedUserDates = new Map<number, Set<string>>();
-
-        const stream = Readable.from(buffer);
-        const rl = readline.createInterface({
-          input: stream,
-          crlfDelay: Infinity,
-        });
-
-        console.log("step 1 completed", rl);
-
-        for await (const line of rl) {
-          const trimmed = line.trim();
-          if (!trimmed) continue;
-
-          const parsed = this.parseAttendanceLine(trimmed);
-          if (!parsed) {
-            skipped++;
-            continue;
-          }
-
-          // Find or create employee using Map
-          let employee = employeeMap.get(parsed.biometric_id);
+      const timeZone = await this.resolveDeviceTimeZone(deviceTimeZone);
+      const { entries, diagnostics } = await this.datParser.parseDetailed(
+        buffer,
+        profile,
+        timeZone
+      );
 
-          if (!employee) {
-            const newEmployee = employeeRepo.create({
-              biometric_id: parsed.biometric_id,
-              name: null,
-            });
-            employee = await employeeRepo.save(newEmployee);
-            employeeMap.set(parsed.biometric_id, employee);
-          }
+      return await this.dataSource.transaction(async (manager) => {
+        const fileHash = this.hashFile(buffer);
+        const range = this.getPunchRange(entries);
 
-          // Track this date for this user
-          if (!affectedUserDates.has(employee.id)) {
-            affectedUserDates.set(employee.id, new Set());
-          }
-          const dateStr = this.getDateStringIST(parsed.punch_time);
-          affectedUserDates.get(employee.id)!.add(dateStr);
-
-          // Try insert - skip if duplicate (unique constraint)
-          // Use createQueryBuilder to safely handle duplicates without aborting transaction
-          const result = await punchRepo
-            .createQueryBuilder()
-            .insert()
-            .into(Punch)
-            .values({
-              employee_id: employee.id,
-              punch_time: parsed.punch_time,
-              verification_type: parsed.verification_type,
-              punch_type: null,
-              is_paired: false,
-              is_edited: false,
-            })
-            .orIgnore() // ON CONFLICT DO NOTHING
-            .execute();
-
-          // Check if row was actually inserted
-          // Postgres returns identifiers for inserted rows
-          if (result.identifiers && result.identifiers.length > 0) {
-            inserted++;
-          } else {
-            skipped++;
-          }
+        // Check for re-uploads before running the per-row insert loop
+        const warnings = await this.findReuploadWarnings(
+          manager,
+          fileHash,
+          entries,
+          await this.getTimeZone(manager)
+        );
+        const sameFile = warnings.find((w) => w.kind === "SAME_FILE");
+        if (sameFile && !force) {
+          throw new ConflictException({
+            message: sameFile.message,
+            warnings,
+          });
         }
-        // After inserting, compute punch_type and is_paired only for the affected records
-        if (affectedUserDates.size > 0) {
-          try {
-            // EXPANSION: Recalculate for the ENTIRE month for affected users
-            // This ensures days with no punches are correctly marked as ABSENT
-            for (const [userId, dates] of affectedUserDates.entries()) {
-              const months = new Set<string>(); // "YYYY-MM"
-              for (const dateStr of dates) {
-                months.add(dateStr.substring(0, 7));
-              }
-
-              for (const monthStr of months) {
-                const [year, month] = monthStr.split("-").map(Number);
-                const daysInMonth = new Date(year, month, 0).getDate(); // month is 1-indexed here? No, Date constructor: year, monthIndex (0-11), 0 (last day of prev month).
-                // Wait, split "2024-01" -> year=2024, month=1.
-                // new Date(2024, 1, 0) -> Last day of Jan (because month 1 is Feb). Correct.
-
-                for (let d = 1; d <= daysInMonth; d++) {
-                  const dayStr = `${year}-${String(month).padStart(
-                    2,
-                    "0"
-                  )}-${String(d).padStart(2, "0")}`;
-                  dates.add(dayStr);
-                }
-              }
-            }
 
-            await this.computePunchTypes(affectedUserDates, manager);
-            await this.computeDailyAttendance(affectedUserDates, manager);
-          } catch (error: any) {
-            this.logger.error(
-              `Error during recalculation phase: ${error.message}`,
-              error.stack
-            );
-            // Re-throw to ensure transaction rollback if recalculation fails critically
-            throw error;
-          }
+        const batchRepo = manager.getRepository(ImportBatch);
+        const batch = await batchRepo.save(
+          batchRepo.create({
+            kind: ImportBatchKindEnum.ATTENDANCE,
+            file_name: fileName,
+            file_hash: fileHash,
+            first_punch_at: range?.first ?? null,
+            last_punch_at: range?.last ?? null,
+            time_zone: timeZone,
+            total_lines: diagnostics.totalLines,
+          })
+        );
 
-          // Calculate total impacted days for logging
-          let totalDays = 0;
-          for (const dates of affectedUserDates.values()) {
-            totalDays += dates.size;
-          }
+        const { inserted } = await this.importEntries(
+          manager,
+          entries,
+          diagnostics,
+          batch.id
+        );
 
-          this.logger.log(
-            `Recalculated attendance for ${affectedUserDates.size} users across ${totalDays} total user-days (Full Month).`
-          );
-        }
+        const skipped = diagnostics.issues.length;
+        batch.inserted_count = inserted;
+        batch.skipped_count = skipped;
+        await batchRepo.save(batch);
 
         this.logger.log(
-          `Attendance uploaded: ${inserted} inserted, ${skipped} skipped (duplicates)`
+          `Attendance uploaded (batch ${batch.id}): ${inserted} inserted, ${skipped} skipped (${JSON.stringify(
+            diagnostics.counts
+          )})`
         );
-        return { inserted, skipped };
+        return { inserted, skipped, batchId: batch.id, warnings, diagnostics };
       });
     } catch (error: any) {
       this.logger.error(`Failed to upload attendance: ${error.message}`);
@@ -337,305 +290,399 @@ export class V2AttendanceService {
   }
 
   /**
-   * Parse a single line from .dat file
+   * Dry-run an attendance upload: run the full import inside a transaction
+   * that is always rolled back, and report what it would have changed
    */
-  private parseAttendanceLine(line: string): {
-    biometric_id: number;
-    punch_time: Date;
-    verification_type: string;
-  } | null {
-    try {
-      const parts = line.split(/\t+|\s{2,}/).filter(Boolean);
-      if (parts.length < 2) return null;
+  async previewAttendance(
+    buffer: Buffer,
+    profile?: ImportProfileConfig,
+    deviceTimeZone?: string
+  ): Promise<ImportPreview> {
+    const { entries, diagnostics } = await this.datParser.parseDetailed(
+      buffer,
+      profile,
+      await this.resolveDeviceTimeZone(deviceTimeZone)
+    );
 
-      const biometric_id = parseInt(parts[0], 10);
-      if (isNaN(biometric_id)) return null;
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
 
-      // Parse timestamp
-      let timestampStr: string;
-      let nextIndex: number;
+    try {
+      const manager = queryRunner.manager;
+      const dailyRepo = manager.getRepository(DailyAttendance);
+      const { timeZone, dayStartTime } =
+        await this.punchIngestion.loadSettings(manager);
+
+      const warnings = await this.findReuploadWarnings(
+        manager,
+        this.hashFile(buffer),
+        entries,
+        timeZone!
+      );
 
-      if (parts[1].includes(":")) {
-        timestampStr = parts[1];
-        nextIndex = 2;
-      } else {
-        timestampStr = `${parts[1]} ${parts[2]}`;
-        nextIndex = 3;
+      const existingEmployees = await manager.getRepository(Employee).find();
+      const knownBiometricIds = new Set(
+        existingEmployees.map((emp) => emp.biometric_id)
+      );
+      const unknownBiometricIds = new Set<number>();
+      for (const { record } of entries) {
+        if (!knownBiometricIds.has(record.userId)) {
+          unknownBiometricIds.add(record.userId);
+        }
       }
 
-      // Parse as IST
-      const punch_time = new Date(timestampStr + "+05:30");
-      if (isNaN(punch_time.getTime())) return null;
+      // Snapshot stored statuses over the whole span the import can touch
+      const { start, end } = this.getMonthSpan(
+        entries.map(({ record }) =>
+          getAttendanceDate(record.timestamp, timeZone, dayStartTime)
+        )
+      );
+      const statusBefore = new Map<string, AttendanceStatusEnum>();
+      if (entries.length > 0) {
+        const rows = await dailyRepo.find({
+          where: { date: Between(start, end) },
+        });
+        for (const row of rows) {
+          statusBefore.set(`${row.employee_id}|${row.date}`, row.status);
+        }
+      }
+
+      const { inserted, affectedUserDates } = await this.importEntries(
+        manager,
+        entries,
+        diagnostics,
+        null
+      );
+
+      const employees = await manager.getRepository(Employee).find();
+      const employeeById = new Map(employees.map((emp) => [emp.id, emp]));
 
-      // Map verification type: 1 = Fingerprint, 2 = Card
-      const verifyCode = parseInt(parts[nextIndex] || "1", 10) || 1;
-      const verification_type = verifyCode === 2 ? "Card" : "Fingerprint";
+      const statusChanges: ImportStatusChange[] = [];
+      let newAbsentDays = 0;
+      for (const [employeeId, dates] of affectedUserDates.entries()) {
+        const rows = await dailyRepo.find({
+          where: { employee_id: employeeId, date: Between(start, end) },
+        });
+        for (const row of rows) {
+          if (!dates.has(row.date)) continue;
+
+          const before = statusBefore.get(`${row.employee_id}|${row.date}`);
+          if (before === row.status) continue;
+          if (
+            !before &&
+            (row.status === AttendanceStatusEnum.ABSENT ||
+              row.status === AttendanceStatusEnum.WEEKLY_OFF ||
+              row.status === AttendanceStatusEnum.HOLIDAY ||
+              row.status === AttendanceStatusEnum.LEAVE)
+          ) {
+            if (row.status === AttendanceStatusEnum.ABSENT) newAbsentDays++;
+            continue;
+          }
+
+          const employee = employeeById.get(employeeId);
+          statusChanges.push({
+            userId: employee?.biometric_id ?? employeeId,
+            userName: employee?.name ?? null,
+            date: row.date,
+            before: before ?? null,
+            after: row.status,
+          });
+        }
+      }
 
-      return { biometric_id, punch_time, verification_type };
-    } catch (error) {
-      this.logger.error(`Failed to parse attendance line: ${error.message}`);
+      statusChanges.sort(
+        (a, b) => a.date.localeCompare(b.date) || a.userId - b.userId
+      );
+
+      return {
+        newPunches: inserted,
+        duplicatePunches: diagnostics.issues.filter(
+          (issue) =>
+            issue.reason === "DUPLICATE" &&
+            issue.message === V2AttendanceService.STORED_DUPLICATE_MESSAGE
+        ).length,
+        unknownBiometricIds: [...unknownBiometricIds].sort((a, b) => a - b),
+        statusChanges,
+        newAbsentDays,
+        warnings,
+        diagnostics,
+      };
+    } catch (error: any) {
+      this.logger.error(`Failed to preview attendance: ${error.message}`);
       throw error;
+    } finally {
+      await queryRunner.rollbackTransaction();
+      await queryRunner.release();
     }
   }
 
   /**
-   * Compute punch_type (IN/OUT) and is_paired for all punches
-   * Logic: Sort by time, odd positions = IN, even = OUT
+   * Insert parsed punches (creating unknown employees) and recalculate every
+   * affected month. Rejected punches are added to the diagnostics.
    */
-  private async computePunchTypes(
-    affectedUserDates?: Map<number, Set<string>>,
-    manager?: EntityManager
-  ): Promise<void> {
-    try {
-      const punchRepo = manager ? manager.getRepository(Punch) : this.punchRepo;
-      const employeeRepo = manager
-        ? manager.getRepository(Employee)
-        : this.employeeRepo;
-
-      // If no map provided, process all employees (fallback/legacy)
-      if (!affectedUserDates) {
-        const allEmployees = await employeeRepo.find();
-        affectedUserDates = new Map();
-        for (const emp of allEmployees) {
-          affectedUserDates.set(emp.id, new Set());
-        }
+  private async importEntries(
+    manager: EntityManager,
+    entries: ParsedDatLine[],
+    diagnostics: ImportDiagnostics,
+    batchId: number | null
+  ): Promise<{
+    inserted: number;
+    affectedUserDates: Map<number, Set<string>>;
+  }> {
+    // Bulk insert through a staging table; duplicates of stored punches
+    // (unique employee_id + punch_time) are skipped by ON CONFLICT
+    const { inserted, duplicateLines, affectedUserDates } =
+      await this.punchIngestion.insertPunches(
+        manager,
+        entries.map(({ line, record }) => ({
+          line,
+          biometricId: record.userId,
+          punchTime: record.timestamp,
+          verificationType: this.getVerificationType(record.verificationType),
+          state: record.inOutStatus,
+        })),
+        batchId
+      );
 
-        const employees = await employeeRepo.find();
-        for (const employee of employees) {
-          const punches = await punchRepo.find({
-            where: { employee_id: employee.id },
-            order: { punch_time: "ASC" },
-          });
-          // Process all dates found
-          const byDate = new Map<string, Punch[]>();
-          for (const punch of punches) {
-            const date = this.getDateStringIST(punch.punch_time);
-            if (!byDate.has(date)) byDate.set(date, []);
-            byDate.get(date)!.push(punch);
-          }
-          for (const [, dayPunches] of byDate) {
-            this.assignPunchTypes(dayPunches);
-            await punchRepo.save(dayPunches);
-          }
-        }
-        return;
+    for (const { line, raw } of entries) {
+      if (duplicateLines.has(line)) {
+        addImportIssue(diagnostics, {
+          line,
+          raw,
+          reason: "DUPLICATE",
+          message: V2AttendanceService.STORED_DUPLICATE_MESSAGE,
+        });
       }
+    }
+
+    // After inserting, compute punch_type and is_paired only for the affected records
+    if (affectedUserDates.size > 0) {
+      try {
+        // EXPANSION: Recalculate for the ENTIRE month for affected users
+        // This ensures days with no punches are correctly marked as ABSENT
+        // (or WEEKLY_OFF)
+        for (const dates of affectedUserDates.values()) {
+          const months = new Set<string>(); // "YYYY-MM"
+          for (const dateStr of dates) {
+            months.add(dateStr.substring(0, 7));
+          }
 
-      // Optimized path: Process only affected users and dates
-      const employeeIds = Array.from(affectedUserDates.keys());
-      if (employeeIds.length === 0) return;
-
-      for (const employeeId of employeeIds) {
-        const dates = affectedUserDates.get(employeeId);
-        if (!dates || dates.size === 0) continue;
-
-        for (const dateStr of dates) {
-          try {
-            const startOfDay = new Date(`${dateStr}T00:00:00+05:30`);
-            const endOfDay = new Date(`${dateStr}T23:59:59.999+05:30`);
-
-            const dayPunches = await punchRepo.find({
-              where: {
-                employee_id: employeeId,
-                punch_time: Between(startOfDay, endOfDay),
-              },
-              order: { punch_time: "ASC" },
-            });
-
-            if (dayPunches.length > 0) {
-              this.assignPunchTypes(dayPunches);
-              await punchRepo.save(dayPunches);
+          for (const monthStr of months) {
+            for (const dayStr of this.getMonthDates(monthStr)) {
+              dates.add(dayStr);
             }
-          } catch (error: any) {
-            this.logger.error(
-              `Failed to compute punch types for user ${employeeId} on ${dateStr}: ${error.message}`
-            );
           }
         }
+
+        await this.recalculateDays(affectedUserDates, manager);
+      } catch (error: any) {
+        this.logger.error(
+          `Error during recalculation phase: ${error.message}`,
+          error.stack
+        );
+        // Re-throw to ensure transaction rollback if recalculation fails critically
+        throw error;
       }
-    } catch (error: any) {
-      this.logger.error(`Failed to compute daily attendance: ${error.message}`);
-      throw error;
+
+      // Calculate total impacted days for logging
+      let totalDays = 0;
+      for (const dates of affectedUserDates.values()) {
+        totalDays += dates.size;
+      }
+
+      this.logger.log(
+        `Recalculated attendance for ${affectedUserDates.size} users across ${totalDays} total user-days (Full Month).`
+      );
     }
+
+    return { inserted, affectedUserDates };
   }
 
   /**
-   * Helper: Sort punches by time and assign IN/OUT types
-   * Logic: Odd positions = IN, Even positions = OUT
+   * Every YYYY-MM-DD date of a "YYYY-MM" month
    */
-  private assignPunchTypes(punches: Punch[]): void {
-    // Explicitly sort by time to ensure correctness regardless of DB order
-    punches.sort((a, b) => a.punch_time.getTime() - b.punch_time.getTime());
-
-    const isEven = punches.length % 2 === 0;
-    for (let i = 0; i < punches.length; i++) {
-      const p = punches[i];
-      p.punch_type = i % 2 === 0 ? "IN" : "OUT";
-      p.is_paired = isEven || i < punches.length - 1;
+  private getMonthDates(monthStr: string): string[] {
+    const [year, month] = monthStr.split("-").map(Number);
+    // month is 1-based here, so day 0 of the next month index is the last day of this month
+    const daysInMonth = new Date(year, month, 0).getDate();
+
+    const dates: string[] = [];
+    for (let d = 1; d <= daysInMonth; d++) {
+      dates.push(`${monthStr}-${String(d).padStart(2, "0")}`);
     }
+    return dates;
   }
 
   /**
-   * Compute and upsert daily attendance records for all employees
-   * Creates entries for the complete month(s) detected from punch data
+   * First and last day of the months covering the given dates
    */
-  private async computeDailyAttendance(
-    affectedUserDates?: Map<number, Set<string>>,
-    manager?: EntityManager
-  ): Promise<void> {
-    try {
-      const employeeRepo = manager
-        ? manager.getRepository(Employee)
-        : this.employeeRepo;
-      const punchRepo = manager ? manager.getRepository(Punch) : this.punchRepo;
-
-      // Helper: convert time string to minutes
-      const timeToMinutes = (time: string): number => {
-        const [h, m] = time.split(":").map(Number);
-        return h * 60 + m;
-      };
-
-      // Helper: get day code (MON, TUE, WED, THU, FRI, SAT, SUN)
-      const getDayCode = (dateStr: string): string => {
-        const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-        const date = new Date(dateStr + "T00:00:00");
-        return days[date.getDay()];
-      };
-
-      // Legacy/Fallback path: Process all
-      if (!affectedUserDates) {
-        const employees = await employeeRepo.find();
-        for (const employee of employees) {
-          const punches = await punchRepo.find({
-            where: { employee_id: employee.id },
-            order: { punch_time: "ASC" },
-          });
-          const dates = new Set<string>(
-            punches.map((p) => this.getDateStringIST(p.punch_time))
-          );
+  private getMonthSpan(dates: string[]): { start: string; end: string } {
+    if (dates.length === 0) return { start: "", end: "" };
 
-          for (const dateStr of dates) {
-            await this.computeDailyAttendanceForDay(
-              employee.id,
-              dateStr,
-              timeToMinutes,
-              getDayCode,
-              manager
-            );
-          }
-        }
-        return;
-      }
+    const sorted = [...dates].sort();
+    const lastMonth = this.getMonthDates(
+      sorted[sorted.length - 1].substring(0, 7)
+    );
+    return {
+      start: `${sorted[0].substring(0, 7)}-01`,
+      end: lastMonth[lastMonth.length - 1],
+    };
+  }
 
-      // Optimized path
-      const employeeIds = Array.from(affectedUserDates.keys());
-      for (const employeeId of employeeIds) {
-        const dates = affectedUserDates.get(employeeId);
-        if (!dates) continue;
-
-        for (const dateStr of dates) {
-          try {
-            await this.computeDailyAttendanceForDay(
-              employeeId,
-              dateStr,
-              timeToMinutes,
-              getDayCode,
-              manager
-            );
-          } catch (error: any) {
-            this.logger.error(
-              `Failed to compute daily attendance for user ${employeeId} on ${dateStr}: ${error.message}`
-            );
-          }
-        }
-      }
-      this.logger.log("Daily attendance records computed for affected users.");
-    } catch (error: any) {
-      this.logger.error("Failed to compute daily attendance", error.message);
-      throw error;
+  /**
+   * Compare an attendance file against earlier, not rolled back batches:
+   * identical content (by hash) and punches already imported by a batch
+   * whose time range overlaps the file
+   */
+  private async findReuploadWarnings(
+    manager: EntityManager,
+    fileHash: string,
+    entries: ParsedDatLine[],
+    timeZone: string
+  ): Promise<ImportWarning[]> {
+    const warnings: ImportWarning[] = [];
+    const batchRepo = manager.getRepository(ImportBatch);
+
+    const sameFileBatch = await batchRepo.findOne({
+      where: {
+        kind: ImportBatchKindEnum.ATTENDANCE,
+        file_hash: fileHash,
+        rolled_back_at: IsNull(),
+      },
+      order: { id: "DESC" },
+    });
+    if (sameFileBatch) {
+      warnings.push({
+        kind: "SAME_FILE",
+        batchId: sameFileBatch.id,
+        fileName: sameFileBatch.file_name,
+        uploadedAt: sameFileBatch.uploaded_at.toISOString(),
+        overlappingPunches: sameFileBatch.inserted_count,
+        message: `This exact file was imported on ${this.formatBatchTime(
+          sameFileBatch.uploaded_at,
+          timeZone
+        )} (batch #${sameFileBatch.id}, ${sameFileBatch.file_name})`,
+      });
     }
-  }
 
-  // Refactored helper to process a single day
-  private async computeDailyAttendanceForDay(
-    employeeId: number,
-    dateStr: string,
-    timeToMinutes: (t: string) => number,
-    getDayCode: (d: string) => string,
-    manager?: EntityManager
-  ) {
-    const punchRepo = manager ? manager.getRepository(Punch) : this.punchRepo;
-    const dailyAttendanceRepo = manager
-      ? manager.getRepository(DailyAttendance)
-      : this.dailyAttendanceRepo;
-
-    const startOfDay = new Date(`${dateStr}T00:00:00+05:30`);
-    const endOfDay = new Date(`${dateStr}T23:59:59.999+05:30`);
-
-    const dayPunches = await punchRepo.find({
+    const range = this.getPunchRange(entries);
+    if (!range) return warnings;
+
+    const overlappingBatches = await batchRepo.find({
       where: {
-        employee_id: employeeId,
-        punch_time: Between(startOfDay, endOfDay),
+        kind: ImportBatchKindEnum.ATTENDANCE,
+        rolled_back_at: IsNull(),
+        first_punch_at: LessThanOrEqual(range.last),
+        last_punch_at: MoreThanOrEqual(range.first),
       },
-      order: { punch_time: "ASC" },
     });
+    const candidates = overlappingBatches.filter(
+      (batch) => batch.id !== sameFileBatch?.id
+    );
+    if (candidates.length === 0) return warnings;
 
-    const punchCount = dayPunches.length;
+    const storedPunches = await manager.find(Punch, {
+      where: {
+        batch_id: In(candidates.map((batch) => batch.id)),
+        punch_time: Between(range.first, range.last),
+      },
+      relations: { employee: true },
+    });
 
-    // Calculate status
-    let status: AttendanceStatusEnum;
-    if (punchCount === 0) {
-      status = AttendanceStatusEnum.ABSENT;
-    } else if (punchCount % 2 === 0) {
-      status = AttendanceStatusEnum.PRESENT;
-    } else {
-      status = AttendanceStatusEnum.INCOMPLETE;
+    // Count file punches that each batch already inserted
+    const fileKeys = new Set(
+      entries.map(
+        ({ record }) => `${record.userId}|${record.timestamp.getTime()}`
+      )
+    );
+    const overlapByBatch = new Map<number, number>();
+    for (const punch of storedPunches) {
+      const key = `${punch.employee.biometric_id}|${punch.punch_time.getTime()}`;
+      if (!fileKeys.has(key)) continue;
+      overlapByBatch.set(
+        punch.batch_id!,
+        (overlapByBatch.get(punch.batch_id!) || 0) + 1
+      );
     }
 
-    // Calculate first in / last out using IST-aware formatting
-    const firstIn =
-      punchCount > 0 ? this.formatTimeIST(dayPunches[0].punch_time) : null;
-    const lastOut =
-      punchCount > 1
-        ? this.formatTimeIST(dayPunches[punchCount - 1].punch_time)
-        : null;
-
-    // Calculate total minutes using pair logic
-    let totalMinutes = 0;
-    for (let i = 0; i < dayPunches.length - 1; i += 2) {
-      const inTime = this.formatTimeIST(dayPunches[i].punch_time);
-      const outTime = this.formatTimeIST(dayPunches[i + 1].punch_time);
-      const inMin = timeToMinutes(inTime);
-      const outMin = timeToMinutes(outTime);
-      totalMinutes += Math.max(0, outMin - inMin);
+    for (const batch of candidates) {
+      const overlappingPunches = overlapByBatch.get(batch.id) || 0;
+      if (overlappingPunches === 0) continue;
+
+      warnings.push({
+        kind: "OVERLAP",
+        batchId: batch.id,
+        fileName: batch.file_name,
+        uploadedAt: batch.uploaded_at.toISOString(),
+        overlappingPunches,
+        message: `This file overlaps batch #${batch.id} (${
+          batch.file_name
+        }, imported ${this.formatBatchTime(
+          batch.uploaded_at,
+          timeZone
+        )}) by ${overlappingPunches} punches`,
+      });
     }
 
-    // Upsert daily attendance record
-    const existing = await dailyAttendanceRepo.findOne({
-      where: { employee_id: employeeId, date: dateStr },
-    });
+    return warnings;
+  }
 
-    if (existing) {
-      existing.status = status;
-      existing.first_in = firstIn;
-      existing.last_out = lastOut;
-      existing.total_minutes = totalMinutes;
-      existing.punch_count = punchCount;
-      existing.day_code = getDayCode(dateStr);
-      await dailyAttendanceRepo.save(existing);
-    } else {
-      const record = dailyAttendanceRepo.create({
-        employee_id: employeeId,
-        date: dateStr,
-        day_code: getDayCode(dateStr),
-        status,
-        first_in: firstIn,
-        last_out: lastOut,
-        total_minutes: totalMinutes,
-        punch_count: punchCount,
-      });
-      await dailyAttendanceRepo.save(record);
+  /**
+   * Earliest and latest punch time of a parsed file
+   */
+  private getPunchRange(
+    entries: ParsedDatLine[]
+  ): { first: Date; last: Date } | null {
+    if (entries.length === 0) return null;
+
+    let first = entries[0].record.timestamp;
+    let last = first;
+    for (const { record } of entries) {
+      if (record.timestamp < first) first = record.timestamp;
+      if (record.timestamp > last) last = record.timestamp;
     }
+    return { first, last };
+  }
+
+  /**
+   * Batch upload time as shown in warnings, e.g. "2026-01-05 10:42"
+   */
+  private formatBatchTime(date: Date, timeZone: string): string {
+    return `${formatDate(date, timeZone)} ${formatTime(date, timeZone).substring(
+      0,
+      5
+    )}`;
+  }
+
+  /**
+   * SHA-256 fingerprint of an uploaded file
+   */
+  private hashFile(buffer: Buffer): string {
+    return createHash("sha256").update(buffer).digest("hex");
+  }
+
+  /**
+   * Map device verification code to stored label: 2 = Card, anything else = Fingerprint
+   */
+  private getVerificationType(verifyCode: number): string {
+    return verifyCode === 2 ? "Card" : "Fingerprint";
+  }
+
+  /**
+   * Recalculate punch types and daily attendance for every affected user-day
+   */
+  private async recalculateDays(
+    affectedUserDates: Map<number, Set<string>>,
+    manager: EntityManager
+  ): Promise<void> {
+    const days = await this.punchIngestion.recalculateDays(
+      manager,
+      affectedUserDates
+    );
+    this.logger.log(
+      `Daily attendance records computed for ${affectedUserDates.size} users (${days} user-days).`
+    );
   }
 
   /**
@@ -645,6 +692,129 @@ export class V2AttendanceService {
     return this.employeeRepo.find({ order: { biometric_id: "ASC" } });
   }
 
+  /**
+   * Set an employee's own weekly off days (null follows the organisation's)
+   * and recalculate their stored days without punches
+   */
+  async updateEmployeeWeeklyOff(
+    userId: number,
+    weeklyOffDays: number[] | null
+  ): Promise<Employee> {
+    if (weeklyOffDays !== null && !isValidWeeklyOffDays(weeklyOffDays)) {
+      throw new Error(
+        "Weekly off days must be distinct weekdays from 0 (Sunday) to 6"
+      );
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const employee = await manager.findOne(Employee, {
+        where: { biometric_id: userId },
+      });
+      if (!employee) {
+        throw new Error(`Employee with ID ${userId} not found`);
+      }
+
+      employee.weekly_off_days = weeklyOffDays && [...weeklyOffDays].sort();
+      await manager.save(employee);
+      await this.punchIngestion.recalculateDaysWithoutPunches(manager, {
+        employee_id: employee.id,
+      });
+
+      return employee;
+    });
+  }
+
+  /**
+   * Set the location an employee works at (null for none) and recalculate
+   * their stored days without punches against its holidays
+   */
+  async updateEmployeeLocation(
+    userId: number,
+    location: string | null
+  ): Promise<Employee> {
+    return this.dataSource.transaction(async (manager) => {
+      const employee = await manager.findOne(Employee, {
+        where: { biometric_id: userId },
+      });
+      if (!employee) {
+        throw new Error(`Employee with ID ${userId} not found`);
+      }
+
+      employee.location = location?.trim() || null;
+      await manager.save(employee);
+      await this.punchIngestion.recalculateDaysWithoutPunches(manager, {
+        employee_id: employee.id,
+      });
+
+      return employee;
+    });
+  }
+
+  /**
+   * Get import batches, newest first
+   */
+  async getImportBatches(): Promise<ImportBatch[]> {
+    return this.importBatchRepo.find({ order: { id: "DESC" } });
+  }
+
+  /**
+   * Undo an attendance import: delete the punches it inserted and
+   * recalculate every day they touched
+   */
+  async rollbackImportBatch(
+    batchId: number
+  ): Promise<{ deleted: number; recalculatedDays: number }> {
+    return this.dataSource.transaction(async (manager) => {
+      const batch = await manager.findOne(ImportBatch, {
+        where: { id: batchId },
+      });
+
+      if (!batch) {
+        throw new Error(`Import batch ${batchId} not found`);
+      }
+      if (batch.kind !== ImportBatchKindEnum.ATTENDANCE) {
+        throw new Error("Only attendance import batches can be rolled back");
+      }
+      if (batch.rolled_back_at) {
+        throw new Error(`Import batch ${batchId} was already rolled back`);
+      }
+
+      // Deleted punches of the batch go with it
+      const punches = await manager.find(Punch, {
+        where: { batch_id: batchId },
+        withDeleted: true,
+      });
+
+      const { timeZone, dayStartTime } =
+        await this.punchIngestion.loadSettings(manager);
+      const affectedUserDates = new Map<number, Set<string>>();
+      for (const punch of punches) {
+        if (!affectedUserDates.has(punch.employee_id)) {
+          affectedUserDates.set(punch.employee_id, new Set());
+        }
+        affectedUserDates
+          .get(punch.employee_id)!
+          .add(getAttendanceDate(punch.punch_time, timeZone, dayStartTime));
+      }
+
+      await manager.delete(Punch, { batch_id: batchId });
+      await this.recalculateDays(affectedUserDates, manager);
+
+      batch.rolled_back_at = new Date();
+      await manager.save(ImportBatch, batch);
+
+      let recalculatedDays = 0;
+      for (const dates of affectedUserDates.values()) {
+        recalculatedDays += dates.size;
+      }
+
+      this.logger.log(
+        `Rolled back import batch ${batchId}: ${punches.length} punches deleted, ${recalculatedDays} user-days recalculated`
+      );
+      return { deleted: punches.length, recalculatedDays };
+    });
+  }
+
   /**
    * Get attendance report for a specific month/year using optimized raw SQL
    * Single query returns complete report data with JSON aggregation
@@ -652,13 +822,8 @@ export class V2AttendanceService {
   async getAttendanceReport(
     month: number,
     year: number,
-    settings: {
-      workStartTime: string;
-      workEndTime: string;
-      lateThresholdMinutes: number;
-      earlyOutThresholdMinutes: number;
-    }
-  ): Promise<any> {
+    settings: AttendanceSettings
+  ): Promise<AttendanceReport> {
     const startDate = `${year}-${String(month + 1).padStart(2, "0")}-01`;
     const endDate = `${year}-${String(month + 1).padStart(2, "0")}-${new Date(
       year,
@@ -666,12 +831,6 @@ export class V2AttendanceService {
       0
     ).getDate()}`;
 
-    // Parse settings for SQL calculations
-    const [startH, startM] = settings.workStartTime.split(":").map(Number);
-    const [endH, endM] = settings.workEndTime.split(":").map(Number);
-    const workStartMinutes = startH * 60 + startM;
-    const workEndMinutes = endH * 60 + endM;
-
     // Load and execute single optimized SQL query
     // SQL files are copied to dist via nest-cli.json assets config
     const fs = await import("fs");
@@ -679,87 +838,277 @@ export class V2AttendanceService {
     const sqlPath = path.join(__dirname, "queries", "get-full-report.sql");
     const sql = fs.readFileSync(sqlPath, "utf8");
 
-    // Execute single query with all parameters
-    // $1=startDate, $2=endDate, $3=workStartMinutes, $4=workEndMinutes, $5=lateThreshold, $6=earlyOutThreshold
+    // Days are bucketed with the organisation's time zone and day start,
+    // as when they were stored, and reports use its penalty rules and
+    // overtime policy
+    const organisation = await this.organisationSettings.getSettings();
+    settings = { ...settings, ...organisation };
+    const { timeZone, dayStartTime } = settings;
+
+    // Weekly overtime counts whole weeks, so the days of the first and last
+    // weeks that fall in the months around this one are loaded too
+    const weekStartDate = getWeekStart(startDate);
+    const weekEndDate = getWeekEnd(endDate);
+
+    // $1=startDate, $2=endDate, $3=timeZone, $4=dayStartTime,
+    // $5=weekStartDate, $6=weekEndDate
     const result = await this.employeeRepo.query(sql, [
       startDate,
       endDate,
-      workStartMinutes,
-      workEndMinutes,
-      settings.lateThresholdMinutes,
-      settings.earlyOutThresholdMinutes,
+      timeZone,
+      dayStartTime,
+      weekStartDate,
+      weekEndDate,
     ]);
 
     // SQL returns single row with users JSON array, total_records, unique_users
     const row = result[0] || { users: [], total_records: 0, unique_users: 0 };
 
+    // Schedule-dependent flags and summaries come from the shared engine,
+    // exactly as in memory mode, against each employee's rostered shift
+    const scheduledShift = await this.rosterService.getScheduleResolver(
+      weekStartDate,
+      weekEndDate
+    );
+    // Holidays and leave are attached by date so that days worked on one
+    // are flagged and leave shows its type; overtime decisions settle which
+    // overtime reaches payout, and comp-off balances run to the month end
+    const [
+      holidays,
+      leaves,
+      overtimeDecisions,
+      compOffBalances,
+      locatedEmployees,
+    ] = await Promise.all([
+      this.holidayService.getHolidays(startDate, endDate),
+      this.leaveService.getApprovedLeaves(startDate, endDate),
+      this.overtimeService.getDecisions(startDate, endDate),
+      this.compOffService.getBalances(endDate),
+      this.employeeRepo.find({
+        select: { biometric_id: true, location: true },
+        where: { location: Not(IsNull()) },
+      }),
+    ]);
+    const calendarSettings: AttendanceSettings = {
+      ...settings,
+      holidays,
+      leaves,
+      overtimeDecisions,
+      employeeLocations: Object.fromEntries(
+        locatedEmployees.map((emp) => [emp.biometric_id, emp.location!])
+      ),
+    };
+    const users: UserAttendanceSummary[] = (row.users || []).map(
+      (user: {
+        userId: number;
+        userName: string;
+        dailyRecords: DailyAttendanceRecord[];
+      }) => {
+        const dayRecords = user.dailyRecords.map((daily) => {
+          const shift = scheduledShift(user.userId, daily.date);
+          const holiday = findHoliday(user.userId, daily.date, calendarSettings);
+          const leave = findLeave(user.userId, daily.date, calendarSettings);
+          return {
+            ...daily,
+            ...evaluateDayRules(daily, applyShift(settings, shift)),
+            shiftName: shift?.name ?? null,
+            holiday: holiday && { name: holiday.name, isPaid: holiday.isPaid },
+            leave: leave && { name: leave.name, isPaid: leave.isPaid },
+          };
+        });
+        const dailyRecords = applyOvertimePolicy(
+          dayRecords,
+          calendarSettings
+        ).filter((daily) => daily.date >= startDate && daily.date <= endDate);
+        return {
+          userId: user.userId,
+          userName: user.userName,
+          ...summarizeAttendance(dailyRecords, settings),
+          compOffBalance: compOffBalances.get(user.userId),
+          dailyRecords,
+        };
+      }
+    );
+
     return {
       fileName: "database",
       processedAt: new Date().toISOString(),
       dateRange: { from: startDate, to: endDate },
       totalRecords: parseInt(row.total_records) || 0,
       uniqueUsers: parseInt(row.unique_users) || 0,
-      users: row.users || [],
+      users,
       settings,
     };
   }
 
   /**
    * Mark a specific day as COMP off for a user
-   * Only allowed if current status is ABSENT
+   * Only allowed if current status is ABSENT and a comp-off credit is left;
+   * the status is an override, so clearing it reverses the comp off
    */
-  async markCompOff(userId: number, date: string): Promise<void> {
-    const employee = await this.employeeRepo.findOne({
-      where: { biometric_id: userId },
-    });
-
-    if (!employee) {
-      throw new Error(`Employee with ID ${userId} not found`);
-    }
+  async markCompOff(
+    userId: number,
+    date: string,
+    edit: ManualEdit
+  ): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      const employee = await manager.findOne(Employee, {
+        where: { biometric_id: userId },
+      });
 
-    const record = await this.dailyAttendanceRepo.findOne({
-      where: { employee_id: employee.id, date },
-    });
+      if (!employee) {
+        throw new Error(`Employee with ID ${userId} not found`);
+      }
 
-    // Helper: get day code (MON, TUE, WED, THU, FRI, SAT, SUN)
-    const getDayCode = (dateStr: string): string => {
-      const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-      const d = new Date(dateStr + "T00:00:00");
-      return days[d.getDay()];
-    };
+      const record = await manager.findOne(DailyAttendance, {
+        where: { employee_id: employee.id, date },
+      });
 
-    if (record) {
-      if (record.status !== AttendanceStatusEnum.ABSENT) {
+      if (record && record.status !== AttendanceStatusEnum.ABSENT) {
         throw new Error(
           `Cannot mark as COMP off: Current status is ${record.status}`
         );
       }
+      await this.auditLog.recordChange(
+        manager,
+        employee,
+        date,
+        AuditActionEnum.MARK_COMP_OFF,
+        edit,
+        () =>
+          this.overrideDayStatus(
+            manager,
+            employee,
+            date,
+            AttendanceStatusEnum.COMP,
+            edit.reason.trim()
+          )
+      );
+    });
 
-      record.status = AttendanceStatusEnum.COMP;
-      record.day_code = getDayCode(date);
-      // Ensure other values are default/null
-      record.first_in = null;
-      record.last_out = null;
-      record.total_minutes = 0;
-      record.punch_count = 0;
-
-      await this.dailyAttendanceRepo.save(record);
-    } else {
-      // Create new record if not exists (though computeDailyAttendance should have created it)
-      const newRecord = this.dailyAttendanceRepo.create({
-        employee_id: employee.id,
+    this.logger.log(
+      `Marked COMP off for user ${userId} on ${date} (by ${edit.actor})`
+    );
+  }
+
+  /**
+   * Set a day's status by hand, with the reason; it holds through later
+   * uploads and punch edits until cleared
+   */
+  async setDayStatus(
+    userId: number,
+    date: string,
+    status: OverrideStatus,
+    edit: ManualEdit
+  ): Promise<void> {
+    if (!DATE_PATTERN.test(date ?? "")) {
+      throw new Error("date must be YYYY-MM-DD");
+    }
+    if (!OVERRIDE_STATUSES.includes(status)) {
+      throw new Error(`status must be one of ${OVERRIDE_STATUSES.join(", ")}`);
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      const employee = await manager.findOne(Employee, {
+        where: { biometric_id: userId },
+      });
+
+      if (!employee) {
+        throw new Error(`Employee with ID ${userId} not found`);
+      }
+
+      // The audit reason doubles as the override's reason
+      await this.auditLog.recordChange(
+        manager,
+        employee,
         date,
-        day_code: getDayCode(date),
-        status: AttendanceStatusEnum.COMP,
-        first_in: null,
-        last_out: null,
-        total_minutes: 0,
-        punch_count: 0,
+        AuditActionEnum.SET_STATUS,
+        edit,
+        () =>
+          this.overrideDayStatus(
+            manager,
+            employee,
+            date,
+            status as AttendanceStatusEnum,
+            edit.reason.trim()
+          )
+      );
+    });
+
+    this.logger.log(
+      `Set status ${status} for user ${userId} on ${date} (by ${edit.actor})`
+    );
+  }
+
+  /**
+   * Clear a day's status override and go back to the computed status
+   * (this also reverses COMP days marked before overrides existed)
+   */
+  async clearDayStatus(
+    userId: number,
+    date: string,
+    edit: ManualEdit
+  ): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      const employee = await manager.findOne(Employee, {
+        where: { biometric_id: userId },
+      });
+
+      if (!employee) {
+        throw new Error(`Employee with ID ${userId} not found`);
+      }
+
+      const record = await manager.findOne(DailyAttendance, {
+        where: { employee_id: employee.id, date },
       });
-      await this.dailyAttendanceRepo.save(newRecord);
+
+      if (!record) {
+        throw new Error(`No attendance stored for user ${userId} on ${date}`);
+      }
+
+      await this.auditLog.recordChange(
+        manager,
+        employee,
+        date,
+        AuditActionEnum.CLEAR_STATUS,
+        edit,
+        async () => {
+          await manager.update(
+            DailyAttendance,
+            { id: record.id },
+            { override_status: null, override_reason: null }
+          );
+          await this.recalculateDay(manager, employee.id, date);
+        }
+      );
+    });
+
+    this.logger.log(
+      `Cleared status override for user ${userId} on ${date} (by ${edit.actor})`
+    );
+  }
+
+  /**
+   * Store a status override on a day, computing the day first if it was
+   * never stored so that clearing the override has figures to go back to
+   */
+  private async overrideDayStatus(
+    manager: EntityManager,
+    employee: Employee,
+    date: string,
+    status: AttendanceStatusEnum,
+    reason: string
+  ): Promise<void> {
+    if (status === AttendanceStatusEnum.COMP) {
+      await this.compOffService.assertCanTake(manager, employee, date);
     }
 
-    this.logger.log(`Marked COMP off for user ${userId} on ${date}`);
+    await this.recalculateDay(manager, employee.id, date);
+    await manager.update(
+      DailyAttendance,
+      { employee_id: employee.id, date },
+      { status, override_status: status, override_reason: reason }
+    );
   }
 
   /**
@@ -769,6 +1118,7 @@ export class V2AttendanceService {
     userId: number,
     date: string,
     time: string,
+    edit: ManualEdit,
     isManual: boolean = true
   ): Promise<void> {
     await this.dataSource.transaction(async (manager) => {
@@ -780,41 +1130,78 @@ export class V2AttendanceService {
         throw new Error(`Employee with ID ${userId} not found`);
       }
 
-      // Parse date and time to create timestamp
-      const timestampStr = `${date}T${time}:00+05:30`;
-      const punchTime = new Date(timestampStr);
+      // Wall-clock time on the attendance day in the organisation time zone;
+      // times before the day start are after midnight of an overnight shift
+      const { timeZone, dayStartTime } =
+        await this.punchIngestion.loadSettings(manager);
+      const punchTime = parseAttendanceDateTime(
+        date,
+        time,
+        timeZone,
+        dayStartTime
+      );
 
       if (isNaN(punchTime.getTime())) {
         throw new Error("Invalid date or time format");
       }
 
+      // A deleted punch still holds its time; it is restored, not re-added
+      const deletedPunch = await manager.findOne(Punch, {
+        where: {
+          employee_id: employee.id,
+          punch_time: punchTime,
+          deleted_at: Not(IsNull()),
+        },
+        withDeleted: true,
+      });
+      if (deletedPunch) {
+        throw new Error(
+          `A deleted punch exists at ${time} on ${date}; restore it instead`
+        );
+      }
+
       // Logic for verification type and edited flag
       const verificationType = isManual ? "Manual" : "Fingerprint";
       const isEdited = isManual;
 
-      // Insert new punch
-      const punch = manager.create(Punch, {
-        employee_id: employee.id,
-        punch_time: punchTime,
-        verification_type: verificationType,
-        punch_type: null,
-        is_paired: false,
-        is_edited: isEdited,
-      });
-      await manager.save(Punch, punch);
+      await this.auditLog.recordChange(
+        manager,
+        employee,
+        date,
+        AuditActionEnum.ADD_PUNCH,
+        edit,
+        async () => {
+          // Insert new punch
+          const punch = manager.create(Punch, {
+            employee_id: employee.id,
+            punch_time: punchTime,
+            verification_type: verificationType,
+            punch_type: null,
+            is_paired: false,
+            is_edited: isEdited,
+          });
+          await manager.save(Punch, punch);
 
-      // Now recalculate for this day using the transaction manager
-      await this.recalculateDay(manager, employee.id, date);
+          // Now recalculate for this day using the transaction manager
+          await this.recalculateDay(manager, employee.id, date);
+        }
+      );
 
       this.logger.log(
-        `Added manual punch for user ${userId} at ${time} on ${date} (Manual=${isManual})`
+        `Added manual punch for user ${userId} at ${time} on ${date} (Manual=${isManual}, by ${edit.actor})`
       );
     });
   }
   /**
    * Delete a punch and recalculate
+   * The punch is soft-deleted: kept with who deleted it and why, so that it
+   * can be restored, but left out of pairing and totals
    */
-  async deletePunch(userId: number, punchTimeStr: string): Promise<void> {
+  async deletePunch(
+    userId: number,
+    punchTimeStr: string,
+    edit: ManualEdit
+  ): Promise<void> {
     await this.dataSource.transaction(async (manager) => {
       // First, find the employee by biometric_id (userId is the biometric_id from frontend)
       const employee = await manager.findOne(Employee, {
@@ -825,12 +1212,10 @@ export class V2AttendanceService {
         throw new Error(`Employee with ID ${userId} not found`);
       }
 
-      // Create date object from string (ISO format expected from frontend)
-      const punchTime = new Date(punchTimeStr);
-      if (isNaN(punchTime.getTime())) {
-        throw new Error("Invalid punch time format");
-      }
-
+      const { punchTime, date } = await this.parsePunchTime(
+        manager,
+        punchTimeStr
+      );
       const punch = await manager.findOne(Punch, {
         where: {
           employee_id: employee.id,
@@ -842,105 +1227,124 @@ export class V2AttendanceService {
         throw new Error("Punch not found");
       }
 
-      await manager.remove(Punch, punch);
-
-      const dateStr = this.getDateStringIST(punchTime);
-      await this.recalculateDay(manager, employee.id, dateStr);
+      await this.auditLog.recordChange(
+        manager,
+        employee,
+        date,
+        AuditActionEnum.DELETE_PUNCH,
+        edit,
+        async () => {
+          await manager.update(
+            Punch,
+            { id: punch.id },
+            {
+              deleted_at: new Date(),
+              deleted_by: edit.actor.trim(),
+              delete_reason: edit.reason.trim(),
+            }
+          );
+          await this.recalculateDay(manager, employee.id, date);
+        }
+      );
 
-      this.logger.log(`Deleted punch for user ${userId} at ${punchTimeStr}`);
+      this.logger.log(
+        `Deleted punch for user ${userId} at ${punchTimeStr} (by ${edit.actor})`
+      );
     });
   }
 
   /**
-   * Recalculate punch types and daily attendance for a specific employee and day
+   * Restore a deleted punch and recalculate its day
    */
-  private async recalculateDay(
-    manager: EntityManager,
-    employeeId: number,
-    dateStr: string
+  async restorePunch(
+    userId: number,
+    punchTimeStr: string,
+    edit: ManualEdit
   ): Promise<void> {
-    // Calculate day bounds in IST
-    const startOfDay = new Date(`${dateStr}T00:00:00+05:30`);
-    const endOfDay = new Date(`${dateStr}T23:59:59.999+05:30`);
+    await this.dataSource.transaction(async (manager) => {
+      const employee = await manager.findOne(Employee, {
+        where: { biometric_id: userId },
+      });
 
-    // Optimized fetch: Only get punches for this specific day
-    const dayPunches = await manager.find(Punch, {
-      where: {
-        employee_id: employeeId,
-        punch_time: Between(startOfDay, endOfDay),
-      },
-      order: { punch_time: "ASC" },
-    });
+      if (!employee) {
+        throw new Error(`Employee with ID ${userId} not found`);
+      }
 
-    // 2. Re-compute punch types (IN/OUT)
-    this.assignPunchTypes(dayPunches);
-
-    // Save updated punch types
-    await manager.save(Punch, dayPunches);
-
-    // 3. Re-compute DailyAttendance
-    const punchCount = dayPunches.length;
-    let status: AttendanceStatusEnum;
-    if (punchCount === 0) {
-      status = AttendanceStatusEnum.ABSENT;
-    } else if (punchCount % 2 === 0) {
-      status = AttendanceStatusEnum.PRESENT;
-    } else {
-      status = AttendanceStatusEnum.INCOMPLETE;
-    }
+      const { punchTime, date } = await this.parsePunchTime(
+        manager,
+        punchTimeStr
+      );
+      const punch = await manager.findOne(Punch, {
+        where: {
+          employee_id: employee.id,
+          punch_time: punchTime,
+          deleted_at: Not(IsNull()),
+        },
+        withDeleted: true,
+      });
 
-    // Helpers
-    const timeToMinutes = (t: string) => {
-      const [h, m] = t.split(":").map(Number);
-      return h * 60 + m;
-    };
-    const getDayCode = (d: string) => {
-      const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-      const date = new Date(d + "T00:00:00");
-      return days[date.getDay()];
-    };
+      if (!punch) {
+        throw new Error("Deleted punch not found");
+      }
 
-    const firstIn =
-      punchCount > 0 ? this.formatTimeIST(dayPunches[0].punch_time) : null;
-    const lastOut =
-      punchCount > 1
-        ? this.formatTimeIST(dayPunches[punchCount - 1].punch_time)
-        : null;
-
-    let totalMinutes = 0;
-    for (let i = 0; i < dayPunches.length - 1; i += 2) {
-      const inTime = this.formatTimeIST(dayPunches[i].punch_time);
-      const outTime = this.formatTimeIST(dayPunches[i + 1].punch_time);
-      const inMin = timeToMinutes(inTime);
-      const outMin = timeToMinutes(outTime);
-      totalMinutes += Math.max(0, outMin - inMin);
-    }
+      await this.auditLog.recordChange(
+        manager,
+        employee,
+        date,
+        AuditActionEnum.RESTORE_PUNCH,
+        edit,
+        async () => {
+          await manager.update(
+            Punch,
+            { id: punch.id },
+            { deleted_at: null, deleted_by: null, delete_reason: null }
+          );
+          await this.recalculateDay(manager, employee.id, date);
+        }
+      );
 
-    const existing = await manager.findOne(DailyAttendance, {
-      where: { employee_id: employeeId, date: dateStr },
+      this.logger.log(
+        `Restored punch for user ${userId} at ${punchTimeStr} (by ${edit.actor})`
+      );
     });
+  }
 
-    if (existing) {
-      // Logic handles overwriting COMP/ABSENT with calculated status
-      existing.status = status;
-      existing.first_in = firstIn;
-      existing.last_out = lastOut;
-      existing.total_minutes = totalMinutes;
-      existing.punch_count = punchCount;
-      existing.day_code = getDayCode(dateStr);
-      await manager.save(DailyAttendance, existing);
-    } else {
-      const record = manager.create(DailyAttendance, {
-        employee_id: employeeId,
-        date: dateStr,
-        day_code: getDayCode(dateStr),
-        status,
-        first_in: firstIn,
-        last_out: lastOut,
-        total_minutes: totalMinutes,
-        punch_count: punchCount,
-      });
-      await manager.save(DailyAttendance, record);
+  /**
+   * Punch time sent by the frontend, and the attendance day it falls on
+   * ISO format expected; without an offset it is the attendance date and
+   * wall-clock time in the organisation time zone
+   */
+  private async parsePunchTime(
+    manager: EntityManager,
+    punchTimeStr: string
+  ): Promise<{ punchTime: Date; date: string }> {
+    const { timeZone, dayStartTime } =
+      await this.punchIngestion.loadSettings(manager);
+    const [date, time = ""] = punchTimeStr.split("T");
+    const punchTime = /(Z|[+-]\d{2}:?\d{2})$/.test(punchTimeStr)
+      ? new Date(punchTimeStr)
+      : parseAttendanceDateTime(date, time, timeZone, dayStartTime);
+    if (isNaN(punchTime.getTime())) {
+      throw new Error("Invalid punch time format");
     }
+    return {
+      punchTime,
+      date: getAttendanceDate(punchTime, timeZone, dayStartTime),
+    };
+  }
+
+  /**
+   * Recalculate punch types and daily attendance for a specific employee and day
+   * The daily computation itself lives in the shared attendance engine
+   */
+  private async recalculateDay(
+    manager: EntityManager,
+    employeeId: number,
+    dateStr: string
+  ): Promise<void> {
+    await this.punchIngestion.recalculateDays(
+      manager,
+      new Map([[employeeId, new Set([dateStr])]])
+    );
   }
 }
@@ -1,7 +1,7 @@
 import { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { AttendanceReport, AttendanceSettings } from '@attendance/shared';
-import { DEFAULT_SETTINGS } from '@attendance/shared';
+import { DEFAULT_SETTINGS, summarizeAttendance } from '@attendance/shared';
 import FileUploader from './components/FileUploader';
 import SummaryCards from './components/SummaryCards';
 import UserSelector from './components/UserSelector';
@@ -59,46 +59,10 @@ function App() {
       });
 
       // Recalculate statistics for filtered records
-      let presentDays = 0;
-      let absentDays = 0;
-      let incompleteDays = 0;
-      let totalWorkingMinutes = 0;
-      let lateDays = 0;
-      let earlyOutDays = 0;
-      let overtimeMinutes = 0;
-
-      filteredRecords.forEach(daily => {
-        if (daily.status === 'PRESENT') {
-          presentDays++;
-          totalWorkingMinutes += daily.totalHours * 60 + daily.totalMinutes;
-          if (daily.isLate) lateDays++;
-          if (daily.isEarlyOut) earlyOutDays++;
-          if (daily.overtime > 0) overtimeMinutes += daily.overtime;
-        } else if (daily.status === 'ABSENT') {
-          absentDays++;
-        } else if (daily.status === 'INCOMPLETE') {
-          incompleteDays++;
-          totalWorkingMinutes += daily.totalHours * 60 + daily.totalMinutes;
-        }
-      });
-
-      const totalWorkingHours = Math.floor(totalWorkingMinutes / 60);
-      const remainingMinutes = Math.round(totalWorkingMinutes % 60);
-      const averageHoursPerDay = presentDays > 0 ? totalWorkingMinutes / 60 / presentDays : 0;
-
       return {
         ...user,
+        ...summarizeAttendance(filteredRecords, settings),
         dailyRecords: filteredRecords,
-        totalDays: filteredRecords.length,
-        presentDays,
-        absentDays,
-        incompleteDays,
-        totalWorkingHours,
-        totalWorkingMinutes: remainingMinutes,
-        averageHoursPerDay: Math.round(averageHoursPerDay * 100) / 100,
-        lateDays,
-        earlyOutDays,
-        overtimeMinutes,
       };
     });
 
@@ -106,7 +70,7 @@ function App() {
       ...report,
       users: filteredUsers,
     };
-  }, [report, selectedMonth, selectedYear]);
+  }, [report, settings, selectedMonth, selectedYear]);
 
   const selectedUser = filteredReport?.users.find((u) => u.userId === selectedUserId);
 
@@ -289,6 +253,8 @@ function App() {
               settings={settings}
               onSave={setSettings}
               onClose={() => setShowSettings(false)}
+              showEmployeeWeeklyOff
+              showHolidays
             />
           )}
         </AnimatePresence>
@@ -19,7 +19,7 @@ interface AttendanceChartProps {
 
 export default function AttendanceChart({ user }: AttendanceChartProps) {
   // Prepare chart data - show hours worked per day
-  // For ABSENT days, show a small bar (0.5h) to make it visible
+  // For ABSENT, WEEKLY_OFF, HOLIDAY and LEAVE days, show a small bar (0.5h) to make it visible
   const chartData = user.dailyRecords.map((record) => {
     // Parse day and date from data without Date object if possible
     const dayName = record.dayCode 
@@ -41,7 +41,7 @@ export default function AttendanceChart({ user }: AttendanceChartProps) {
       // Full date with day for tooltip: "Monday, Jan 1" - computed lazily if needed or kept simple
       // We'll keep the full display for tooltip but optimize its creation via a simple formatter or keep it as is since tooltip is on hover
       fullDateDisplay: record.date, // Store raw date string, format in Tooltip
-      hours: (record.status === 'ABSENT' || (record.status === 'INCOMPLETE' && (record.totalHours + record.totalMinutes / 60) === 0)) ? 0.5 : record.status === 'COMP' ? 12 : record.totalHours + record.totalMinutes / 60,
+      hours: (record.status === 'ABSENT' || record.status === 'WEEKLY_OFF' || record.status === 'HOLIDAY' || record.status === 'LEAVE' || (record.status === 'INCOMPLETE' && (record.totalHours + record.totalMinutes / 60) === 0)) ? 0.5 : record.status === 'COMP' ? 12 : record.totalHours + record.totalMinutes / 60,
       actualHours: record.status === 'COMP' ? 0 : record.totalHours + record.totalMinutes / 60,
       status: record.status,
       fullDate: record.date,
@@ -176,6 +176,10 @@ export default function AttendanceChart({ user }: AttendanceChartProps) {
                   <stop offset="0%" stopColor="#4ade80" stopOpacity={0.9} />
                   <stop offset="100%" stopColor="#22c55e" stopOpacity={0.7} />
                 </linearGradient>
+                <linearGradient id="halfDayGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stopColor="#a3e635" stopOpacity={0.9} />
+                  <stop offset="100%" stopColor="#84cc16" stopOpacity={0.7} />
+                </linearGradient>
                 <linearGradient id="incompleteGradient" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="0%" stopColor="#60a5fa" stopOpacity={0.9} />
                   <stop offset="100%" stopColor="#3b82f6" stopOpacity={0.7} />
@@ -188,6 +192,18 @@ export default function AttendanceChart({ user }: AttendanceChartProps) {
                   <stop offset="0%" stopColor="#fbbf24" stopOpacity={0.9} />
                   <stop offset="100%" stopColor="#f59e0b" stopOpacity={0.7} />
                 </linearGradient>
+                <linearGradient id="offGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stopColor="#94a3b8" stopOpacity={0.4} />
+                  <stop offset="100%" stopColor="#94a3b8" stopOpacity={0.2} />
+                </linearGradient>
+                <linearGradient id="holidayGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stopColor="#a78bfa" stopOpacity={0.5} />
+                  <stop offset="100%" stopColor="#a78bfa" stopOpacity={0.25} />
+                </linearGradient>
+                <linearGradient id="leaveGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stopColor="#38bdf8" stopOpacity={0.5} />
+                  <stop offset="100%" stopColor="#38bdf8" stopOpacity={0.25} />
+                </linearGradient>
               </defs>
               
               <CartesianGrid
@@ -251,14 +267,22 @@ export default function AttendanceChart({ user }: AttendanceChartProps) {
                     fill={
                       entry.status === 'ABSENT'
                         ? 'url(#absentGradient)'
+                        : entry.status === 'HALF_DAY'
+                        ? 'url(#halfDayGradient)'
                         : entry.status === 'INCOMPLETE'
                         ? 'url(#incompleteGradient)'
                         : entry.status === 'COMP'
                         ? 'url(#compGradient)'
+                        : entry.status === 'WEEKLY_OFF'
+                        ? 'url(#offGradient)'
+                        : entry.status === 'HOLIDAY'
+                        ? 'url(#holidayGradient)'
+                        : entry.status === 'LEAVE'
+                        ? 'url(#leaveGradient)'
                         : 'url(#presentGradient)'
                     }
                     style={{
-                      filter: entry.status !== 'ABSENT' ? 'drop-shadow(0 2px 4px rgba(0,0,0,0.2))' : 'none'
+                      filter: entry.status !== 'ABSENT' && entry.status !== 'WEEKLY_OFF' && entry.status !== 'HOLIDAY' && entry.status !== 'LEAVE' ? 'drop-shadow(0 2px 4px rgba(0,0,0,0.2))' : 'none'
                     }}
                   />
                 ))}
@@ -270,7 +294,7 @@ export default function AttendanceChart({ user }: AttendanceChartProps) {
 
       {/* Legend */}
       <div className="flex flex-wrap items-center justify-center gap-6 mt-5 pt-4 border-t border-midnight-800/50">
-        {['PRESENT', 'COMP', 'INCOMPLETE', 'ABSENT'].map((status) => {
+        {['PRESENT', 'HALF_DAY', 'COMP', 'INCOMPLETE', 'ABSENT', 'WEEKLY_OFF', 'HOLIDAY', 'LEAVE'].map((status) => {
           const config = getStatusConfig(status);
           const count = chartData.filter(d => d.status === status).length;
           return (
@@ -280,10 +304,18 @@ export default function AttendanceChart({ user }: AttendanceChartProps) {
                 style={{ 
                   background: status === 'PRESENT' 
                     ? 'linear-gradient(135deg, #4ade80, #22c55e)'
+                    : status === 'HALF_DAY'
+                    ? 'linear-gradient(135deg, #a3e635, #84cc16)'
                     : status === 'INCOMPLETE'
                     ? 'linear-gradient(135deg, #60a5fa, #3b82f6)'
                     : status === 'COMP'
                     ? 'linear-gradient(135deg, #fbbf24, #f59e0b)'
+                    : status === 'WEEKLY_OFF'
+                    ? 'linear-gradient(135deg, rgba(148, 163, 184, 0.4), rgba(148, 163, 184, 0.2))'
+                    : status === 'HOLIDAY'
+                    ? 'linear-gradient(135deg, rgba(167, 139, 250, 0.5), rgba(167, 139, 250, 0.25))'
+                    : status === 'LEAVE'
+                    ? 'linear-gradient(135deg, rgba(56, 189, 248, 0.5), rgba(56, 189, 248, 0.25))'
                     : 'linear-gradient(135deg, rgba(247, 37, 133, 0.4), rgba(247, 37, 133, 0.2))',
                 }}
               />
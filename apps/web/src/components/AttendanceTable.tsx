@@ -1,10 +1,32 @@
 import { useState } from 'react';
-import { ChevronDown, ChevronUp, Clock, LogIn, LogOut, AlertTriangle, FileText, Plus, Trash2, Wallet } from 'lucide-react';
-import type { UserAttendanceSummary, AttendanceSettings, DailyAttendance } from '@attendance/shared';
+import { ChevronDown, ChevronUp, Clock, Coffee, LogIn, LogOut, AlertTriangle, FileText, PenLine, Plus, RotateCcw, Trash2, Wallet } from 'lucide-react';
+import type { UserAttendanceSummary, AttendanceSettings, DailyAttendance, ManualEdit, OverrideStatus } from '@attendance/shared';
 import { cn, formatDate, formatTime, formatDuration, getStatusConfig } from '../lib/utils';
 import ReportPreview from './ReportPreview';
 import TimePickerModal from './TimePickerModal';
 import PayoutModal from './PayoutModal';
+import EditHistory from './EditHistory';
+
+// Statuses a day can be set to by hand
+const OVERRIDE_STATUSES: OverrideStatus[] = ['COMP', 'ABSENT', 'LEAVE', 'HOLIDAY'];
+
+const ACTOR_KEY = 'attendance.actor';
+
+/**
+ * Ask why a manual change is made and by whom (both go to the edit
+ * history); the name is remembered for next time
+ */
+function askEdit(change: string): ManualEdit | null {
+  const reason = window.prompt(`Reason for ${change}`)?.trim();
+  if (!reason) return null;
+  let actor = localStorage.getItem(ACTOR_KEY);
+  if (!actor) {
+    actor = window.prompt('Your name, for the edit history')?.trim() || null;
+    if (!actor) return null;
+    localStorage.setItem(ACTOR_KEY, actor);
+  }
+  return { actor, reason };
+}
 
 interface AttendanceTableProps {
   user: UserAttendanceSummary;
@@ -26,7 +48,15 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
-function PunchDetails({ record, onDelete }: { record: DailyAttendance; onDelete: (punchTime: string) => void }) {
+function PunchDetails({
+  record,
+  onDelete,
+  onRestore,
+}: {
+  record: DailyAttendance;
+  onDelete: (punchTime: string) => void;
+  onRestore: (punchTime: string) => void;
+}) {
   const [confirmDeleteTime, setConfirmDeleteTime] = useState<string | null>(null);
 
   if (record.punches.length === 0) {
@@ -42,7 +72,9 @@ function PunchDetails({ record, onDelete }: { record: DailyAttendance; onDelete:
           key={idx}
           className={cn(
             'flex items-center gap-3 text-sm group',
-            !punch.isPaired && 'bg-accent-orange/10 border border-accent-orange/30 rounded-lg px-3 py-2',
+            punch.isIgnored || punch.isDeleted
+              ? 'opacity-60'
+              : !punch.isPaired && 'bg-accent-orange/10 border border-accent-orange/30 rounded-lg px-3 py-2',
           )}
         >
           <div
@@ -61,23 +93,45 @@ function PunchDetails({ record, onDelete }: { record: DailyAttendance; onDelete:
               <LogOut className="w-3.5 h-3.5" />
             )}
           </div>
-          <span className="font-mono text-midnight-200">{formatTime(punch.time)}</span>
+          <span className={cn('font-mono text-midnight-200', (punch.isIgnored || punch.isDeleted) && 'line-through')}>
+            {formatTime(punch.time)}
+          </span>
           <span className="text-midnight-500 text-xs">({punch.verificationType})</span>
-          {!punch.isPaired && (
+          {punch.isDeleted ? (
+            <span
+              className="ml-auto text-midnight-500 text-xs font-medium"
+              title={punch.deletion ? `${punch.deletion.reason} (${new Date(punch.deletion.at).toLocaleString('en-IN')})` : undefined}
+            >
+              Deleted{punch.deletion && ` by ${punch.deletion.by}`}
+            </span>
+          ) : punch.isIgnored ? (
+            <span className="ml-auto text-midnight-500 text-xs font-medium" title="Within the double tap window of the previous punch">
+              Double tap, ignored
+            </span>
+          ) : !punch.isPaired && (
             <span className="ml-auto text-accent-orange text-xs font-medium flex items-center gap-1">
               <AlertTriangle className="w-3 h-3" />
               Unpaired
             </span>
           )}
           
-          {/* Delete Action */}
+          {/* Delete Action (or restore for a deleted punch) */}
           <div className="ml-auto flex items-center relative">
-             {confirmDeleteTime === punchId ? (
+             {punch.isDeleted ? (
+               <button
+                 onClick={() => onRestore(`${record.date}T${punch.time}`)}
+                 className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-accent-cyan hover:bg-accent-cyan/10 rounded transition-colors"
+                 title="Restore this punch"
+               >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  Restore
+               </button>
+             ) : confirmDeleteTime === punchId ? (
                 <div className="absolute left-full top-1/2 -translate-y-1/2 ml-2 flex items-center gap-2 bg-white border border-midnight-200 shadow-lg rounded-lg px-3 py-1.5 z-10 animate-in fade-in zoom-in-95">
                    <span className="text-xs font-medium text-midnight-600 whitespace-nowrap">Delete?</span>
                    <div className="flex items-center gap-1">
                      <button 
-                        onClick={() => onDelete(`${record.date}T${punch.time}+05:30`)}
+                        onClick={() => onDelete(`${record.date}T${punch.time}`)}
                         className="px-2 py-0.5 text-xs font-bold bg-red-50 text-red-600 hover:bg-red-100 rounded transition-colors"
                      >
                         Yes
@@ -137,9 +191,11 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
   };
 
   const handleMarkCompOff = async (date: string) => {
+    const edit = askEdit(`marking ${date} as Comp Off`);
+    if (!edit) return;
     try {
       const { markCompOff } = await import('../services/api');
-      const response = await markCompOff(user.userId, date);
+      const response = await markCompOff(user.userId, date, edit);
       if (response.success) {
         setConfirmCompDate(null);
         if (onRefresh) {
@@ -149,14 +205,53 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
         }
       }
     } catch (error: any) {
-      alert(error.message || 'Failed to mark as Comp Off');
+      // The server explains a refusal (e.g. no comp-off balance left)
+      alert(error.response?.data?.message || error.message || 'Failed to mark as Comp Off');
+    }
+  };
+
+  const handleSetDayStatus = async (date: string, status: OverrideStatus) => {
+    const edit = askEdit(`setting ${date} to ${getStatusConfig(status).label}`);
+    if (!edit) return;
+    try {
+      const { setDayStatus } = await import('../services/api');
+      const response = await setDayStatus(user.userId, date, status, edit);
+      if (response.success) {
+        if (onRefresh) {
+          onRefresh();
+        } else {
+          window.location.reload();
+        }
+      }
+    } catch (error: any) {
+      alert(error.response?.data?.message || error.message || 'Failed to set day status');
+    }
+  };
+
+  const handleClearDayStatus = async (date: string) => {
+    const edit = askEdit(`reverting ${date} to the computed status`);
+    if (!edit) return;
+    try {
+      const { clearDayStatus } = await import('../services/api');
+      const response = await clearDayStatus(user.userId, date, edit);
+      if (response.success) {
+        if (onRefresh) {
+          onRefresh();
+        } else {
+          window.location.reload();
+        }
+      }
+    } catch (error: any) {
+      alert(error.response?.data?.message || error.message || 'Failed to clear day status');
     }
   };
 
   const handleAddPunch = async (date: string, timeStr: string, isManual: boolean) => {
+    const edit = askEdit(`adding a punch at ${timeStr} on ${date}`);
+    if (!edit) return;
     try {
       const { addPunch } = await import('../services/api');
-      const response = await addPunch(user.userId, date, timeStr, isManual);
+      const response = await addPunch(user.userId, date, timeStr, edit, isManual);
       if (response.success) {
         setHandlingDate(null);
         if (onRefresh) {
@@ -166,14 +261,16 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
         }
       }
     } catch (error: any) {
-      alert(error.message || 'Failed to add punch');
+      alert(error.response?.data?.message || error.message || 'Failed to add punch');
     }
   };
 
   const handleDeletePunch = async (punchTime: string) => {
+    const edit = askEdit(`deleting the punch at ${punchTime.replace('T', ' ')}`);
+    if (!edit) return;
     try {
       const { deletePunch } = await import('../services/api');
-      const response = await deletePunch(user.userId, punchTime);
+      const response = await deletePunch(user.userId, punchTime, edit);
       if (response.success) {
         if (onRefresh) {
           onRefresh();
@@ -182,7 +279,25 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
         }
       }
     } catch (error: any) {
-      alert(error.message || 'Failed to delete punch');
+      alert(error.response?.data?.message || error.message || 'Failed to delete punch');
+    }
+  };
+
+  const handleRestorePunch = async (punchTime: string) => {
+    const edit = askEdit(`restoring the punch at ${punchTime.replace('T', ' ')}`);
+    if (!edit) return;
+    try {
+      const { restorePunch } = await import('../services/api');
+      const response = await restorePunch(user.userId, punchTime, edit);
+      if (response.success) {
+        if (onRefresh) {
+          onRefresh();
+        } else {
+          window.location.reload();
+        }
+      }
+    } catch (error: any) {
+      alert(error.response?.data?.message || error.message || 'Failed to restore punch');
     }
   };
 
@@ -259,6 +374,21 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
                     <span className="text-midnight-100 font-medium">
                       {formatDate(record.date)}
                     </span>
+                    {record.shiftName && (
+                      <span className="block text-xs text-midnight-500">{record.shiftName}</span>
+                    )}
+                    {record.holiday && (
+                      <span className="block text-xs text-violet-400">
+                        {record.holiday.name}
+                        {!record.holiday.isPaid && ' (unpaid)'}
+                      </span>
+                    )}
+                    {record.leave && (
+                      <span className="block text-xs text-sky-400">
+                        {record.leave.name} leave
+                        {!record.leave.isPaid && ' (unpaid)'}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4">
                     <span className="font-mono text-accent-cyan">
@@ -276,10 +406,22 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
                     </span>
                   </td>
                   <td className="px-6 py-4">
-                    <StatusBadge status={record.status} />
+                    <div className="flex items-center gap-1.5">
+                      <StatusBadge status={record.status} />
+                      {record.override && (
+                        <span title={`Set by hand: ${record.override.reason}`} className="text-midnight-400">
+                          <PenLine className="w-3.5 h-3.5" />
+                        </span>
+                      )}
+                    </div>
                   </td>
                   <td className="px-6 py-4">
                     <div className="flex items-center gap-2">
+                      {record.holiday && record.status !== 'HOLIDAY' && (
+                        <span className="text-violet-400 text-xs bg-violet-400/10 px-2 py-1 rounded-lg">
+                          Holiday
+                        </span>
+                      )}
                       {record.isLate && (
                         <span className="flex items-center gap-1 text-accent-orange text-xs bg-accent-orange/10 px-2 py-1 rounded-lg">
                           <AlertTriangle className="w-3 h-3" />
@@ -292,8 +434,30 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
                           Early
                         </span>
                       )}
+                      {record.isLongBreak && (
+                        <span className="flex items-center gap-1 text-accent-pink text-xs bg-accent-pink/10 px-2 py-1 rounded-lg">
+                          <Coffee className="w-3 h-3" />
+                          Long break
+                        </span>
+                      )}
                       {record.overtime > 0 && (
-                        <span className="text-accent-cyan text-xs bg-accent-cyan/10 px-2 py-1 rounded-lg">
+                        <span
+                          className={cn(
+                            'text-xs px-2 py-1 rounded-lg',
+                            record.overtimeStatus === 'PENDING'
+                              ? 'text-accent-yellow bg-accent-yellow/10'
+                              : record.overtimeStatus === 'REJECTED'
+                                ? 'text-midnight-500 bg-midnight-800 line-through'
+                                : 'text-accent-cyan bg-accent-cyan/10',
+                          )}
+                          title={
+                            record.overtimeStatus === 'PENDING'
+                              ? 'Overtime awaiting approval'
+                              : record.overtimeStatus === 'REJECTED'
+                                ? 'Overtime rejected'
+                                : undefined
+                          }
+                        >
                           +{Math.round(record.overtime)}m OT
                         </span>
                       )}
@@ -325,7 +489,17 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
                           <PunchDetails 
                             record={record} 
                             onDelete={(time) => handleDeletePunch(time)}
+                            onRestore={(time) => handleRestorePunch(time)}
                           />
+                          {(!!record.breakMinutes || !!record.lunchDeductionMinutes) && (
+                            <p className="mt-3 flex items-center gap-1.5 text-xs text-midnight-400">
+                              <Coffee className="w-3.5 h-3.5" />
+                              {record.lunchDeductionMinutes
+                                ? `No break punched: ${record.lunchDeductionMinutes}m unpaid lunch deducted`
+                                : `Breaks ${formatDuration(Math.floor(record.breakMinutes! / 60), record.breakMinutes! % 60)}` +
+                                  (record.paidBreakMinutes ? `, ${record.paidBreakMinutes}m of it paid` : ', unpaid')}
+                            </p>
+                          )}
                           
                           {/* Add Punch UI */}
                           <div className="mt-4 pt-3 border-t border-midnight-700/50">
@@ -337,37 +511,72 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
                               Add Punch
                             </button>
                           </div>
+
+                          <EditHistory userId={user.userId} record={record} />
                         </div>
                         
                         {/* Actions */}
-                        {record.status === 'ABSENT' && (
-                          <div className="flex items-center gap-4">
-                            {confirmCompDate === record.date ? (
-                              <div className="flex items-center gap-3 bg-midnight-800 p-1.5 rounded-lg border border-accent-yellow/20 animate-in fade-in slide-in-from-right-4 duration-200">
-                                <span className="text-sm text-midnight-300 pl-2">Are you sure?</span>
-                                <button
-                                  onClick={() => handleMarkCompOff(record.date)}
-                                  className="px-3 py-1.5 rounded-md bg-accent-yellow text-midnight-900 text-xs font-bold hover:bg-accent-yellow/90 transition-colors"
-                                >
-                                  Yes
-                                </button>
+                        <div className="flex flex-col items-end gap-3">
+                          {record.status === 'ABSENT' && !record.override && (
+                            <div className="flex items-center gap-4">
+                              {confirmCompDate === record.date ? (
+                                <div className="flex items-center gap-3 bg-midnight-800 p-1.5 rounded-lg border border-accent-yellow/20 animate-in fade-in slide-in-from-right-4 duration-200">
+                                  <span className="text-sm text-midnight-300 pl-2">Are you sure?</span>
+                                  <button
+                                    onClick={() => handleMarkCompOff(record.date)}
+                                    className="px-3 py-1.5 rounded-md bg-accent-yellow text-midnight-900 text-xs font-bold hover:bg-accent-yellow/90 transition-colors"
+                                  >
+                                    Yes
+                                  </button>
+                                  <button
+                                    onClick={() => setConfirmCompDate(null)}
+                                    className="px-3 py-1.5 rounded-md bg-midnight-700 text-midnight-300 text-xs font-medium hover:bg-midnight-600 transition-colors"
+                                  >
+                                    No
+                                  </button>
+                                </div>
+                              ) : (
                                 <button
-                                  onClick={() => setConfirmCompDate(null)}
-                                  className="px-3 py-1.5 rounded-md bg-midnight-700 text-midnight-300 text-xs font-medium hover:bg-midnight-600 transition-colors"
+                                  onClick={() => setConfirmCompDate(record.date)}
+                                  className="px-4 py-2 rounded-lg bg-accent-yellow/10 hover:bg-accent-yellow/20 text-accent-yellow border border-accent-yellow/20 transition-all text-sm font-medium"
                                 >
-                                  No
+                                  Mark as Comp Off
                                 </button>
-                              </div>
-                            ) : (
+                              )}
+                            </div>
+                          )}
+                          {record.override || record.status === 'COMP' ? (
+                            <div className="flex items-center gap-3">
+                              {record.override && (
+                                <span className="text-xs text-midnight-400">
+                                  Set by hand: {record.override.reason}
+                                </span>
+                              )}
                               <button
-                                onClick={() => setConfirmCompDate(record.date)}
-                                className="px-4 py-2 rounded-lg bg-accent-yellow/10 hover:bg-accent-yellow/20 text-accent-yellow border border-accent-yellow/20 transition-all text-sm font-medium"
+                                onClick={() => handleClearDayStatus(record.date)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-midnight-800 hover:bg-midnight-700 text-midnight-300 text-xs font-medium transition-colors"
                               >
-                                Mark as Comp Off
+                                <RotateCcw className="w-3.5 h-3.5" />
+                                Revert to computed
                               </button>
-                            )}
-                          </div>
-                        )}
+                            </div>
+                          ) : (
+                            <select
+                              value=""
+                              onChange={(e) => handleSetDayStatus(record.date, e.target.value as OverrideStatus)}
+                              className="px-3 py-1.5 rounded-lg bg-midnight-800 border border-midnight-700 text-midnight-300 text-xs focus:outline-none focus:border-accent-cyan/50"
+                            >
+                              <option value="" disabled>
+                                Set status…
+                              </option>
+                              {OVERRIDE_STATUSES.map((status) => (
+                                <option key={status} value={status}>
+                                  {getStatusConfig(status).label}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                        </div>
                       </div>
                     </td>
                   </tr>
@@ -386,11 +595,31 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
             <span className="text-midnight-400">Present:</span>
             <span className="text-midnight-100 font-medium">{user.presentDays}</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-lime-400" />
+            <span className="text-midnight-400">Half Day:</span>
+            <span className="text-midnight-100 font-medium">{user.halfDays}</span>
+          </div>
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 rounded-full bg-accent-cyan" />
             <span className="text-midnight-400">Comp Off:</span>
             <span className="text-midnight-100 font-medium">{user.compDays}</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-slate-400" />
+            <span className="text-midnight-400">Weekly Off:</span>
+            <span className="text-midnight-100 font-medium">{user.weeklyOffDays}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-violet-400" />
+            <span className="text-midnight-400">Holidays:</span>
+            <span className="text-midnight-100 font-medium">{user.holidayDays}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-sky-400" />
+            <span className="text-midnight-400">Leave:</span>
+            <span className="text-midnight-100 font-medium">{user.leaveDays}</span>
+          </div>
           <div className="flex items-center gap-2">
             <div className="w-3 h-3 rounded-full bg-accent-orange" />
             <span className="text-midnight-400">Incomplete:</span>
@@ -406,6 +635,27 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
             <span className="text-midnight-400">Early Exits:</span>
             <span className="text-midnight-100 font-medium">{user.earlyOutDays}</span>
           </div>
+          {user.penaltyDays > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full bg-rose-500" />
+              <span className="text-midnight-400">Penalty:</span>
+              <span className="text-midnight-100 font-medium">
+                {user.penaltyDays} day{user.penaltyDays === 1 ? '' : 's'}
+                {user.veryLateDays > 0 && ` (${user.veryLateDays} very late)`}
+              </span>
+            </div>
+          )}
+          {user.overtimeMinutes + user.unapprovedOvertimeMinutes > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full bg-accent-cyan" />
+              <span className="text-midnight-400">Overtime:</span>
+              <span className="text-midnight-100 font-medium">
+                {formatDuration(Math.floor(user.overtimeMinutes / 60), Math.round(user.overtimeMinutes % 60))}
+                {user.unapprovedOvertimeMinutes > 0 &&
+                  ` (+${formatDuration(Math.floor(user.unapprovedOvertimeMinutes / 60), Math.round(user.unapprovedOvertimeMinutes % 60))} unapproved)`}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -423,6 +673,7 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
       <ReportPreview
         user={user}
         dateRange={dateRange}
+        timeZone={settings.timeZone}
         onClose={() => setShowReportPreview(false)}
       />
     )}
@@ -432,6 +683,7 @@ export default function AttendanceTable({ user, settings, onRefresh }: Attendanc
       <PayoutModal
         user={user}
         dateRange={dateRange}
+        timeZone={settings.timeZone}
         onClose={() => setShowPayoutModal(false)}
       />
     )}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import type { AuditAction, AuditDaySnapshot, AuditEntry, DailyAttendance } from '@attendance/shared';
+import { getAuditLog } from '../services/api';
+import { getStatusConfig } from '../lib/utils';
+
+interface EditHistoryProps {
+  userId: number;
+  record: DailyAttendance;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  ADD_PUNCH: 'Added punch',
+  DELETE_PUNCH: 'Deleted punch',
+  RESTORE_PUNCH: 'Restored punch',
+  MARK_COMP_OFF: 'Marked comp off',
+  SET_STATUS: 'Set status',
+  CLEAR_STATUS: 'Reverted to computed',
+};
+
+/**
+ * What a change did to the day: punches added or removed and the status
+ */
+function describeChange(before: AuditDaySnapshot | null, after: AuditDaySnapshot | null): string {
+  const parts: string[] = [];
+  const beforePunches = before?.punches ?? [];
+  const afterPunches = after?.punches ?? [];
+  const added = afterPunches.filter((time) => !beforePunches.includes(time));
+  const removed = beforePunches.filter((time) => !afterPunches.includes(time));
+  if (added.length > 0) parts.push(`+${added.join(', +')}`);
+  if (removed.length > 0) parts.push(`−${removed.join(', −')}`);
+  if (before?.status !== after?.status) {
+    const label = (snapshot: AuditDaySnapshot | null) =>
+      snapshot ? getStatusConfig(snapshot.status).label : 'not stored';
+    parts.push(`${label(before)} → ${label(after)}`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Manual changes to one employee-day, newest first (database mode); loaded
+ * again whenever the day is, so a change just made shows up
+ */
+export default function EditHistory({ userId, record }: EditHistoryProps) {
+  const { date } = record;
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const [year, month] = date.split('-').map(Number);
+    setEntries(null);
+    setError(null);
+    getAuditLog(userId, month - 1, year)
+      .then((monthEntries) => setEntries(monthEntries.filter((entry) => entry.date === date)))
+      .catch((err: any) => setError(err.response?.data?.message || err.message || 'Failed to load edit history'));
+  }, [userId, record]);
+
+  return (
+    <div className="mt-4 pt-3 border-t border-midnight-700/50">
+      <h4 className="text-sm font-medium text-midnight-300 mb-2 flex items-center gap-2">
+        <History className="w-3.5 h-3.5" />
+        Edit History
+      </h4>
+      {error ? (
+        <p className="text-xs text-midnight-500">{error}</p>
+      ) : entries === null ? (
+        <Loader2 className="w-4 h-4 text-midnight-500 animate-spin" />
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-midnight-500">No manual changes</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map((entry) => (
+            <li key={entry.id} className="text-xs">
+              <span className="text-midnight-200">{ACTION_LABELS[entry.action]}</span>
+              <span className="text-midnight-400 font-mono"> {describeChange(entry.before, entry.after)}</span>
+              <span className="block text-midnight-500">
+                {entry.actor}, {new Date(entry.createdAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}: {entry.reason}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { Upload, FileText, Loader2, CheckCircle, AlertCircle, Users, Calendar }
 import type { AttendanceReport, AttendanceSettings } from '@attendance/shared';
 import { uploadAttendanceFile } from '../services/api';
 import { cn } from '../lib/utils';
+import ImportDiagnosticsPanel from './ImportDiagnosticsPanel';
+import ImportProfileSelect from './ImportProfileSelect';
 
 interface FileUploaderProps {
   onUploadSuccess: (report: AttendanceReport) => void;
@@ -18,6 +20,8 @@ export default function FileUploader({ onUploadSuccess, settings }: FileUploader
   const [error, setError] = useState<string | null>(null);
   const [attendanceFile, setAttendanceFile] = useState<File | null>(null);
   const [userFile, setUserFile] = useState<File | null>(null);
+  const [pendingReport, setPendingReport] = useState<AttendanceReport | null>(null);
+  const [profileId, setProfileId] = useState<number | null>(null);
 
   const handleProcessFiles = async () => {
     if (!attendanceFile || !userFile) {
@@ -29,10 +33,15 @@ export default function FileUploader({ onUploadSuccess, settings }: FileUploader
     setError(null);
 
     try {
-      const response = await uploadAttendanceFile(attendanceFile, userFile, settings);
+      const response = await uploadAttendanceFile(attendanceFile, userFile, settings, profileId ?? undefined);
       
       if (response.success && response.report) {
         setUploadState('success');
+        // Hold on the success screen when some lines were rejected so they can be reviewed
+        if (response.report.diagnostics?.issues.length) {
+          setPendingReport(response.report);
+          return;
+        }
         setTimeout(() => {
           onUploadSuccess(response.report!);
         }, 500);
@@ -48,10 +57,8 @@ export default function FileUploader({ onUploadSuccess, settings }: FileUploader
   const onAttendanceDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
     if (file) {
-      if (!file.name.toUpperCase().startsWith('C')) {
-        setError('Attendance file name must start with "C"');
-        return;
-      }
+      // The server checks the name: text device exports are named C*.dat,
+      // while binary logs and profile imports can be named anything
       setAttendanceFile(file);
       setError(null);
     }
@@ -71,11 +78,18 @@ export default function FileUploader({ onUploadSuccess, settings }: FileUploader
 
   const attendanceDropzone = useDropzone({
     onDrop: onAttendanceDrop,
-    accept: {
-      'application/octet-stream': ['.dat'],
-      'text/plain': ['.txt'],
-      'text/csv': ['.csv'],
-    },
+    accept:
+      profileId === null
+        ? {
+            'application/octet-stream': ['.dat'],
+            'text/plain': ['.txt'],
+            'text/csv': ['.csv'],
+          }
+        : {
+            'text/plain': ['.txt'],
+            'text/csv': ['.csv'],
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+          },
     maxFiles: 1,
     disabled: uploadState === 'uploading' || uploadState === 'success',
   });
@@ -94,6 +108,7 @@ export default function FileUploader({ onUploadSuccess, settings }: FileUploader
     setError(null);
     setAttendanceFile(null);
     setUserFile(null);
+    setPendingReport(null);
   };
 
   const isProcessEnabled = attendanceFile && userFile && uploadState === 'idle';
@@ -135,9 +150,26 @@ export default function FileUploader({ onUploadSuccess, settings }: FileUploader
             <h3 className="text-xl font-semibold text-accent-cyan mb-2">
               Upload Successful!
             </h3>
-            <p className="text-midnight-400">
-              Loading your attendance report...
-            </p>
+            {pendingReport?.diagnostics ? (
+              <div className="w-full space-y-4 mt-2">
+                <ImportDiagnosticsPanel
+                  diagnostics={pendingReport.diagnostics}
+                  fileName={pendingReport.fileName}
+                />
+                <div className="flex justify-center">
+                  <button
+                    onClick={() => onUploadSuccess(pendingReport)}
+                    className="px-6 py-2.5 rounded-xl bg-accent-cyan text-midnight-950 font-medium hover:bg-accent-cyan/90 transition-colors"
+                  >
+                    Continue to Report
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-midnight-400">
+                Loading your attendance report...
+              </p>
+            )}
           </motion.div>
         )}
 
@@ -149,6 +181,18 @@ export default function FileUploader({ onUploadSuccess, settings }: FileUploader
             exit={{ opacity: 0 }}
             className="space-y-6"
           >
+            {/* Attendance file format */}
+            <div className="flex items-center justify-end gap-3">
+              <span className="text-sm text-midnight-400">Attendance format</span>
+              <ImportProfileSelect
+                value={profileId}
+                onChange={(id) => {
+                  setProfileId(id);
+                  setAttendanceFile(null);
+                }}
+              />
+            </div>
+
             {/* Dual File Upload Grid */}
             <div className="grid md:grid-cols-2 gap-6">
               {/* Attendance File Upload */}
@@ -198,7 +242,7 @@ export default function FileUploader({ onUploadSuccess, settings }: FileUploader
                       </p>
                       <div className="flex items-center gap-2 text-xs text-midnight-500">
                         <FileText className="w-3 h-3" />
-                        <span>.dat, .txt, .csv</span>
+                        <span>{profileId === null ? '.dat, .txt, .csv' : '.csv, .txt, .xlsx'}</span>
                       </div>
                     </>
                   )}
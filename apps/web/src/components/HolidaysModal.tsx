@@ -0,0 +1,304 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import type { Holiday } from '@attendance/shared';
+import {
+  deleteHoliday,
+  getHolidays,
+  getV2Employees,
+  saveHoliday,
+  updateEmployeeLocation,
+  type V2Employee,
+} from '../services/api';
+import { cn } from '../lib/utils';
+
+interface HolidaysModalProps {
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type Tab = 'holidays' | 'locations';
+
+const TAB_LABELS: Record<Tab, string> = {
+  holidays: 'Holidays',
+  locations: 'Employee Locations',
+};
+
+const EMPTY_HOLIDAY: Holiday = {
+  date: '',
+  name: '',
+  isPaid: true,
+  location: null,
+};
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-midnight-800 border border-midnight-700 text-midnight-100 text-sm focus:outline-none focus:border-accent-cyan/50';
+
+function errorMessage(err: unknown, fallback: string): string {
+  const e = err as { response?: { data?: { message?: string } }; message?: string };
+  return e.response?.data?.message || e.message || fallback;
+}
+
+/**
+ * The holiday calendar, for everyone or for one location, and the location
+ * each employee works at
+ */
+export default function HolidaysModal({ onClose, onChanged }: HolidaysModalProps) {
+  const [tab, setTab] = useState<Tab>('holidays');
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [employees, setEmployees] = useState<V2Employee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [draft, setDraft] = useState<Holiday>(EMPTY_HOLIDAY);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [loadedHolidays, loadedEmployees] = await Promise.all([getHolidays(), getV2Employees()]);
+      setHolidays(loadedHolidays);
+      setEmployees([...loadedEmployees].sort((a, b) => a.biometric_id - b.biometric_id));
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to load holidays'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await load();
+      onChanged();
+    } catch (err: unknown) {
+      alert('Error: ' + errorMessage(err, fallback));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const locations = [...new Set(employees.map((e) => e.location).filter((l): l is string => !!l))].sort();
+
+  const saveLocation = (employee: V2Employee, value: string) => {
+    const location = value.trim() || null;
+    if (location === employee.location) return;
+    run(async () => {
+      await updateEmployeeLocation(employee.biometric_id, location);
+    }, 'Failed to save location');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-midnight-950/80 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="relative w-full max-w-4xl max-h-[90vh] flex flex-col bg-midnight-900 rounded-2xl shadow-2xl overflow-hidden border border-midnight-700/50"
+      >
+        <div className="flex items-center justify-between px-6 py-4 bg-midnight-800/50 border-b border-midnight-700/50">
+          <div>
+            <h2 className="text-lg font-semibold text-midnight-100">Holidays</h2>
+            <p className="text-sm text-midnight-400">
+              Days without punches on a holiday are holidays, not absences; working one is flagged for payout
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-midnight-700 text-midnight-400 hover:text-midnight-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 px-6 pt-4">
+          {(['holidays', 'locations'] as Tab[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={cn(
+                'px-4 py-1.5 rounded-lg text-sm transition-colors',
+                tab === value ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-400 hover:bg-midnight-800',
+              )}
+            >
+              {TAB_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 text-accent-cyan animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="px-6 py-10 text-sm text-accent-pink">{error}</p>
+        ) : tab === 'holidays' ? (
+          <div className="flex flex-1 min-h-0 mt-4 border-t border-midnight-700/50">
+            {/* Holiday list */}
+            <div className="w-64 shrink-0 border-r border-midnight-700/50 overflow-y-auto p-3 space-y-1">
+              <button
+                onClick={() => setDraft(EMPTY_HOLIDAY)}
+                className={cn(
+                  'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors',
+                  !draft.id ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-300 hover:bg-midnight-800',
+                )}
+              >
+                <Plus className="w-4 h-4" />
+                New holiday
+              </button>
+              {holidays.map((holiday) => (
+                <button
+                  key={holiday.id}
+                  onClick={() => setDraft(holiday)}
+                  className={cn(
+                    'w-full px-3 py-2 rounded-lg text-left text-sm transition-colors',
+                    draft.id === holiday.id ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-300 hover:bg-midnight-800',
+                  )}
+                >
+                  <span className="block truncate">{holiday.name}</span>
+                  <span className="block text-xs text-midnight-500 font-mono">
+                    {holiday.date}
+                    {holiday.location && ` · ${holiday.location}`}
+                    {!holiday.isPaid && ' · unpaid'}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {/* Holiday editor */}
+            <div className="flex-1 overflow-y-auto p-6 space-y-5">
+              <div className="grid grid-cols-2 gap-4">
+                <label className="col-span-2 space-y-1">
+                  <span className="text-xs text-midnight-400">Name</span>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="e.g. Diwali"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Date</span>
+                  <input
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Location (empty = everyone)</span>
+                  <input
+                    value={draft.location ?? ''}
+                    onChange={(e) => setDraft({ ...draft, location: e.target.value || null })}
+                    list="holiday-locations"
+                    placeholder="All locations"
+                    className={inputClass}
+                  />
+                  <datalist id="holiday-locations">
+                    {locations.map((location) => (
+                      <option key={location} value={location} />
+                    ))}
+                  </datalist>
+                </label>
+                <label className="col-span-2 flex items-center gap-2 text-sm text-midnight-200">
+                  <input
+                    type="checkbox"
+                    checked={draft.isPaid}
+                    onChange={(e) => setDraft({ ...draft, isPaid: e.target.checked })}
+                    className="accent-accent-cyan"
+                  />
+                  Paid holiday
+                </label>
+              </div>
+              <p className="text-xs text-midnight-500">
+                Paid holidays are paid at the day rate in the payout calculator. A location holiday replaces one for
+                everyone on the same date for employees at that location.
+              </p>
+
+              <div className="flex items-center justify-between">
+                {draft.id ? (
+                  <button
+                    onClick={() =>
+                      run(async () => {
+                        await deleteHoliday(draft.id!);
+                        setDraft(EMPTY_HOLIDAY);
+                      }, 'Failed to delete holiday')
+                    }
+                    disabled={saving}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-midnight-400 hover:text-accent-pink text-sm transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  onClick={() =>
+                    run(async () => {
+                      setDraft(await saveHoliday(draft));
+                    }, 'Failed to save holiday')
+                  }
+                  disabled={saving || !draft.name.trim() || !draft.date}
+                  className="inline-flex items-center gap-2 px-5 py-2 rounded-xl bg-accent-cyan text-midnight-950 font-medium hover:bg-accent-cyan/90 transition-colors disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  {draft.id ? 'Save Changes' : 'Add Holiday'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : employees.length === 0 ? (
+          <p className="px-6 py-10 text-sm text-midnight-400">Upload attendance or users to add employees first.</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-3">
+            <p className="text-xs text-midnight-500">
+              Holidays with a location apply only to employees at that location. Employees without one get only the
+              holidays for everyone.
+            </p>
+            <table className="w-full text-sm">
+              <tbody>
+                {employees.map((employee) => (
+                  <tr key={employee.biometric_id} className="border-t border-midnight-800/50">
+                    <td className="py-2 text-midnight-200">
+                      {employee.name ? `${employee.name} (${employee.biometric_id})` : `Employee ${employee.biometric_id}`}
+                    </td>
+                    <td className="py-2 w-64">
+                      <input
+                        defaultValue={employee.location ?? ''}
+                        onBlur={(e) => saveLocation(employee, e.target.value)}
+                        list="holiday-locations"
+                        placeholder="No location"
+                        disabled={saving}
+                        className={inputClass}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <datalist id="holiday-locations">
+              {locations.map((location) => (
+                <option key={location} value={location} />
+              ))}
+            </datalist>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FileText, Loader2, RotateCcw, Users, X } from 'lucide-react';
+import { getImportBatches, rollbackImportBatch, type V2ImportBatch } from '../services/api';
+import { cn } from '../lib/utils';
+
+interface ImportBatchesModalProps {
+  onClose: () => void;
+  onRolledBack: () => void;
+}
+
+function formatUploadedAt(value: string): string {
+  return new Date(value).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function ImportBatchesModal({ onClose, onRolledBack }: ImportBatchesModalProps) {
+  const [batches, setBatches] = useState<V2ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmBatchId, setConfirmBatchId] = useState<number | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null);
+
+  const loadBatches = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setBatches(await getImportBatches());
+    } catch (err: unknown) {
+      const e = err as { message?: string };
+      setError(e.message || 'Failed to load import history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const handleRollback = async (batchId: number) => {
+    setConfirmBatchId(null);
+    setRollingBackId(batchId);
+    try {
+      const result = await rollbackImportBatch(batchId);
+      alert(result.message);
+      await loadBatches();
+      onRolledBack();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } }; message?: string };
+      alert('Error: ' + (e.response?.data?.message || e.message || 'Rollback failed'));
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-midnight-950/80 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="relative w-full max-w-4xl max-h-[90vh] flex flex-col bg-midnight-900 rounded-2xl shadow-2xl overflow-hidden border border-midnight-700/50"
+      >
+        <div className="flex items-center justify-between px-6 py-4 bg-midnight-800/50 border-b border-midnight-700/50">
+          <div>
+            <h2 className="text-lg font-semibold text-midnight-100">Import History</h2>
+            <p className="text-sm text-midnight-400">Roll back an attendance upload to remove its punches</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-midnight-700 text-midnight-400 hover:text-midnight-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 text-accent-cyan animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="px-6 py-8 text-center text-accent-pink">{error}</p>
+          ) : batches.length === 0 ? (
+            <p className="px-6 py-8 text-center text-midnight-500">No files have been imported yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-midnight-900">
+                <tr className="text-xs text-midnight-400">
+                  <th className="px-6 py-3 text-left font-medium">File</th>
+                  <th className="px-4 py-3 text-left font-medium">Uploaded</th>
+                  <th className="px-4 py-3 text-right font-medium">Lines</th>
+                  <th className="px-4 py-3 text-right font-medium">Added</th>
+                  <th className="px-4 py-3 text-right font-medium">Skipped</th>
+                  <th className="px-6 py-3 text-right font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map((batch) => {
+                  const rolledBack = batch.rolled_back_at !== null;
+                  return (
+                    <tr
+                      key={batch.id}
+                      className={cn('border-t border-midnight-800/50', rolledBack && 'opacity-50')}
+                    >
+                      <td className="px-6 py-3">
+                        <div className="flex items-center gap-2">
+                          {batch.kind === 'USERS' ? (
+                            <Users className="w-4 h-4 text-accent-cyan shrink-0" />
+                          ) : (
+                            <FileText className="w-4 h-4 text-accent-pink shrink-0" />
+                          )}
+                          <div className="min-w-0">
+                            <p className={cn('text-midnight-200 truncate', rolledBack && 'line-through')}>
+                              {batch.file_name}
+                            </p>
+                            <p className="text-xs text-midnight-500 font-mono" title={batch.file_hash}>
+                              #{batch.id} • {batch.file_hash.substring(0, 12)}
+                            </p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-midnight-300 whitespace-nowrap">{formatUploadedAt(batch.uploaded_at)}</td>
+                      <td className="px-4 py-3 text-right font-mono text-midnight-300">{batch.total_lines}</td>
+                      <td className="px-4 py-3 text-right font-mono text-accent-cyan">
+                        {batch.inserted_count}
+                        {batch.updated_count > 0 && (
+                          <span className="text-midnight-500"> +{batch.updated_count} upd</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono text-midnight-400">{batch.skipped_count}</td>
+                      <td className="px-6 py-3 text-right whitespace-nowrap">
+                        {rolledBack ? (
+                          <span className="text-xs text-midnight-500">
+                            Rolled back {formatUploadedAt(batch.rolled_back_at!)}
+                          </span>
+                        ) : batch.kind !== 'ATTENDANCE' ? null : rollingBackId === batch.id ? (
+                          <Loader2 className="w-4 h-4 text-accent-orange animate-spin inline" />
+                        ) : confirmBatchId === batch.id ? (
+                          <div className="inline-flex items-center gap-2">
+                            <span className="text-xs text-midnight-300">Delete {batch.inserted_count} punches?</span>
+                            <button
+                              onClick={() => handleRollback(batch.id)}
+                              className="px-2 py-0.5 text-xs font-bold bg-red-50 text-red-600 hover:bg-red-100 rounded transition-colors"
+                            >
+                              Yes
+                            </button>
+                            <button
+                              onClick={() => setConfirmBatchId(null)}
+                              className="px-2 py-0.5 text-xs font-medium text-midnight-400 hover:text-midnight-200 rounded transition-colors"
+                            >
+                              No
+                            </button>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => setConfirmBatchId(batch.id)}
+                            disabled={rollingBackId !== null}
+                            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-midnight-800 border border-midnight-700 hover:border-accent-orange/50 text-midnight-300 hover:text-accent-orange text-xs font-medium transition-all disabled:opacity-50"
+                          >
+                            <RotateCcw className="w-3.5 h-3.5" />
+                            Roll back
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
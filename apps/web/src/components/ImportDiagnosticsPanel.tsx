@@ -0,0 +1,100 @@
+import { AlertTriangle, CheckCircle, Download } from 'lucide-react';
+import type { ImportDiagnostics, ImportIssueReason } from '@attendance/shared';
+import { getImportIssueLabel, importDiagnosticsToCsv } from '@attendance/shared';
+
+interface ImportDiagnosticsPanelProps {
+  diagnostics: ImportDiagnostics;
+  fileName?: string;
+}
+
+const MAX_VISIBLE_ISSUES = 200;
+
+export default function ImportDiagnosticsPanel({ diagnostics, fileName }: ImportDiagnosticsPanelProps) {
+  const reasons = (Object.keys(diagnostics.counts) as ImportIssueReason[]).filter(
+    (reason) => diagnostics.counts[reason] > 0,
+  );
+  const importedLines = diagnostics.totalLines - diagnostics.issues.length;
+
+  const handleDownloadCsv = () => {
+    const blob = new Blob([importDiagnosticsToCsv(diagnostics)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(fileName || 'attendance').replace(/\.[^.]+$/, '')}-import-issues.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-2xl bg-midnight-900/50 border border-midnight-700/50 overflow-hidden text-left">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-midnight-800">
+        <div className="flex items-center gap-2 text-sm">
+          {diagnostics.issues.length === 0 ? (
+            <CheckCircle className="w-4 h-4 text-accent-cyan" />
+          ) : (
+            <AlertTriangle className="w-4 h-4 text-accent-orange" />
+          )}
+          <span className="text-midnight-200 font-medium">
+            {importedLines} of {diagnostics.totalLines} lines imported
+          </span>
+          {diagnostics.issues.length > 0 && (
+            <span className="text-midnight-500">• {diagnostics.issues.length} skipped</span>
+          )}
+        </div>
+        {diagnostics.issues.length > 0 && (
+          <button
+            onClick={handleDownloadCsv}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-midnight-800 border border-midnight-700 hover:border-accent-cyan/50 text-midnight-200 hover:text-accent-cyan text-xs font-medium transition-all"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Download CSV
+          </button>
+        )}
+      </div>
+
+      {reasons.length > 0 && (
+        <div className="flex flex-wrap gap-2 px-4 py-3 border-b border-midnight-800">
+          {reasons.map((reason) => (
+            <span
+              key={reason}
+              className="flex items-center gap-1.5 text-xs bg-accent-orange/10 text-accent-orange px-2 py-1 rounded-lg"
+            >
+              {getImportIssueLabel(reason)}
+              <span className="font-mono font-semibold">{diagnostics.counts[reason]}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {diagnostics.issues.length > 0 && (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-midnight-900">
+              <tr className="text-midnight-400">
+                <th className="px-4 py-2 text-left font-medium">Line</th>
+                <th className="px-4 py-2 text-left font-medium">Reason</th>
+                <th className="px-4 py-2 text-left font-medium">Raw Text</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diagnostics.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue) => (
+                <tr key={`${issue.line}-${issue.reason}`} className="border-t border-midnight-800/50" title={issue.message}>
+                  <td className="px-4 py-1.5 font-mono text-midnight-400">{issue.line}</td>
+                  <td className="px-4 py-1.5 text-accent-orange whitespace-nowrap">{getImportIssueLabel(issue.reason)}</td>
+                  <td className="px-4 py-1.5 font-mono text-midnight-300 truncate max-w-xs">{issue.raw}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {diagnostics.issues.length > MAX_VISIBLE_ISSUES && (
+            <p className="px-4 py-2 text-xs text-midnight-500 border-t border-midnight-800">
+              Showing first {MAX_VISIBLE_ISSUES} issues. Download the CSV for the full list.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { motion } from 'framer-motion';
+import { AlertTriangle, ArrowRight, Check, Copy, Loader2, X } from 'lucide-react';
+import type { ImportPreview, ImportStatusChange } from '@attendance/shared';
+import ImportDiagnosticsPanel from './ImportDiagnosticsPanel';
+import { formatDate, getStatusConfig } from '../lib/utils';
+
+interface ImportPreviewModalProps {
+  preview: ImportPreview;
+  fileName: string;
+  confirming: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function groupByMonth(changes: ImportStatusChange[]): [string, ImportStatusChange[]][] {
+  const months = new Map<string, ImportStatusChange[]>();
+  for (const change of changes) {
+    const month = change.date.substring(0, 7);
+    if (!months.has(month)) months.set(month, []);
+    months.get(month)!.push(change);
+  }
+  return [...months.entries()];
+}
+
+function formatMonth(month: string): string {
+  const [year, monthNum] = month.split('-').map(Number);
+  return new Date(year, monthNum - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+}
+
+function StatusPill({ status }: { status: string | null }) {
+  if (!status) {
+    return <span className="text-midnight-500 italic">none</span>;
+  }
+  const config = getStatusConfig(status);
+  return (
+    <span className="px-2 py-0.5 rounded-md text-xs font-medium" style={{ color: config.color, backgroundColor: `${config.color}1a` }}>
+      {config.label}
+    </span>
+  );
+}
+
+export default function ImportPreviewModal({
+  preview,
+  fileName,
+  confirming,
+  onConfirm,
+  onCancel,
+}: ImportPreviewModalProps) {
+  const stats = [
+    { label: 'New Punches', value: preview.newPunches, color: 'text-accent-cyan' },
+    { label: 'Already Stored', value: preview.duplicatePunches, color: 'text-midnight-300' },
+    { label: 'New Employees', value: preview.unknownBiometricIds.length, color: 'text-accent-orange' },
+    { label: 'Status Changes', value: preview.statusChanges.length, color: 'text-accent-pink' },
+  ];
+  const nothingToImport = preview.newPunches === 0;
+  const isSameFile = preview.warnings.some((warning) => warning.kind === 'SAME_FILE');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-midnight-950/80 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && !confirming && onCancel()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-midnight-900 rounded-2xl shadow-2xl overflow-hidden border border-midnight-700/50"
+      >
+        <div className="flex items-center justify-between px-6 py-4 bg-midnight-800/50 border-b border-midnight-700/50">
+          <div>
+            <h2 className="text-lg font-semibold text-midnight-100">Import Preview</h2>
+            <p className="text-sm text-midnight-400">{fileName} — nothing has been saved yet</p>
+          </div>
+          <button
+            onClick={onCancel}
+            disabled={confirming}
+            className="p-2 rounded-lg hover:bg-midnight-700 text-midnight-400 hover:text-midnight-200 transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {preview.warnings.length > 0 && (
+            <div className="space-y-2">
+              {preview.warnings.map((warning) => (
+                <div
+                  key={`${warning.kind}-${warning.batchId}`}
+                  className="flex items-start gap-3 rounded-xl bg-accent-pink/10 border border-accent-pink/30 px-4 py-3 text-sm"
+                >
+                  {warning.kind === 'SAME_FILE' ? (
+                    <Copy className="w-4 h-4 text-accent-pink shrink-0 mt-0.5" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 text-accent-pink shrink-0 mt-0.5" />
+                  )}
+                  <span className="text-midnight-200">{warning.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map((stat) => (
+              <div key={stat.label} className="rounded-xl bg-midnight-800/50 border border-midnight-700/50 px-4 py-3">
+                <p className="text-xs text-midnight-400">{stat.label}</p>
+                <p className={`text-2xl font-bold font-mono ${stat.color}`}>{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {preview.unknownBiometricIds.length > 0 && (
+            <div className="rounded-xl bg-accent-orange/10 border border-accent-orange/20 px-4 py-3 text-sm">
+              <p className="text-accent-orange font-medium mb-1">
+                These biometric IDs have no employee record and will be created:
+              </p>
+              <p className="font-mono text-midnight-200 break-words">{preview.unknownBiometricIds.join(', ')}</p>
+            </div>
+          )}
+
+          <div className="rounded-2xl bg-midnight-900/50 border border-midnight-700/50 overflow-hidden">
+            <div className="px-4 py-3 border-b border-midnight-800 text-sm text-midnight-200 font-medium">
+              Day Status Changes
+              {preview.newAbsentDays > 0 && (
+                <span className="ml-2 text-midnight-500 font-normal">
+                  • {preview.newAbsentDays} new days filled in as Absent
+                </span>
+              )}
+            </div>
+            {preview.statusChanges.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-midnight-500">No existing day would change status.</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto">
+                {groupByMonth(preview.statusChanges).map(([month, changes]) => (
+                  <div key={month}>
+                    <div className="sticky top-0 bg-midnight-900 px-4 py-2 text-xs font-semibold text-midnight-400 uppercase tracking-wide">
+                      {formatMonth(month)} — {changes.length} days
+                    </div>
+                    <table className="w-full text-xs">
+                      <tbody>
+                        {changes.map((change) => (
+                          <tr key={`${change.userId}-${change.date}`} className="border-t border-midnight-800/50">
+                            <td className="px-4 py-1.5 text-midnight-300 whitespace-nowrap">{formatDate(change.date)}</td>
+                            <td className="px-4 py-1.5 text-midnight-200">
+                              {change.userName || `Employee ${change.userId}`}
+                              <span className="ml-1 text-midnight-500 font-mono">#{change.userId}</span>
+                            </td>
+                            <td className="px-4 py-1.5">
+                              <div className="flex items-center gap-2">
+                                <StatusPill status={change.before} />
+                                <ArrowRight className="w-3 h-3 text-midnight-500" />
+                                <StatusPill status={change.after} />
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <ImportDiagnosticsPanel diagnostics={preview.diagnostics} fileName={fileName} />
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-midnight-700/50 bg-midnight-800/30">
+          <button
+            onClick={onCancel}
+            disabled={confirming}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-midnight-300 hover:bg-midnight-700 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={confirming || nothingToImport}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-accent-cyan/20 text-accent-cyan hover:bg-accent-cyan/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {confirming ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            {nothingToImport
+              ? 'Nothing to Import'
+              : isSameFile
+              ? `Import Again (${preview.newPunches} Punches)`
+              : `Import ${preview.newPunches} Punches`}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
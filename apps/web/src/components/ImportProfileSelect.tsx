@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { SlidersHorizontal } from 'lucide-react';
+import type { ImportProfile } from '@attendance/shared';
+import { getImportProfiles } from '../services/api';
+import ImportProfilesModal from './ImportProfilesModal';
+
+interface ImportProfileSelectProps {
+  value: number | null;
+  onChange: (profileId: number | null) => void;
+}
+
+/**
+ * Picks how an attendance file is read: device export, or a column-mapping profile
+ */
+export default function ImportProfileSelect({ value, onChange }: ImportProfileSelectProps) {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [showManage, setShowManage] = useState(false);
+
+  const loadProfiles = async () => {
+    try {
+      const loaded = await getImportProfiles();
+      setProfiles(loaded);
+      // Fall back to the device format if the selected profile was deleted
+      if (value !== null && !loaded.some((p) => p.id === value)) {
+        onChange(null);
+      }
+    } catch {
+      // Profiles live in the database; without it only device exports are available
+      setProfiles([]);
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+        onClick={(e) => e.stopPropagation()}
+        className="px-3 py-2 rounded-lg bg-midnight-900/60 border border-midnight-700/50 text-sm text-midnight-300 focus:outline-none focus:border-accent-cyan/50"
+        title="Attendance file format"
+      >
+        <option value="">Device export (.dat)</option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          setShowManage(true);
+        }}
+        className="p-2 rounded-lg bg-midnight-900/60 border border-midnight-700/50 text-midnight-400 hover:text-accent-cyan hover:border-accent-cyan/50 transition-colors"
+        title="Manage import profiles"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+      </button>
+
+      <AnimatePresence>
+        {showManage && (
+          <ImportProfilesModal
+            onClose={() => {
+              setShowManage(false);
+              loadProfiles();
+            }}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
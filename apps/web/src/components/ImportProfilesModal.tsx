@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import type { ImportColumnRef, ImportProfile, ImportProfileColumns } from '@attendance/shared';
+import { deleteImportProfile, getImportProfiles, saveImportProfile } from '../services/api';
+import { cn } from '../lib/utils';
+
+interface ImportProfilesModalProps {
+  onClose: () => void;
+}
+
+const DELIMITERS: { label: string; value: string | null }[] = [
+  { label: 'Detect', value: null },
+  { label: 'Comma', value: ',' },
+  { label: 'Semicolon', value: ';' },
+  { label: 'Tab', value: '\t' },
+  { label: 'Pipe', value: '|' },
+];
+
+const COLUMN_FIELDS: { key: keyof ImportProfileColumns; label: string; required?: boolean }[] = [
+  { key: 'employeeId', label: 'Employee ID', required: true },
+  { key: 'date', label: 'Date', required: true },
+  { key: 'time', label: 'Time' },
+  { key: 'verifyType', label: 'Verify Type' },
+  { key: 'inOut', label: 'In / Out' },
+];
+
+const EMPTY_PROFILE: ImportProfile = {
+  name: '',
+  delimiter: null,
+  hasHeader: true,
+  columns: { employeeId: '', date: '', time: '', verifyType: '', inOut: '' },
+  dateFormat: 'DD/MM/YYYY',
+  timeFormat: 'HH:mm',
+};
+
+/**
+ * Column inputs take a header name or a 0-based index
+ */
+function toColumnRef(value: string): ImportColumnRef | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : trimmed;
+}
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-midnight-800 border border-midnight-700 text-midnight-100 text-sm focus:outline-none focus:border-accent-cyan/50';
+
+export default function ImportProfilesModal({ onClose }: ImportProfilesModalProps) {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ImportProfile>(EMPTY_PROFILE);
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const loadProfiles = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setProfiles(await getImportProfiles());
+    } catch (err: unknown) {
+      const e = err as { message?: string };
+      setError(e.message || 'Failed to load import profiles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const selectProfile = (profile: ImportProfile) => {
+    setDraft(profile);
+    setConfirmDelete(false);
+  };
+
+  const setColumn = (key: keyof ImportProfileColumns, value: string) => {
+    setDraft({ ...draft, columns: { ...draft.columns, [key]: value } });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const columns = Object.fromEntries(
+        COLUMN_FIELDS.map(({ key }) => [key, toColumnRef(String(draft.columns[key] ?? ''))]),
+      ) as unknown as ImportProfileColumns;
+      const saved = await saveImportProfile({
+        ...draft,
+        columns,
+        timeFormat: columns.time !== null ? draft.timeFormat : null,
+      });
+      await loadProfiles();
+      setDraft(saved);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } }; message?: string };
+      alert('Error: ' + (e.response?.data?.message || e.message || 'Failed to save profile'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+    setConfirmDelete(false);
+    try {
+      await deleteImportProfile(draft.id);
+      setDraft(EMPTY_PROFILE);
+      await loadProfiles();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } }; message?: string };
+      alert('Error: ' + (e.response?.data?.message || e.message || 'Failed to delete profile'));
+    }
+  };
+
+  const timeMapped = String(draft.columns.time ?? '').trim() !== '';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-midnight-950/80 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="relative w-full max-w-4xl max-h-[90vh] flex flex-col bg-midnight-900 rounded-2xl shadow-2xl overflow-hidden border border-midnight-700/50"
+      >
+        <div className="flex items-center justify-between px-6 py-4 bg-midnight-800/50 border-b border-midnight-700/50">
+          <div>
+            <h2 className="text-lg font-semibold text-midnight-100">Import Profiles</h2>
+            <p className="text-sm text-midnight-400">Map the columns of other devices' CSV/XLSX exports</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-midnight-700 text-midnight-400 hover:text-midnight-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Profile list */}
+          <div className="w-56 shrink-0 border-r border-midnight-700/50 overflow-y-auto p-3 space-y-1">
+            <button
+              onClick={() => selectProfile(EMPTY_PROFILE)}
+              className={cn(
+                'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors',
+                !draft.id ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-300 hover:bg-midnight-800',
+              )}
+            >
+              <Plus className="w-4 h-4" />
+              New profile
+            </button>
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-5 h-5 text-accent-cyan animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="px-3 py-4 text-xs text-accent-pink">{error}</p>
+            ) : (
+              profiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  onClick={() => selectProfile(profile)}
+                  className={cn(
+                    'w-full px-3 py-2 rounded-lg text-left text-sm truncate transition-colors',
+                    draft.id === profile.id
+                      ? 'bg-accent-cyan/10 text-accent-cyan'
+                      : 'text-midnight-300 hover:bg-midnight-800',
+                  )}
+                >
+                  {profile.name}
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            <div className="grid grid-cols-2 gap-4">
+              <label className="col-span-2 space-y-1">
+                <span className="text-xs text-midnight-400">Name</span>
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. eSSL X990"
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-midnight-400">Delimiter (CSV)</span>
+                <select
+                  value={draft.delimiter ?? ''}
+                  onChange={(e) => setDraft({ ...draft, delimiter: e.target.value || null })}
+                  className={inputClass}
+                >
+                  {DELIMITERS.map(({ label, value }) => (
+                    <option key={label} value={value ?? ''}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 pt-5">
+                <input
+                  type="checkbox"
+                  checked={draft.hasHeader}
+                  onChange={(e) => setDraft({ ...draft, hasHeader: e.target.checked })}
+                  className="accent-[#00f5d4]"
+                />
+                <span className="text-sm text-midnight-300">First row is a header</span>
+              </label>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-midnight-200 mb-1">Columns</h3>
+              <p className="text-xs text-midnight-500 mb-3">
+                Header name{draft.hasHeader ? '' : ' (needs a header row)'} or 0-based column number
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                {COLUMN_FIELDS.map(({ key, label, required }) => (
+                  <label key={key} className="space-y-1">
+                    <span className="text-xs text-midnight-400">
+                      {label}
+                      {required && <span className="text-accent-pink"> *</span>}
+                    </span>
+                    <input
+                      value={String(draft.columns[key] ?? '')}
+                      onChange={(e) => setColumn(key, e.target.value)}
+                      placeholder={required ? '' : 'Not in file'}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-midnight-200 mb-1">Formats</h3>
+              <p className="text-xs text-midnight-500 mb-3">
+                Tokens: YYYY YY MMM MM M DD D HH H hh h mm ss A. Without a time column, the date format must include
+                the time.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Date format</span>
+                  <input
+                    value={draft.dateFormat}
+                    onChange={(e) => setDraft({ ...draft, dateFormat: e.target.value })}
+                    placeholder="DD/MM/YYYY"
+                    className={cn(inputClass, 'font-mono')}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Time format</span>
+                  <input
+                    value={draft.timeFormat ?? ''}
+                    onChange={(e) => setDraft({ ...draft, timeFormat: e.target.value || null })}
+                    placeholder="HH:mm:ss"
+                    disabled={!timeMapped}
+                    className={cn(inputClass, 'font-mono disabled:opacity-40')}
+                  />
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-midnight-700/50 bg-midnight-800/30">
+          <div>
+            {draft.id &&
+              (confirmDelete ? (
+                <div className="inline-flex items-center gap-2">
+                  <span className="text-xs text-midnight-300">Delete "{draft.name}"?</span>
+                  <button
+                    onClick={handleDelete}
+                    className="px-2 py-0.5 text-xs font-bold bg-red-50 text-red-600 hover:bg-red-100 rounded transition-colors"
+                  >
+                    Yes
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(false)}
+                    className="px-2 py-0.5 text-xs font-medium text-midnight-400 hover:text-midnight-200 rounded transition-colors"
+                  >
+                    No
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmDelete(true)}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-midnight-400 hover:text-accent-pink text-sm transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              ))}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={saving || !draft.name.trim()}
+            className="inline-flex items-center gap-2 px-5 py-2 rounded-xl bg-accent-cyan text-midnight-950 font-medium hover:bg-accent-cyan/90 transition-colors disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {draft.id ? 'Save Changes' : 'Create Profile'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,576 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import type {
+  LeaveApplication,
+  LeaveApplicationStatus,
+  LeaveBalance,
+  LeaveType,
+} from '@attendance/shared';
+import {
+  applyForLeave,
+  decideLeaveApplication,
+  deleteLeaveType,
+  getLeaveApplications,
+  getLeaveBalances,
+  getLeaveTypes,
+  getV2Employees,
+  saveLeaveType,
+  setLeaveOpeningBalance,
+  type V2Employee,
+} from '../services/api';
+import { cn } from '../lib/utils';
+
+interface LeaveModalProps {
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type Tab = 'applications' | 'balances' | 'types';
+
+const TAB_LABELS: Record<Tab, string> = {
+  applications: 'Applications',
+  balances: 'Balances',
+  types: 'Leave Types',
+};
+
+const STATUS_FILTERS: (LeaveApplicationStatus | 'ALL')[] = ['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED', 'ALL'];
+
+const STATUS_CLASSES: Record<LeaveApplicationStatus, string> = {
+  PENDING: 'text-accent-yellow bg-accent-yellow/10',
+  APPROVED: 'text-accent-cyan bg-accent-cyan/10',
+  REJECTED: 'text-accent-pink bg-accent-pink/10',
+  CANCELLED: 'text-midnight-400 bg-midnight-800',
+};
+
+const EMPTY_TYPE: LeaveType = {
+  name: '',
+  isPaid: true,
+  yearlyQuota: 12,
+  accrual: 'YEARLY',
+  carryForwardLimit: 0,
+};
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-midnight-800 border border-midnight-700 text-midnight-100 text-sm focus:outline-none focus:border-accent-cyan/50';
+
+function errorMessage(err: unknown, fallback: string): string {
+  const e = err as { response?: { data?: { message?: string } }; message?: string };
+  return e.response?.data?.message || e.message || fallback;
+}
+
+/**
+ * Leave applications and their approval, each employee's balances, and the
+ * leave types with their quotas
+ */
+export default function LeaveModal({ onClose, onChanged }: LeaveModalProps) {
+  const [tab, setTab] = useState<Tab>('applications');
+  const [types, setTypes] = useState<LeaveType[]>([]);
+  const [employees, setEmployees] = useState<V2Employee[]>([]);
+  const [applications, setApplications] = useState<LeaveApplication[]>([]);
+  const [statusFilter, setStatusFilter] = useState<LeaveApplicationStatus | 'ALL'>('PENDING');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [draft, setDraft] = useState<LeaveType>(EMPTY_TYPE);
+  const [applicationDraft, setApplicationDraft] = useState<LeaveApplication | null>(null);
+
+  const [balanceUser, setBalanceUser] = useState<number | null>(null);
+  const [balanceYear, setBalanceYear] = useState(new Date().getFullYear());
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [loadedTypes, loadedEmployees, loadedApplications] = await Promise.all([
+        getLeaveTypes(),
+        getV2Employees(),
+        getLeaveApplications(statusFilter === 'ALL' ? {} : { status: statusFilter }),
+      ]);
+      const sorted = [...loadedEmployees].sort((a, b) => a.biometric_id - b.biometric_id);
+      setTypes(loadedTypes);
+      setEmployees(sorted);
+      setApplications(loadedApplications);
+      setBalanceUser((current) => current ?? sorted[0]?.biometric_id ?? null);
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to load leave'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (balanceUser === null) return;
+    getLeaveBalances(balanceUser, balanceYear)
+      .then(setBalances)
+      .catch((err: unknown) => alert('Error: ' + errorMessage(err, 'Failed to load balances')));
+  }, [balanceUser, balanceYear]);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await load();
+      onChanged();
+    } catch (err: unknown) {
+      alert('Error: ' + errorMessage(err, fallback));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const employeeName = (userId: number) => {
+    const employee = employees.find((e) => e.biometric_id === userId);
+    return employee?.name ? `${employee.name} (${userId})` : `Employee ${userId}`;
+  };
+  const typeName = (id: number) => types.find((t) => t.id === id)?.name ?? `#${id}`;
+
+  const saveOpening = (balance: LeaveBalance, value: string) => {
+    if (balanceUser === null) return;
+    const openingDays = value.trim() === '' ? null : parseFloat(value);
+    if (openingDays !== null && isNaN(openingDays)) return;
+    run(async () => {
+      await setLeaveOpeningBalance(balanceUser, balance.leaveTypeId, balanceYear, openingDays);
+      setBalances(await getLeaveBalances(balanceUser, balanceYear));
+    }, 'Failed to save opening balance');
+  };
+
+  const employeeSelect = (value: number, onChange: (userId: number) => void) => (
+    <select value={value} onChange={(e) => onChange(parseInt(e.target.value, 10))} className={inputClass}>
+      {employees.map((employee) => (
+        <option key={employee.biometric_id} value={employee.biometric_id}>
+          {employeeName(employee.biometric_id)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-midnight-950/80 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="relative w-full max-w-5xl max-h-[90vh] flex flex-col bg-midnight-900 rounded-2xl shadow-2xl overflow-hidden border border-midnight-700/50"
+      >
+        <div className="flex items-center justify-between px-6 py-4 bg-midnight-800/50 border-b border-midnight-700/50">
+          <div>
+            <h2 className="text-lg font-semibold text-midnight-100">Leave</h2>
+            <p className="text-sm text-midnight-400">
+              Approved leave marks the days without punches in it as Leave; paid leave is paid at the day rate
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-midnight-700 text-midnight-400 hover:text-midnight-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 px-6 pt-4">
+          {(['applications', 'balances', 'types'] as Tab[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={cn(
+                'px-4 py-1.5 rounded-lg text-sm transition-colors',
+                tab === value ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-400 hover:bg-midnight-800',
+              )}
+            >
+              {TAB_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 text-accent-cyan animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="px-6 py-10 text-sm text-accent-pink">{error}</p>
+        ) : tab === 'types' ? (
+          <div className="flex flex-1 min-h-0 mt-4 border-t border-midnight-700/50">
+            {/* Type list */}
+            <div className="w-56 shrink-0 border-r border-midnight-700/50 overflow-y-auto p-3 space-y-1">
+              <button
+                onClick={() => setDraft(EMPTY_TYPE)}
+                className={cn(
+                  'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors',
+                  !draft.id ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-300 hover:bg-midnight-800',
+                )}
+              >
+                <Plus className="w-4 h-4" />
+                New leave type
+              </button>
+              {types.map((type) => (
+                <button
+                  key={type.id}
+                  onClick={() => setDraft(type)}
+                  className={cn(
+                    'w-full px-3 py-2 rounded-lg text-left text-sm transition-colors',
+                    draft.id === type.id ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-300 hover:bg-midnight-800',
+                  )}
+                >
+                  <span className="block truncate">{type.name}</span>
+                  <span className="block text-xs text-midnight-500">
+                    {type.yearlyQuota === null ? 'No limit' : `${type.yearlyQuota} days/year`}
+                    {!type.isPaid && ' · unpaid'}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {/* Type editor */}
+            <div className="flex-1 overflow-y-auto p-6 space-y-5">
+              <div className="grid grid-cols-2 gap-4">
+                <label className="col-span-2 space-y-1">
+                  <span className="text-xs text-midnight-400">Name</span>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="e.g. Casual"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Days per year (empty = no limit)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={draft.yearlyQuota ?? ''}
+                    onChange={(e) =>
+                      setDraft({ ...draft, yearlyQuota: e.target.value === '' ? null : parseInt(e.target.value) || 0 })
+                    }
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Credited</span>
+                  <select
+                    value={draft.accrual}
+                    onChange={(e) => setDraft({ ...draft, accrual: e.target.value as LeaveType['accrual'] })}
+                    className={inputClass}
+                  >
+                    <option value="YEARLY">All on 1 January</option>
+                    <option value="MONTHLY">A twelfth each month</option>
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Carry forward up to (days)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={draft.carryForwardLimit}
+                    onChange={(e) => setDraft({ ...draft, carryForwardLimit: parseInt(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-midnight-200 self-end pb-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.isPaid}
+                    onChange={(e) => setDraft({ ...draft, isPaid: e.target.checked })}
+                    className="accent-accent-cyan"
+                  />
+                  Paid leave
+                </label>
+              </div>
+
+              <div className="flex items-center justify-between">
+                {draft.id ? (
+                  <button
+                    onClick={() =>
+                      run(async () => {
+                        await deleteLeaveType(draft.id!);
+                        setDraft(EMPTY_TYPE);
+                      }, 'Failed to delete leave type')
+                    }
+                    disabled={saving}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-midnight-400 hover:text-accent-pink text-sm transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  onClick={() =>
+                    run(async () => {
+                      setDraft(await saveLeaveType(draft));
+                    }, 'Failed to save leave type')
+                  }
+                  disabled={saving || !draft.name.trim()}
+                  className="inline-flex items-center gap-2 px-5 py-2 rounded-xl bg-accent-cyan text-midnight-950 font-medium hover:bg-accent-cyan/90 transition-colors disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  {draft.id ? 'Save Changes' : 'Create Leave Type'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : employees.length === 0 || types.length === 0 ? (
+          <p className="px-6 py-10 text-sm text-midnight-400">
+            {types.length === 0 ? 'Create a leave type first.' : 'Upload attendance or users to add employees first.'}
+          </p>
+        ) : tab === 'balances' ? (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                {employeeSelect(balanceUser ?? 0, setBalanceUser)}
+              </div>
+              <input
+                type="number"
+                value={balanceYear}
+                onChange={(e) => setBalanceYear(parseInt(e.target.value) || new Date().getFullYear())}
+                className={inputClass}
+                title="Year"
+              />
+            </div>
+            {balanceUser === null ? (
+              <p className="text-sm text-midnight-400">Pick an employee to see their balances.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-midnight-500 text-left">
+                    <th className="py-2 font-normal">Type</th>
+                    <th className="py-2 font-normal w-28">Opening</th>
+                    <th className="py-2 font-normal text-right">Accrued</th>
+                    <th className="py-2 font-normal text-right">Used</th>
+                    <th className="py-2 font-normal text-right">Pending</th>
+                    <th className="py-2 font-normal text-right">Available</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {balances.map((balance) => (
+                    <tr key={`${balanceUser}-${balanceYear}-${balance.leaveTypeId}`} className="border-t border-midnight-800/50">
+                      <td className="py-2 text-midnight-200">{balance.leaveType}</td>
+                      <td className="py-2">
+                        {balance.availableDays === null ? (
+                          <span className="text-midnight-500">-</span>
+                        ) : (
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            defaultValue={balance.openingDays}
+                            onBlur={(e) =>
+                              Number(e.target.value) !== balance.openingDays && saveOpening(balance, e.target.value)
+                            }
+                            disabled={saving}
+                            title="Carried forward; edit to set by hand, clear to carry forward again"
+                            className={inputClass}
+                          />
+                        )}
+                      </td>
+                      <td className="py-2 text-right text-midnight-300">{balance.accruedDays}</td>
+                      <td className="py-2 text-right text-midnight-300">{balance.usedDays}</td>
+                      <td className="py-2 text-right text-midnight-300">{balance.pendingDays}</td>
+                      <td className="py-2 text-right font-medium text-accent-cyan">
+                        {balance.availableDays ?? 'No limit'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex gap-1">
+                {STATUS_FILTERS.map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setStatusFilter(value)}
+                    className={cn(
+                      'px-3 py-1 rounded-lg text-xs transition-colors',
+                      statusFilter === value ? 'bg-midnight-700 text-midnight-100' : 'text-midnight-400 hover:bg-midnight-800',
+                    )}
+                  >
+                    {value.charAt(0) + value.slice(1).toLowerCase()}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() =>
+                  setApplicationDraft({
+                    userId: employees[0].biometric_id,
+                    leaveTypeId: types[0].id!,
+                    fromDate: '',
+                    toDate: '',
+                    reason: null,
+                  })
+                }
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-accent-cyan hover:bg-accent-cyan/10 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Apply
+              </button>
+            </div>
+
+            {applicationDraft && (
+              <div className="grid grid-cols-4 gap-3 p-4 rounded-xl bg-midnight-800/40 border border-midnight-700/50">
+                <div className="col-span-2">
+                  {employeeSelect(applicationDraft.userId, (userId) => setApplicationDraft({ ...applicationDraft, userId }))}
+                </div>
+                <select
+                  value={applicationDraft.leaveTypeId}
+                  onChange={(e) => setApplicationDraft({ ...applicationDraft, leaveTypeId: parseInt(e.target.value, 10) })}
+                  className={cn(inputClass, 'col-span-2')}
+                >
+                  {types.map((type) => (
+                    <option key={type.id} value={type.id}>
+                      {type.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={applicationDraft.fromDate}
+                  onChange={(e) =>
+                    setApplicationDraft({
+                      ...applicationDraft,
+                      fromDate: e.target.value,
+                      toDate: applicationDraft.toDate || e.target.value,
+                    })
+                  }
+                  className={inputClass}
+                  title="From"
+                />
+                <input
+                  type="date"
+                  value={applicationDraft.toDate}
+                  onChange={(e) => setApplicationDraft({ ...applicationDraft, toDate: e.target.value })}
+                  className={inputClass}
+                  title="To (inclusive)"
+                />
+                <input
+                  value={applicationDraft.reason ?? ''}
+                  onChange={(e) => setApplicationDraft({ ...applicationDraft, reason: e.target.value || null })}
+                  placeholder="Reason (optional)"
+                  className={cn(inputClass, 'col-span-2')}
+                />
+                <div className="col-span-4 flex justify-end gap-2">
+                  <button
+                    onClick={() => setApplicationDraft(null)}
+                    className="px-3 py-1.5 rounded-lg text-sm text-midnight-400 hover:bg-midnight-800 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() =>
+                      run(async () => {
+                        await applyForLeave(applicationDraft);
+                        setApplicationDraft(null);
+                      }, 'Failed to apply for leave')
+                    }
+                    disabled={saving || !applicationDraft.fromDate || !applicationDraft.toDate}
+                    className="inline-flex items-center gap-2 px-4 py-1.5 rounded-lg bg-accent-cyan text-midnight-950 text-sm font-medium hover:bg-accent-cyan/90 transition-colors disabled:opacity-50"
+                  >
+                    {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Submit
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {applications.length === 0 ? (
+              <p className="text-sm text-midnight-400">No applications.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {applications.map((application) => (
+                    <tr key={application.id} className="border-t border-midnight-800/50 align-top">
+                      <td className="py-2 text-midnight-200">
+                        {employeeName(application.userId)}
+                        {application.reason && (
+                          <span className="block text-xs text-midnight-500">{application.reason}</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-midnight-300">{typeName(application.leaveTypeId)}</td>
+                      <td className="py-2 font-mono text-xs text-midnight-300">
+                        {application.fromDate}
+                        {application.toDate !== application.fromDate && ` – ${application.toDate}`}
+                        <span className="block text-midnight-500 font-sans">
+                          {application.days} day{application.days === 1 ? '' : 's'}
+                        </span>
+                      </td>
+                      <td className="py-2">
+                        <span className={cn('px-2 py-0.5 rounded-lg text-xs', STATUS_CLASSES[application.status!])}>
+                          {application.status!.charAt(0) + application.status!.slice(1).toLowerCase()}
+                        </span>
+                        {application.decisionNote && (
+                          <span className="block text-xs text-midnight-500 mt-1">{application.decisionNote}</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {application.status === 'PENDING' && (
+                          <>
+                            <button
+                              onClick={() =>
+                                run(async () => {
+                                  await decideLeaveApplication(application.id!, 'approve');
+                                }, 'Failed to approve leave')
+                              }
+                              disabled={saving}
+                              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-accent-cyan hover:bg-accent-cyan/10 rounded-lg transition-colors"
+                            >
+                              <Check className="w-3.5 h-3.5" />
+                              Approve
+                            </button>
+                            <button
+                              onClick={() => {
+                                const note = window.prompt('Reason for rejecting (optional)');
+                                if (note === null) return;
+                                run(async () => {
+                                  await decideLeaveApplication(application.id!, 'reject', note);
+                                }, 'Failed to reject leave');
+                              }}
+                              disabled={saving}
+                              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-accent-pink hover:bg-accent-pink/10 rounded-lg transition-colors"
+                            >
+                              <X className="w-3.5 h-3.5" />
+                              Reject
+                            </button>
+                          </>
+                        )}
+                        {(application.status === 'PENDING' || application.status === 'APPROVED') && (
+                          <button
+                            onClick={() =>
+                              run(async () => {
+                                await decideLeaveApplication(application.id!, 'cancel');
+                              }, 'Failed to cancel leave')
+                            }
+                            disabled={saving}
+                            className="px-2 py-1 text-xs text-midnight-400 hover:text-midnight-200 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
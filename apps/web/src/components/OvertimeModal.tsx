@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Loader2, RotateCcw, X } from 'lucide-react';
+import type { AttendanceReport, OvertimeDecision, OvertimeStatus } from '@attendance/shared';
+import { clearOvertimeDecision, decideOvertime, getOvertimeDecisions } from '../services/api';
+import { cn } from '../lib/utils';
+
+interface OvertimeModalProps {
+  report: AttendanceReport;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const STATUS_FILTERS: (OvertimeStatus | 'ALL')[] = ['PENDING', 'APPROVED', 'REJECTED', 'ALL'];
+
+const STATUS_CLASSES: Record<OvertimeStatus, string> = {
+  PENDING: 'text-accent-yellow bg-accent-yellow/10',
+  APPROVED: 'text-accent-cyan bg-accent-cyan/10',
+  REJECTED: 'text-accent-pink bg-accent-pink/10',
+};
+
+function errorMessage(err: unknown, fallback: string): string {
+  const e = err as { response?: { data?: { message?: string } }; message?: string };
+  return e.response?.data?.message || e.message || fallback;
+}
+
+function formatMinutes(minutes: number): string {
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+/**
+ * The overtime of the report's month that needs approval before payout; a
+ * decision holds while the day's overtime stays at the minutes decided on
+ */
+export default function OvertimeModal({ report, onClose, onChanged }: OvertimeModalProps) {
+  const [statusFilter, setStatusFilter] = useState<OvertimeStatus | 'ALL'>('PENDING');
+  const [decisions, setDecisions] = useState<OvertimeDecision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setDecisions(await getOvertimeDecisions(report.dateRange.from, report.dateRange.to));
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to load overtime decisions'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [report.dateRange.from, report.dateRange.to]);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await load();
+      onChanged();
+    } catch (err: unknown) {
+      alert('Error: ' + errorMessage(err, fallback));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const days = report.users
+    .flatMap((user) =>
+      user.dailyRecords
+        .filter((record) => record.overtimeStatus && record.overtime > 0)
+        .map((record) => ({ user, record, status: record.overtimeStatus! })),
+    )
+    .filter((day) => statusFilter === 'ALL' || day.status === statusFilter)
+    .sort((a, b) => a.record.date.localeCompare(b.record.date) || a.user.userId - b.user.userId);
+
+  const decisionNote = (userId: number, date: string) =>
+    decisions.find((decision) => decision.userId === userId && decision.date === date)?.note;
+
+  const decide = (userId: number, date: string, minutes: number, status: OvertimeDecision['status']) => {
+    const note = window.prompt(status === 'APPROVED' ? 'Note (optional)' : 'Reason for rejecting (optional)');
+    if (note === null) return;
+    run(async () => {
+      await decideOvertime({ userId, date, minutes, status, note: note || null });
+    }, 'Failed to record overtime decision');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-midnight-950/80 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="relative w-full max-w-4xl max-h-[90vh] flex flex-col bg-midnight-900 rounded-2xl shadow-2xl overflow-hidden border border-midnight-700/50"
+      >
+        <div className="flex items-center justify-between px-6 py-4 bg-midnight-800/50 border-b border-midnight-700/50">
+          <div>
+            <h2 className="text-lg font-semibold text-midnight-100">Overtime</h2>
+            <p className="text-sm text-midnight-400">
+              Overtime reaches payout once approved; a day whose overtime changes is pending again
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-midnight-700 text-midnight-400 hover:text-midnight-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 text-accent-cyan animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="px-6 py-10 text-sm text-accent-pink">{error}</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="flex gap-1">
+              {STATUS_FILTERS.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setStatusFilter(value)}
+                  className={cn(
+                    'px-3 py-1 rounded-lg text-xs transition-colors',
+                    statusFilter === value ? 'bg-midnight-700 text-midnight-100' : 'text-midnight-400 hover:bg-midnight-800',
+                  )}
+                >
+                  {value.charAt(0) + value.slice(1).toLowerCase()}
+                </button>
+              ))}
+            </div>
+
+            {!report.settings.overtimeRequiresApproval ? (
+              <p className="text-sm text-midnight-400">
+                Overtime approval is off; turn it on in Settings to review overtime before payout.
+              </p>
+            ) : days.length === 0 ? (
+              <p className="text-sm text-midnight-400">No overtime.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {days.map(({ user, record, status }) => {
+                    const note = decisionNote(user.userId, record.date);
+                    return (
+                      <tr key={`${user.userId}-${record.date}`} className="border-t border-midnight-800/50 align-top">
+                        <td className="py-2 text-midnight-200">{user.userName || `User ${user.userId}`}</td>
+                        <td className="py-2 font-mono text-xs text-midnight-300">
+                          {record.date}
+                          <span className="block text-midnight-500 font-sans">
+                            {record.firstIn ?? '--'} – {record.lastOut ?? '--'}
+                          </span>
+                        </td>
+                        <td className="py-2 font-mono text-xs text-midnight-200">{formatMinutes(record.overtime)}</td>
+                        <td className="py-2">
+                          <span className={cn('px-2 py-0.5 rounded-lg text-xs', STATUS_CLASSES[status])}>
+                            {status.charAt(0) + status.slice(1).toLowerCase()}
+                          </span>
+                          {status !== 'PENDING' && note && (
+                            <span className="block text-xs text-midnight-500 mt-1">{note}</span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          {status !== 'APPROVED' && (
+                            <button
+                              onClick={() => decide(user.userId, record.date, record.overtime, 'APPROVED')}
+                              disabled={saving}
+                              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-accent-cyan hover:bg-accent-cyan/10 rounded-lg transition-colors"
+                            >
+                              <Check className="w-3.5 h-3.5" />
+                              Approve
+                            </button>
+                          )}
+                          {status !== 'REJECTED' && (
+                            <button
+                              onClick={() => decide(user.userId, record.date, record.overtime, 'REJECTED')}
+                              disabled={saving}
+                              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-accent-pink hover:bg-accent-pink/10 rounded-lg transition-colors"
+                            >
+                              <X className="w-3.5 h-3.5" />
+                              Reject
+                            </button>
+                          )}
+                          {status !== 'PENDING' && (
+                            <button
+                              onClick={() =>
+                                run(async () => {
+                                  await clearOvertimeDecision(user.userId, record.date);
+                                }, 'Failed to clear overtime decision')
+                              }
+                              disabled={saving}
+                              title="Back to pending"
+                              className="inline-flex items-center gap-1 px-2 py-1 text-xs text-midnight-400 hover:text-midnight-200 transition-colors"
+                            >
+                              <RotateCcw className="w-3.5 h-3.5" />
+                              Reset
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Wallet, Clock, Calendar, Calculator, IndianRupee, Minus, Plus, Equal, CheckCircle, XCircle, AlertCircle, FileText, Download, Loader2 } from 'lucide-react';
+import { X, Wallet, Clock, Calendar, CalendarOff, CalendarHeart, Plane, AlarmClockMinus, Timer, Calculator, IndianRupee, Minus, Plus, Equal, CheckCircle, XCircle, AlertCircle, FileText, Download, Loader2 } from 'lucide-react';
 import type { UserAttendanceSummary } from '@attendance/shared';
 import { generatePayoutReport } from '../services/api';
 import axios from 'axios';
@@ -13,14 +13,17 @@ interface PayoutModalProps {
     from: string;
     to: string;
   };
+  timeZone?: string;
   onClose: () => void;
 }
 
-export default function PayoutModal({ user, dateRange, onClose }: PayoutModalProps) {
+export default function PayoutModal({ user, dateRange, timeZone, onClose }: PayoutModalProps) {
   const [hourlySalary, setHourlySalary] = useState<string>('');
   const [compDaySalary, setCompDaySalary] = useState<string>('');
   const [bonus, setBonus] = useState<string>('');
   const [dues, setDues] = useState<string>('');
+  const [holidayRate, setHolidayRate] = useState<string>('');
+  const [overtimeRate, setOvertimeRate] = useState<string>('');
   
   // Report preview state
   const [showReport, setShowReport] = useState(false);
@@ -35,6 +38,12 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
     return user.totalWorkingHours + (user.totalWorkingMinutes / 60);
   }, [user.totalWorkingHours, user.totalWorkingMinutes]);
 
+  const holidayWorkHours = user.holidayWorkMinutes / 60;
+  const overtimeHours = user.overtimeMinutes / 60;
+  // Overtime awaiting approval or rejected is not paid
+  const unapprovedOvertimeHours = user.unapprovedOvertimeMinutes / 60;
+  const paidHoursDecimal = Math.max(totalHoursDecimal - unapprovedOvertimeHours, 0);
+
   // Get comp day dates formatted
   const compDayDates = useMemo(() => {
     return user.dailyRecords
@@ -47,25 +56,65 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
       });
   }, [user.dailyRecords]);
 
+  // Paid holidays not worked and paid leave are paid like comp days
+  const paidHolidayDates = useMemo(() => {
+    return user.dailyRecords
+      .filter(record => record.status === 'HOLIDAY' && record.holiday?.isPaid)
+      .map(record => {
+        const date = new Date(record.date);
+        const day = date.toLocaleDateString('en-US', { weekday: 'short' });
+        const dayNum = date.getDate();
+        return `${day} ${dayNum}`;
+      });
+  }, [user.dailyRecords]);
+
+  const paidLeaveDates = useMemo(() => {
+    return user.dailyRecords
+      .filter(record => record.status === 'LEAVE' && record.leave?.isPaid)
+      .map(record => {
+        const date = new Date(record.date);
+        const day = date.toLocaleDateString('en-US', { weekday: 'short' });
+        const dayNum = date.getDate();
+        return `${day} ${dayNum}`;
+      });
+  }, [user.dailyRecords]);
+
   // Calculate payout
   const calculation = useMemo(() => {
     const hourlyRate = parseFloat(hourlySalary) || 0;
     const compRate = parseFloat(compDaySalary) || 0;
     const bonusAmount = parseFloat(bonus) || 0;
     const deductions = parseFloat(dues) || 0;
+    const holidayMultiplier = parseFloat(holidayRate) || 1;
+    const overtimeMultiplier = parseFloat(overtimeRate) || 1;
 
-    const hoursEarning = totalHoursDecimal * hourlyRate;
+    const hoursEarning = paidHoursDecimal * hourlyRate;
     const compEarning = user.compDays * compRate;
-    const totalPayout = hoursEarning + compEarning + bonusAmount - deductions;
+    const paidHolidayEarning = user.paidHolidayDays * compRate;
+    const paidLeaveEarning = user.paidLeaveDays * compRate;
+    // Holiday hours are already in hoursEarning; this is the extra on top
+    const holidayEarning = holidayWorkHours * hourlyRate * Math.max(holidayMultiplier - 1, 0);
+    // Approved overtime hours are also in hoursEarning; this is the extra on top
+    const overtimeEarning = overtimeHours * hourlyRate * Math.max(overtimeMultiplier - 1, 0);
+    // Late / early-out penalties are whole or half days at the day salary
+    const penaltyDeduction = user.penaltyDays * compRate;
+    const totalPayout = hoursEarning + compEarning + paidHolidayEarning + paidLeaveEarning + holidayEarning + overtimeEarning + bonusAmount - deductions - penaltyDeduction;
 
     return {
       hoursEarning,
       compEarning,
+      paidHolidayEarning,
+      paidLeaveEarning,
+      holidayMultiplier,
+      holidayEarning,
+      overtimeMultiplier,
+      overtimeEarning,
       bonusAmount,
       deductions,
+      penaltyDeduction,
       totalPayout,
     };
-  }, [hourlySalary, compDaySalary, bonus, dues, totalHoursDecimal, user.compDays]);
+  }, [hourlySalary, compDaySalary, bonus, dues, holidayRate, overtimeRate, paidHoursDecimal, holidayWorkHours, overtimeHours, user.compDays, user.paidHolidayDays, user.paidLeaveDays, user.penaltyDays]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -85,24 +134,47 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
     userName: user.userName || `User ${user.userId}`,
     dailyRecords: user.dailyRecords,
     dateRange,
+    timeZone,
     summary: {
       totalHours: `${user.totalWorkingHours}h ${String(user.totalWorkingMinutes).padStart(2, '0')}m`,
       presentDays: user.presentDays,
+      halfDays: user.halfDays,
       absentDays: user.absentDays,
       incompleteDays: user.incompleteDays,
       totalDays: user.totalDays,
       compDays: user.compDays,
+      weeklyOffDays: user.weeklyOffDays,
+      holidayDays: user.holidayDays,
+      leaveDays: user.leaveDays,
     },
     payout: {
       hourlySalary: parseFloat(hourlySalary) || 0,
       compDaySalary: parseFloat(compDaySalary) || 0,
       bonus: parseFloat(bonus) || 0,
       dues: parseFloat(dues) || 0,
-      totalHoursDecimal,
+      totalHoursDecimal: paidHoursDecimal,
       hoursEarning: calculation.hoursEarning,
       compEarning: calculation.compEarning,
       totalPayout: calculation.totalPayout,
       compDayDates,
+      paidHolidayDays: user.paidHolidayDays,
+      paidHolidayEarning: calculation.paidHolidayEarning,
+      paidHolidayDates,
+      holidayWorkHours,
+      holidayRate: calculation.holidayMultiplier,
+      holidayEarning: calculation.holidayEarning,
+      paidLeaveDays: user.paidLeaveDays,
+      paidLeaveEarning: calculation.paidLeaveEarning,
+      paidLeaveDates,
+      penaltyDays: user.penaltyDays,
+      penaltyDeduction: calculation.penaltyDeduction,
+      lateDays: user.lateDays,
+      earlyOutDays: user.earlyOutDays,
+      veryLateDays: user.veryLateDays,
+      overtimeHours,
+      overtimeRate: calculation.overtimeMultiplier,
+      overtimeEarning: calculation.overtimeEarning,
+      unapprovedOvertimeHours,
     },
   });
 
@@ -282,7 +354,7 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
               </div>
 
               {/* Stats Grid - Muted colors */}
-              <div className="grid grid-cols-5 gap-2">
+              <div className="grid grid-cols-8 gap-2">
                 {/* Total Hours */}
                 <div className="bg-midnight-900/50 rounded-lg p-2.5 text-center border border-white/5">
                   <Clock className="w-3.5 h-3.5 text-midnight-400 mx-auto mb-1" />
@@ -304,11 +376,41 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
                   <p className="text-[10px] text-midnight-500 mt-0.5">Absent</p>
                 </div>
                 
-                {/* Comp Off */}
-                <div className="bg-midnight-900/50 rounded-lg p-2.5 text-center border border-white/5">
+                {/* Comp Off, with the credits left in the comp-off ledger */}
+                <div
+                  className="bg-midnight-900/50 rounded-lg p-2.5 text-center border border-white/5"
+                  title={
+                    user.compOffBalance &&
+                    `Comp-off credits: ${user.compOffBalance.earnedDays} earned, ${user.compOffBalance.usedDays} used, ${user.compOffBalance.expiredDays} expired`
+                  }
+                >
                   <Calendar className="w-3.5 h-3.5 text-amber-500/60 mx-auto mb-1" />
                   <p className="text-sm font-semibold text-amber-400/70">{user.compDays}</p>
                   <p className="text-[10px] text-midnight-500 mt-0.5">Comp</p>
+                  {user.compOffBalance && (
+                    <p className="text-[10px] text-amber-400/50">{user.compOffBalance.availableDays} left</p>
+                  )}
+                </div>
+                
+                {/* Weekly Off */}
+                <div className="bg-midnight-900/50 rounded-lg p-2.5 text-center border border-white/5">
+                  <CalendarOff className="w-3.5 h-3.5 text-slate-400/60 mx-auto mb-1" />
+                  <p className="text-sm font-semibold text-slate-300/70">{user.weeklyOffDays}</p>
+                  <p className="text-[10px] text-midnight-500 mt-0.5">Weekly Off</p>
+                </div>
+                
+                {/* Holidays */}
+                <div className="bg-midnight-900/50 rounded-lg p-2.5 text-center border border-white/5">
+                  <CalendarHeart className="w-3.5 h-3.5 text-violet-400/60 mx-auto mb-1" />
+                  <p className="text-sm font-semibold text-violet-300/70">{user.holidayDays}</p>
+                  <p className="text-[10px] text-midnight-500 mt-0.5">Holiday</p>
+                </div>
+                
+                {/* Leave */}
+                <div className="bg-midnight-900/50 rounded-lg p-2.5 text-center border border-white/5">
+                  <Plane className="w-3.5 h-3.5 text-sky-400/60 mx-auto mb-1" />
+                  <p className="text-sm font-semibold text-sky-300/70">{user.leaveDays}</p>
+                  <p className="text-[10px] text-midnight-500 mt-0.5">Leave</p>
                 </div>
                 
                 {/* Incomplete */}
@@ -353,7 +455,7 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
 
                 {/* Comp Day Salary */}
                 <div className="bg-white/5 rounded-xl p-3 border border-amber-500/10">
-                  <label className="block text-[10px] font-medium text-amber-400/60 mb-1.5 uppercase tracking-wide">Comp Day Salary</label>
+                  <label className="block text-[10px] font-medium text-amber-400/60 mb-1.5 uppercase tracking-wide">Day Salary (Comp / Paid Holiday / Paid Leave / Penalty)</label>
                   <div className="relative">
                     <div className="absolute left-3 top-1/2 -translate-y-1/2 text-amber-500/50">
                       <IndianRupee className="w-4 h-4" />
@@ -419,6 +521,60 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
                     />
                   </div>
                 </div>
+
+                {/* Holiday Rate - Only show if holidays were worked */}
+                {user.holidayWorkDays > 0 && (
+                  <div className="col-span-2 bg-white/5 rounded-xl p-3 border border-violet-500/10">
+                    <label className="block text-[10px] font-medium text-violet-400/60 mb-1.5 uppercase tracking-wide">
+                      Holiday Rate (× hourly) — {user.holidayWorkDays} holiday{user.holidayWorkDays === 1 ? '' : 's'} worked, {holidayWorkHours.toFixed(1)} hrs
+                    </label>
+                    <div className="relative">
+                      <div className="absolute left-3 top-1/2 -translate-y-1/2 text-violet-500/50">
+                        <CalendarHeart className="w-4 h-4" />
+                      </div>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={holidayRate}
+                        onChange={(e) => {
+                          const val = e.target.value;
+                          if (val === '' || /^\d*\.?\d*$/.test(val)) {
+                            setHolidayRate(val);
+                          }
+                        }}
+                        placeholder="1.0"
+                        className="w-full pl-9 pr-3 py-2 bg-midnight-950/50 border border-violet-500/20 rounded-lg text-white placeholder-midnight-600 focus:outline-none focus:ring-1 focus:ring-violet-500/30 focus:border-violet-500/30 transition-all text-base font-medium"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Overtime Rate - Only show if approved overtime was worked */}
+                {user.overtimeMinutes > 0 && (
+                  <div className="col-span-2 bg-white/5 rounded-xl p-3 border border-orange-500/10">
+                    <label className="block text-[10px] font-medium text-orange-400/60 mb-1.5 uppercase tracking-wide">
+                      Overtime Rate (× hourly) — {overtimeHours.toFixed(1)} approved OT hrs
+                    </label>
+                    <div className="relative">
+                      <div className="absolute left-3 top-1/2 -translate-y-1/2 text-orange-500/50">
+                        <Timer className="w-4 h-4" />
+                      </div>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={overtimeRate}
+                        onChange={(e) => {
+                          const val = e.target.value;
+                          if (val === '' || /^\d*\.?\d*$/.test(val)) {
+                            setOvertimeRate(val);
+                          }
+                        }}
+                        placeholder="1.0"
+                        className="w-full pl-9 pr-3 py-2 bg-midnight-950/50 border border-orange-500/20 rounded-lg text-white placeholder-midnight-600 focus:outline-none focus:ring-1 focus:ring-orange-500/30 focus:border-orange-500/30 transition-all text-base font-medium"
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -436,7 +592,10 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
                     <span className="w-5 h-5 rounded bg-white/5 flex items-center justify-center">
                       <Plus className="w-2.5 h-2.5 text-midnight-400" />
                     </span>
-                    <span className="text-midnight-400 text-xs">({totalHoursDecimal.toFixed(1)} hrs × ₹{parseFloat(hourlySalary) || 0})</span>
+                    <span className="text-midnight-400 text-xs">
+                      ({paidHoursDecimal.toFixed(1)} hrs × ₹{parseFloat(hourlySalary) || 0})
+                      {unapprovedOvertimeHours > 0 && ` — excludes ${unapprovedOvertimeHours.toFixed(1)} hrs unapproved OT`}
+                    </span>
                   </span>
                   <span className="font-mono font-medium text-white">{formatCurrency(calculation.hoursEarning)}</span>
                 </div>
@@ -456,6 +615,66 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
                   </div>
                 )}
                 
+                {/* Paid Holidays - Only show if paid holidays exist */}
+                {user.paidHolidayDays > 0 && (
+                  <div className="flex items-center justify-between py-1.5 border-b border-white/5">
+                    <span className="text-midnight-300 flex items-center gap-2">
+                      <span className="w-5 h-5 rounded bg-violet-500/10 flex items-center justify-center">
+                        <Plus className="w-2.5 h-2.5 text-violet-400/70" />
+                      </span>
+                      <span className="text-violet-400/60 text-xs">
+                        ({user.paidHolidayDays} paid holiday × ₹{parseFloat(compDaySalary) || 0})
+                      </span>
+                    </span>
+                    <span className="font-mono font-medium text-violet-400/80">{formatCurrency(calculation.paidHolidayEarning)}</span>
+                  </div>
+                )}
+                
+                {/* Paid Leave - Only show if paid leave was taken */}
+                {user.paidLeaveDays > 0 && (
+                  <div className="flex items-center justify-between py-1.5 border-b border-white/5">
+                    <span className="text-midnight-300 flex items-center gap-2">
+                      <span className="w-5 h-5 rounded bg-sky-500/10 flex items-center justify-center">
+                        <Plus className="w-2.5 h-2.5 text-sky-400/70" />
+                      </span>
+                      <span className="text-sky-400/60 text-xs">
+                        ({user.paidLeaveDays} paid leave × ₹{parseFloat(compDaySalary) || 0})
+                      </span>
+                    </span>
+                    <span className="font-mono font-medium text-sky-400/80">{formatCurrency(calculation.paidLeaveEarning)}</span>
+                  </div>
+                )}
+                
+                {/* Holiday Work Premium */}
+                {calculation.holidayEarning > 0 && (
+                  <div className="flex items-center justify-between py-1.5 border-b border-white/5">
+                    <span className="text-midnight-300 flex items-center gap-2">
+                      <span className="w-5 h-5 rounded bg-violet-500/10 flex items-center justify-center">
+                        <Plus className="w-2.5 h-2.5 text-violet-400/70" />
+                      </span>
+                      <span className="text-violet-400/60 text-xs">
+                        ({holidayWorkHours.toFixed(1)} holiday hrs × ₹{parseFloat(hourlySalary) || 0} × {(calculation.holidayMultiplier - 1).toFixed(2)} extra)
+                      </span>
+                    </span>
+                    <span className="font-mono font-medium text-violet-400/80">{formatCurrency(calculation.holidayEarning)}</span>
+                  </div>
+                )}
+
+                {/* Overtime Premium */}
+                {calculation.overtimeEarning > 0 && (
+                  <div className="flex items-center justify-between py-1.5 border-b border-white/5">
+                    <span className="text-midnight-300 flex items-center gap-2">
+                      <span className="w-5 h-5 rounded bg-orange-500/10 flex items-center justify-center">
+                        <Plus className="w-2.5 h-2.5 text-orange-400/70" />
+                      </span>
+                      <span className="text-orange-400/60 text-xs">
+                        ({overtimeHours.toFixed(1)} OT hrs × ₹{parseFloat(hourlySalary) || 0} × {(calculation.overtimeMultiplier - 1).toFixed(2)} extra)
+                      </span>
+                    </span>
+                    <span className="font-mono font-medium text-orange-400/80">{formatCurrency(calculation.overtimeEarning)}</span>
+                  </div>
+                )}
+                
                 {/* Bonus */}
                 {calculation.bonusAmount > 0 && (
                   <div className="flex items-center justify-between py-1.5 border-b border-white/5">
@@ -481,6 +700,21 @@ export default function PayoutModal({ user, dateRange, onClose }: PayoutModalPro
                     <span className="font-mono font-medium text-rose-400/70">-{formatCurrency(calculation.deductions)}</span>
                   </div>
                 )}
+
+                {/* Late / Early Penalty - Only show if the penalty rules deducted days */}
+                {user.penaltyDays > 0 && (
+                  <div className="flex items-center justify-between py-1.5 border-b border-white/5">
+                    <span className="text-midnight-300 flex items-center gap-2">
+                      <span className="w-5 h-5 rounded bg-rose-500/10 flex items-center justify-center">
+                        <AlarmClockMinus className="w-2.5 h-2.5 text-rose-400/70" />
+                      </span>
+                      <span className="text-rose-400/60 text-xs">
+                        ({user.penaltyDays} penalty day{user.penaltyDays === 1 ? '' : 's'} × ₹{parseFloat(compDaySalary) || 0})
+                      </span>
+                    </span>
+                    <span className="font-mono font-medium text-rose-400/70">-{formatCurrency(calculation.penaltyDeduction)}</span>
+                  </div>
+                )}
                 
                 {/* Total */}
                 <div className="pt-3 mt-2">
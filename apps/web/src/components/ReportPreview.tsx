@@ -10,10 +10,11 @@ interface ReportPreviewProps {
     from: string;
     to: string;
   };
+  timeZone?: string;
   onClose: () => void;
 }
 
-export default function ReportPreview({ user, dateRange, onClose }: ReportPreviewProps) {
+export default function ReportPreview({ user, dateRange, timeZone, onClose }: ReportPreviewProps) {
   const [html, setHtml] = useState<string | null>(null);
   const [filename, setFilename] = useState<string>('');
   const [loading, setLoading] = useState(true);
@@ -30,13 +31,18 @@ export default function ReportPreview({ user, dateRange, onClose }: ReportPrevie
           userName: user.userName || `User ${user.userId}`,
           dailyRecords: user.dailyRecords,
           dateRange,
+          timeZone,
           summary: {
             totalHours: `${user.totalWorkingHours}h ${String(user.totalWorkingMinutes).padStart(2, '0')}m`,
             presentDays: user.presentDays,
+            halfDays: user.halfDays,
             absentDays: user.absentDays,
             incompleteDays: user.incompleteDays,
             totalDays: user.totalDays,
             compDays: user.compDays,
+            weeklyOffDays: user.weeklyOffDays,
+            holidayDays: user.holidayDays,
+            leaveDays: user.leaveDays,
           },
         });
         setHtml(response.html);
@@ -49,7 +55,7 @@ export default function ReportPreview({ user, dateRange, onClose }: ReportPrevie
       }
     };
     fetchReport();
-  }, [user, dateRange]);
+  }, [user, dateRange, timeZone]);
 
   const handleDownload = async () => {
     setDownloading(true);
@@ -59,13 +65,18 @@ export default function ReportPreview({ user, dateRange, onClose }: ReportPrevie
         userName: user.userName || `User ${user.userId}`,
         dailyRecords: user.dailyRecords,
         dateRange,
+        timeZone,
         summary: {
           totalHours: `${user.totalWorkingHours}h ${String(user.totalWorkingMinutes).padStart(2, '0')}m`,
           presentDays: user.presentDays,
+          halfDays: user.halfDays,
           absentDays: user.absentDays,
           incompleteDays: user.incompleteDays,
           totalDays: user.totalDays,
           compDays: user.compDays,
+          weeklyOffDays: user.weeklyOffDays,
+          holidayDays: user.holidayDays,
+          leaveDays: user.leaveDays,
         },
       });
       
@@ -1,20 +1,56 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { X, Settings, Clock, AlertTriangle } from 'lucide-react';
-import type { AttendanceSettings } from '@attendance/shared';
+import { X, Settings, Clock, AlertTriangle, AlarmClockMinus, ArrowLeftRight, Timer, Globe, CalendarOff, CalendarHeart, Coffee, Plus, Trash2 } from 'lucide-react';
+import { DEFAULT_TIME_ZONE } from '@attendance/shared';
+import type { AttendanceSettings, Holiday, OvertimeMode, PairingMode } from '@attendance/shared';
+import { cn } from '../lib/utils';
+import TimeZoneSelect from './TimeZoneSelect';
+import WeekdayPicker from './WeekdayPicker';
+
+const PAIRING_MODES: { value: PairingMode; label: string; description: string }[] = [
+  {
+    value: 'ALTERNATE',
+    label: 'Alternate',
+    description: 'Punches alternate in/out in time order',
+  },
+  {
+    value: 'DEVICE_STATE',
+    label: 'Device state',
+    description: 'Use the check-in/out and break keys pressed on the device',
+  },
+];
+
+const ROUNDING_MINUTES = [0, 5, 10, 15];
+
+const OVERTIME_MODES: { value: OvertimeMode; label: string }[] = [
+  { value: 'DAILY', label: 'Per Day' },
+  { value: 'WEEKLY', label: 'Per Week' },
+];
 
 interface SettingsPanelProps {
   settings: AttendanceSettings;
   onSave: (settings: AttendanceSettings) => void;
   onClose: () => void;
+  // Per-employee weekly offs live in the settings (memory mode); the
+  // database keeps them on each employee instead
+  showEmployeeWeeklyOff?: boolean;
+  // Holidays likewise; the database has its own holiday calendar
+  showHolidays?: boolean;
+  // Overtime approval needs the database, which stores the decisions
+  showOvertimeApproval?: boolean;
 }
 
 export default function SettingsPanel({
   settings,
   onSave,
   onClose,
+  showEmployeeWeeklyOff,
+  showHolidays,
+  showOvertimeApproval,
 }: SettingsPanelProps) {
   const [localSettings, setLocalSettings] = useState(settings);
+  const [newEmployeeId, setNewEmployeeId] = useState('');
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
 
   const handleSave = () => {
     onSave(localSettings);
@@ -28,6 +64,34 @@ export default function SettingsPanel({
     setLocalSettings((prev) => ({ ...prev, [key]: value }));
   };
 
+  const employeeWeeklyOff = localSettings.employeeWeeklyOffDays ?? {};
+
+  const setEmployeeWeeklyOff = (userId: number, days: number[] | null) => {
+    const next = { ...employeeWeeklyOff };
+    if (days) next[userId] = days;
+    else delete next[userId];
+    updateSetting('employeeWeeklyOffDays', next);
+  };
+
+  const addEmployeeWeeklyOff = () => {
+    const userId = parseInt(newEmployeeId, 10);
+    if (isNaN(userId) || employeeWeeklyOff[userId]) return;
+    setEmployeeWeeklyOff(userId, localSettings.weeklyOffDays ?? []);
+    setNewEmployeeId('');
+  };
+
+  const holidays = localSettings.holidays ?? [];
+
+  const setHolidays = (next: Holiday[]) =>
+    updateSetting('holidays', [...next].sort((a, b) => a.date.localeCompare(b.date)));
+
+  const addHoliday = () => {
+    const name = newHoliday.name.trim();
+    if (!newHoliday.date || !name || holidays.some((h) => h.date === newHoliday.date)) return;
+    setHolidays([...holidays, { date: newHoliday.date, name, isPaid: true, location: null }]);
+    setNewHoliday({ date: '', name: '' });
+  };
+
   return (
     <>
       {/* Backdrop */}
@@ -94,9 +158,166 @@ export default function SettingsPanel({
                   className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
                 />
               </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Day Starts At
+                </label>
+                <input
+                  type="time"
+                  value={localSettings.dayStartTime ?? '00:00'}
+                  onChange={(e) => updateSetting('dayStartTime', e.target.value || '00:00')}
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+                <p className="text-xs text-midnight-500 mt-1">
+                  Punches before this time count towards the previous day (overnight shifts)
+                </p>
+              </div>
             </div>
           </section>
 
+          {/* Weekly Off */}
+          <section>
+            <h3 className="text-sm font-medium text-midnight-300 mb-4 flex items-center gap-2">
+              <CalendarOff className="w-4 h-4" />
+              Weekly Off
+            </h3>
+            <WeekdayPicker
+              value={localSettings.weeklyOffDays ?? []}
+              onChange={(days) => updateSetting('weeklyOffDays', days)}
+            />
+            <p className="text-xs text-midnight-500 mt-1">
+              Days without punches on these days are weekly offs, not absences
+            </p>
+
+            {showEmployeeWeeklyOff && (
+              <div className="mt-4 space-y-3">
+                {Object.entries(employeeWeeklyOff).map(([userId, days]) => (
+                  <div key={userId} className="flex items-center gap-2">
+                    <span className="w-14 shrink-0 text-xs text-midnight-400 font-mono">#{userId}</span>
+                    <WeekdayPicker
+                      value={days}
+                      onChange={(next) => setEmployeeWeeklyOff(Number(userId), next)}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setEmployeeWeeklyOff(Number(userId), null)}
+                      className="p-1.5 text-midnight-500 hover:text-accent-pink transition-colors"
+                      title="Use the default"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="1"
+                    value={newEmployeeId}
+                    onChange={(e) => setNewEmployeeId(e.target.value)}
+                    placeholder="Employee ID"
+                    className="flex-1 px-4 py-2 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 text-sm focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                  />
+                  <button
+                    type="button"
+                    onClick={addEmployeeWeeklyOff}
+                    disabled={!newEmployeeId}
+                    className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm text-accent-cyan hover:bg-accent-cyan/10 transition-colors disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Own days
+                  </button>
+                </div>
+                <p className="text-xs text-midnight-500">
+                  Employees listed here use their own weekly off days instead
+                </p>
+              </div>
+            )}
+
+            <div className="mt-4">
+              <label className="block text-sm text-midnight-400 mb-2">
+                Comp-Off Expiry (days)
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={localSettings.compOffExpiryDays ?? ''}
+                onChange={(e) => updateSetting('compOffExpiryDays', parseInt(e.target.value) || null)}
+                placeholder="Never"
+                className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+              />
+              <p className="text-xs text-midnight-500 mt-1">
+                Working a weekly off or holiday earns a comp-off credit, usable for this many days
+              </p>
+            </div>
+          </section>
+
+          {/* Holidays */}
+          {showHolidays && (
+            <section>
+              <h3 className="text-sm font-medium text-midnight-300 mb-4 flex items-center gap-2">
+                <CalendarHeart className="w-4 h-4" />
+                Holidays
+              </h3>
+              <div className="space-y-2">
+                {holidays.map((holiday) => (
+                  <div key={holiday.date} className="flex items-center gap-2">
+                    <span className="w-24 shrink-0 text-xs text-midnight-400 font-mono">{holiday.date}</span>
+                    <span className="flex-1 text-sm text-midnight-200 truncate">{holiday.name}</span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setHolidays(
+                          holidays.map((h) => (h === holiday ? { ...h, isPaid: !h.isPaid } : h)),
+                        )
+                      }
+                      className={cn(
+                        'px-2 py-1 rounded-lg text-xs border transition-colors',
+                        holiday.isPaid
+                          ? 'border-violet-400/30 bg-violet-400/10 text-violet-300'
+                          : 'border-midnight-700 text-midnight-500',
+                      )}
+                    >
+                      {holiday.isPaid ? 'Paid' : 'Unpaid'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setHolidays(holidays.filter((h) => h !== holiday))}
+                      className="p-1.5 text-midnight-500 hover:text-accent-pink transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={newHoliday.date}
+                    onChange={(e) => setNewHoliday((prev) => ({ ...prev, date: e.target.value }))}
+                    className="px-3 py-2 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 text-sm focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                  />
+                  <input
+                    type="text"
+                    value={newHoliday.name}
+                    onChange={(e) => setNewHoliday((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="Name"
+                    className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 text-sm focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                  />
+                  <button
+                    type="button"
+                    onClick={addHoliday}
+                    disabled={!newHoliday.date || !newHoliday.name.trim()}
+                    className="p-2 rounded-xl text-accent-cyan hover:bg-accent-cyan/10 transition-colors disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+                <p className="text-xs text-midnight-500">
+                  Days without punches on a holiday are holidays, not absences; punches on one are flagged
+                </p>
+              </div>
+            </section>
+          )}
+
           {/* Thresholds */}
           <section>
             <h3 className="text-sm font-medium text-midnight-300 mb-4 flex items-center gap-2">
@@ -140,10 +361,404 @@ export default function SettingsPanel({
                   Allowed time before work end time
                 </p>
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm text-midnight-400 mb-2">
+                    Full Day Hours
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="24"
+                    step="0.5"
+                    value={localSettings.fullDayHours ?? ''}
+                    onChange={(e) => updateSetting('fullDayHours', parseFloat(e.target.value) || null)}
+                    placeholder="Off"
+                    className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-midnight-400 mb-2">
+                    Half Day Hours
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="24"
+                    step="0.5"
+                    value={localSettings.halfDayHours ?? ''}
+                    onChange={(e) => updateSetting('halfDayHours', parseFloat(e.target.value) || null)}
+                    placeholder="Off"
+                    className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-midnight-500">
+                  Working days with fewer hours than a full day are half days, and with fewer than a half day absent
+                </p>
+              </div>
             </div>
           </section>
 
+          {/* Breaks */}
+          <section>
+            <h3 className="text-sm font-medium text-midnight-300 mb-4 flex items-center gap-2">
+              <Coffee className="w-4 h-4" />
+              Breaks
+            </h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Lunch Deduction (min)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="240"
+                  value={localSettings.lunchDeductionMinutes ?? 0}
+                  onChange={(e) => updateSetting('lunchDeductionMinutes', parseInt(e.target.value) || 0)}
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  When Over (hours)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.5"
+                  value={localSettings.lunchDeductionAfterHours ?? ''}
+                  onChange={(e) => updateSetting('lunchDeductionAfterHours', parseFloat(e.target.value) || null)}
+                  placeholder="Off"
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <p className="col-span-2 text-xs text-midnight-500">
+                Taken off days with only an in and an out punch that are longer than this
+              </p>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Max Paid Break (min)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="240"
+                  value={localSettings.maxPaidBreakMinutes ?? 0}
+                  onChange={(e) => updateSetting('maxPaidBreakMinutes', parseInt(e.target.value) || 0)}
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Long Break (min)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={localSettings.longBreakMinutes ?? ''}
+                  onChange={(e) => updateSetting('longBreakMinutes', parseInt(e.target.value) || null)}
+                  placeholder="Off"
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <p className="col-span-2 text-xs text-midnight-500">
+                Breaks between punches count as worked up to the paid maximum; a longer single break than the limit is flagged
+              </p>
+            </div>
+          </section>
 
+          {/* Penalties */}
+          <section>
+            <h3 className="text-sm font-medium text-midnight-300 mb-4 flex items-center gap-2">
+              <AlarmClockMinus className="w-4 h-4" />
+              Penalties
+            </h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Late Marks per Penalty
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={localSettings.lateMarksPerPenalty ?? ''}
+                  onChange={(e) => updateSetting('lateMarksPerPenalty', parseInt(e.target.value) || null)}
+                  placeholder="Off"
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Early Exits per Penalty
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={localSettings.earlyOutMarksPerPenalty ?? ''}
+                  onChange={(e) => updateSetting('earlyOutMarksPerPenalty', parseInt(e.target.value) || null)}
+                  placeholder="Off"
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Days Deducted per Penalty
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={localSettings.markPenaltyDays ?? 0.5}
+                  onChange={(e) => updateSetting('markPenaltyDays', parseFloat(e.target.value) || 0)}
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <p className="col-span-2 text-xs text-midnight-500">
+                Every full set of late arrivals or early exits within a month deducts these days
+              </p>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Very Late After (min)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={localSettings.veryLateMinutes ?? ''}
+                  onChange={(e) => updateSetting('veryLateMinutes', parseInt(e.target.value) || null)}
+                  placeholder="Off"
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Days Deducted
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.5"
+                  value={localSettings.veryLatePenaltyDays ?? 0.5}
+                  onChange={(e) => updateSetting('veryLatePenaltyDays', parseFloat(e.target.value) || 0)}
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <p className="col-span-2 text-xs text-midnight-500">
+                A day this late after the start time is deducted on its own instead of counting as a late mark; deductions come off the payout at the day salary
+              </p>
+            </div>
+          </section>
+
+          {/* Overtime */}
+          <section>
+            <h3 className="text-sm font-medium text-midnight-300 mb-4 flex items-center gap-2">
+              <Timer className="w-4 h-4" />
+              Overtime
+            </h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Counted
+                </label>
+                <div className="grid grid-cols-2 gap-1">
+                  {OVERTIME_MODES.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => updateSetting('overtimeMode', value)}
+                      className={cn(
+                        'py-3 rounded-xl border text-sm transition-colors',
+                        (localSettings.overtimeMode ?? 'DAILY') === value
+                          ? 'border-accent-cyan/50 bg-accent-cyan/10 text-midnight-100'
+                          : 'border-midnight-700 bg-midnight-900 text-midnight-400 hover:border-midnight-600',
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Weekly Hours
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="168"
+                  value={localSettings.overtimeWeeklyHours ?? 48}
+                  onChange={(e) => updateSetting('overtimeWeeklyHours', parseFloat(e.target.value) || 48)}
+                  disabled={localSettings.overtimeMode !== 'WEEKLY'}
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors disabled:opacity-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Minimum Block (min)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={localSettings.overtimeMinimumMinutes ?? 0}
+                  onChange={(e) => updateSetting('overtimeMinimumMinutes', parseInt(e.target.value) || 0)}
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Before Start Time
+                </label>
+                <div className="grid grid-cols-2 gap-1">
+                  {[true, false].map((counts) => (
+                    <button
+                      key={String(counts)}
+                      type="button"
+                      onClick={() => updateSetting('overtimeCountsPreShift', counts)}
+                      className={cn(
+                        'py-3 rounded-xl border text-sm transition-colors',
+                        (localSettings.overtimeCountsPreShift ?? true) === counts
+                          ? 'border-accent-cyan/50 bg-accent-cyan/10 text-midnight-100'
+                          : 'border-midnight-700 bg-midnight-900 text-midnight-400 hover:border-midnight-600',
+                      )}
+                    >
+                      {counts ? 'Counts' : 'Ignored'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Daily Cap (min)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={localSettings.overtimeDailyCapMinutes ?? ''}
+                  onChange={(e) =>
+                    updateSetting('overtimeDailyCapMinutes', e.target.value === '' ? null : parseInt(e.target.value) || 0)
+                  }
+                  placeholder="No cap"
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Weekly Cap (min)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={localSettings.overtimeWeeklyCapMinutes ?? ''}
+                  onChange={(e) =>
+                    updateSetting('overtimeWeeklyCapMinutes', e.target.value === '' ? null : parseInt(e.target.value) || 0)
+                  }
+                  placeholder="No cap"
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              {showOvertimeApproval && (
+                <label className="col-span-2 flex items-center gap-3 text-sm text-midnight-300">
+                  <input
+                    type="checkbox"
+                    checked={localSettings.overtimeRequiresApproval ?? false}
+                    onChange={(e) => updateSetting('overtimeRequiresApproval', e.target.checked)}
+                    className="accent-accent-cyan"
+                  />
+                  Overtime needs approval before payout
+                </label>
+              )}
+              <p className="col-span-2 text-xs text-midnight-500">
+                Overtime shorter than the minimum block is dropped, then capped per day and per week (Monday to Sunday)
+              </p>
+            </div>
+          </section>
+
+          {/* Time Zone */}
+          <section>
+            <h3 className="text-sm font-medium text-midnight-300 mb-4 flex items-center gap-2">
+              <Globe className="w-4 h-4" />
+              Time Zone
+            </h3>
+            <TimeZoneSelect
+              value={localSettings.timeZone ?? DEFAULT_TIME_ZONE}
+              onChange={(timeZone) => updateSetting('timeZone', timeZone ?? DEFAULT_TIME_ZONE)}
+              className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+            />
+            <p className="text-xs text-midnight-500 mt-1">
+              Days are counted in this zone; device times are read in it unless set per upload
+            </p>
+          </section>
+
+          {/* Punch Pairing */}
+          <section>
+            <h3 className="text-sm font-medium text-midnight-300 mb-4 flex items-center gap-2">
+              <ArrowLeftRight className="w-4 h-4" />
+              Punch Pairing
+            </h3>
+            <div className="space-y-2">
+              {PAIRING_MODES.map(({ value, label, description }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => updateSetting('pairingMode', value)}
+                  className={cn(
+                    'w-full text-left px-4 py-3 rounded-xl border transition-colors',
+                    (localSettings.pairingMode ?? 'ALTERNATE') === value
+                      ? 'border-accent-cyan/50 bg-accent-cyan/10'
+                      : 'border-midnight-700 bg-midnight-900 hover:border-midnight-600',
+                  )}
+                >
+                  <span className="block text-sm text-midnight-100">{label}</span>
+                  <span className="block text-xs text-midnight-500 mt-0.5">{description}</span>
+                </button>
+              ))}
+              <p className="text-xs text-midnight-500">
+                Punches without a recorded state fall back to alternating
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Double Tap Window (sec)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="3600"
+                  value={localSettings.debounceSeconds ?? 0}
+                  onChange={(e) => updateSetting('debounceSeconds', parseInt(e.target.value) || 0)}
+                  className="w-full px-4 py-3 rounded-xl bg-midnight-900 border border-midnight-700 text-midnight-100 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-midnight-400 mb-2">
+                  Round In/Out To
+                </label>
+                <div className="grid grid-cols-4 gap-1">
+                  {ROUNDING_MINUTES.map((minutes) => (
+                    <button
+                      key={minutes}
+                      type="button"
+                      onClick={() => updateSetting('roundingMinutes', minutes)}
+                      className={cn(
+                        'py-3 rounded-xl border text-sm transition-colors',
+                        (localSettings.roundingMinutes ?? 0) === minutes
+                          ? 'border-accent-cyan/50 bg-accent-cyan/10 text-midnight-100'
+                          : 'border-midnight-700 bg-midnight-900 text-midnight-400 hover:border-midnight-600',
+                      )}
+                    >
+                      {minutes === 0 ? 'Off' : `${minutes}m`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <p className="col-span-2 text-xs text-midnight-500">
+                Punches this soon after the previous one are kept but ignored; rounding applies to worked time only
+              </p>
+            </div>
+          </section>
         </div>
 
         {/* Footer */}
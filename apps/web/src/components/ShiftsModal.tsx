@@ -0,0 +1,586 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import type { RosterEntry, RosterPattern, Shift } from '@attendance/shared';
+import {
+  deleteRosterEntry,
+  deleteRosterPattern,
+  deleteShift,
+  getRoster,
+  getOrganisationSettings,
+  getShifts,
+  getV2Employees,
+  saveRosterEntry,
+  saveRosterPattern,
+  saveShift,
+  updateEmployeeWeeklyOff,
+  type V2Employee,
+} from '../services/api';
+import { cn } from '../lib/utils';
+import WeekdayPicker from './WeekdayPicker';
+
+interface ShiftsModalProps {
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type Tab = 'shifts' | 'roster' | 'weekly-off';
+
+const TAB_LABELS: Record<Tab, string> = {
+  shifts: 'Shifts',
+  roster: 'Roster',
+  'weekly-off': 'Weekly Offs',
+};
+
+const EMPTY_SHIFT: Shift = {
+  name: '',
+  startTime: '09:30',
+  endTime: '18:30',
+  lateThresholdMinutes: 15,
+  earlyOutThresholdMinutes: 15,
+  breakMinutes: 0,
+};
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-midnight-800 border border-midnight-700 text-midnight-100 text-sm focus:outline-none focus:border-accent-cyan/50';
+
+function errorMessage(err: unknown, fallback: string): string {
+  const e = err as { response?: { data?: { message?: string } }; message?: string };
+  return e.response?.data?.message || e.message || fallback;
+}
+
+/**
+ * Shift definitions, the roster that puts employees on them by weekly
+ * rotation or for single dates, and each employee's weekly off days
+ */
+export default function ShiftsModal({ onClose, onChanged }: ShiftsModalProps) {
+  const [tab, setTab] = useState<Tab>('shifts');
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [employees, setEmployees] = useState<V2Employee[]>([]);
+  const [entries, setEntries] = useState<RosterEntry[]>([]);
+  const [patterns, setPatterns] = useState<RosterPattern[]>([]);
+  const [defaultWeeklyOff, setDefaultWeeklyOff] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [draft, setDraft] = useState<Shift>(EMPTY_SHIFT);
+  const [patternDraft, setPatternDraft] = useState<RosterPattern | null>(null);
+  const [entryDraft, setEntryDraft] = useState<RosterEntry | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [loadedShifts, loadedEmployees, roster, organisation] = await Promise.all([
+        getShifts(),
+        getV2Employees(),
+        getRoster(),
+        getOrganisationSettings(),
+      ]);
+      setShifts(loadedShifts);
+      setEmployees([...loadedEmployees].sort((a, b) => a.biometric_id - b.biometric_id));
+      setEntries(roster.entries);
+      setPatterns(roster.patterns);
+      setDefaultWeeklyOff(organisation.weeklyOffDays);
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to load shifts'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setSaving(true);
+    try {
+      await action();
+      await load();
+      onChanged();
+    } catch (err: unknown) {
+      alert('Error: ' + errorMessage(err, fallback));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const shiftName = (id: number) => shifts.find((s) => s.id === id)?.name ?? `#${id}`;
+  const employeeName = (userId: number) => {
+    const employee = employees.find((e) => e.biometric_id === userId);
+    return employee?.name ? `${employee.name} (${userId})` : `Employee ${userId}`;
+  };
+
+  const firstEmployee = employees[0]?.biometric_id ?? 0;
+  const firstShift = shifts[0]?.id ?? 0;
+
+  const employeeSelect = (value: number, onChange: (userId: number) => void) => (
+    <select value={value} onChange={(e) => onChange(parseInt(e.target.value, 10))} className={inputClass}>
+      {employees.map((employee) => (
+        <option key={employee.biometric_id} value={employee.biometric_id}>
+          {employeeName(employee.biometric_id)}
+        </option>
+      ))}
+    </select>
+  );
+
+  const shiftSelect = (value: number, onChange: (shiftId: number) => void) => (
+    <select value={value} onChange={(e) => onChange(parseInt(e.target.value, 10))} className={inputClass}>
+      {shifts.map((shift) => (
+        <option key={shift.id} value={shift.id}>
+          {shift.name} ({shift.startTime}-{shift.endTime})
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-midnight-950/80 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="relative w-full max-w-4xl max-h-[90vh] flex flex-col bg-midnight-900 rounded-2xl shadow-2xl overflow-hidden border border-midnight-700/50"
+      >
+        <div className="flex items-center justify-between px-6 py-4 bg-midnight-800/50 border-b border-midnight-700/50">
+          <div>
+            <h2 className="text-lg font-semibold text-midnight-100">Shifts & Roster</h2>
+            <p className="text-sm text-midnight-400">
+              Late, early-out and overtime are measured against each employee's shift for the day
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-midnight-700 text-midnight-400 hover:text-midnight-200 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 px-6 pt-4">
+          {(['shifts', 'roster', 'weekly-off'] as Tab[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={cn(
+                'px-4 py-1.5 rounded-lg text-sm transition-colors',
+                tab === value ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-400 hover:bg-midnight-800',
+              )}
+            >
+              {TAB_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 text-accent-cyan animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="px-6 py-10 text-sm text-accent-pink">{error}</p>
+        ) : tab === 'shifts' ? (
+          <div className="flex flex-1 min-h-0 mt-4 border-t border-midnight-700/50">
+            {/* Shift list */}
+            <div className="w-56 shrink-0 border-r border-midnight-700/50 overflow-y-auto p-3 space-y-1">
+              <button
+                onClick={() => setDraft(EMPTY_SHIFT)}
+                className={cn(
+                  'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors',
+                  !draft.id ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-300 hover:bg-midnight-800',
+                )}
+              >
+                <Plus className="w-4 h-4" />
+                New shift
+              </button>
+              {shifts.map((shift) => (
+                <button
+                  key={shift.id}
+                  onClick={() => setDraft(shift)}
+                  className={cn(
+                    'w-full px-3 py-2 rounded-lg text-left text-sm transition-colors',
+                    draft.id === shift.id ? 'bg-accent-cyan/10 text-accent-cyan' : 'text-midnight-300 hover:bg-midnight-800',
+                  )}
+                >
+                  <span className="block truncate">{shift.name}</span>
+                  <span className="block text-xs text-midnight-500 font-mono">
+                    {shift.startTime}-{shift.endTime}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {/* Shift editor */}
+            <div className="flex-1 overflow-y-auto p-6 space-y-5">
+              <div className="grid grid-cols-2 gap-4">
+                <label className="col-span-2 space-y-1">
+                  <span className="text-xs text-midnight-400">Name</span>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="e.g. Kitchen morning"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Start</span>
+                  <input
+                    type="time"
+                    value={draft.startTime}
+                    onChange={(e) => setDraft({ ...draft, startTime: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">End (before start = next day)</span>
+                  <input
+                    type="time"
+                    value={draft.endTime}
+                    onChange={(e) => setDraft({ ...draft, endTime: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Late grace (minutes)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={draft.lateThresholdMinutes}
+                    onChange={(e) => setDraft({ ...draft, lateThresholdMinutes: parseInt(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Early out grace (minutes)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={draft.earlyOutThresholdMinutes}
+                    onChange={(e) => setDraft({ ...draft, earlyOutThresholdMinutes: parseInt(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-midnight-400">Unpaid break (minutes)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={draft.breakMinutes}
+                    onChange={(e) => setDraft({ ...draft, breakMinutes: parseInt(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+              <p className="text-xs text-midnight-500">
+                Overtime counts worked time beyond the shift length less the unpaid break.
+              </p>
+
+              <div className="flex items-center justify-between">
+                {draft.id ? (
+                  <button
+                    onClick={() =>
+                      run(async () => {
+                        await deleteShift(draft.id!);
+                        setDraft(EMPTY_SHIFT);
+                      }, 'Failed to delete shift')
+                    }
+                    disabled={saving}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-midnight-400 hover:text-accent-pink text-sm transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  onClick={() =>
+                    run(async () => {
+                      setDraft(await saveShift(draft));
+                    }, 'Failed to save shift')
+                  }
+                  disabled={saving || !draft.name.trim()}
+                  className="inline-flex items-center gap-2 px-5 py-2 rounded-xl bg-accent-cyan text-midnight-950 font-medium hover:bg-accent-cyan/90 transition-colors disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  {draft.id ? 'Save Changes' : 'Create Shift'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : tab === 'weekly-off' ? (
+          <div className="flex-1 overflow-y-auto p-6 space-y-3">
+            <p className="text-xs text-midnight-500">
+              Days without punches on a weekly off are not counted as absent. Employees without their own days follow
+              the organisation default (Settings).
+            </p>
+            {employees.length === 0 ? (
+              <p className="text-sm text-midnight-400">Upload attendance or users to add employees first.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {employees.map((employee) => (
+                    <tr key={employee.biometric_id} className="border-t border-midnight-800/50">
+                      <td className="py-2 text-midnight-200">{employeeName(employee.biometric_id)}</td>
+                      <td className="py-2">
+                        <WeekdayPicker
+                          value={employee.weekly_off_days ?? defaultWeeklyOff}
+                          muted={employee.weekly_off_days === null}
+                          disabled={saving}
+                          onChange={(days) =>
+                            run(async () => {
+                              await updateEmployeeWeeklyOff(employee.biometric_id, days);
+                            }, 'Failed to save weekly off days')
+                          }
+                        />
+                      </td>
+                      <td className="py-2 text-right">
+                        {employee.weekly_off_days === null ? (
+                          <span className="text-xs text-midnight-500">Default</span>
+                        ) : (
+                          <button
+                            onClick={() =>
+                              run(async () => {
+                                await updateEmployeeWeeklyOff(employee.biometric_id, null);
+                              }, 'Failed to save weekly off days')
+                            }
+                            disabled={saving}
+                            className="px-2 py-1 text-xs text-midnight-400 hover:text-accent-cyan transition-colors"
+                          >
+                            Use default
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ) : shifts.length === 0 || employees.length === 0 ? (
+          <p className="px-6 py-10 text-sm text-midnight-400">
+            {shifts.length === 0 ? 'Create a shift first.' : 'Upload attendance or users to add employees first.'}
+          </p>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-8">
+            {/* Weekly patterns */}
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-sm font-medium text-midnight-200">Weekly rotation</h3>
+                  <p className="text-xs text-midnight-500">
+                    Each week from the start date takes the next shift in the list
+                  </p>
+                </div>
+                <button
+                  onClick={() =>
+                    setPatternDraft({ userId: firstEmployee, startDate: '', endDate: null, shiftIds: [firstShift] })
+                  }
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-accent-cyan hover:bg-accent-cyan/10 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+
+              {patternDraft && (
+                <div className="grid grid-cols-3 gap-3 p-4 rounded-xl bg-midnight-800/40 border border-midnight-700/50">
+                  {employeeSelect(patternDraft.userId, (userId) => setPatternDraft({ ...patternDraft, userId }))}
+                  <input
+                    type="date"
+                    value={patternDraft.startDate}
+                    onChange={(e) => setPatternDraft({ ...patternDraft, startDate: e.target.value })}
+                    className={inputClass}
+                    title="Start date"
+                  />
+                  <input
+                    type="date"
+                    value={patternDraft.endDate ?? ''}
+                    onChange={(e) => setPatternDraft({ ...patternDraft, endDate: e.target.value || null })}
+                    className={inputClass}
+                    title="End date (optional)"
+                  />
+                  <div className="col-span-3 space-y-2">
+                    {patternDraft.shiftIds.map((shiftId, week) => (
+                      <div key={week} className="flex items-center gap-2">
+                        <span className="w-16 shrink-0 text-xs text-midnight-400">Week {week + 1}</span>
+                        {shiftSelect(shiftId, (value) =>
+                          setPatternDraft({
+                            ...patternDraft,
+                            shiftIds: patternDraft.shiftIds.map((id, i) => (i === week ? value : id)),
+                          }),
+                        )}
+                        {patternDraft.shiftIds.length > 1 && (
+                          <button
+                            onClick={() =>
+                              setPatternDraft({
+                                ...patternDraft,
+                                shiftIds: patternDraft.shiftIds.filter((_, i) => i !== week),
+                              })
+                            }
+                            className="p-2 rounded-lg text-midnight-400 hover:text-accent-pink transition-colors"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="col-span-3 flex items-center justify-between">
+                    <button
+                      onClick={() =>
+                        setPatternDraft({ ...patternDraft, shiftIds: [...patternDraft.shiftIds, firstShift] })
+                      }
+                      className="inline-flex items-center gap-1.5 text-xs text-midnight-400 hover:text-accent-cyan transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                      Add week
+                    </button>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setPatternDraft(null)}
+                        className="px-3 py-1.5 rounded-lg text-sm text-midnight-400 hover:text-midnight-200 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() =>
+                          run(async () => {
+                            await saveRosterPattern(patternDraft);
+                            setPatternDraft(null);
+                          }, 'Failed to save roster pattern')
+                        }
+                        disabled={saving || !patternDraft.startDate}
+                        className="inline-flex items-center gap-2 px-4 py-1.5 rounded-lg bg-accent-cyan text-midnight-950 text-sm font-medium hover:bg-accent-cyan/90 transition-colors disabled:opacity-50"
+                      >
+                        <Save className="w-4 h-4" />
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {patterns.length === 0 ? (
+                <p className="text-sm text-midnight-500">No weekly rotations; days use the organisation work hours.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {patterns.map((pattern) => (
+                      <tr key={pattern.id} className="border-t border-midnight-800/50">
+                        <td className="py-2 text-midnight-200">{employeeName(pattern.userId)}</td>
+                        <td className="py-2 font-mono text-midnight-400">
+                          {pattern.startDate} → {pattern.endDate ?? '…'}
+                        </td>
+                        <td className="py-2 text-midnight-300">{pattern.shiftIds.map(shiftName).join(' / ')}</td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => setPatternDraft(pattern)}
+                            className="px-2 py-1 text-xs text-midnight-400 hover:text-accent-cyan transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() =>
+                              run(() => deleteRosterPattern(pattern.id!), 'Failed to delete roster pattern')
+                            }
+                            className="p-1 text-midnight-400 hover:text-accent-pink transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            {/* Single-date entries */}
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-sm font-medium text-midnight-200">Single dates</h3>
+                  <p className="text-xs text-midnight-500">Override the rotation for one day</p>
+                </div>
+                <button
+                  onClick={() => setEntryDraft({ userId: firstEmployee, date: '', shiftId: firstShift })}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-accent-cyan hover:bg-accent-cyan/10 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+
+              {entryDraft && (
+                <div className="grid grid-cols-3 gap-3 p-4 rounded-xl bg-midnight-800/40 border border-midnight-700/50">
+                  {employeeSelect(entryDraft.userId, (userId) => setEntryDraft({ ...entryDraft, userId }))}
+                  <input
+                    type="date"
+                    value={entryDraft.date}
+                    onChange={(e) => setEntryDraft({ ...entryDraft, date: e.target.value })}
+                    className={inputClass}
+                  />
+                  {shiftSelect(entryDraft.shiftId, (shiftId) => setEntryDraft({ ...entryDraft, shiftId }))}
+                  <div className="col-span-3 flex justify-end gap-2">
+                    <button
+                      onClick={() => setEntryDraft(null)}
+                      className="px-3 py-1.5 rounded-lg text-sm text-midnight-400 hover:text-midnight-200 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() =>
+                        run(async () => {
+                          await saveRosterEntry(entryDraft);
+                          setEntryDraft(null);
+                        }, 'Failed to save roster entry')
+                      }
+                      disabled={saving || !entryDraft.date}
+                      className="inline-flex items-center gap-2 px-4 py-1.5 rounded-lg bg-accent-cyan text-midnight-950 text-sm font-medium hover:bg-accent-cyan/90 transition-colors disabled:opacity-50"
+                    >
+                      <Save className="w-4 h-4" />
+                      Save
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {entries.length === 0 ? (
+                <p className="text-sm text-midnight-500">No single-date shifts.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {entries.map((entry) => (
+                      <tr key={entry.id} className="border-t border-midnight-800/50">
+                        <td className="py-2 text-midnight-200">{employeeName(entry.userId)}</td>
+                        <td className="py-2 font-mono text-midnight-400">{entry.date}</td>
+                        <td className="py-2 text-midnight-300">{shiftName(entry.shiftId)}</td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => run(() => deleteRosterEntry(entry.id!), 'Failed to delete roster entry')}
+                            className="p-1 text-midnight-400 hover:text-accent-pink transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+
+interface TimeZoneSelectProps {
+  value: string | null;
+  onChange: (timeZone: string | null) => void;
+  defaultLabel?: string; // Shown for null; omit to require a zone
+  className?: string;
+  title?: string;
+}
+
+// Used when the browser cannot list its time zones
+const FALLBACK_TIME_ZONES = [
+  'Asia/Kolkata',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Australia/Sydney',
+  'UTC',
+];
+
+/**
+ * Picks an IANA time zone
+ */
+export default function TimeZoneSelect({ value, onChange, defaultLabel, className, title }: TimeZoneSelectProps) {
+  const zones = useMemo(() => {
+    const intl = Intl as { supportedValuesOf?: (key: 'timeZone') => string[] };
+    const supported = intl.supportedValuesOf?.('timeZone') ?? FALLBACK_TIME_ZONES;
+    // Keep a configured zone selectable even if this browser does not list it
+    return value && !supported.includes(value) ? [value, ...supported] : supported;
+  }, [value]);
+
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      onClick={(e) => e.stopPropagation()}
+      className={className}
+      title={title}
+    >
+      {defaultLabel !== undefined && <option value="">{defaultLabel}</option>}
+      {zones.map((zone) => (
+        <option key={zone} value={zone}>
+          {zone.replace(/_/g, ' ')}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,7 +1,13 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { AttendanceReport, AttendanceSettings } from '@attendance/shared';
-import { DEFAULT_SETTINGS } from '@attendance/shared';
+import type {
+  AttendanceReport,
+  AttendanceSettings,
+  ImportDiagnostics,
+  ImportPreview,
+  OrganisationSettings,
+} from '@attendance/shared';
+import { DEFAULT_SETTINGS, DEFAULT_TIME_ZONE } from '@attendance/shared';
 import SummaryCards from './SummaryCards';
 import UserSelector from './UserSelector';
 import AttendanceTable from './AttendanceTable';
@@ -9,14 +15,65 @@ import AttendanceChart from './AttendanceChart';
 import SettingsPanel from './SettingsPanel';
 import MonthYearPicker from './MonthYearPicker';
 import Header from './Header';
-import { Database, Loader2, RefreshCw, Users, FileText } from 'lucide-react';
-import { getV2Report, uploadUsersToDb, uploadAttendanceToDb } from '../services/api';
+import ImportDiagnosticsPanel from './ImportDiagnosticsPanel';
+import ImportPreviewModal from './ImportPreviewModal';
+import ImportBatchesModal from './ImportBatchesModal';
+import ImportProfileSelect from './ImportProfileSelect';
+import ShiftsModal from './ShiftsModal';
+import HolidaysModal from './HolidaysModal';
+import LeaveModal from './LeaveModal';
+import OvertimeModal from './OvertimeModal';
+import TimeZoneSelect from './TimeZoneSelect';
+import { CalendarClock, CalendarHeart, Database, Loader2, Plane, RefreshCw, Timer, Users, FileText, History, X } from 'lucide-react';
+import {
+  getV2Report,
+  uploadUsersToDb,
+  uploadAttendanceToDb,
+  previewAttendanceImport,
+  getOrganisationSettings,
+  updateOrganisationSettings,
+} from '../services/api';
 
 interface V2DashboardProps {
   onHome: () => void;
   onSwitchMode: () => void;
 }
 
+/**
+ * The part of the settings the organisation stores: pairing, time zone, day
+ * start, weekly offs, minimum hours, break policy, debounce, rounding,
+ * penalty rules, overtime policy and comp-off expiry
+ */
+function organisationSettingsOf(settings: AttendanceSettings): OrganisationSettings {
+  return {
+    pairingMode: settings.pairingMode ?? 'ALTERNATE',
+    timeZone: settings.timeZone ?? DEFAULT_TIME_ZONE,
+    dayStartTime: settings.dayStartTime ?? '00:00',
+    weeklyOffDays: settings.weeklyOffDays ?? [],
+    fullDayHours: settings.fullDayHours ?? null,
+    halfDayHours: settings.halfDayHours ?? null,
+    lunchDeductionMinutes: settings.lunchDeductionMinutes ?? 0,
+    lunchDeductionAfterHours: settings.lunchDeductionAfterHours ?? null,
+    maxPaidBreakMinutes: settings.maxPaidBreakMinutes ?? 0,
+    longBreakMinutes: settings.longBreakMinutes ?? null,
+    debounceSeconds: settings.debounceSeconds ?? 0,
+    roundingMinutes: settings.roundingMinutes ?? 0,
+    lateMarksPerPenalty: settings.lateMarksPerPenalty ?? null,
+    earlyOutMarksPerPenalty: settings.earlyOutMarksPerPenalty ?? null,
+    markPenaltyDays: settings.markPenaltyDays ?? 0.5,
+    veryLateMinutes: settings.veryLateMinutes ?? null,
+    veryLatePenaltyDays: settings.veryLatePenaltyDays ?? 0.5,
+    overtimeMode: settings.overtimeMode ?? 'DAILY',
+    overtimeWeeklyHours: settings.overtimeWeeklyHours ?? 48,
+    overtimeMinimumMinutes: settings.overtimeMinimumMinutes ?? 0,
+    overtimeCountsPreShift: settings.overtimeCountsPreShift ?? true,
+    overtimeDailyCapMinutes: settings.overtimeDailyCapMinutes ?? null,
+    overtimeWeeklyCapMinutes: settings.overtimeWeeklyCapMinutes ?? null,
+    overtimeRequiresApproval: settings.overtimeRequiresApproval ?? false,
+    compOffExpiryDays: settings.compOffExpiryDays ?? null,
+  };
+}
+
 export default function V2Dashboard({ onHome, onSwitchMode }: V2DashboardProps) {
   const [report, setReport] = useState<AttendanceReport | null>(null);
   const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
@@ -26,6 +83,25 @@ export default function V2Dashboard({ onHome, onSwitchMode }: V2DashboardProps)
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [uploadResult, setUploadResult] = useState<{
+    fileName: string;
+    message: string;
+    diagnostics: ImportDiagnostics;
+  } | null>(null);
+  const [pendingImport, setPendingImport] = useState<{
+    file: File;
+    profileId?: number;
+    timeZone?: string;
+    preview: ImportPreview;
+  } | null>(null);
+  const [profileId, setProfileId] = useState<number | null>(null);
+  const [deviceTimeZone, setDeviceTimeZone] = useState<string | null>(null);
+  const [confirmingImport, setConfirmingImport] = useState(false);
+  const [showBatches, setShowBatches] = useState(false);
+  const [showShifts, setShowShifts] = useState(false);
+  const [showHolidays, setShowHolidays] = useState(false);
+  const [showLeave, setShowLeave] = useState(false);
+  const [showOvertime, setShowOvertime] = useState(false);
 
   const loadReport = async () => {
     setLoading(true);
@@ -57,6 +133,53 @@ export default function V2Dashboard({ onHome, onSwitchMode }: V2DashboardProps)
     loadReport();
   }, [selectedMonth, selectedYear]);
 
+  useEffect(() => {
+    getOrganisationSettings()
+      .then((organisation) => setSettings((prev) => ({ ...prev, ...organisation })))
+      .catch(() => {
+        // Keep the defaults; saving will surface the error
+      });
+  }, []);
+
+  const handleSaveSettings = async (next: AttendanceSettings) => {
+    setSettings(next);
+    const saved = organisationSettingsOf(settings);
+    const changed = organisationSettingsOf(next);
+    if (JSON.stringify(changed) === JSON.stringify(saved)) return;
+
+    // Stored days are computed with the organisation's settings
+    try {
+      await updateOrganisationSettings(changed);
+      await loadReport();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } }; message?: string };
+      setSettings((prev) => ({ ...prev, ...saved }));
+      alert('Error: ' + (e.response?.data?.message || e.message || 'Failed to save organisation settings'));
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!pendingImport) return;
+    const { file, profileId, timeZone } = pendingImport;
+    setConfirmingImport(true);
+    try {
+      // The preview has shown any re-upload warnings, so the import is forced
+      const result = await uploadAttendanceToDb(file, true, profileId, timeZone);
+      setPendingImport(null);
+      if (result.diagnostics) {
+        setUploadResult({ fileName: file.name, message: result.message, diagnostics: result.diagnostics });
+      } else {
+        alert(result.message);
+      }
+      loadReport(); // Auto refresh after upload
+    } catch (err: unknown) {
+      const error = err as { message?: string };
+      alert('Error: ' + (error.message || 'Upload failed'));
+    } finally {
+      setConfirmingImport(false);
+    }
+  };
+
   const selectedUser = report?.users.find((u) => u.userId === selectedUserId);
 
   return (
@@ -115,22 +238,76 @@ export default function V2Dashboard({ onHome, onSwitchMode }: V2DashboardProps)
                   <input 
                     type="file" 
                     hidden 
-                    accept=".dat,.txt,.csv" 
+                    accept={profileId === null ? '.dat,.txt,.csv' : '.csv,.txt,.xlsx'}
                     onChange={async (e) => {
                       const file = e.target.files?.[0];
                       if (!file) return;
                       try {
-                        const result = await uploadAttendanceToDb(file);
-                        alert(result.message);
-                        loadReport(); // Auto refresh after upload
+                        // Dry run first; nothing is written until the preview is confirmed
+                        const selectedProfileId = profileId ?? undefined;
+                        const timeZone = deviceTimeZone ?? undefined;
+                        const preview = await previewAttendanceImport(file, selectedProfileId, timeZone);
+                        setPendingImport({ file, profileId: selectedProfileId, timeZone, preview });
                       } catch (err: unknown) {
                         const error = err as { message?: string };
-                        alert('Error: ' + (error.message || 'Upload failed'));
+                        alert('Error: ' + (error.message || 'Preview failed'));
                       }
                       e.target.value = '';
                     }} 
                   />
                </label>
+               {/* Attendance file format */}
+               <ImportProfileSelect value={profileId} onChange={setProfileId} />
+               {/* Device clock time zone */}
+               <TimeZoneSelect
+                 value={deviceTimeZone}
+                 onChange={setDeviceTimeZone}
+                 defaultLabel="Device time: organisation zone"
+                 title="Time zone the device clock is set to"
+                 className="max-w-[14rem] px-3 py-2 rounded-lg bg-midnight-900/60 border border-midnight-700/50 text-sm text-midnight-300 focus:outline-none focus:border-accent-cyan/50"
+               />
+               {/* Import History */}
+               <button
+                 onClick={() => setShowBatches(true)}
+                 className="relative flex items-center gap-2.5 px-4 py-2.5 rounded-xl bg-midnight-900/60 border border-midnight-700/50 backdrop-blur-sm hover:border-accent-orange/50 hover:bg-accent-orange/5 hover:shadow-[0_0_15px_-3px_rgba(255,123,0,0.15)] transition-all duration-300 group"
+               >
+                  <History className="w-4 h-4 text-midnight-400 group-hover:text-accent-orange transition-colors" />
+                  <span className="text-sm font-medium text-midnight-300 group-hover:text-accent-orange transition-colors">History</span>
+               </button>
+               {/* Shifts & Roster */}
+               <button
+                 onClick={() => setShowShifts(true)}
+                 className="relative flex items-center gap-2.5 px-4 py-2.5 rounded-xl bg-midnight-900/60 border border-midnight-700/50 backdrop-blur-sm hover:border-accent-yellow/50 hover:bg-accent-yellow/5 hover:shadow-[0_0_15px_-3px_rgba(254,228,64,0.15)] transition-all duration-300 group"
+               >
+                  <CalendarClock className="w-4 h-4 text-midnight-400 group-hover:text-accent-yellow transition-colors" />
+                  <span className="text-sm font-medium text-midnight-300 group-hover:text-accent-yellow transition-colors">Shifts</span>
+               </button>
+               {/* Holidays */}
+               <button
+                 onClick={() => setShowHolidays(true)}
+                 className="relative flex items-center gap-2.5 px-4 py-2.5 rounded-xl bg-midnight-900/60 border border-midnight-700/50 backdrop-blur-sm hover:border-accent-pink/50 hover:bg-accent-pink/5 hover:shadow-[0_0_15px_-3px_rgba(244,114,182,0.15)] transition-all duration-300 group"
+               >
+                  <CalendarHeart className="w-4 h-4 text-midnight-400 group-hover:text-accent-pink transition-colors" />
+                  <span className="text-sm font-medium text-midnight-300 group-hover:text-accent-pink transition-colors">Holidays</span>
+               </button>
+               {/* Leave */}
+               <button
+                 onClick={() => setShowLeave(true)}
+                 className="relative flex items-center gap-2.5 px-4 py-2.5 rounded-xl bg-midnight-900/60 border border-midnight-700/50 backdrop-blur-sm hover:border-accent-cyan/50 hover:bg-accent-cyan/5 hover:shadow-[0_0_15px_-3px_rgba(34,211,238,0.15)] transition-all duration-300 group"
+               >
+                  <Plane className="w-4 h-4 text-midnight-400 group-hover:text-accent-cyan transition-colors" />
+                  <span className="text-sm font-medium text-midnight-300 group-hover:text-accent-cyan transition-colors">Leave</span>
+               </button>
+               {/* Overtime approval for the loaded month */}
+               {report && (
+                 <button
+                   onClick={() => setShowOvertime(true)}
+                   className="relative flex items-center gap-2.5 px-4 py-2.5 rounded-xl bg-midnight-900/60 border border-midnight-700/50 backdrop-blur-sm hover:border-accent-orange/50 hover:bg-accent-orange/5 hover:shadow-[0_0_15px_-3px_rgba(255,123,0,0.15)] transition-all duration-300 group"
+                 >
+                    <Timer className="w-4 h-4 text-midnight-400 group-hover:text-accent-orange transition-colors" />
+                    <span className="text-sm font-medium text-midnight-300 group-hover:text-accent-orange transition-colors">Overtime</span>
+                 </button>
+               )}
             </div>
           </div>
           
@@ -245,13 +422,101 @@ export default function V2Dashboard({ onHome, onSwitchMode }: V2DashboardProps)
           </div>
         )}
 
+        {/* Import Preview */}
+        <AnimatePresence>
+          {pendingImport && (
+            <ImportPreviewModal
+              preview={pendingImport.preview}
+              fileName={pendingImport.file.name}
+              confirming={confirmingImport}
+              onConfirm={confirmImport}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+        </AnimatePresence>
+
+        {/* Import History */}
+        <AnimatePresence>
+          {showBatches && (
+            <ImportBatchesModal
+              onClose={() => setShowBatches(false)}
+              onRolledBack={loadReport}
+            />
+          )}
+        </AnimatePresence>
+
+        {/* Shifts & Roster */}
+        <AnimatePresence>
+          {showShifts && <ShiftsModal onClose={() => setShowShifts(false)} onChanged={loadReport} />}
+        </AnimatePresence>
+
+        {/* Holidays */}
+        <AnimatePresence>
+          {showHolidays && <HolidaysModal onClose={() => setShowHolidays(false)} onChanged={loadReport} />}
+        </AnimatePresence>
+
+        {/* Leave */}
+        <AnimatePresence>
+          {showLeave && <LeaveModal onClose={() => setShowLeave(false)} onChanged={loadReport} />}
+        </AnimatePresence>
+
+        {/* Overtime */}
+        <AnimatePresence>
+          {showOvertime && report && (
+            <OvertimeModal report={report} onClose={() => setShowOvertime(false)} onChanged={loadReport} />
+          )}
+        </AnimatePresence>
+
+        {/* Upload Diagnostics */}
+        <AnimatePresence>
+          {uploadResult && (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-midnight-950/80 backdrop-blur-sm"
+              onClick={(e) => e.target === e.currentTarget && setUploadResult(null)}
+            >
+              <motion.div
+                initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+                className="relative w-full max-w-3xl bg-midnight-900 rounded-2xl shadow-2xl overflow-hidden border border-midnight-700/50"
+              >
+                <div className="flex items-center justify-between px-6 py-4 bg-midnight-800/50 border-b border-midnight-700/50">
+                  <div>
+                    <h2 className="text-lg font-semibold text-midnight-100">Upload Result</h2>
+                    <p className="text-sm text-midnight-400">
+                      {uploadResult.fileName} — {uploadResult.message}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setUploadResult(null)}
+                    className="p-2 rounded-lg hover:bg-midnight-700 text-midnight-400 hover:text-midnight-200 transition-colors"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+                <div className="p-6">
+                  <ImportDiagnosticsPanel
+                    diagnostics={uploadResult.diagnostics}
+                    fileName={uploadResult.fileName}
+                  />
+                </div>
+              </motion.div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Settings Panel */}
         <AnimatePresence>
           {showSettings && (
             <SettingsPanel
               settings={settings}
-              onSave={setSettings}
+              onSave={handleSaveSettings}
               onClose={() => setShowSettings(false)}
+              showOvertimeApproval
             />
           )}
         </AnimatePresence>
@@ -0,0 +1,41 @@
+import { cn } from '../lib/utils';
+
+interface WeekdayPickerProps {
+  value: number[];
+  onChange: (days: number[]) => void;
+  disabled?: boolean;
+  muted?: boolean; // Showing an inherited default rather than a set value
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Toggles days of the week (0 = Sunday)
+ */
+export default function WeekdayPicker({ value, onChange, disabled, muted }: WeekdayPickerProps) {
+  const toggle = (day: number) =>
+    onChange(value.includes(day) ? value.filter((d) => d !== day) : [...value, day].sort());
+
+  return (
+    <div className="flex gap-1">
+      {WEEKDAYS.map((label, day) => (
+        <button
+          key={label}
+          type="button"
+          onClick={() => toggle(day)}
+          disabled={disabled}
+          className={cn(
+            'w-10 py-1.5 rounded-lg text-xs font-medium border transition-colors disabled:opacity-50',
+            value.includes(day)
+              ? muted
+                ? 'bg-midnight-800 border-midnight-600 text-midnight-300'
+                : 'bg-accent-cyan/10 border-accent-cyan/40 text-accent-cyan'
+              : 'border-midnight-700 text-midnight-500 hover:text-midnight-300',
+          )}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -15,9 +15,13 @@ export function formatDuration(hours: number, minutes: number): string {
 export function getStatusConfig(status: string) {
   const configs: Record<string, { label: string; class: string; color: string }> = {
     PRESENT: { label: 'Present', class: 'status-present', color: '#00f5d4' },
+    HALF_DAY: { label: 'Half Day', class: 'text-lime-400 bg-lime-400/10 border-lime-400/20', color: '#a3e635' },
     ABSENT: { label: 'Absent', class: 'status-absent', color: '#f72585' },
     INCOMPLETE: { label: 'Incomplete', class: 'status-incomplete', color: '#60a5fa' },
     COMP: { label: 'Comp Off', class: 'text-accent-yellow bg-accent-yellow/10 border-accent-yellow/20', color: '#fbbf24' },
+    WEEKLY_OFF: { label: 'Weekly Off', class: 'text-slate-400 bg-slate-400/10 border-slate-400/20', color: '#94a3b8' },
+    HOLIDAY: { label: 'Holiday', class: 'text-violet-400 bg-violet-400/10 border-violet-400/20', color: '#a78bfa' },
+    LEAVE: { label: 'Leave', class: 'text-sky-400 bg-sky-400/10 border-sky-400/20', color: '#38bdf8' },
   };
   return configs[status] || { label: status, class: '', color: '#888' };
 }
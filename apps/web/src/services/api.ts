@@ -2,7 +2,24 @@ import axios from "axios";
 import type {
   UploadResponse,
   AttendanceSettings,
+  AuditEntry,
   DailyAttendance,
+  Holiday,
+  ImportDiagnostics,
+  ImportPreview,
+  ImportProfile,
+  ImportWarning,
+  LeaveApplication,
+  LeaveApplicationStatus,
+  LeaveBalance,
+  LeaveType,
+  ManualEdit,
+  OrganisationSettings,
+  OvertimeDecision,
+  OverrideStatus,
+  RosterEntry,
+  RosterPattern,
+  Shift,
 } from "@attendance/shared";
 
 const API_BASE =
@@ -19,7 +36,8 @@ const api = axios.create({
 export async function uploadAttendanceFile(
   attendanceFile: File,
   userFile: File,
-  settings?: AttendanceSettings
+  settings?: AttendanceSettings,
+  profileId?: number
 ): Promise<UploadResponse> {
   const formData = new FormData();
   formData.append("attendanceFile", attendanceFile);
@@ -28,6 +46,9 @@ export async function uploadAttendanceFile(
   if (settings) {
     formData.append("settings", JSON.stringify(settings));
   }
+  if (profileId) {
+    formData.append("profileId", String(profileId));
+  }
 
   const response = await api.post<UploadResponse>(
     "/attendance/upload",
@@ -62,13 +83,18 @@ export interface GenerateReportParams {
     from: string;
     to: string;
   };
+  timeZone?: string;
   summary?: {
     totalHours?: string;
     avgHours?: string;
     presentDays?: number;
+    halfDays?: number;
     absentDays?: number;
     incompleteDays?: number;
     compDays?: number;
+    weeklyOffDays?: number;
+    holidayDays?: number;
+    leaveDays?: number;
     totalDays?: number;
   };
 }
@@ -132,6 +158,24 @@ export interface GeneratePayoutReportParams extends GenerateReportParams {
     compEarning: number;
     totalPayout: number;
     compDayDates: string[]; // Array of formatted date strings like "Tue 22"
+    paidHolidayDays?: number;
+    paidHolidayEarning?: number;
+    paidHolidayDates?: string[];
+    holidayWorkHours?: number;
+    holidayRate?: number; // Multiple of the hourly salary for holiday work
+    holidayEarning?: number;
+    paidLeaveDays?: number;
+    paidLeaveEarning?: number;
+    paidLeaveDates?: string[];
+    penaltyDays?: number;
+    penaltyDeduction?: number;
+    lateDays?: number;
+    earlyOutDays?: number;
+    veryLateDays?: number;
+    overtimeHours?: number;
+    overtimeRate?: number; // Multiple of the hourly salary for overtime
+    overtimeEarning?: number;
+    unapprovedOvertimeHours?: number;
   };
 }
 
@@ -156,6 +200,9 @@ export interface V2UploadResponse {
   updated?: number;
   inserted?: number;
   skipped?: number;
+  batchId?: number;
+  warnings?: ImportWarning[];
+  diagnostics?: ImportDiagnostics;
 }
 
 export async function uploadUsersToDb(file: File): Promise<V2UploadResponse> {
@@ -174,22 +221,377 @@ export async function uploadUsersToDb(file: File): Promise<V2UploadResponse> {
 }
 
 export async function uploadAttendanceToDb(
-  file: File
+  file: File,
+  force: boolean = false,
+  profileId?: number,
+  timeZone?: string
 ): Promise<V2UploadResponse> {
   const formData = new FormData();
   formData.append("file", file);
 
+  // force: import even if this exact file was imported before
   const response = await api.post<V2UploadResponse>(
     "/v2/attendance/upload-attendance",
     formData,
     {
       headers: { "Content-Type": "multipart/form-data" },
+      params: {
+        force: force ? "true" : undefined,
+        profileId,
+        timeZone,
+      },
+    }
+  );
+
+  return response.data;
+}
+
+export interface V2ImportBatch {
+  id: number;
+  kind: "ATTENDANCE" | "USERS";
+  file_name: string;
+  file_hash: string;
+  uploaded_at: string;
+  total_lines: number;
+  inserted_count: number;
+  updated_count: number;
+  skipped_count: number;
+  rolled_back_at: string | null;
+}
+
+export async function getImportBatches(): Promise<V2ImportBatch[]> {
+  const response = await api.get<{ success: boolean; batches: V2ImportBatch[] }>(
+    "/v2/attendance/batches"
+  );
+  return response.data.batches;
+}
+
+export async function rollbackImportBatch(
+  batchId: number
+): Promise<{ success: boolean; message: string; deleted: number }> {
+  const response = await api.post(`/v2/attendance/batches/${batchId}/rollback`);
+  return response.data;
+}
+
+export interface V2ImportPreviewResponse extends ImportPreview {
+  success: boolean;
+}
+
+export async function previewAttendanceImport(
+  file: File,
+  profileId?: number,
+  timeZone?: string
+): Promise<V2ImportPreviewResponse> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await api.post<V2ImportPreviewResponse>(
+    "/v2/attendance/preview-attendance",
+    formData,
+    {
+      headers: { "Content-Type": "multipart/form-data" },
+      params: { profileId, timeZone },
     }
   );
 
   return response.data;
 }
 
+// Import profiles: column mappings for other vendors' CSV/XLSX exports
+
+export async function getImportProfiles(): Promise<ImportProfile[]> {
+  const response = await api.get<{
+    success: boolean;
+    profiles: ImportProfile[];
+  }>("/v2/import-profiles");
+  return response.data.profiles;
+}
+
+export async function saveImportProfile(
+  profile: ImportProfile
+): Promise<ImportProfile> {
+  const response = profile.id
+    ? await api.put<{ success: boolean; profile: ImportProfile }>(
+        `/v2/import-profiles/${profile.id}`,
+        profile
+      )
+    : await api.post<{ success: boolean; profile: ImportProfile }>(
+        "/v2/import-profiles",
+        profile
+      );
+  return response.data.profile;
+}
+
+export async function deleteImportProfile(id: number): Promise<void> {
+  await api.delete(`/v2/import-profiles/${id}`);
+}
+
+export interface V2Employee {
+  id: number;
+  biometric_id: number;
+  name: string | null;
+  weekly_off_days: number[] | null; // null = organisation default
+  location: string | null; // Matches location-specific holidays
+}
+
+export async function getV2Employees(): Promise<V2Employee[]> {
+  const response = await api.get<{ success: boolean; employees: V2Employee[] }>(
+    "/v2/attendance/employees"
+  );
+  return response.data.employees;
+}
+
+export async function updateEmployeeWeeklyOff(
+  userId: number,
+  weeklyOffDays: number[] | null
+): Promise<V2Employee> {
+  const response = await api.put<{ success: boolean; employee: V2Employee }>(
+    `/v2/attendance/employees/${userId}/weekly-off`,
+    { weeklyOffDays }
+  );
+  return response.data.employee;
+}
+
+export async function updateEmployeeLocation(
+  userId: number,
+  location: string | null
+): Promise<V2Employee> {
+  const response = await api.put<{ success: boolean; employee: V2Employee }>(
+    `/v2/attendance/employees/${userId}/location`,
+    { location }
+  );
+  return response.data.employee;
+}
+
+// Holidays: days without punches on a holiday are stored as HOLIDAY
+
+export async function getHolidays(from?: string, to?: string): Promise<Holiday[]> {
+  const response = await api.get<{ success: boolean; holidays: Holiday[] }>(
+    "/v2/holidays",
+    { params: { from, to } }
+  );
+  return response.data.holidays;
+}
+
+export async function saveHoliday(holiday: Holiday): Promise<Holiday> {
+  const response = holiday.id
+    ? await api.put<{ success: boolean; holiday: Holiday }>(
+        `/v2/holidays/${holiday.id}`,
+        holiday
+      )
+    : await api.post<{ success: boolean; holiday: Holiday }>(
+        "/v2/holidays",
+        holiday
+      );
+  return response.data.holiday;
+}
+
+export async function deleteHoliday(id: number): Promise<void> {
+  await api.delete(`/v2/holidays/${id}`);
+}
+
+// Leave: types with yearly quotas, applications awaiting approval, balances
+
+export async function getLeaveTypes(): Promise<LeaveType[]> {
+  const response = await api.get<{ success: boolean; types: LeaveType[] }>(
+    "/v2/leave/types"
+  );
+  return response.data.types;
+}
+
+export async function saveLeaveType(type: LeaveType): Promise<LeaveType> {
+  const response = type.id
+    ? await api.put<{ success: boolean; type: LeaveType }>(
+        `/v2/leave/types/${type.id}`,
+        type
+      )
+    : await api.post<{ success: boolean; type: LeaveType }>(
+        "/v2/leave/types",
+        type
+      );
+  return response.data.type;
+}
+
+export async function deleteLeaveType(id: number): Promise<void> {
+  await api.delete(`/v2/leave/types/${id}`);
+}
+
+export async function getLeaveApplications(filter: {
+  userId?: number;
+  status?: LeaveApplicationStatus;
+  from?: string;
+  to?: string;
+} = {}): Promise<LeaveApplication[]> {
+  const response = await api.get<{
+    success: boolean;
+    applications: LeaveApplication[];
+  }>("/v2/leave/applications", { params: filter });
+  return response.data.applications;
+}
+
+export async function applyForLeave(
+  application: LeaveApplication
+): Promise<LeaveApplication> {
+  const response = await api.post<{
+    success: boolean;
+    application: LeaveApplication;
+  }>("/v2/leave/applications", application);
+  return response.data.application;
+}
+
+export async function decideLeaveApplication(
+  id: number,
+  decision: "approve" | "reject" | "cancel",
+  note?: string
+): Promise<LeaveApplication> {
+  const response = await api.post<{
+    success: boolean;
+    application: LeaveApplication;
+  }>(`/v2/leave/applications/${id}/${decision}`, { note });
+  return response.data.application;
+}
+
+export async function getLeaveBalances(
+  userId: number,
+  year: number
+): Promise<LeaveBalance[]> {
+  const response = await api.get<{ success: boolean; balances: LeaveBalance[] }>(
+    `/v2/leave/balances/${userId}`,
+    { params: { year } }
+  );
+  return response.data.balances;
+}
+
+export async function setLeaveOpeningBalance(
+  userId: number,
+  leaveTypeId: number,
+  year: number,
+  openingDays: number | null
+): Promise<LeaveBalance> {
+  const response = await api.put<{ success: boolean; balance: LeaveBalance }>(
+    `/v2/leave/balances/${userId}`,
+    { leaveTypeId, year, openingDays }
+  );
+  return response.data.balance;
+}
+
+// Overtime approval: decisions hold for the minutes they were made on
+
+export async function getOvertimeDecisions(
+  from: string,
+  to: string
+): Promise<OvertimeDecision[]> {
+  const response = await api.get<{
+    success: boolean;
+    decisions: OvertimeDecision[];
+  }>("/v2/overtime/decisions", { params: { from, to } });
+  return response.data.decisions;
+}
+
+export async function decideOvertime(
+  decision: OvertimeDecision
+): Promise<OvertimeDecision> {
+  const response = await api.post<{
+    success: boolean;
+    decision: OvertimeDecision;
+  }>("/v2/overtime/decisions", decision);
+  return response.data.decision;
+}
+
+export async function clearOvertimeDecision(
+  userId: number,
+  date: string
+): Promise<void> {
+  await api.delete(`/v2/overtime/decisions/${userId}/${date}`);
+}
+
+// Shifts and roster: which hours each employee is expected to work on a day
+
+export async function getShifts(): Promise<Shift[]> {
+  const response = await api.get<{ success: boolean; shifts: Shift[] }>(
+    "/v2/shifts"
+  );
+  return response.data.shifts;
+}
+
+export async function saveShift(shift: Shift): Promise<Shift> {
+  const response = shift.id
+    ? await api.put<{ success: boolean; shift: Shift }>(
+        `/v2/shifts/${shift.id}`,
+        shift
+      )
+    : await api.post<{ success: boolean; shift: Shift }>("/v2/shifts", shift);
+  return response.data.shift;
+}
+
+export async function deleteShift(id: number): Promise<void> {
+  await api.delete(`/v2/shifts/${id}`);
+}
+
+export async function getRoster(): Promise<{
+  entries: RosterEntry[];
+  patterns: RosterPattern[];
+}> {
+  const response = await api.get<{
+    success: boolean;
+    entries: RosterEntry[];
+    patterns: RosterPattern[];
+  }>("/v2/roster");
+  return response.data;
+}
+
+export async function saveRosterEntry(entry: RosterEntry): Promise<RosterEntry> {
+  const response = await api.put<{ success: boolean; entry: RosterEntry }>(
+    "/v2/roster/entries",
+    entry
+  );
+  return response.data.entry;
+}
+
+export async function deleteRosterEntry(id: number): Promise<void> {
+  await api.delete(`/v2/roster/entries/${id}`);
+}
+
+export async function saveRosterPattern(
+  pattern: RosterPattern
+): Promise<RosterPattern> {
+  const response = pattern.id
+    ? await api.put<{ success: boolean; pattern: RosterPattern }>(
+        `/v2/roster/patterns/${pattern.id}`,
+        pattern
+      )
+    : await api.post<{ success: boolean; pattern: RosterPattern }>(
+        "/v2/roster/patterns",
+        pattern
+      );
+  return response.data.pattern;
+}
+
+export async function deleteRosterPattern(id: number): Promise<void> {
+  await api.delete(`/v2/roster/patterns/${id}`);
+}
+
+// Organisation settings: stored in the database, applied to every computed day
+
+export async function getOrganisationSettings(): Promise<OrganisationSettings> {
+  const response = await api.get<{
+    success: boolean;
+    settings: OrganisationSettings;
+  }>("/v2/organisation-settings");
+  return response.data.settings;
+}
+
+export async function updateOrganisationSettings(
+  settings: Partial<OrganisationSettings>
+): Promise<{ settings: OrganisationSettings; recalculatedDays: number }> {
+  const response = await api.put<{
+    success: boolean;
+    settings: OrganisationSettings;
+    recalculatedDays: number;
+  }>("/v2/organisation-settings", settings);
+  return response.data;
+}
+
 export async function getV2Report(
   month: number,
   year: number,
@@ -223,19 +625,49 @@ export async function getV2Report(
 
 export async function markCompOff(
   userId: number,
-  date: string
+  date: string,
+  edit: ManualEdit
 ): Promise<{ success: boolean; message: string }> {
   const response = await api.post("/v2/attendance/mark-comp-off", {
     userId,
     date,
+    ...edit,
+  });
+  return response.data;
+}
+
+export async function setDayStatus(
+  userId: number,
+  date: string,
+  status: OverrideStatus,
+  edit: ManualEdit
+): Promise<{ success: boolean; message: string }> {
+  const response = await api.post("/v2/attendance/day-status", {
+    userId,
+    date,
+    status,
+    ...edit,
   });
   return response.data;
 }
 
+export async function clearDayStatus(
+  userId: number,
+  date: string,
+  edit: ManualEdit
+): Promise<{ success: boolean; message: string }> {
+  const response = await api.delete(
+    `/v2/attendance/day-status/${userId}/${date}`,
+    { data: edit }
+  );
+  return response.data;
+}
+
 export async function addPunch(
   userId: number,
   date: string,
   time: string,
+  edit: ManualEdit,
   isManual: boolean = true
 ): Promise<{ success: boolean; message: string }> {
   const response = await api.post("/v2/attendance/add-punch", {
@@ -243,16 +675,45 @@ export async function addPunch(
     date,
     time,
     isManual,
+    ...edit,
   });
   return response.data;
 }
 
 export async function deletePunch(
   userId: number,
-  punchTime: string
+  punchTime: string,
+  edit: ManualEdit
 ): Promise<{ success: boolean; message: string }> {
   const response = await api.delete("/v2/attendance/delete-punch", {
-    data: { userId, punchTime },
+    data: { userId, punchTime, ...edit },
   });
   return response.data;
 }
+
+export async function restorePunch(
+  userId: number,
+  punchTime: string,
+  edit: ManualEdit
+): Promise<{ success: boolean; message: string }> {
+  const response = await api.post("/v2/attendance/restore-punch", {
+    userId,
+    punchTime,
+    ...edit,
+  });
+  return response.data;
+}
+
+// Audit log: who changed an employee's days by hand, when and why
+
+export async function getAuditLog(
+  userId: number,
+  month: number,
+  year: number
+): Promise<AuditEntry[]> {
+  const response = await api.get<{ success: boolean; entries: AuditEntry[] }>(
+    `/v2/audit-log/${userId}`,
+    { params: { month, year } }
+  );
+  return response.data.entries;
+}
@@ -0,0 +1,557 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyBreakPolicy,
+  applyMinimumHours,
+  applyOvertimePolicy,
+  applyPenaltyRules,
+  buildCompOffLedger,
+  classifyPunches,
+  compOffCredit,
+  computeDailyAttendance,
+  createAbsentDay,
+  debouncePunches,
+  getWeekEnd,
+  getWeekStart,
+  sumPairedMinutes,
+  summarizeAttendance,
+} from './attendance-engine';
+import type { EnginePunch } from './attendance-engine';
+import { PunchState } from './types';
+import type { AttendanceSettings, DailyAttendance } from './types';
+import { getAttendanceDate } from './utils';
+
+const SETTINGS: AttendanceSettings = {
+  workStartTime: '09:00',
+  workEndTime: '18:00',
+  lateThresholdMinutes: 15,
+  earlyOutThresholdMinutes: 15,
+  timeZone: 'UTC',
+};
+
+function punch(time: string, state?: number): EnginePunch {
+  return { timestamp: new Date(`${time}Z`), verificationType: 'Fingerprint', state };
+}
+
+/**
+ * A complete day of the given worked minutes and (daily) overtime
+ */
+function workedDay(date: string, workedMinutes: number, overtime: number): DailyAttendance {
+  return {
+    ...createAbsentDay(1, date, 'PRESENT'),
+    firstIn: '09:00:00',
+    lastOut: '18:00:00',
+    totalHours: Math.floor(workedMinutes / 60),
+    totalMinutes: workedMinutes % 60,
+    overtime,
+  };
+}
+
+describe('classifyPunches', () => {
+  it('alternates IN and OUT and leaves a trailing IN unpaired', () => {
+    const punches = [
+      punch('2026-03-02T13:00:00'),
+      punch('2026-03-02T09:00:00'),
+      punch('2026-03-02T12:00:00'),
+    ];
+
+    expect(classifyPunches(punches, 'ALTERNATE').map(({ type, isPaired }) => ({ type, isPaired }))).toEqual([
+      { type: 'IN', isPaired: true },
+      { type: 'OUT', isPaired: true },
+      { type: 'IN', isPaired: false },
+    ]);
+  });
+
+  it('follows the device state and leaves a forgotten punch unpaired', () => {
+    const punches = [
+      punch('2026-03-02T09:00:00', PunchState.CHECK_IN),
+      punch('2026-03-02T12:00:00', PunchState.CHECK_IN),
+      punch('2026-03-02T18:00:00', PunchState.CHECK_OUT),
+    ];
+
+    expect(classifyPunches(punches, 'DEVICE_STATE').map(({ type, isPaired }) => ({ type, isPaired }))).toEqual([
+      { type: 'IN', isPaired: false },
+      { type: 'IN', isPaired: true },
+      { type: 'OUT', isPaired: true },
+    ]);
+  });
+
+  it('takes the opposite of the previous punch when the state is missing', () => {
+    const punches = [
+      punch('2026-03-02T09:00:00', PunchState.CHECK_IN),
+      punch('2026-03-02T18:00:00'),
+    ];
+
+    expect(classifyPunches(punches, 'DEVICE_STATE').map(({ type, isPaired }) => ({ type, isPaired }))).toEqual([
+      { type: 'IN', isPaired: true },
+      { type: 'OUT', isPaired: true },
+    ]);
+  });
+
+  it('pairs the same punches differently by mode', () => {
+    const settings = { ...SETTINGS, pairingMode: 'DEVICE_STATE' as const };
+    const punches = [
+      punch('2026-03-02T09:00:00', PunchState.CHECK_IN),
+      punch('2026-03-02T12:00:00', PunchState.CHECK_IN),
+      punch('2026-03-02T13:00:00', PunchState.CHECK_OUT),
+      punch('2026-03-02T18:00:00', PunchState.CHECK_OUT),
+    ];
+
+    expect(computeDailyAttendance(1, '2026-03-02', punches, SETTINGS).attendance).toMatchObject({
+      status: 'PRESENT',
+      totalHours: 8,
+      totalMinutes: 0,
+    });
+    expect(computeDailyAttendance(1, '2026-03-02', punches, settings).attendance).toMatchObject({
+      status: 'INCOMPLETE',
+      totalHours: 1,
+      totalMinutes: 0,
+    });
+  });
+});
+
+describe('day start rollover', () => {
+  const settings = {
+    ...SETTINGS,
+    workStartTime: '22:00',
+    workEndTime: '06:00',
+    dayStartTime: '12:00',
+  };
+
+  it('puts punches before the day start on the previous day', () => {
+    expect(getAttendanceDate(new Date('2026-03-03T05:30:00Z'), 'UTC', '12:00')).toBe('2026-03-02');
+    expect(getAttendanceDate(new Date('2026-03-03T12:00:00Z'), 'UTC', '12:00')).toBe('2026-03-03');
+    expect(getAttendanceDate(new Date('2026-03-03T05:30:00Z'), 'UTC')).toBe('2026-03-03');
+  });
+
+  it('counts an overnight shift as one day, on time and not leaving early', () => {
+    const { attendance } = computeDailyAttendance(
+      1,
+      '2026-03-02',
+      [punch('2026-03-02T22:00:00'), punch('2026-03-03T06:00:00')],
+      settings,
+    );
+
+    expect(attendance).toMatchObject({
+      status: 'PRESENT',
+      firstIn: '22:00:00',
+      lastOut: '06:00:00',
+      totalHours: 8,
+      totalMinutes: 0,
+      isLate: false,
+      isEarlyOut: false,
+      overtime: 0,
+    });
+  });
+
+  it('flags a late arrival after midnight', () => {
+    const { attendance } = computeDailyAttendance(
+      1,
+      '2026-03-02',
+      [punch('2026-03-03T00:30:00'), punch('2026-03-03T06:00:00')],
+      settings,
+    );
+
+    expect(attendance).toMatchObject({ isLate: true, lateMinutes: 150 });
+  });
+});
+
+describe('day status precedence', () => {
+  // 2026-03-08 is a Sunday
+  const date = '2026-03-08';
+  const holiday = { date, name: 'Holi', isPaid: true, location: null };
+  const leave = { userId: 1, fromDate: '2026-03-06', toDate: '2026-03-10', name: 'Casual', isPaid: true };
+
+  it('marks a holiday over a weekly off and leave', () => {
+    const { attendance } = computeDailyAttendance(1, date, [], {
+      ...SETTINGS,
+      weeklyOffDays: [0],
+      holidays: [holiday],
+      leaves: [leave],
+    });
+
+    expect(attendance.status).toBe('HOLIDAY');
+    expect(attendance.holiday).toEqual({ name: 'Holi', isPaid: true });
+    expect(attendance.leave).toBeNull();
+  });
+
+  it('marks a weekly off over leave', () => {
+    const { attendance } = computeDailyAttendance(1, date, [], {
+      ...SETTINGS,
+      weeklyOffDays: [0],
+      leaves: [leave],
+    });
+
+    expect(attendance.status).toBe('WEEKLY_OFF');
+    expect(attendance.leave).toBeNull();
+  });
+
+  it('marks leave over absence', () => {
+    const { attendance } = computeDailyAttendance(1, date, [], { ...SETTINGS, leaves: [leave] });
+
+    expect(attendance.status).toBe('LEAVE');
+    expect(attendance.leave).toEqual({ name: 'Casual', isPaid: true });
+  });
+
+  it('prefers a holiday for the employee location over one for everyone', () => {
+    const { attendance } = computeDailyAttendance(1, date, [], {
+      ...SETTINGS,
+      holidays: [holiday, { date, name: 'Ugadi', isPaid: false, location: 'Bengaluru' }],
+      employeeLocations: { 1: 'Bengaluru' },
+    });
+
+    expect(attendance.holiday).toEqual({ name: 'Ugadi', isPaid: false });
+  });
+
+  it('does not apply minimum hours when working an off day', () => {
+    const { attendance } = computeDailyAttendance(
+      1,
+      date,
+      [punch(`${date}T10:00:00`), punch(`${date}T12:00:00`)],
+      { ...SETTINGS, holidays: [holiday], fullDayHours: 8, halfDayHours: 4 },
+    );
+
+    expect(attendance.status).toBe('PRESENT');
+  });
+});
+
+describe('double taps and rounding', () => {
+  it('ignores punches within the window of the last kept one', () => {
+    const punches = ['09:00:50', '09:00:00', '09:00:20', '09:02:00'].map((time) => punch(`2026-03-02T${time}`));
+    const times = (list: EnginePunch[]) => list.map((p) => p.timestamp.toISOString().substring(11, 19));
+
+    const { kept, ignored } = debouncePunches(punches, 60);
+
+    expect(times(kept)).toEqual(['09:00:00', '09:02:00']);
+    expect(times(ignored)).toEqual(['09:00:20', '09:00:50']);
+    expect(times(debouncePunches(punches).kept)).toEqual(['09:00:00', '09:00:20', '09:00:50', '09:02:00']);
+  });
+
+  it('keeps ignored punches on the day without pairing them', () => {
+    const { attendance } = computeDailyAttendance(
+      1,
+      '2026-03-02',
+      [punch('2026-03-02T09:00:00'), punch('2026-03-02T09:00:30'), punch('2026-03-02T18:00:00')],
+      { ...SETTINGS, debounceSeconds: 60 },
+    );
+
+    expect(attendance).toMatchObject({ status: 'PRESENT', totalHours: 9, totalMinutes: 0 });
+    expect(attendance.punches.map(({ time, type, isIgnored }) => ({ time, type, isIgnored }))).toEqual([
+      { time: '09:00:00', type: 'IN', isIgnored: undefined },
+      { time: '09:00:30', type: 'UNKNOWN', isIgnored: true },
+      { time: '18:00:00', type: 'OUT', isIgnored: undefined },
+    ]);
+  });
+
+  it('rounds worked time but flags lateness from the actual times', () => {
+    const { attendance } = computeDailyAttendance(
+      1,
+      '2026-03-02',
+      [punch('2026-03-02T09:20:00'), punch('2026-03-02T17:53:00')],
+      { ...SETTINGS, roundingMinutes: 15 },
+    );
+
+    expect(attendance).toMatchObject({
+      firstIn: '09:20:00',
+      lastOut: '17:53:00',
+      totalHours: 8,
+      totalMinutes: 45,
+      isLate: true,
+      lateMinutes: 20,
+    });
+  });
+});
+
+describe('applyBreakPolicy', () => {
+  const breakPolicy = (times: string[], settings: AttendanceSettings) => {
+    const punches = classifyPunches(times.map((time) => punch(`2026-03-02T${time}`)), 'ALTERNATE');
+    return applyBreakPolicy(punches, sumPairedMinutes(punches), settings);
+  };
+
+  it('pays breaks between pairs up to the maximum and flags a long one', () => {
+    expect(
+      breakPolicy(['09:00:00', '13:00:00', '14:00:00', '18:00:00'], {
+        ...SETTINGS,
+        maxPaidBreakMinutes: 30,
+        longBreakMinutes: 45,
+      }),
+    ).toEqual({
+      workedMinutes: 510,
+      breakMinutes: 60,
+      paidBreakMinutes: 30,
+      lunchDeductionMinutes: 0,
+      isLongBreak: true,
+    });
+  });
+
+  it('deducts the lunch from a single pair longer than the threshold', () => {
+    const settings = { ...SETTINGS, lunchDeductionAfterHours: 6, lunchDeductionMinutes: 30 };
+
+    expect(breakPolicy(['09:00:00', '18:00:00'], settings)).toMatchObject({
+      workedMinutes: 510,
+      lunchDeductionMinutes: 30,
+    });
+    expect(breakPolicy(['09:00:00', '15:00:00'], settings)).toMatchObject({
+      workedMinutes: 360,
+      lunchDeductionMinutes: 0,
+    });
+  });
+
+  it('does not deduct the lunch when a break was punched', () => {
+    expect(
+      breakPolicy(['09:00:00', '13:00:00', '13:20:00', '18:00:00'], {
+        ...SETTINGS,
+        lunchDeductionAfterHours: 6,
+        lunchDeductionMinutes: 30,
+      }),
+    ).toMatchObject({ workedMinutes: 520, breakMinutes: 20, paidBreakMinutes: 0, lunchDeductionMinutes: 0 });
+  });
+
+  it('ignores the gap before an unpaired punch', () => {
+    expect(
+      breakPolicy(['09:00:00', '13:00:00', '17:00:00'], {
+        ...SETTINGS,
+        maxPaidBreakMinutes: 30,
+        lunchDeductionAfterHours: 3,
+        lunchDeductionMinutes: 30,
+      }),
+    ).toMatchObject({ workedMinutes: 240, breakMinutes: 0, lunchDeductionMinutes: 0 });
+  });
+});
+
+describe('applyMinimumHours', () => {
+  const settings = { ...SETTINGS, fullDayHours: 8, halfDayHours: 4 };
+
+  it.each([
+    [239, 'ABSENT'],
+    [240, 'HALF_DAY'],
+    [479, 'HALF_DAY'],
+    [480, 'PRESENT'],
+  ] as const)('marks a complete day of %i minutes %s', (workedMinutes, status) => {
+    expect(applyMinimumHours('PRESENT', workedMinutes, settings)).toBe(status);
+  });
+
+  it('leaves incomplete days alone', () => {
+    expect(applyMinimumHours('INCOMPLETE', 60, settings)).toBe('INCOMPLETE');
+  });
+
+  it('applies only the thresholds that are set', () => {
+    expect(applyMinimumHours('PRESENT', 60, SETTINGS)).toBe('PRESENT');
+    expect(applyMinimumHours('PRESENT', 60, { ...SETTINGS, fullDayHours: 8 })).toBe('HALF_DAY');
+    expect(applyMinimumHours('PRESENT', 300, { ...SETTINGS, halfDayHours: 4 })).toBe('PRESENT');
+  });
+
+  it('counts the worked time after breaks and lunch', () => {
+    const { attendance } = computeDailyAttendance(
+      1,
+      '2026-03-02',
+      [punch('2026-03-02T09:00:00'), punch('2026-03-02T17:15:00')],
+      { ...settings, lunchDeductionAfterHours: 6, lunchDeductionMinutes: 30 },
+    );
+
+    expect(attendance).toMatchObject({ status: 'HALF_DAY', totalHours: 7, totalMinutes: 45 });
+  });
+});
+
+describe('applyOvertimePolicy', () => {
+  // Monday 2026-03-02 to Saturday 2026-03-07, ten hours a day
+  const week = ['02', '03', '04', '05', '06', '07'].map((day) => workedDay(`2026-03-${day}`, 600, 120));
+
+  it('caps a day at the daily cap', () => {
+    const [day] = applyOvertimePolicy([week[0]], { ...SETTINGS, overtimeDailyCapMinutes: 90 });
+
+    expect(day.overtime).toBe(90);
+  });
+
+  it('stops counting once the weekly cap is used up', () => {
+    const days = applyOvertimePolicy(week, { ...SETTINGS, overtimeWeeklyCapMinutes: 300 });
+
+    expect(days.map((day) => day.overtime)).toEqual([120, 120, 60, 0, 0, 0]);
+  });
+
+  it('starts the weekly cap afresh on Monday', () => {
+    const days = applyOvertimePolicy([...week, workedDay('2026-03-09', 600, 120)], {
+      ...SETTINGS,
+      overtimeWeeklyCapMinutes: 300,
+    });
+
+    expect(days[days.length - 1].overtime).toBe(120);
+  });
+
+  it('counts the days of a week before the month when they are passed in', () => {
+    // Monday 2026-03-30 to Thursday 2026-04-02, reported for April
+    const days = ['2026-03-30', '2026-03-31', '2026-04-01', '2026-04-02'].map((date) => workedDay(date, 600, 120));
+    const april = applyOvertimePolicy(days, { ...SETTINGS, overtimeWeeklyCapMinutes: 300 }).filter(
+      (day) => day.date >= '2026-04-01',
+    );
+
+    expect(getWeekStart('2026-04-01')).toBe('2026-03-30');
+    expect(getWeekEnd('2026-04-30')).toBe('2026-05-03');
+    expect(april.map((day) => day.overtime)).toEqual([60, 0]);
+  });
+
+  it('drops overtime under the minimum block', () => {
+    const days = applyOvertimePolicy([workedDay('2026-03-02', 510, 30), week[1]], {
+      ...SETTINGS,
+      overtimeMinimumMinutes: 60,
+    });
+
+    expect(days.map((day) => day.overtime)).toEqual([0, 120]);
+  });
+
+  it('counts hours past the weekly hours in weekly mode, within the caps', () => {
+    const days = applyOvertimePolicy(week, {
+      ...SETTINGS,
+      overtimeMode: 'WEEKLY',
+      overtimeWeeklyHours: 48,
+      overtimeDailyCapMinutes: 90,
+    });
+
+    // 50 hours worked by Friday, 60 by Saturday
+    expect(days.map((day) => day.overtime)).toEqual([0, 0, 0, 0, 90, 90]);
+  });
+});
+
+describe('applyPenaltyRules', () => {
+  const lateDay = (date: string, lateMinutes: number, status: DailyAttendance['status'] = 'PRESENT') => ({
+    ...createAbsentDay(1, date, status),
+    isLate: lateMinutes > SETTINGS.lateThresholdMinutes,
+    lateMinutes,
+  });
+  const earlyOutDay = (date: string) => ({ ...createAbsentDay(1, date, 'PRESENT'), isEarlyOut: true });
+  const rules = { ...SETTINGS, lateMarksPerPenalty: 3, veryLateMinutes: 60 };
+
+  it('deducts a very late day on its own and every full set of late marks', () => {
+    const days = [
+      ...['02', '03', '04', '05'].map((day) => lateDay(`2026-03-${day}`, 20)),
+      lateDay('2026-03-06', 75),
+    ];
+
+    expect(applyPenaltyRules(days, rules)).toEqual({ veryLateDays: 1, penaltyDays: 1 });
+  });
+
+  it('counts late marks within each calendar month', () => {
+    const days = ['2026-02-26', '2026-02-27', '2026-03-02', '2026-03-03'].map((date) => lateDay(date, 20));
+
+    expect(applyPenaltyRules(days, rules)).toEqual({ veryLateDays: 0, penaltyDays: 0 });
+  });
+
+  it('counts early exits as their own marks, at the days per penalty', () => {
+    const days = ['02', '03', '04', '05', '06'].map((day) => earlyOutDay(`2026-03-${day}`));
+
+    expect(
+      applyPenaltyRules(days, { ...rules, earlyOutMarksPerPenalty: 2, markPenaltyDays: 0.25 }),
+    ).toEqual({ veryLateDays: 0, penaltyDays: 0.5 });
+  });
+
+  it('counts a very late half day as a late mark only', () => {
+    const days = [lateDay('2026-03-02', 180, 'HALF_DAY'), lateDay('2026-03-03', 20), lateDay('2026-03-04', 20)];
+
+    expect(applyPenaltyRules(days, rules)).toEqual({ veryLateDays: 0, penaltyDays: 0.5 });
+  });
+
+  it('deducts nothing while the rules are off', () => {
+    const days = [lateDay('2026-03-02', 120), lateDay('2026-03-03', 20), earlyOutDay('2026-03-04')];
+
+    expect(applyPenaltyRules(days, SETTINGS)).toEqual({ veryLateDays: 0, penaltyDays: 0 });
+  });
+});
+
+describe('lateness on short days', () => {
+  const settings = { ...SETTINGS, fullDayHours: 8, halfDayHours: 4 };
+
+  it('flags a late half day without early-out or overtime', () => {
+    const { attendance } = computeDailyAttendance(
+      1,
+      '2026-03-02',
+      [punch('2026-03-02T13:00:00'), punch('2026-03-02T18:00:00')],
+      settings,
+    );
+
+    expect(attendance).toMatchObject({
+      status: 'HALF_DAY',
+      isLate: true,
+      lateMinutes: 240,
+      isEarlyOut: false,
+      overtime: 0,
+    });
+  });
+
+  it('flags a late incomplete day', () => {
+    const { attendance } = computeDailyAttendance(1, '2026-03-02', [punch('2026-03-02T10:30:00')], settings);
+
+    expect(attendance).toMatchObject({ status: 'INCOMPLETE', isLate: true, lateMinutes: 90 });
+  });
+
+  it('counts them as late marks, and only the incomplete one as very late', () => {
+    const days = [
+      computeDailyAttendance(1, '2026-03-02', [punch('2026-03-02T13:00:00'), punch('2026-03-02T18:00:00')], settings),
+      computeDailyAttendance(1, '2026-03-03', [punch('2026-03-03T10:30:00')], settings),
+      computeDailyAttendance(1, '2026-03-04', [punch('2026-03-04T09:20:00'), punch('2026-03-04T18:00:00')], settings),
+    ].map(({ attendance }) => attendance);
+
+    expect(
+      summarizeAttendance(days, { ...settings, veryLateMinutes: 60, lateMarksPerPenalty: 2 }),
+    ).toMatchObject({ lateDays: 3, veryLateDays: 1, penaltyDays: 1 });
+  });
+});
+
+describe('comp-off', () => {
+  const settings = { ...SETTINGS, weeklyOffDays: [0], fullDayHours: 8, halfDayHours: 4, compOffExpiryDays: 30 };
+
+  it('credits a full or half day for working an off day, by the hours', () => {
+    // 2026-03-01 is a Sunday
+    expect(compOffCredit(workedDay('2026-03-01', 540, 0), settings)).toBe(1);
+    expect(compOffCredit(workedDay('2026-03-01', 300, 0), settings)).toBe(0.5);
+    expect(compOffCredit(workedDay('2026-03-01', 180, 0), settings)).toBe(0);
+    expect(compOffCredit({ ...workedDay('2026-03-01', 540, 0), status: 'INCOMPLETE' }, settings)).toBe(0);
+    expect(compOffCredit(workedDay('2026-03-02', 540, 0), settings)).toBe(0);
+    expect(
+      compOffCredit(workedDay('2026-03-02', 540, 0), {
+        ...settings,
+        holidays: [{ date: '2026-03-02', name: 'Holi', isPaid: true, location: null }],
+      }),
+    ).toBe(1);
+  });
+
+  it('uses the oldest credits first and expires what is left', () => {
+    const days = [
+      workedDay('2026-03-01', 540, 0),
+      workedDay('2026-03-08', 300, 0),
+      createAbsentDay(1, '2026-03-10', 'COMP'),
+      workedDay('2026-03-15', 540, 0),
+      createAbsentDay(1, '2026-03-20', 'COMP'),
+      createAbsentDay(1, '2026-04-20', 'COMP'),
+      // After the ledger date
+      workedDay('2026-05-03', 540, 0),
+    ];
+
+    expect(buildCompOffLedger(1, days, settings, '2026-04-30')).toEqual({
+      earnedDays: 2.5,
+      usedDays: 3,
+      expiredDays: 0.5,
+      availableDays: 0,
+      unbackedDays: 1,
+      entries: [
+        { date: '2026-03-01', kind: 'EARNED', days: 1, note: 'Worked on weekly off', expiresOn: '2026-03-31' },
+        { date: '2026-03-08', kind: 'EARNED', days: 0.5, note: 'Worked on weekly off', expiresOn: '2026-04-07' },
+        { date: '2026-03-10', kind: 'USED', days: 1, note: 'Comp off' },
+        { date: '2026-03-15', kind: 'EARNED', days: 1, note: 'Worked on weekly off', expiresOn: '2026-04-14' },
+        { date: '2026-03-20', kind: 'USED', days: 1, note: 'Comp off' },
+        { date: '2026-04-14', kind: 'EXPIRED', days: 0.5, note: 'Earned 2026-03-15' },
+        { date: '2026-04-20', kind: 'USED', days: 1, note: 'Comp off without a credit' },
+      ],
+    });
+  });
+
+  it('keeps credits without an expiry', () => {
+    const ledger = buildCompOffLedger(
+      1,
+      [workedDay('2026-03-01', 540, 0)],
+      { ...settings, compOffExpiryDays: null },
+      '2027-03-01',
+    );
+
+    expect(ledger).toMatchObject({ earnedDays: 1, expiredDays: 0, availableDays: 1 });
+    expect(ledger.entries[0].expiresOn).toBeNull();
+  });
+});
@@ -0,0 +1,1026 @@
+import type {
+  AttendanceSettings,
+  AttendanceStatus,
+  CompOffEntry,
+  CompOffLedger,
+  DailyAttendance,
+  EmployeeLeave,
+  Holiday,
+  OvertimeStatus,
+  PairingMode,
+  PunchRecord,
+  RosterEntry,
+  RosterPattern,
+  Shift,
+  UserAttendanceSummary,
+} from './types';
+import { DEFAULT_SETTINGS, PunchState } from './types';
+import { DEFAULT_TIME_ZONE, addDays, daysBetween, formatTime, timeToMinutes } from './utils';
+
+/**
+ * Attendance rules engine
+ *
+ * Single source of truth for the daily computation (debounce, pairing,
+ * status, first in / last out, breaks and worked minutes with rounding,
+ * late / early / overtime flags), the overtime policy, the per-user
+ * summary with its penalties and the comp-off ledger. Both the in-memory
+ * mode and the database mode call into these functions so the same punches
+ * always produce the same numbers.
+ *
+ * Everything here is pure: no I/O, no clock, no framework types.
+ */
+
+/**
+ * Minimal punch shape accepted by the engine
+ */
+export interface EnginePunch {
+  timestamp: Date;
+  verificationType: string;
+  isEdited?: boolean;
+  state?: number | null; // Device state (PunchState), used by DEVICE_STATE pairing
+}
+
+/**
+ * A punch after pairing, pointing back to the caller's original object
+ */
+export interface ClassifiedPunch<T extends EnginePunch = EnginePunch> {
+  source: T;
+  type: PunchRecord['type'];
+  isPaired: boolean;
+  isIgnored?: boolean; // Double tap left out of pairing
+}
+
+/**
+ * Result of computing a single day
+ */
+export interface ComputedDay<T extends EnginePunch = EnginePunch> {
+  attendance: DailyAttendance;
+  punches: ClassifiedPunch<T>[];
+}
+
+/**
+ * Fields needed to evaluate the schedule-dependent rules of a day
+ */
+export type DayRuleInput = Pick<
+  DailyAttendance,
+  'status' | 'firstIn' | 'lastOut' | 'totalHours' | 'totalMinutes'
+>;
+
+/**
+ * Schedule-dependent flags of a day
+ */
+export type DayRuleResult = Required<
+  Pick<
+    DailyAttendance,
+    'isLate' | 'isEarlyOut' | 'overtime' | 'lateMinutes' | 'earlyArrivalMinutes'
+  >
+>;
+
+/**
+ * Break time of a day and what the break policy made of it
+ */
+export type BreakResult = Required<
+  Pick<
+    DailyAttendance,
+    'breakMinutes' | 'paidBreakMinutes' | 'lunchDeductionMinutes' | 'isLongBreak'
+  >
+>;
+
+/**
+ * Counters and totals of a user summary (everything except identity and records)
+ */
+export type AttendanceTotals = Omit<
+  UserAttendanceSummary,
+  'userId' | 'userName' | 'dailyRecords'
+>;
+
+/**
+ * Day of the week of a YYYY-MM-DD date (0=Sun ... 6=Sat)
+ */
+export function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Holiday on a date for a user: one for their location first, else one for
+ * everyone
+ */
+export function findHoliday(
+  userId: number,
+  date: string,
+  settings: AttendanceSettings,
+): Holiday | null {
+  const location = settings.employeeLocations?.[userId];
+  const onDate = (settings.holidays ?? []).filter((h) => h.date === date);
+  return (
+    onDate.find((h) => h.location && h.location === location) ??
+    onDate.find((h) => !h.location) ??
+    null
+  );
+}
+
+/**
+ * Approved leave of a user covering a date
+ */
+export function findLeave(
+  userId: number,
+  date: string,
+  settings: AttendanceSettings,
+): EmployeeLeave | null {
+  return (
+    (settings.leaves ?? []).find(
+      (l) => l.userId === userId && l.fromDate <= date && date <= l.toDate,
+    ) ?? null
+  );
+}
+
+/**
+ * Days of leave a date range takes for a user: weekly offs and holidays in
+ * it are not counted
+ */
+export function countLeaveDays(
+  userId: number,
+  fromDate: string,
+  toDate: string,
+  settings: AttendanceSettings,
+): number {
+  const weeklyOffDays = getWeeklyOffDays(userId, settings);
+  let days = 0;
+  for (let i = 0; i <= daysBetween(fromDate, toDate); i++) {
+    const date = addDays(fromDate, i);
+    if (
+      !weeklyOffDays.includes(getWeekday(date)) &&
+      !findHoliday(userId, date, settings)
+    ) {
+      days++;
+    }
+  }
+  return days;
+}
+
+/**
+ * Get day code for a YYYY-MM-DD date (Sun, Mon, ...)
+ */
+export function getDayCode(date: string): string {
+  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return days[getWeekday(date)];
+}
+
+/**
+ * Weekly off days of a user: their own when configured, else the
+ * organisation's
+ */
+export function getWeeklyOffDays(
+  userId: number,
+  settings: AttendanceSettings,
+): number[] {
+  return (
+    settings.employeeWeeklyOffDays?.[userId] ?? settings.weeklyOffDays ?? []
+  );
+}
+
+/**
+ * Direction implied by a device state, or null when the state is missing or
+ * not one of the check/break/overtime states
+ */
+export function getStateDirection(
+  state: number | null | undefined,
+): 'IN' | 'OUT' | null {
+  switch (state) {
+    case PunchState.CHECK_IN:
+    case PunchState.BREAK_IN:
+    case PunchState.OVERTIME_IN:
+      return 'IN';
+    case PunchState.CHECK_OUT:
+    case PunchState.BREAK_OUT:
+    case PunchState.OVERTIME_OUT:
+      return 'OUT';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Sort punches by time and label them IN/OUT
+ * ALTERNATE: even positions = IN, odd positions = OUT; a trailing IN is unpaired
+ * DEVICE_STATE: the device state decides; punches without one take the
+ * opposite of the previous punch. An IN is paired with an immediately
+ * following OUT; anything else (a forgotten punch) stays unpaired
+ */
+export function classifyPunches<T extends EnginePunch>(
+  punches: T[],
+  mode: PairingMode = 'ALTERNATE',
+): ClassifiedPunch<T>[] {
+  const sorted = [...punches].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  );
+
+  if (mode === 'ALTERNATE') {
+    return sorted.map((source, index) => {
+      const isEvenIndex = index % 2 === 0;
+      return {
+        source,
+        type: isEvenIndex ? 'IN' : 'OUT',
+        isPaired: isEvenIndex ? index + 1 < sorted.length : true,
+      };
+    });
+  }
+
+  const classified: ClassifiedPunch<T>[] = [];
+  for (const source of sorted) {
+    const previous = classified[classified.length - 1];
+    const type =
+      getStateDirection(source.state) ??
+      (previous?.type === 'IN' ? 'OUT' : 'IN');
+
+    if (type === 'OUT' && previous?.type === 'IN' && !previous.isPaired) {
+      previous.isPaired = true;
+      classified.push({ source, type, isPaired: true });
+    } else {
+      classified.push({ source, type, isPaired: false });
+    }
+  }
+  return classified;
+}
+
+/**
+ * Split a day's punches into the ones to pair and the double taps to
+ * ignore: a punch within the debounce window of the last kept punch
+ * collapses into it
+ */
+export function debouncePunches<T extends EnginePunch>(
+  punches: T[],
+  debounceSeconds = 0,
+): { kept: T[]; ignored: T[] } {
+  const sorted = [...punches].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  );
+  if (debounceSeconds <= 0) return { kept: sorted, ignored: [] };
+
+  const kept: T[] = [];
+  const ignored: T[] = [];
+  for (const punch of sorted) {
+    const last = kept[kept.length - 1];
+    if (
+      last &&
+      punch.timestamp.getTime() - last.timestamp.getTime() <=
+        debounceSeconds * 1000
+    ) {
+      ignored.push(punch);
+    } else {
+      kept.push(punch);
+    }
+  }
+  return { kept, ignored };
+}
+
+/**
+ * Determine the day status from its classified punches
+ * PRESENT: every punch paired, INCOMPLETE: a missing punch, ABSENT: none
+ * (with ALTERNATE pairing this is even count = PRESENT, odd = INCOMPLETE)
+ */
+export function resolveStatus(punches: ClassifiedPunch[]): AttendanceStatus {
+  if (punches.length === 0) return 'ABSENT';
+  return punches.every((p) => p.isPaired) ? 'PRESENT' : 'INCOMPLETE';
+}
+
+/**
+ * Status of a complete working day by the hours worked: under the half-day
+ * hours it is ABSENT, under the full-day hours HALF_DAY (unset rules are off)
+ */
+export function applyMinimumHours(
+  status: AttendanceStatus,
+  workedMinutes: number,
+  settings: AttendanceSettings,
+): AttendanceStatus {
+  if (status !== 'PRESENT') return status;
+  if (settings.halfDayHours && workedMinutes < settings.halfDayHours * 60) {
+    return 'ABSENT';
+  }
+  if (settings.fullDayHours && workedMinutes < settings.fullDayHours * 60) {
+    return 'HALF_DAY';
+  }
+  return status;
+}
+
+/**
+ * Whole clock minutes of a punch (seconds dropped), so pairs across midnight
+ * count too; with a rounding step, rounded to its nearest multiple (whole
+ * and half hour zone offsets keep this on the local clock)
+ */
+function punchMinutes(punch: ClassifiedPunch, roundingMinutes = 0): number {
+  const minutes = Math.floor(punch.source.timestamp.getTime() / 60000);
+  return roundingMinutes > 0
+    ? Math.round(minutes / roundingMinutes) * roundingMinutes
+    : minutes;
+}
+
+/**
+ * Sum of (in1 -> out1) + (in2 -> out2) + ... in whole minutes
+ * Only paired punches count; a paired IN is always followed by its OUT
+ */
+export function sumPairedMinutes(
+  punches: ClassifiedPunch[],
+  roundingMinutes = 0,
+): number {
+  let totalMinutes = 0;
+
+  for (let i = 0; i < punches.length - 1; i++) {
+    if (punches[i].type !== 'IN' || !punches[i].isPaired) continue;
+
+    const inMinutes = punchMinutes(punches[i], roundingMinutes);
+    const outMinutes = punchMinutes(punches[i + 1], roundingMinutes);
+    totalMinutes += Math.max(0, outMinutes - inMinutes);
+  }
+
+  return totalMinutes;
+}
+
+/**
+ * Apply the break policy to a day's paired minutes: breaks between pairs
+ * count as worked up to the maximum paid break, and a day of a single
+ * in/out pair longer than the deduction threshold loses the unpaid lunch
+ */
+export function applyBreakPolicy(
+  punches: ClassifiedPunch[],
+  pairedMinutes: number,
+  settings: AttendanceSettings,
+): BreakResult & { workedMinutes: number } {
+  const breaks: number[] = [];
+  for (let i = 0; i < punches.length - 1; i++) {
+    const [out, nextIn] = [punches[i], punches[i + 1]];
+    if (out.type !== 'OUT' || !out.isPaired) continue;
+    if (nextIn.type !== 'IN' || !nextIn.isPaired) continue;
+
+    const outMinutes = punchMinutes(out, settings.roundingMinutes);
+    const inMinutes = punchMinutes(nextIn, settings.roundingMinutes);
+    breaks.push(Math.max(0, inMinutes - outMinutes));
+  }
+
+  const breakMinutes = breaks.reduce((sum, minutes) => sum + minutes, 0);
+  const paidBreakMinutes = Math.min(
+    breakMinutes,
+    settings.maxPaidBreakMinutes ?? 0,
+  );
+
+  // Two punches mean no break was recorded, so the lunch is assumed taken
+  const afterHours = settings.lunchDeductionAfterHours;
+  const lunchDeductionMinutes =
+    punches.length === 2 &&
+    punches.every((p) => p.isPaired) &&
+    afterHours &&
+    pairedMinutes > afterHours * 60
+      ? Math.min(settings.lunchDeductionMinutes ?? 0, pairedMinutes)
+      : 0;
+
+  const longBreakMinutes = settings.longBreakMinutes;
+  const isLongBreak =
+    !!longBreakMinutes && breaks.some((minutes) => minutes > longBreakMinutes);
+
+  return {
+    workedMinutes: pairedMinutes + paidBreakMinutes - lunchDeductionMinutes,
+    breakMinutes,
+    paidBreakMinutes,
+    lunchDeductionMinutes,
+    isLongBreak,
+  };
+}
+
+/**
+ * Worked minutes of a day that can count towards overtime: time before the
+ * work start is left out unless the policy counts it
+ */
+function countedOvertimeMinutes(
+  day: Pick<DayRuleInput, 'totalHours' | 'totalMinutes'> &
+    Pick<DailyAttendance, 'earlyArrivalMinutes'>,
+  settings: AttendanceSettings,
+): number {
+  const workedMinutes = day.totalHours * 60 + day.totalMinutes;
+  return settings.overtimeCountsPreShift === false
+    ? Math.max(0, workedMinutes - (day.earlyArrivalMinutes ?? 0))
+    : workedMinutes;
+}
+
+/**
+ * Evaluate late / early-out / overtime for a day: lateness counts on any
+ * worked day with an in-punch, early-out and overtime only on complete days
+ */
+export function evaluateDayRules(
+  day: DayRuleInput,
+  settings: AttendanceSettings,
+): DayRuleResult {
+  const isWorked =
+    day.status === 'PRESENT' ||
+    day.status === 'HALF_DAY' ||
+    day.status === 'INCOMPLETE';
+  if (!isWorked || day.firstIn === null) {
+    return {
+      isLate: false,
+      isEarlyOut: false,
+      overtime: 0,
+      lateMinutes: 0,
+      earlyArrivalMinutes: 0,
+    };
+  }
+
+  // Minutes since the attendance day started, so times after midnight
+  // on an overnight shift compare as later than the evening before
+  const dayStartMinutes = timeToMinutes(settings.dayStartTime ?? '00:00');
+  const toDayMinutes = (time: string) => {
+    const minutes = timeToMinutes(time);
+    return minutes < dayStartMinutes ? minutes + 24 * 60 : minutes;
+  };
+
+  const workStartMinutes = toDayMinutes(settings.workStartTime);
+  let workEndMinutes = toDayMinutes(settings.workEndTime);
+  // A shift ending at or before its start time ends the next morning
+  if (workEndMinutes <= workStartMinutes) workEndMinutes += 24 * 60;
+
+  const firstInMinutes = toDayMinutes(day.firstIn);
+  const lateMinutes = Math.max(0, firstInMinutes - workStartMinutes);
+  const earlyArrivalMinutes = Math.max(0, workStartMinutes - firstInMinutes);
+  const isLate = lateMinutes > settings.lateThresholdMinutes;
+
+  if (day.status !== 'PRESENT') {
+    return {
+      isLate,
+      isEarlyOut: false,
+      overtime: 0,
+      lateMinutes,
+      earlyArrivalMinutes,
+    };
+  }
+
+  const isEarlyOut =
+    day.lastOut !== null &&
+    toDayMinutes(day.lastOut) <
+      workEndMinutes - settings.earlyOutThresholdMinutes;
+
+  const expectedMinutes =
+    workEndMinutes - workStartMinutes - (settings.breakMinutes ?? 0);
+  const overtime = Math.max(
+    0,
+    countedOvertimeMinutes({ ...day, earlyArrivalMinutes }, settings) -
+      expectedMinutes,
+  );
+
+  return { isLate, isEarlyOut, overtime, lateMinutes, earlyArrivalMinutes };
+}
+
+/**
+ * Settings for a day on a rostered shift: the shift's times, grace periods
+ * and break replace the organisation work hours
+ */
+export function applyShift(
+  settings: AttendanceSettings,
+  shift: Shift | null | undefined,
+): AttendanceSettings {
+  if (!shift) return settings;
+  return {
+    ...settings,
+    workStartTime: shift.startTime,
+    workEndTime: shift.endTime,
+    lateThresholdMinutes: shift.lateThresholdMinutes,
+    earlyOutThresholdMinutes: shift.earlyOutThresholdMinutes,
+    breakMinutes: shift.breakMinutes,
+  };
+}
+
+/**
+ * Shift scheduled on a date from one employee's roster: a dated entry, else
+ * the weekly pattern covering the date (the latest started one wins), else
+ * null for the organisation work hours
+ */
+export function resolveScheduledShift(
+  date: string,
+  entries: RosterEntry[],
+  patterns: RosterPattern[],
+  shifts: Map<number, Shift>,
+): Shift | null {
+  const entry = entries.find((e) => e.date === date);
+  if (entry) return shifts.get(entry.shiftId) ?? null;
+
+  let pattern: RosterPattern | null = null;
+  for (const candidate of patterns) {
+    if (candidate.shiftIds.length === 0) continue;
+    if (candidate.startDate > date) continue;
+    if (candidate.endDate !== null && candidate.endDate < date) continue;
+    if (!pattern || candidate.startDate > pattern.startDate) {
+      pattern = candidate;
+    }
+  }
+  if (!pattern) return null;
+
+  const week = Math.floor(daysBetween(pattern.startDate, date) / 7);
+  return shifts.get(pattern.shiftIds[week % pattern.shiftIds.length]) ?? null;
+}
+
+/**
+ * Build the record for a day without any punches (ABSENT, WEEKLY_OFF or
+ * HOLIDAY)
+ */
+export function createAbsentDay(
+  userId: number,
+  date: string,
+  status: AttendanceStatus = 'ABSENT',
+): DailyAttendance {
+  return {
+    userId,
+    date,
+    dayCode: getDayCode(date),
+    firstIn: null,
+    lastOut: null,
+    totalHours: 0,
+    totalMinutes: 0,
+    punches: [],
+    status,
+    isLate: false,
+    isEarlyOut: false,
+    overtime: 0,
+  };
+}
+
+/**
+ * Compute attendance for a single user-day from its raw punches
+ */
+export function computeDailyAttendance<T extends EnginePunch>(
+  userId: number,
+  date: string,
+  punches: T[],
+  settings: AttendanceSettings,
+): ComputedDay<T> {
+  const found = findHoliday(userId, date, settings);
+  const holiday = found && { name: found.name, isPaid: found.isPaid };
+  const onLeave = findLeave(userId, date, settings);
+  const leave = onLeave && { name: onLeave.name, isPaid: onLeave.isPaid };
+
+  const isWeeklyOff = getWeeklyOffDays(userId, settings).includes(
+    getWeekday(date),
+  );
+
+  // A holiday takes precedence over a weekly off, and both over leave, on
+  // the same day
+  if (punches.length === 0) {
+    const status = holiday
+      ? 'HOLIDAY'
+      : isWeeklyOff
+        ? 'WEEKLY_OFF'
+        : leave
+          ? 'LEAVE'
+          : 'ABSENT';
+    return {
+      attendance: {
+        ...createAbsentDay(userId, date, status),
+        holiday,
+        leave: status === 'LEAVE' ? leave : null,
+      },
+      punches: [],
+    };
+  }
+
+  // Double taps stay on the day, marked ignored, but are never paired
+  const { kept, ignored } = debouncePunches(punches, settings.debounceSeconds);
+  const classified = classifyPunches(kept, settings.pairingMode);
+  const allPunches: ClassifiedPunch<T>[] = [
+    ...classified,
+    ...ignored.map((source) => ({
+      source,
+      type: 'UNKNOWN' as const,
+      isPaired: false,
+      isIgnored: true,
+    })),
+  ].sort(
+    (a, b) => a.source.timestamp.getTime() - b.source.timestamp.getTime(),
+  );
+  const punchCount = classified.length;
+  const timeZone = settings.timeZone ?? DEFAULT_TIME_ZONE;
+
+  const firstIn = formatTime(classified[0].source.timestamp, timeZone);
+  const lastOut =
+    punchCount > 1
+      ? formatTime(classified[punchCount - 1].source.timestamp, timeZone)
+      : null;
+
+  const { workedMinutes, ...breaks } = applyBreakPolicy(
+    classified,
+    sumPairedMinutes(classified, settings.roundingMinutes),
+    settings,
+  );
+  // Minimum hours only apply on days the employee was expected to work
+  const status =
+    holiday || isWeeklyOff || leave
+      ? resolveStatus(classified)
+      : applyMinimumHours(resolveStatus(classified), workedMinutes, settings);
+
+  const day: DayRuleInput = {
+    status,
+    firstIn,
+    lastOut,
+    totalHours: Math.floor(workedMinutes / 60),
+    totalMinutes: Math.round(workedMinutes % 60),
+  };
+
+  return {
+    attendance: {
+      userId,
+      date,
+      dayCode: getDayCode(date),
+      ...day,
+      punches: allPunches.map((p) => ({
+        time: formatTime(p.source.timestamp, timeZone),
+        type: p.type,
+        verificationType: p.source.verificationType,
+        isPaired: p.isPaired,
+        isEdited: p.source.isEdited,
+        isIgnored: p.isIgnored,
+      })),
+      ...evaluateDayRules(day, settings),
+      ...breaks,
+      holiday,
+      leave,
+    },
+    punches: allPunches,
+  };
+}
+
+/**
+ * Monday of the week a YYYY-MM-DD date falls in
+ */
+export function getWeekStart(date: string): string {
+  return addDays(date, -((getWeekday(date) + 6) % 7));
+}
+
+/**
+ * Sunday of the week a YYYY-MM-DD date falls in
+ */
+export function getWeekEnd(date: string): string {
+  return addDays(getWeekStart(date), 6);
+}
+
+/**
+ * Approval state of a day's overtime: the decision made for exactly these
+ * minutes, else pending
+ */
+export function resolveOvertimeStatus(
+  userId: number,
+  date: string,
+  overtime: number,
+  settings: AttendanceSettings,
+): OvertimeStatus {
+  const decision = (settings.overtimeDecisions ?? []).find(
+    (d) => d.userId === userId && d.date === date && d.minutes === overtime,
+  );
+  return decision?.status ?? 'PENDING';
+}
+
+/**
+ * Apply the overtime policy to one user's days: a day's overtime (beyond
+ * its expected hours, or in WEEKLY mode the part of it past the weekly
+ * hours) counts from the minimum block, up to the daily cap and what is
+ * left of the weekly cap, and needs approval when the policy says so.
+ * Weeks run Monday to Sunday; pass the whole weeks around a period (from
+ * the getWeekStart of its first day to the getWeekEnd of its last) and drop
+ * the days outside it afterwards, so weeks crossing its edges count in full.
+ */
+export function applyOvertimePolicy(
+  dailyRecords: DailyAttendance[],
+  settings: AttendanceSettings,
+): DailyAttendance[] {
+  const weeklyLimit = (settings.overtimeWeeklyHours ?? 48) * 60;
+  const weekWorked = new Map<string, number>();
+  const weekOvertime = new Map<string, number>();
+  const overtimeByDate = new Map<string, number>();
+
+  const sorted = [...dailyRecords].sort((a, b) => a.date.localeCompare(b.date));
+  for (const daily of sorted) {
+    const week = getWeekStart(daily.date);
+    let overtime = daily.overtime;
+
+    if (settings.overtimeMode === 'WEEKLY') {
+      const counted =
+        daily.status === 'PRESENT'
+          ? countedOvertimeMinutes(daily, settings)
+          : 0;
+      const before = weekWorked.get(week) ?? 0;
+      weekWorked.set(week, before + counted);
+      overtime =
+        Math.max(0, before + counted - weeklyLimit) -
+        Math.max(0, before - weeklyLimit);
+    }
+
+    if (overtime < (settings.overtimeMinimumMinutes ?? 0)) overtime = 0;
+    if (settings.overtimeDailyCapMinutes != null) {
+      overtime = Math.min(overtime, settings.overtimeDailyCapMinutes);
+    }
+    const usedThisWeek = weekOvertime.get(week) ?? 0;
+    if (settings.overtimeWeeklyCapMinutes != null) {
+      overtime = Math.max(
+        0,
+        Math.min(overtime, settings.overtimeWeeklyCapMinutes - usedThisWeek),
+      );
+    }
+    weekOvertime.set(week, usedThisWeek + overtime);
+    overtimeByDate.set(daily.date, overtime);
+  }
+
+  return dailyRecords.map((daily) => {
+    const overtime = overtimeByDate.get(daily.date) ?? 0;
+    return {
+      ...daily,
+      overtime,
+      overtimeStatus:
+        settings.overtimeRequiresApproval && overtime > 0
+          ? resolveOvertimeStatus(daily.userId, daily.date, overtime, settings)
+          : undefined,
+    };
+  });
+}
+
+/**
+ * Comp-off credit a day earns: a full day for working a weekly off or a
+ * holiday, half a day when the work falls short of the full-day hours, and
+ * none short of the half-day hours
+ */
+export function compOffCredit(
+  day: Pick<
+    DailyAttendance,
+    'userId' | 'date' | 'status' | 'totalHours' | 'totalMinutes'
+  >,
+  settings: AttendanceSettings,
+): number {
+  if (day.status !== 'PRESENT') return 0;
+  const isOffDay =
+    findHoliday(day.userId, day.date, settings) !== null ||
+    getWeeklyOffDays(day.userId, settings).includes(getWeekday(day.date));
+  if (!isOffDay) return 0;
+
+  const workedMinutes = day.totalHours * 60 + day.totalMinutes;
+  if (
+    settings.halfDayHours != null &&
+    workedMinutes < settings.halfDayHours * 60
+  ) {
+    return 0;
+  }
+  if (
+    settings.fullDayHours != null &&
+    workedMinutes < settings.fullDayHours * 60
+  ) {
+    return 0.5;
+  }
+  return 1;
+}
+
+/**
+ * An employee's comp-off ledger up to a date: credits earned on weekly offs
+ * and holidays, used by COMP days oldest first, and expired once they have
+ * been usable for the expiry period
+ */
+export function buildCompOffLedger(
+  userId: number,
+  days: Pick<
+    DailyAttendance,
+    'date' | 'status' | 'totalHours' | 'totalMinutes'
+  >[],
+  settings: AttendanceSettings,
+  asOf: string,
+): CompOffLedger {
+  const expiryDays = settings.compOffExpiryDays ?? null;
+  const credits: { date: string; expiresOn: string | null; left: number }[] =
+    [];
+  const entries: CompOffEntry[] = [];
+  let earnedDays = 0;
+  let usedDays = 0;
+  let expiredDays = 0;
+  let unbackedDays = 0;
+
+  // Credits whose last usable day is before the date run out
+  const expireBefore = (date: string) => {
+    for (const credit of credits) {
+      if (
+        credit.left > 0 &&
+        credit.expiresOn !== null &&
+        credit.expiresOn < date
+      ) {
+        entries.push({
+          date: credit.expiresOn,
+          kind: 'EXPIRED',
+          days: credit.left,
+          note: `Earned ${credit.date}`,
+        });
+        expiredDays += credit.left;
+        credit.left = 0;
+      }
+    }
+  };
+
+  const sorted = days
+    .filter((day) => day.date <= asOf)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  for (const day of sorted) {
+    expireBefore(day.date);
+
+    if (day.status === 'COMP') {
+      let needed = 1;
+      for (const credit of credits) {
+        const taken = Math.min(credit.left, needed);
+        credit.left -= taken;
+        needed -= taken;
+        if (needed === 0) break;
+      }
+      usedDays += 1;
+      unbackedDays += needed;
+      entries.push({
+        date: day.date,
+        kind: 'USED',
+        days: 1,
+        note: needed > 0 ? 'Comp off without a credit' : 'Comp off',
+      });
+      continue;
+    }
+
+    const credit = compOffCredit({ ...day, userId }, settings);
+    if (credit === 0) continue;
+    const holiday = findHoliday(userId, day.date, settings);
+    const expiresOn = expiryDays === null ? null : addDays(day.date, expiryDays);
+    credits.push({ date: day.date, expiresOn, left: credit });
+    earnedDays += credit;
+    entries.push({
+      date: day.date,
+      kind: 'EARNED',
+      days: credit,
+      note: holiday ? `Worked on ${holiday.name}` : 'Worked on weekly off',
+      expiresOn,
+    });
+  }
+  expireBefore(addDays(asOf, 1));
+
+  return {
+    earnedDays,
+    usedDays,
+    expiredDays,
+    availableDays: credits.reduce((sum, credit) => sum + credit.left, 0),
+    unbackedDays,
+    entries: entries.sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+/**
+ * Days deducted by the penalty rules: a day more than the very-late limit
+ * late costs the very-late deduction (and is not also a late mark), and
+ * every full set of late or early-out marks within a calendar month costs
+ * the mark deduction. A half day already loses half its pay, so however
+ * late it started it only counts as a late mark.
+ */
+export function applyPenaltyRules(
+  dailyRecords: DailyAttendance[],
+  settings: AttendanceSettings,
+): Pick<AttendanceTotals, 'veryLateDays' | 'penaltyDays'> {
+  const lateMarks = new Map<string, number>();
+  const earlyOutMarks = new Map<string, number>();
+  const addMark = (marks: Map<string, number>, date: string) => {
+    const month = date.substring(0, 7);
+    marks.set(month, (marks.get(month) ?? 0) + 1);
+  };
+  let veryLateDays = 0;
+
+  for (const daily of dailyRecords) {
+    const veryLateMinutes = settings.veryLateMinutes;
+    if (
+      veryLateMinutes &&
+      daily.status !== 'HALF_DAY' &&
+      (daily.lateMinutes ?? 0) > veryLateMinutes
+    ) {
+      veryLateDays++;
+    } else if (daily.isLate) {
+      addMark(lateMarks, daily.date);
+    }
+    if (daily.isEarlyOut) addMark(earlyOutMarks, daily.date);
+  }
+
+  const countPenalties = (
+    marks: Map<string, number>,
+    marksPerPenalty: number | null | undefined,
+  ) => {
+    if (!marksPerPenalty) return 0;
+    let penalties = 0;
+    for (const count of marks.values()) {
+      penalties += Math.floor(count / marksPerPenalty);
+    }
+    return penalties;
+  };
+  const markPenalties =
+    countPenalties(lateMarks, settings.lateMarksPerPenalty) +
+    countPenalties(earlyOutMarks, settings.earlyOutMarksPerPenalty);
+  const penaltyDays =
+    markPenalties * (settings.markPenaltyDays ?? 0.5) +
+    veryLateDays * (settings.veryLatePenaltyDays ?? 0.5);
+
+  return { veryLateDays, penaltyDays: Math.round(penaltyDays * 100) / 100 };
+}
+
+/**
+ * Aggregate daily records into the per-user counters and totals, with the
+ * deductions of the settings' penalty rules
+ */
+export function summarizeAttendance(
+  dailyRecords: DailyAttendance[],
+  settings: AttendanceSettings = DEFAULT_SETTINGS,
+): AttendanceTotals {
+  let totalWorkingMinutes = 0;
+  let presentMinutes = 0;
+  let lateDays = 0;
+  let earlyOutDays = 0;
+  let overtimeMinutes = 0;
+  let unapprovedOvertimeMinutes = 0;
+  let presentDays = 0;
+  let halfDays = 0;
+  let absentDays = 0;
+  let incompleteDays = 0;
+  let compDays = 0;
+  let weeklyOffDays = 0;
+  let holidayDays = 0;
+  let paidHolidayDays = 0;
+  let holidayWorkDays = 0;
+  let holidayWorkMinutes = 0;
+  let leaveDays = 0;
+  let paidLeaveDays = 0;
+
+  for (const daily of dailyRecords) {
+    if (
+      daily.holiday &&
+      (daily.status === 'PRESENT' ||
+        daily.status === 'HALF_DAY' ||
+        daily.status === 'INCOMPLETE')
+    ) {
+      holidayWorkDays++;
+      holidayWorkMinutes += daily.totalHours * 60 + daily.totalMinutes;
+    }
+
+    // Half and incomplete days can be late too
+    if (daily.isLate) lateDays++;
+
+    if (daily.status === 'PRESENT') {
+      totalWorkingMinutes += daily.totalHours * 60 + daily.totalMinutes;
+      presentMinutes += daily.totalHours * 60 + daily.totalMinutes;
+
+      if (daily.isEarlyOut) earlyOutDays++;
+      // Overtime awaiting approval or rejected does not reach payout
+      if (daily.overtime > 0) {
+        if (!daily.overtimeStatus || daily.overtimeStatus === 'APPROVED') {
+          overtimeMinutes += daily.overtime;
+        } else {
+          unapprovedOvertimeMinutes += daily.overtime;
+        }
+      }
+
+      presentDays++;
+    } else if (daily.status === 'HALF_DAY') {
+      halfDays++;
+      totalWorkingMinutes += daily.totalHours * 60 + daily.totalMinutes;
+    } else if (daily.status === 'ABSENT') {
+      absentDays++;
+    } else if (daily.status === 'INCOMPLETE') {
+      incompleteDays++;
+      totalWorkingMinutes += daily.totalHours * 60 + daily.totalMinutes;
+    } else if (daily.status === 'COMP') {
+      compDays++;
+    } else if (daily.status === 'WEEKLY_OFF') {
+      weeklyOffDays++;
+    } else if (daily.status === 'HOLIDAY') {
+      holidayDays++;
+      if (daily.holiday?.isPaid) paidHolidayDays++;
+    } else if (daily.status === 'LEAVE') {
+      leaveDays++;
+      if (daily.leave?.isPaid) paidLeaveDays++;
+    }
+  }
+
+  // Average only from complete days (present days and their minutes; half
+  // and incomplete days still count towards the total)
+  const averageHoursPerDay =
+    presentDays > 0 ? presentMinutes / 60 / presentDays : 0;
+
+  return {
+    totalDays: dailyRecords.length,
+    presentDays,
+    halfDays,
+    absentDays,
+    incompleteDays,
+    compDays,
+    weeklyOffDays,
+    holidayDays,
+    paidHolidayDays,
+    holidayWorkDays,
+    holidayWorkMinutes,
+    leaveDays,
+    paidLeaveDays,
+    totalWorkingHours: Math.floor(totalWorkingMinutes / 60),
+    totalWorkingMinutes: Math.round(totalWorkingMinutes % 60),
+    averageHoursPerDay: Math.round(averageHoursPerDay * 100) / 100,
+    lateDays,
+    earlyOutDays,
+    ...applyPenaltyRules(dailyRecords, settings),
+    overtimeMinutes,
+    unapprovedOvertimeMinutes,
+  };
+}
@@ -5,7 +5,7 @@ export interface RawAttendanceRecord {
   userId: number;
   timestamp: Date;
   verificationType: number;
-  inOutStatus: number;
+  inOutStatus: number | null; // Device state (see PunchState); null when not recorded
   workCode: number;
   reserved: number;
 }
@@ -25,7 +25,18 @@ export interface DailyAttendance {
   status: AttendanceStatus;
   isLate: boolean;
   isEarlyOut: boolean;
-  overtime: number; // minutes
+  overtime: number; // minutes, after the overtime policy
+  overtimeStatus?: OvertimeStatus; // Set when overtime needs approval
+  lateMinutes?: number; // Minutes the first in was past the work start time
+  earlyArrivalMinutes?: number; // Minutes the first in was before the work start time
+  breakMinutes?: number; // Time out between pairs
+  paidBreakMinutes?: number; // Part of the breaks counted as worked
+  lunchDeductionMinutes?: number; // Unpaid lunch taken off a day of one in/out pair
+  isLongBreak?: boolean; // A single break was longer than the long-break limit
+  shiftName?: string | null; // Rostered shift (database mode); null = organisation work hours
+  holiday?: Pick<Holiday, "name" | "isPaid"> | null; // Holiday on this date, whether or not worked
+  leave?: Pick<EmployeeLeave, "name" | "isPaid"> | null; // Approved leave on this date
+  override?: DayStatusOverride | null; // Status set by hand (database mode)
 }
 
 /**
@@ -37,6 +48,9 @@ export interface PunchRecord {
   verificationType: string;
   isPaired: boolean; // Whether this punch has a matching pair
   isEdited?: boolean; // Whether this punch was manually edited/added
+  isIgnored?: boolean; // Whether this punch was a double tap left out of pairing
+  isDeleted?: boolean; // Deleted by hand: kept for restoring, left out of pairing
+  deletion?: { by: string; reason: string; at: string } | null; // Who deleted it, why and when
 }
 
 /**
@@ -44,8 +58,20 @@ export interface PunchRecord {
  * PRESENT: Even number of punches (2, 4, 6...)
  * ABSENT: No punches (0)
  * INCOMPLETE: Odd number of punches (1, 3, 5...)
+ * WEEKLY_OFF: No punches on one of the employee's weekly off days
+ * HOLIDAY: No punches on a holiday in the calendar
+ * LEAVE: No punches on a day of approved leave
+ * HALF_DAY: Complete punches, but fewer hours worked than a full day needs
  */
-export type AttendanceStatus = "PRESENT" | "ABSENT" | "INCOMPLETE" | "COMP";
+export type AttendanceStatus =
+  | "PRESENT"
+  | "HALF_DAY"
+  | "ABSENT"
+  | "INCOMPLETE"
+  | "COMP"
+  | "WEEKLY_OFF"
+  | "HOLIDAY"
+  | "LEAVE";
 
 /**
  * User attendance summary
@@ -55,15 +81,27 @@ export interface UserAttendanceSummary {
   userName?: string; // Optional user name from user data file
   totalDays: number;
   presentDays: number;
+  halfDays: number;
   absentDays: number;
   incompleteDays: number;
   compDays: number;
+  weeklyOffDays: number;
+  holidayDays: number;
+  paidHolidayDays: number;
+  holidayWorkDays: number; // Days with punches on a holiday
+  holidayWorkMinutes: number;
+  leaveDays: number;
+  paidLeaveDays: number;
   totalWorkingHours: number;
   totalWorkingMinutes: number;
   averageHoursPerDay: number;
   lateDays: number;
   earlyOutDays: number;
-  overtimeMinutes: number;
+  veryLateDays: number; // Days late by more than the very-late limit
+  penaltyDays: number; // Days deducted by the late / early-out penalty rules
+  overtimeMinutes: number; // Overtime for payout (approved, when approval is required)
+  unapprovedOvertimeMinutes: number; // Overtime pending or rejected, left out of payout
+  compOffBalance?: CompOffBalance; // Comp-off credits at the end of the report
   dailyRecords: DailyAttendance[];
 }
 
@@ -81,6 +119,55 @@ export interface AttendanceReport {
   uniqueUsers: number;
   users: UserAttendanceSummary[];
   settings: AttendanceSettings;
+  diagnostics?: ImportDiagnostics;
+}
+
+/**
+ * Device check states recorded with each punch (ZKTeco numbering)
+ */
+export const PunchState = {
+  CHECK_IN: 0,
+  CHECK_OUT: 1,
+  BREAK_OUT: 2,
+  BREAK_IN: 3,
+  OVERTIME_IN: 4,
+  OVERTIME_OUT: 5,
+} as const;
+
+/**
+ * How punches of a day are labelled IN/OUT
+ * ALTERNATE: by position (1st IN, 2nd OUT, ...)
+ * DEVICE_STATE: by the device's check-in/out and break states, alternating
+ * only across punches without a state
+ */
+export type PairingMode = "ALTERNATE" | "DEVICE_STATE";
+
+/**
+ * How overtime is measured
+ * DAILY: worked time beyond each day's expected hours
+ * WEEKLY: worked time beyond the weekly hours, on the days that pass them
+ */
+export type OvertimeMode = "DAILY" | "WEEKLY";
+
+/**
+ * Approval state of a day's overtime
+ */
+export type OvertimeStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+/**
+ * Statuses a day can be set to by hand, in place of the computed one
+ */
+export type OverrideStatus = Extract<
+  AttendanceStatus,
+  "COMP" | "ABSENT" | "LEAVE" | "HOLIDAY"
+>;
+
+/**
+ * A day's status set by hand; it holds through recalculation until cleared
+ */
+export interface DayStatusOverride {
+  status: OverrideStatus;
+  reason: string;
 }
 
 /**
@@ -91,6 +178,37 @@ export interface AttendanceSettings {
   workEndTime: string; // HH:MM
   lateThresholdMinutes: number;
   earlyOutThresholdMinutes: number;
+  pairingMode?: PairingMode; // Defaults to ALTERNATE
+  timeZone?: string; // IANA zone that days are bucketed in; defaults to Asia/Kolkata
+  dayStartTime?: string; // HH:MM; punches before it belong to the previous day (overnight shifts)
+  breakMinutes?: number; // Unpaid break left out of the expected hours; defaults to 0
+  fullDayHours?: number | null; // Fewer worked hours make a working day HALF_DAY; off when unset
+  halfDayHours?: number | null; // Fewer worked hours make a working day ABSENT; off when unset
+  lunchDeductionMinutes?: number; // Unpaid lunch taken off a day of one in/out pair...
+  lunchDeductionAfterHours?: number | null; // ...longer than this; off when unset
+  maxPaidBreakMinutes?: number; // Breaks between pairs counted as worked, up to this; defaults to 0
+  longBreakMinutes?: number | null; // A single break longer than this flags the day; off when unset
+  debounceSeconds?: number; // Punches this soon after the last kept one are ignored; defaults to 0
+  roundingMinutes?: number; // In/out times rounded to the nearest 5, 10 or 15 for worked time; defaults to 0
+  lateMarksPerPenalty?: number | null; // Every this many late marks in a month deduct markPenaltyDays; off when unset
+  earlyOutMarksPerPenalty?: number | null; // Likewise for early exits; off when unset
+  markPenaltyDays?: number; // Days deducted per penalty of marks; defaults to 0.5
+  veryLateMinutes?: number | null; // Arriving more than this late deducts veryLatePenaltyDays; off when unset
+  veryLatePenaltyDays?: number; // Days deducted per very late day; defaults to 0.5
+  overtimeMode?: OvertimeMode; // Defaults to DAILY
+  overtimeWeeklyHours?: number; // WEEKLY mode: hours in a week before overtime; defaults to 48
+  overtimeMinimumMinutes?: number; // A day's overtime under this does not count; defaults to 0
+  overtimeCountsPreShift?: boolean; // Whether time before the work start counts; defaults to true
+  overtimeDailyCapMinutes?: number | null; // Most overtime counted in a day; off when unset
+  overtimeWeeklyCapMinutes?: number | null; // Most overtime counted in a week; off when unset
+  overtimeRequiresApproval?: boolean; // Overtime counts only once approved; defaults to false
+  overtimeDecisions?: OvertimeDecision[]; // Approvals and rejections; defaults to none
+  compOffExpiryDays?: number | null; // Days a comp-off credit stays usable; null = never expires
+  weeklyOffDays?: number[]; // Days of the week off (0=Sun ... 6=Sat); defaults to none
+  employeeWeeklyOffDays?: Record<number, number[]>; // Per user ID, overriding weeklyOffDays
+  holidays?: Holiday[]; // Holiday calendar; defaults to none
+  employeeLocations?: Record<number, string>; // Per user ID, for location-specific holidays
+  leaves?: EmployeeLeave[]; // Approved leave; defaults to none
 }
 
 /**
@@ -101,8 +219,343 @@ export const DEFAULT_SETTINGS: AttendanceSettings = {
   workEndTime: "18:30",
   lateThresholdMinutes: 15,
   earlyOutThresholdMinutes: 15,
+  pairingMode: "ALTERNATE",
+  timeZone: "Asia/Kolkata",
+  dayStartTime: "00:00",
+  weeklyOffDays: [],
 };
 
+/**
+ * Organisation-wide settings stored by the database mode
+ */
+export interface OrganisationSettings {
+  pairingMode: PairingMode;
+  timeZone: string; // IANA zone, e.g. "Asia/Kolkata"
+  dayStartTime: string; // HH:MM
+  weeklyOffDays: number[]; // 0=Sun ... 6=Sat; employees may override
+  fullDayHours: number | null; // Minimum hours for a full day; null for no rule
+  halfDayHours: number | null; // Minimum hours for a half day; null for no rule
+  lunchDeductionMinutes: number; // Unpaid lunch taken off a day of one in/out pair...
+  lunchDeductionAfterHours: number | null; // ...longer than this; null for no deduction
+  maxPaidBreakMinutes: number; // Breaks between pairs counted as worked, up to this
+  longBreakMinutes: number | null; // A longer single break flags the day; null for no flag
+  debounceSeconds: number; // Double taps within this many seconds collapse into one; 0 for off
+  roundingMinutes: number; // Worked time from in/out times rounded to 5, 10 or 15; 0 for off
+  lateMarksPerPenalty: number | null; // Every this many late marks in a month deduct markPenaltyDays
+  earlyOutMarksPerPenalty: number | null; // Likewise for early exits; null for no rule
+  markPenaltyDays: number; // Days deducted per penalty of marks
+  veryLateMinutes: number | null; // Arriving more than this late deducts veryLatePenaltyDays
+  veryLatePenaltyDays: number; // Days deducted per very late day
+  overtimeMode: OvertimeMode;
+  overtimeWeeklyHours: number; // WEEKLY mode: hours in a week before overtime
+  overtimeMinimumMinutes: number; // A day's overtime under this does not count
+  overtimeCountsPreShift: boolean; // Whether time before the work start counts
+  overtimeDailyCapMinutes: number | null; // null for no cap
+  overtimeWeeklyCapMinutes: number | null; // null for no cap
+  overtimeRequiresApproval: boolean; // Overtime reaches payout only once approved
+  compOffExpiryDays: number | null; // Days a comp-off credit stays usable; null = never expires
+}
+
+/**
+ * A named working shift; an end time before the start time ends the next day
+ */
+export interface Shift {
+  id?: number;
+  name: string;
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  lateThresholdMinutes: number; // Grace after the start time
+  earlyOutThresholdMinutes: number; // Grace before the end time
+  breakMinutes: number; // Unpaid break, left out of the expected hours
+}
+
+/**
+ * A date in the holiday calendar
+ */
+export interface Holiday {
+  id?: number;
+  date: string; // YYYY-MM-DD
+  name: string;
+  isPaid: boolean;
+  location: string | null; // Only employees at this location; null = everyone
+}
+
+/**
+ * How a leave type's yearly quota is credited
+ * YEARLY: all of it on 1 January
+ * MONTHLY: a twelfth at the start of each month
+ */
+export type LeaveAccrual = "YEARLY" | "MONTHLY";
+
+/**
+ * A kind of leave (casual, sick, earned, unpaid, ...)
+ */
+export interface LeaveType {
+  id?: number;
+  name: string;
+  isPaid: boolean;
+  yearlyQuota: number | null; // Days per year; null = no limit
+  accrual: LeaveAccrual;
+  carryForwardLimit: number; // Most unused days taken into the next year
+}
+
+export type LeaveApplicationStatus =
+  | "PENDING"
+  | "APPROVED"
+  | "REJECTED"
+  | "CANCELLED";
+
+/**
+ * A request for leave over a date range within one year
+ */
+export interface LeaveApplication {
+  id?: number;
+  userId: number; // Biometric ID
+  leaveTypeId: number;
+  fromDate: string; // YYYY-MM-DD
+  toDate: string; // YYYY-MM-DD, inclusive
+  days?: number; // Days taken, excluding weekly offs and holidays
+  reason: string | null;
+  status?: LeaveApplicationStatus;
+  decisionNote?: string | null;
+  decidedAt?: string | null;
+}
+
+/**
+ * Leave of one type available to an employee in a year
+ */
+export interface LeaveBalance {
+  leaveTypeId: number;
+  leaveType: string;
+  year: number;
+  openingDays: number; // Carried forward or set by hand
+  accruedDays: number; // Credited so far this year
+  usedDays: number; // Approved
+  pendingDays: number; // Awaiting approval
+  availableDays: number | null; // null = no limit
+}
+
+/**
+ * Approved leave of a user, as the engine sees it
+ */
+export interface EmployeeLeave {
+  userId: number;
+  fromDate: string; // YYYY-MM-DD
+  toDate: string; // YYYY-MM-DD, inclusive
+  name: string; // Leave type
+  isPaid: boolean;
+}
+
+/**
+ * A line of an employee's comp-off ledger
+ * EARNED: worked a weekly off or holiday (short of the full-day hours, half)
+ * USED: a COMP day, taken from the oldest credits still usable
+ * EXPIRED: what was left of a credit when it ran out
+ */
+export type CompOffEntryKind = "EARNED" | "USED" | "EXPIRED";
+
+export interface CompOffEntry {
+  date: string; // YYYY-MM-DD; for EXPIRED, the last day the credit was usable
+  kind: CompOffEntryKind;
+  days: number;
+  note: string;
+  expiresOn?: string | null; // EARNED: last day usable; null = never expires
+}
+
+/**
+ * Comp-off credits of an employee as of a date
+ */
+export interface CompOffBalance {
+  earnedDays: number;
+  usedDays: number;
+  expiredDays: number;
+  availableDays: number;
+}
+
+export interface CompOffLedger extends CompOffBalance {
+  unbackedDays: number; // COMP days taken without a credit to use (older data)
+  entries: CompOffEntry[]; // By date
+}
+
+/**
+ * A manager's decision on one employee-day's overtime; it covers the minutes
+ * it was made for, so a day whose overtime changes is pending again
+ */
+export interface OvertimeDecision {
+  userId: number; // Biometric ID
+  date: string; // YYYY-MM-DD
+  minutes: number;
+  status: Exclude<OvertimeStatus, "PENDING">;
+  note?: string | null;
+  decidedAt?: string;
+}
+
+/**
+ * Manual attendance changes kept in the audit log
+ */
+export type AuditAction =
+  | "ADD_PUNCH"
+  | "DELETE_PUNCH"
+  | "RESTORE_PUNCH"
+  | "MARK_COMP_OFF"
+  | "SET_STATUS"
+  | "CLEAR_STATUS";
+
+/**
+ * Who makes a manual change and why; both are required
+ */
+export interface ManualEdit {
+  actor: string;
+  reason: string;
+}
+
+/**
+ * A stored day as it stood before or after a manual change
+ */
+export interface AuditDaySnapshot {
+  status: AttendanceStatus;
+  firstIn: string | null; // HH:MM:SS
+  lastOut: string | null; // HH:MM:SS
+  totalMinutes: number;
+  punches: string[]; // HH:MM:SS, in the organisation time zone
+  override: DayStatusOverride | null;
+}
+
+/**
+ * One manual change to an employee-day
+ */
+export interface AuditEntry extends ManualEdit {
+  id: number;
+  userId: number; // Biometric ID
+  date: string; // YYYY-MM-DD, the attendance day changed
+  action: AuditAction;
+  before: AuditDaySnapshot | null; // null = the day was not stored yet
+  after: AuditDaySnapshot | null;
+  createdAt: string;
+}
+
+/**
+ * Shift for one employee on one date; overrides weekly patterns
+ */
+export interface RosterEntry {
+  id?: number;
+  userId: number; // Biometric ID
+  date: string; // YYYY-MM-DD
+  shiftId: number;
+}
+
+/**
+ * Weekly roster: each week from startDate takes the next shift of shiftIds
+ * in turn ([A] = A every week, [A, B] = A and B on alternate weeks)
+ */
+export interface RosterPattern {
+  id?: number;
+  userId: number; // Biometric ID
+  startDate: string; // YYYY-MM-DD, first day of the first week
+  endDate: string | null; // YYYY-MM-DD, inclusive; null = open-ended
+  shiftIds: number[];
+}
+
+/**
+ * Reason a line of an attendance file was not imported
+ */
+export type ImportIssueReason =
+  | "INVALID_USER_ID"
+  | "INVALID_TIMESTAMP"
+  | "FUTURE_DATE"
+  | "DUPLICATE";
+
+/**
+ * A single rejected line of an attendance file
+ */
+export interface ImportIssue {
+  line: number; // 1-based line number in the uploaded file (record number for binary logs)
+  raw: string;
+  reason: ImportIssueReason;
+  message: string;
+}
+
+/**
+ * Row-level report of an attendance file import
+ */
+export interface ImportDiagnostics {
+  totalLines: number; // Non-empty lines read from the file
+  issues: ImportIssue[];
+  counts: Record<ImportIssueReason, number>;
+}
+
+/**
+ * A stored day whose status would change if an import were committed
+ */
+export interface ImportStatusChange {
+  userId: number;
+  userName: string | null;
+  date: string; // YYYY-MM-DD
+  before: AttendanceStatus | null; // null when the day has no row yet
+  after: AttendanceStatus;
+}
+
+/**
+ * SAME_FILE: identical content was already imported
+ * OVERLAP: some punches in the file were already imported by another batch
+ */
+export type ImportWarningKind = "SAME_FILE" | "OVERLAP";
+
+/**
+ * Re-upload warning raised before punches are inserted
+ */
+export interface ImportWarning {
+  kind: ImportWarningKind;
+  batchId: number;
+  fileName: string;
+  uploadedAt: string; // ISO timestamp of the earlier batch
+  overlappingPunches: number;
+  message: string;
+}
+
+/**
+ * Dry-run result of a database attendance import (nothing is written)
+ */
+export interface ImportPreview {
+  newPunches: number;
+  duplicatePunches: number; // Already stored in the punches table
+  unknownBiometricIds: number[]; // Would be created as new employees
+  statusChanges: ImportStatusChange[];
+  newAbsentDays: number; // Rows that would be created as ABSENT (month fill-in)
+  warnings: ImportWarning[];
+  diagnostics: ImportDiagnostics;
+}
+
+/**
+ * Column of an import file: 0-based index, or header name (case-insensitive)
+ */
+export type ImportColumnRef = number | string;
+
+/**
+ * Where each attendance field lives in a vendor export
+ */
+export interface ImportProfileColumns {
+  employeeId: ImportColumnRef;
+  date: ImportColumnRef; // Date, or date and time when time is not mapped
+  time?: ImportColumnRef | null;
+  verifyType?: ImportColumnRef | null;
+  inOut?: ImportColumnRef | null;
+}
+
+/**
+ * Named column mapping for CSV/XLSX exports of other devices
+ * Formats use YYYY/YY, MM/M/MMM, DD/D, HH/H, hh/h, mm, ss and A tokens
+ */
+export interface ImportProfile {
+  id?: number;
+  name: string;
+  delimiter: string | null; // null = detect comma, semicolon or tab
+  hasHeader: boolean;
+  columns: ImportProfileColumns;
+  dateFormat: string; // e.g. "DD/MM/YYYY" or "YYYY-MM-DD HH:mm:ss"
+  timeFormat: string | null; // e.g. "hh:mm A", when time has its own column
+}
+
 /**
  * File upload response
  */
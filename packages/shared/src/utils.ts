@@ -1,7 +1,134 @@
+import type {
+  ImportDiagnostics,
+  ImportIssue,
+  ImportIssueReason,
+} from './types';
+
+/**
+ * Time zone used when none is configured (Asia/Kolkata, UTC+5:30)
+ */
+export const DEFAULT_TIME_ZONE = 'Asia/Kolkata';
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock fields of an instant in the given time zone
+ */
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatter.formatToParts(date)) {
+    if (type !== 'literal') parts[type] = parseInt(value, 10);
+  }
+  return parts;
+}
+
 /**
- * IST Timezone Configuration (Asia/Kolkata, UTC+5:30)
+ * Check that a string is an IANA time zone known to the runtime
  */
-const IST_TIMEZONE = 'Asia/Kolkata';
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that weekly off days are distinct weekdays (0=Sun ... 6=Sat)
+ */
+export function isValidWeeklyOffDays(days: unknown): days is number[] {
+  return (
+    Array.isArray(days) &&
+    days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6) &&
+    new Set(days).size === days.length
+  );
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string = DEFAULT_TIME_ZONE): number {
+  const p = getZonedParts(date, timeZone);
+  const wallMs = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wallMs - (date.getTime() - date.getMilliseconds())) / 60000);
+}
+
+/**
+ * Parse a local date-time without offset ("2025-12-01 09:47:09") as wall-clock
+ * time in the given zone; an unparseable string gives an invalid Date
+ */
+export function parseZonedDateTime(local: string, timeZone: string = DEFAULT_TIME_ZONE): Date {
+  const wallMs = Date.parse(`${local}+00:00`);
+  if (isNaN(wallMs)) return new Date(NaN);
+
+  // Re-check the offset at the result so times next to a DST change resolve
+  const offset = getTimeZoneOffsetMinutes(new Date(wallMs), timeZone);
+  const guess = wallMs - offset * 60000;
+  const actual = getTimeZoneOffsetMinutes(new Date(guess), timeZone);
+  return new Date(actual === offset ? guess : wallMs - actual * 60000);
+}
+
+/**
+ * Attendance day of a punch: its date in the time zone, or the day before
+ * when it falls before the day start time (overnight shifts)
+ */
+export function getAttendanceDate(
+  timestamp: Date,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  dayStartTime: string = '00:00'
+): string {
+  const date = formatDate(timestamp, timeZone);
+  const beforeDayStart =
+    timeToMinutes(formatTime(timestamp, timeZone)) < timeToMinutes(dayStartTime);
+  return beforeDayStart ? addDays(date, -1) : date;
+}
+
+/**
+ * Instant of a wall-clock time (HH:MM or HH:MM:SS) on an attendance day;
+ * times before the day start fall on the next calendar date
+ */
+export function parseAttendanceDateTime(
+  date: string,
+  time: string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  dayStartTime: string = '00:00'
+): Date {
+  const calendarDate =
+    timeToMinutes(time) < timeToMinutes(dayStartTime) ? addDays(date, 1) : date;
+  const fullTime = time.length === 5 ? `${time}:00` : time;
+  return parseZonedDateTime(`${calendarDate}T${fullTime}`, timeZone);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative when to is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
 
 /**
  * Format minutes to hours and minutes string
@@ -26,27 +153,19 @@ export function timeToMinutes(time: string): number {
 }
 
 /**
- * Format date to YYYY-MM-DD (hardcoded to IST timezone)
+ * Format date to YYYY-MM-DD in the given time zone
  */
-export function formatDate(date: Date): string {
-  // Convert to IST (Asia/Kolkata) timezone
-  const istDate = new Date(date.toLocaleString('en-US', { timeZone: IST_TIMEZONE }));
-  const year = istDate.getFullYear();
-  const month = String(istDate.getMonth() + 1).padStart(2, '0');
-  const day = String(istDate.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+export function formatDate(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
 }
 
 /**
- * Format time to HH:MM:SS (hardcoded to IST timezone)
+ * Format time to HH:MM:SS in the given time zone
  */
-export function formatTime(date: Date): string {
-  // Convert to IST (Asia/Kolkata) timezone
-  const istDate = new Date(date.toLocaleString('en-US', { timeZone: IST_TIMEZONE }));
-  const hours = String(istDate.getHours()).padStart(2, '0');
-  const minutes = String(istDate.getMinutes()).padStart(2, '0');
-  const seconds = String(istDate.getSeconds()).padStart(2, '0');
-  return `${hours}:${minutes}:${seconds}`;
+export function formatTime(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const { hour, minute, second } = getZonedParts(date, timeZone);
+  return [hour, minute, second].map((n) => String(n).padStart(2, '0')).join(':');
 }
 
 /**
@@ -82,6 +201,60 @@ export function getStatusColor(status: string): string {
     ABSENT: 'red',
     HALF_DAY: 'yellow',
     INCOMPLETE: 'orange',
+    WEEKLY_OFF: 'gray',
+    HOLIDAY: 'purple',
+    LEAVE: 'blue',
   };
   return colors[status] || 'gray';
 }
+
+/**
+ * Create an empty import diagnostics report
+ */
+export function createImportDiagnostics(): ImportDiagnostics {
+  return {
+    totalLines: 0,
+    issues: [],
+    counts: {
+      INVALID_USER_ID: 0,
+      INVALID_TIMESTAMP: 0,
+      FUTURE_DATE: 0,
+      DUPLICATE: 0,
+    },
+  };
+}
+
+/**
+ * Record a rejected line in an import diagnostics report
+ */
+export function addImportIssue(
+  diagnostics: ImportDiagnostics,
+  issue: ImportIssue
+): void {
+  diagnostics.issues.push(issue);
+  diagnostics.counts[issue.reason]++;
+}
+
+/**
+ * Get import issue reason label
+ */
+export function getImportIssueLabel(reason: ImportIssueReason): string {
+  const labels: Record<ImportIssueReason, string> = {
+    INVALID_USER_ID: 'Bad user ID',
+    INVALID_TIMESTAMP: 'Unparseable timestamp',
+    FUTURE_DATE: 'Future date',
+    DUPLICATE: 'Duplicate',
+  };
+  return labels[reason] || reason;
+}
+
+/**
+ * Serialize import issues to CSV (line, reason, message, raw)
+ */
+export function importDiagnosticsToCsv(diagnostics: ImportDiagnostics): string {
+  const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+  const rows = diagnostics.issues.map((issue) =>
+    [issue.line, issue.reason, issue.message, issue.raw].map(escape).join(',')
+  );
+  return ['line,reason,message,raw', ...rows].join('\n');
+}